@@ -1,3 +1,4 @@
+import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent } from "@/components/ui/dialog";
 import { Progress } from "@/components/ui/progress";
 
@@ -7,6 +8,7 @@ interface AnalysisProgressProps {
   currentRepo: number;
   repoName?: string;
   progress: number;
+  onCancel?: () => void;
 }
 
 export function AnalysisProgress({
@@ -15,6 +17,7 @@ export function AnalysisProgress({
   currentRepo,
   repoName,
   progress,
+  onCancel,
 }: AnalysisProgressProps) {
   return (
     <Dialog open={open} onOpenChange={() => {}}>
@@ -39,6 +42,14 @@ export function AnalysisProgress({
               )}
             </div>
           </div>
+
+          {onCancel && (
+            <div className="flex justify-end">
+              <Button variant="outline" size="sm" onClick={onCancel}>
+                Cancel
+              </Button>
+            </div>
+          )}
         </div>
       </DialogContent>
     </Dialog>
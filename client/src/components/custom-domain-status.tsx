@@ -0,0 +1,126 @@
+import { CheckCircle2, Loader2, XCircle } from "lucide-react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+
+export interface DnsRecord {
+  type: "A" | "AAAA" | "CNAME" | "TXT";
+  name: string;
+  value: string;
+}
+
+interface DnsRecordStatus extends DnsRecord {
+  found: string[];
+  ok: boolean;
+}
+
+interface CustomDomainStatusProps {
+  domain: string;
+  target: "github-pages" | "vercel";
+  username: string;
+  records: DnsRecord[];
+}
+
+/**
+ * DNS records to create for a custom domain, with a check of whether they are visible in
+ * public DNS yet
+ */
+export function CustomDomainStatus({ domain, target, username, records }: CustomDomainStatusProps) {
+  const [isChecking, setIsChecking] = useState(false);
+  const [statuses, setStatuses] = useState<DnsRecordStatus[] | null>(null);
+  const [propagated, setPropagated] = useState<boolean | null>(null);
+  const { toast } = useToast();
+
+  const handleCheck = async () => {
+    try {
+      setIsChecking(true);
+      const params = new URLSearchParams({ domain, target, username });
+      const res = await fetch(`/api/deploy/domain/status?${params.toString()}`);
+      if (!res.ok) {
+        throw new Error("Failed to check DNS records");
+      }
+
+      const data = await res.json();
+      setStatuses(data.records);
+      setPropagated(data.propagated);
+    } catch (error) {
+      toast({
+        title: "DNS Check Failed",
+        description: error instanceof Error ? error.message : "Failed to check DNS records",
+        variant: "destructive",
+      });
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const getStatus = (record: DnsRecord) =>
+    statuses?.find(
+      (status) =>
+        status.type === record.type && status.name === record.name && status.value === record.value,
+    );
+
+  return (
+    <div className="space-y-2 text-sm text-muted-foreground">
+      <p>Create these records at your DNS provider for {domain}:</p>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Type</TableHead>
+            <TableHead>Name</TableHead>
+            <TableHead>Value</TableHead>
+            {statuses && <TableHead className="sr-only">Status</TableHead>}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {records.map((record) => {
+            const status = getStatus(record);
+            return (
+              <TableRow key={`${record.type}-${record.name}-${record.value}`}>
+                <TableCell className="font-mono text-xs">{record.type}</TableCell>
+                <TableCell className="font-mono text-xs break-all">{record.name}</TableCell>
+                <TableCell className="font-mono text-xs break-all">{record.value}</TableCell>
+                {statuses && (
+                  <TableCell>
+                    {status?.ok ? (
+                      <CheckCircle2 className="h-4 w-4 text-green-600" />
+                    ) : (
+                      <XCircle className="h-4 w-4 text-muted-foreground" />
+                    )}
+                  </TableCell>
+                )}
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+
+      {propagated !== null && (
+        <p className={propagated ? "font-medium text-foreground" : undefined}>
+          {propagated
+            ? `${domain} points to your portfolio.`
+            : "The records are not visible yet. DNS changes can take up to 48 hours to propagate."}
+        </p>
+      )}
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={handleCheck}
+        disabled={isChecking}
+        className="gap-2"
+      >
+        {isChecking && <Loader2 className="h-4 w-4 animate-spin" />}
+        Check DNS
+      </Button>
+    </div>
+  );
+}
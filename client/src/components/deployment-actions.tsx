@@ -1,17 +1,65 @@
-import type { Repository } from "@shared/schema";
+import type { PortfolioItem, PortfolioSection } from "@shared/schema";
 import type { Theme } from "@shared/themes";
-import { Download, Github, Globe, Loader2 } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Cloud,
+  Download,
+  FileArchive,
+  FileJson,
+  Github,
+  Gitlab,
+  Globe,
+  Loader2,
+  Rocket,
+} from "lucide-react";
 import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { getGitHubToken } from "@/lib/storage";
+import {
+  addDeploymentRecord,
+  type DeploymentRecord,
+  type DeploymentSnapshot,
+  getCloudflareCredentials,
+  getCustomDomain,
+  getDeploymentHistory,
+  getGitHubDeployToken,
+  getGitHubToken,
+  getGitLabInstanceUrl,
+  getGitLabPagesDomain,
+  getGitLabToken,
+  getNetlifyToken,
+  getS3Target,
+  removeDeploymentRecord,
+  saveCloudflareCredentials,
+  saveCustomDomain,
+  saveGitHubDeployToken,
+  saveGitLabPagesDomain,
+  saveNetlifyToken,
+} from "@/lib/storage";
+import type { DnsRecord } from "./custom-domain-status";
+import { DeploymentHistoryDialog } from "./deployment-history-dialog";
 import { DeploymentOverlay } from "./deployment-overlay";
+import { S3DeployDialog } from "./s3-deploy-dialog";
+import {
+  type StaticHostDeployment,
+  StaticHostDeploymentOverlay,
+} from "./static-host-deployment-overlay";
 import { VercelDeploymentOverlay } from "./vercel-deployment-overlay";
 
+interface GitHubConfig {
+  importUrl: string;
+  deployUrl: string;
+  enterprise: boolean;
+  separateDeployHost: boolean;
+}
+
 interface DeploymentActionsProps {
   onSuccess?: () => void;
-  repositories: Repository[];
+  items: PortfolioItem[];
   userInfo?: {
     username: string;
     avatarUrl: string | null;
@@ -24,38 +72,101 @@ interface DeploymentActionsProps {
   } | null;
   theme?: Theme;
   customTitle?: string | null;
+  sections?: PortfolioSection[];
 }
 
 export function DeploymentActions({
-  repositories,
+  items,
   userInfo,
   introduction,
   theme,
   customTitle,
+  sections,
 }: DeploymentActionsProps) {
   const [isCreatingRepo, setIsCreatingRepo] = useState(false);
   const [isDeployingToPages, setIsDeployingToPages] = useState(false);
   const [isDownloading, setIsDownloading] = useState(false);
+  const [isDownloadingZip, setIsDownloadingZip] = useState(false);
+  const [isExportingResume, setIsExportingResume] = useState(false);
   const [showVercelDeployment, setShowVercelDeployment] = useState(false);
   const [showDeploymentOverlay, setShowDeploymentOverlay] = useState(false);
+  const [includeDetailPages, setIncludeDetailPages] = useState(false);
+  const exportMode = includeDetailPages ? "site" : "single";
+  const currentSnapshot: DeploymentSnapshot = {
+    exportMode,
+    items,
+    introduction,
+    themeId: theme?.id,
+    customTitle,
+    sections,
+  };
   const [deploymentInfo, setDeploymentInfo] = useState<{
     deploymentUrl: string;
     portfolioUrl: string;
     username: string;
+    customDomain: string | null;
+    dnsRecords: DnsRecord[];
   } | null>(null);
+  const [vercelDomain, setVercelDomain] = useState<{
+    customDomain: string | null;
+    dnsRecords: DnsRecord[];
+  }>({ customDomain: null, dnsRecords: [] });
+  const [customDomain, setCustomDomain] = useState(() => getCustomDomain() || "");
+  const [deployToken, setDeployToken] = useState(() => getGitHubDeployToken() || "");
+  const [isDeployingToNetlify, setIsDeployingToNetlify] = useState(false);
+  const [isDeployingToCloudflare, setIsDeployingToCloudflare] = useState(false);
+  const [netlifyToken, setNetlifyToken] = useState(() => getNetlifyToken() || "");
+  const [cloudflareAccountId, setCloudflareAccountId] = useState(
+    () => getCloudflareCredentials()?.accountId || "",
+  );
+  const [cloudflareToken, setCloudflareToken] = useState(
+    () => getCloudflareCredentials()?.apiToken || "",
+  );
+  const [isDeployingToGitLab, setIsDeployingToGitLab] = useState(false);
+  const [gitlabPagesDomain, setGitlabPagesDomain] = useState(() => getGitLabPagesDomain() || "");
+  const gitlabToken = getGitLabToken();
+  const gitlabInstanceUrl = getGitLabInstanceUrl();
+  const [staticHostDeployment, setStaticHostDeployment] = useState<StaticHostDeployment | null>(
+    null,
+  );
+  const [deploymentHistory, setDeploymentHistory] = useState(getDeploymentHistory);
+  const [historyPendingId, setHistoryPendingId] = useState<string | null>(null);
+  const { data: githubConfig } = useQuery<GitHubConfig>({ queryKey: ["/api/github/config"] });
   const { toast } = useToast();
 
+  const recordDeployment = (record: Parameters<typeof addDeploymentRecord>[0]) => {
+    addDeploymentRecord(record);
+    setDeploymentHistory(getDeploymentHistory());
+  };
+
+  const updateDeployToken = (token: string) => {
+    setDeployToken(token);
+    saveGitHubDeployToken(token.trim());
+  };
+
+  const updateNetlifyToken = (token: string) => {
+    setNetlifyToken(token);
+    saveNetlifyToken(token.trim());
+  };
+
+  const updateCloudflareCredentials = (accountId: string, apiToken: string) => {
+    setCloudflareAccountId(accountId);
+    setCloudflareToken(apiToken);
+    saveCloudflareCredentials(accountId.trim(), apiToken.trim());
+  };
+
   const handleDownload = async () => {
     try {
       setIsDownloading(true);
       const res = await apiRequest("POST", "/api/deploy/github", {
         accessToken: getGitHubToken(),
         downloadOnly: true,
-        repositories,
+        items,
         userInfo,
         introduction,
         themeId: theme?.id,
         customTitle,
+        sections,
       });
 
       if (!res.ok) {
@@ -91,16 +202,93 @@ export function DeploymentActions({
     }
   };
 
-  const handleDeployToPages = async () => {
+  const handleDownloadZip = async () => {
     try {
-      setIsDeployingToPages(true);
-      const res = await apiRequest("POST", "/api/deploy/github-pages", {
+      setIsDownloadingZip(true);
+      const res = await apiRequest("POST", "/api/deploy/zip", {
         accessToken: getGitHubToken(),
-        repositories,
-        userInfo,
+        exportMode,
+        items,
         introduction,
         themeId: theme?.id,
         customTitle,
+        sections,
+      });
+
+      const blob = await res.blob();
+      const url = window.URL.createObjectURL(blob);
+
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = "portfolio.zip";
+      document.body.appendChild(a);
+      a.click();
+
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+
+      toast({
+        title: "Portfolio Downloaded",
+        description: "Your portfolio ZIP is ready to upload to any static host.",
+      });
+    } catch (_error) {
+      toast({
+        title: "Error",
+        description: "Failed to create portfolio ZIP. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDownloadingZip(false);
+    }
+  };
+
+  const handleExportResume = async () => {
+    try {
+      setIsExportingResume(true);
+      const res = await apiRequest("POST", "/api/user/json-resume", {
+        items,
+        introduction,
+        userInfo,
+      });
+
+      const blob = new Blob([JSON.stringify(await res.json(), null, 2)], {
+        type: "application/json",
+      });
+      const url = window.URL.createObjectURL(blob);
+
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = "resume.json";
+      document.body.appendChild(a);
+      a.click();
+
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+
+      toast({
+        title: "Resume Exported",
+        description: "Your portfolio has been exported as a JSON Resume.",
+      });
+    } catch (_error) {
+      toast({
+        title: "Error",
+        description: "Failed to export JSON Resume. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExportingResume(false);
+    }
+  };
+
+  const handleDeployToPages = async (snapshot = currentSnapshot, restoredFrom?: string) => {
+    try {
+      setIsDeployingToPages(true);
+      const res = await apiRequest("POST", "/api/deploy/github-pages", {
+        accessToken: getGitHubToken(),
+        deployAccessToken: getGitHubDeployToken() || undefined,
+        customDomain: customDomain.trim() || undefined,
+        ...snapshot,
+        userInfo,
       });
 
       if (!res.ok) {
@@ -110,15 +298,29 @@ export function DeploymentActions({
       const data = await res.json();
 
       if (data.success) {
-        const username = localStorage.getItem("github_username");
+        const username = data.username || localStorage.getItem("github_username");
         if (!username) throw new Error("GitHub username not found");
+        const repoUrl = data.repoUrl || `https://github.com/${username}/${username}.github.io`;
 
         setDeploymentInfo({
-          deploymentUrl: `https://github.com/${username}/${username}.github.io/blob/main/portfolio.html`,
-          portfolioUrl: `https://${username}.github.io/portfolio.html`,
+          deploymentUrl:
+            snapshot.exportMode === "site"
+              ? `${repoUrl}/tree/main/portfolio`
+              : `${repoUrl}/blob/main/portfolio.html`,
+          portfolioUrl: data.url || `https://${username}.github.io/portfolio.html`,
           username,
+          customDomain: data.customDomain || null,
+          dnsRecords: data.dnsRecords || [],
         });
         setShowDeploymentOverlay(true);
+        recordDeployment({
+          target: "github-pages",
+          url: data.url,
+          commitSha: data.commitSha,
+          deploymentId: null,
+          snapshot,
+          restoredFrom,
+        });
       }
 
       toast({
@@ -136,7 +338,156 @@ export function DeploymentActions({
     }
   };
 
-  const handleVercelDeploy = async () => {
+  const handleNetlifyDeploy = async (snapshot = currentSnapshot, restoredFrom?: string) => {
+    try {
+      setIsDeployingToNetlify(true);
+      const token = netlifyToken.trim();
+      const res = await apiRequest("POST", "/api/deploy/netlify", {
+        accessToken: getGitHubToken() || undefined,
+        netlifyToken: token,
+        ...snapshot,
+        userInfo,
+      });
+      const data = await res.json();
+
+      setStaticHostDeployment({
+        provider: "Netlify",
+        url: data.url,
+        statusUrl: `/api/deploy/netlify/status/${data.deployId}?${new URLSearchParams({
+          accessToken: token,
+        })}`,
+      });
+      recordDeployment({
+        target: "netlify",
+        url: data.url,
+        commitSha: null,
+        deploymentId: data.deployId,
+        snapshot,
+        restoredFrom,
+      });
+      toast({
+        title: "Deployment Started",
+        description: "Your portfolio is being deployed to Netlify.",
+      });
+    } catch (_error) {
+      toast({
+        title: "Error",
+        description: "Failed to deploy to Netlify. Check your access token and try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDeployingToNetlify(false);
+    }
+  };
+
+  const handleCloudflareDeploy = async (snapshot = currentSnapshot, restoredFrom?: string) => {
+    try {
+      setIsDeployingToCloudflare(true);
+      const accountId = cloudflareAccountId.trim();
+      const apiToken = cloudflareToken.trim();
+      const res = await apiRequest("POST", "/api/deploy/cloudflare", {
+        accessToken: getGitHubToken() || undefined,
+        cloudflareAccountId: accountId,
+        cloudflareToken: apiToken,
+        ...snapshot,
+        userInfo,
+      });
+      const data = await res.json();
+
+      setStaticHostDeployment({
+        provider: "Cloudflare Pages",
+        url: data.url,
+        statusUrl: `/api/deploy/cloudflare/status/${data.deploymentId}?${new URLSearchParams({
+          accessToken: apiToken,
+          accountId,
+          projectName: data.projectName,
+        })}`,
+      });
+      recordDeployment({
+        target: "cloudflare",
+        url: data.url,
+        commitSha: null,
+        deploymentId: data.deploymentId,
+        snapshot,
+        restoredFrom,
+      });
+      toast({
+        title: "Deployment Started",
+        description: "Your portfolio is being deployed to Cloudflare Pages.",
+      });
+    } catch (_error) {
+      toast({
+        title: "Error",
+        description:
+          "Failed to deploy to Cloudflare Pages. Check your account ID and API token and try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDeployingToCloudflare(false);
+    }
+  };
+
+  const handleGitLabPagesDeploy = async (snapshot = currentSnapshot, restoredFrom?: string) => {
+    try {
+      setIsDeployingToGitLab(true);
+      if (!gitlabToken) {
+        throw new Error("GitLab token not found. Please reconnect your GitLab account.");
+      }
+
+      const res = await apiRequest("POST", "/api/deploy/gitlab-pages", {
+        accessToken: getGitHubToken() || undefined,
+        gitlabToken,
+        baseUrl: gitlabInstanceUrl || undefined,
+        pagesDomain: gitlabPagesDomain.trim() || undefined,
+        ...snapshot,
+      });
+      const data = await res.json();
+
+      // Without a pages job no pipeline publishes the commit, so there is nothing to wait for
+      if (!data.ciWarning) {
+        const statusParams = new URLSearchParams({
+          accessToken: gitlabToken,
+          sha: data.commitSha,
+        });
+        if (gitlabInstanceUrl) statusParams.set("baseUrl", gitlabInstanceUrl);
+        setStaticHostDeployment({
+          provider: "GitLab Pages",
+          url: data.url,
+          statusUrl: `/api/deploy/gitlab-pages/status/${data.projectId}?${statusParams}`,
+        });
+      }
+      recordDeployment({
+        target: "gitlab-pages",
+        url: data.url,
+        commitSha: data.commitSha,
+        deploymentId: null,
+        snapshot,
+        restoredFrom,
+      });
+      toast({
+        title: data.ciWarning
+          ? "GitLab Pages Not Published"
+          : data.wasCreated
+            ? "GitLab Pages Created"
+            : "GitLab Pages Updated",
+        description: data.message,
+        variant: data.ciWarning ? "destructive" : undefined,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error && error.message.startsWith("GitLab token")
+            ? error.message
+            : "Failed to deploy to GitLab Pages. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDeployingToGitLab(false);
+    }
+  };
+
+  const handleVercelDeploy = async (snapshot = currentSnapshot, restoredFrom?: string) => {
     try {
       setIsCreatingRepo(true);
 
@@ -156,7 +507,7 @@ export function DeploymentActions({
         .join("");
 
       localStorage.setItem("vercel_csrf_token", state);
-      localStorage.setItem("pending_repositories", JSON.stringify(repositories));
+      localStorage.setItem("pending_deployment", JSON.stringify({ snapshot, restoredFrom }));
 
       const params = new URLSearchParams({
         source: "marketplace",
@@ -189,6 +540,108 @@ export function DeploymentActions({
     }
   };
 
+  const handleS3Redeploy = async (snapshot: DeploymentSnapshot, restoredFrom: string) => {
+    try {
+      const target = getS3Target();
+      if (!target) {
+        throw new Error("S3 target not found. Please enter it in the S3 deploy dialog.");
+      }
+
+      const res = await apiRequest("POST", "/api/deploy/s3", {
+        ...snapshot,
+        accessToken: getGitHubToken() || undefined,
+        userInfo,
+        s3: target,
+      });
+      const data = await res.json();
+
+      recordDeployment({
+        target: "s3",
+        url: data.url,
+        commitSha: null,
+        deploymentId: null,
+        snapshot,
+        restoredFrom,
+      });
+      toast({
+        title: "Portfolio Deployed",
+        description: `Uploaded ${data.uploaded} files.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error && error.message.startsWith("S3 target")
+            ? error.message
+            : "Failed to deploy to S3. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRedeploy = async (record: DeploymentRecord) => {
+    setHistoryPendingId(record.id);
+    try {
+      switch (record.target) {
+        case "github-pages":
+          return await handleDeployToPages(record.snapshot, record.id);
+        case "vercel":
+          return await handleVercelDeploy(record.snapshot, record.id);
+        case "netlify":
+          return await handleNetlifyDeploy(record.snapshot, record.id);
+        case "cloudflare":
+          return await handleCloudflareDeploy(record.snapshot, record.id);
+        case "gitlab-pages":
+          return await handleGitLabPagesDeploy(record.snapshot, record.id);
+        case "s3":
+          return await handleS3Redeploy(record.snapshot, record.id);
+      }
+    } finally {
+      setHistoryPendingId(null);
+    }
+  };
+
+  const handleRollback = async (record: DeploymentRecord) => {
+    try {
+      setHistoryPendingId(record.id);
+      const res = await apiRequest("POST", "/api/deploy/github/rollback", {
+        accessToken: getGitHubToken(),
+        deployAccessToken: getGitHubDeployToken() || undefined,
+        target: record.target,
+        commitSha: record.commitSha,
+      });
+      const data = await res.json();
+
+      recordDeployment({
+        target: record.target,
+        url: record.url,
+        commitSha: data.commitSha,
+        deploymentId: null,
+        snapshot: record.snapshot,
+        restoredFrom: record.id,
+      });
+      toast({
+        title: "Deployment Rolled Back",
+        description: `${data.message}. ${
+          record.target === "vercel" ? "Vercel" : "GitHub Pages"
+        } may take a few moments to update.`,
+      });
+    } catch (_error) {
+      toast({
+        title: "Error",
+        description: "Failed to roll back the deployment. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setHistoryPendingId(null);
+    }
+  };
+
+  const handleRemoveDeployment = (record: DeploymentRecord) => {
+    removeDeploymentRecord(record.id);
+    setDeploymentHistory(getDeploymentHistory());
+  };
+
   useEffect(() => {
     const handleMessage = async (event: MessageEvent) => {
       if (event.origin !== window.location.origin) return;
@@ -198,21 +651,23 @@ export function DeploymentActions({
           const username = localStorage.getItem("github_username");
           if (!username) throw new Error("GitHub username not found");
 
-          const savedRepos = localStorage.getItem("pending_repositories");
-          if (!savedRepos) throw new Error("No pending repositories found");
-          const repositories = JSON.parse(savedRepos);
+          const pendingDeployment = localStorage.getItem("pending_deployment");
+          if (!pendingDeployment) throw new Error("No pending portfolio items found");
+          const { snapshot, restoredFrom } = JSON.parse(pendingDeployment) as {
+            snapshot: DeploymentSnapshot;
+            restoredFrom?: string;
+          };
 
           localStorage.setItem("vercel_access_token", event.data.token);
 
           const deployResponse = await apiRequest("POST", "/api/deploy/vercel", {
             accessToken: event.data.token,
+            deployAccessToken: getGitHubDeployToken() || undefined,
             teamId: event.data.teamId,
             username,
-            repositories,
-            themeId: theme?.id,
-            introduction,
+            customDomain: customDomain.trim() || undefined,
+            ...snapshot,
             userInfo,
-            customTitle,
           });
 
           if (!deployResponse.ok) {
@@ -223,6 +678,18 @@ export function DeploymentActions({
 
           localStorage.setItem("vercel_deployment_url", deployData.url);
           localStorage.setItem("vercel_deployment_id", deployData.deploymentId);
+          setVercelDomain({
+            customDomain: deployData.customDomain || null,
+            dnsRecords: deployData.dnsRecords || [],
+          });
+          recordDeployment({
+            target: "vercel",
+            url: deployData.url,
+            commitSha: deployData.commitSha,
+            deploymentId: deployData.deploymentId,
+            snapshot,
+            restoredFrom,
+          });
 
           setShowVercelDeployment(true);
 
@@ -230,8 +697,15 @@ export function DeploymentActions({
             title: "Deployment Started",
             description: "Your portfolio is being deployed to Vercel.",
           });
+          if (deployData.domainError) {
+            toast({
+              title: "Custom Domain Not Added",
+              description: deployData.domainError,
+              variant: "destructive",
+            });
+          }
 
-          localStorage.removeItem("pending_repositories");
+          localStorage.removeItem("pending_deployment");
           localStorage.removeItem("vercel_csrf_token");
         } catch (error) {
           console.error("Deployment error:", error);
@@ -255,10 +729,21 @@ export function DeploymentActions({
 
     window.addEventListener("message", handleMessage);
     return () => window.removeEventListener("message", handleMessage);
-  }, [toast, theme]);
+  }, [toast, userInfo, customDomain]);
 
   return (
-    <div className="mt-12 flex flex-wrap justify-center gap-4">
+    <div className="mt-12 flex flex-wrap justify-center items-center gap-4">
+      <div className="flex items-center gap-2 w-full justify-center">
+        <Switch
+          id="include-detail-pages"
+          checked={includeDetailPages}
+          onCheckedChange={setIncludeDetailPages}
+        />
+        <Label htmlFor="include-detail-pages">
+          Include project detail pages when deploying or downloading a ZIP (multi-page site)
+        </Label>
+      </div>
+
       <Button
         onClick={handleDownload}
         disabled={isDownloading}
@@ -274,8 +759,68 @@ export function DeploymentActions({
       </Button>
 
       <Button
-        onClick={handleDeployToPages}
-        disabled={isDeployingToPages}
+        onClick={handleDownloadZip}
+        disabled={isDownloadingZip}
+        variant="outline"
+        className="flex items-center gap-2"
+      >
+        {isDownloadingZip ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : (
+          <FileArchive className="h-4 w-4" />
+        )}
+        Download ZIP
+      </Button>
+
+      <Button
+        onClick={handleExportResume}
+        disabled={isExportingResume}
+        variant="outline"
+        className="flex items-center gap-2"
+      >
+        {isExportingResume ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : (
+          <FileJson className="h-4 w-4" />
+        )}
+        Export JSON Resume
+      </Button>
+
+      {githubConfig?.separateDeployHost && (
+        <div className="flex items-center gap-2 w-full justify-center">
+          <Label htmlFor="github-deploy-token" className="whitespace-nowrap">
+            Access token for {githubConfig.deployUrl}
+          </Label>
+          <Input
+            id="github-deploy-token"
+            type="password"
+            className="max-w-xs"
+            placeholder="Personal access token with repo scope"
+            value={deployToken}
+            onChange={(e) => updateDeployToken(e.target.value)}
+          />
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 w-full justify-center">
+        <Label htmlFor="custom-domain" className="whitespace-nowrap">
+          Custom domain for GitHub Pages and Vercel
+        </Label>
+        <Input
+          id="custom-domain"
+          className="max-w-xs"
+          placeholder="portfolio.example.com (optional)"
+          value={customDomain}
+          onChange={(e) => {
+            setCustomDomain(e.target.value);
+            saveCustomDomain(e.target.value.trim());
+          }}
+        />
+      </div>
+
+      <Button
+        onClick={() => handleDeployToPages()}
+        disabled={isDeployingToPages || (githubConfig?.separateDeployHost && !deployToken.trim())}
         variant="outline"
         className="flex items-center gap-2"
       >
@@ -288,7 +833,7 @@ export function DeploymentActions({
       </Button>
 
       <Button
-        onClick={handleVercelDeploy}
+        onClick={() => handleVercelDeploy()}
         disabled={isCreatingRepo}
         className="flex items-center gap-2"
       >
@@ -300,6 +845,128 @@ export function DeploymentActions({
         Deploy to Vercel
       </Button>
 
+      <div className="flex flex-wrap items-center gap-2 w-full justify-center">
+        <Label htmlFor="netlify-token" className="whitespace-nowrap">
+          Netlify
+        </Label>
+        <Input
+          id="netlify-token"
+          type="password"
+          className="max-w-xs"
+          placeholder="Personal access token"
+          value={netlifyToken}
+          onChange={(e) => updateNetlifyToken(e.target.value)}
+        />
+        <Button
+          onClick={() => handleNetlifyDeploy()}
+          disabled={isDeployingToNetlify || !netlifyToken.trim()}
+          variant="outline"
+          className="flex items-center gap-2"
+        >
+          {isDeployingToNetlify ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Rocket className="h-4 w-4" />
+          )}
+          Deploy to Netlify
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 w-full justify-center">
+        <Label htmlFor="cloudflare-account-id" className="whitespace-nowrap">
+          Cloudflare Pages
+        </Label>
+        <Input
+          id="cloudflare-account-id"
+          className="max-w-[12rem]"
+          placeholder="Account ID"
+          value={cloudflareAccountId}
+          onChange={(e) => updateCloudflareCredentials(e.target.value, cloudflareToken)}
+        />
+        <Input
+          id="cloudflare-token"
+          type="password"
+          className="max-w-xs"
+          placeholder="API token with Pages Edit permission"
+          value={cloudflareToken}
+          onChange={(e) => updateCloudflareCredentials(cloudflareAccountId, e.target.value)}
+        />
+        <Button
+          onClick={() => handleCloudflareDeploy()}
+          disabled={
+            isDeployingToCloudflare || !cloudflareAccountId.trim() || !cloudflareToken.trim()
+          }
+          variant="outline"
+          className="flex items-center gap-2"
+        >
+          {isDeployingToCloudflare ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Cloud className="h-4 w-4" />
+          )}
+          Deploy to Cloudflare Pages
+        </Button>
+      </div>
+
+      {gitlabToken && (
+        <div className="flex flex-wrap items-center gap-2 w-full justify-center">
+          {gitlabInstanceUrl && (
+            <>
+              <Label htmlFor="gitlab-pages-domain" className="whitespace-nowrap">
+                Pages domain of {gitlabInstanceUrl}
+              </Label>
+              <Input
+                id="gitlab-pages-domain"
+                className="max-w-xs"
+                placeholder="pages.example.com"
+                value={gitlabPagesDomain}
+                onChange={(e) => {
+                  setGitlabPagesDomain(e.target.value);
+                  saveGitLabPagesDomain(e.target.value.trim());
+                }}
+              />
+            </>
+          )}
+          <Button
+            onClick={() => handleGitLabPagesDeploy()}
+            disabled={
+              isDeployingToGitLab || (Boolean(gitlabInstanceUrl) && !gitlabPagesDomain.trim())
+            }
+            variant="outline"
+            className="flex items-center gap-2"
+          >
+            {isDeployingToGitLab ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Gitlab className="h-4 w-4" />
+            )}
+            Deploy to GitLab Pages
+          </Button>
+        </div>
+      )}
+
+      <S3DeployDialog
+        portfolio={currentSnapshot}
+        userInfo={userInfo}
+        onDeployed={(url) =>
+          recordDeployment({
+            target: "s3",
+            url,
+            commitSha: null,
+            deploymentId: null,
+            snapshot: currentSnapshot,
+          })
+        }
+      />
+
+      <DeploymentHistoryDialog
+        history={deploymentHistory}
+        pendingId={historyPendingId}
+        onRedeploy={handleRedeploy}
+        onRollback={handleRollback}
+        onRemove={handleRemoveDeployment}
+      />
+
       {deploymentInfo && (
         <DeploymentOverlay
           open={showDeploymentOverlay}
@@ -307,6 +974,16 @@ export function DeploymentActions({
           deploymentUrl={deploymentInfo.deploymentUrl}
           portfolioUrl={deploymentInfo.portfolioUrl}
           username={deploymentInfo.username}
+          customDomain={deploymentInfo.customDomain}
+          dnsRecords={deploymentInfo.dnsRecords}
+        />
+      )}
+
+      {staticHostDeployment && (
+        <StaticHostDeploymentOverlay
+          open={Boolean(staticHostDeployment)}
+          onClose={() => setStaticHostDeployment(null)}
+          deployment={staticHostDeployment}
         />
       )}
 
@@ -315,6 +992,8 @@ export function DeploymentActions({
           open={showVercelDeployment}
           onClose={() => setShowVercelDeployment(false)}
           username={localStorage.getItem("github_username") || ""}
+          customDomain={vercelDomain.customDomain}
+          dnsRecords={vercelDomain.dnsRecords}
         />
       )}
     </div>
@@ -0,0 +1,161 @@
+import { themes } from "@shared/themes";
+import { History, Loader2, RotateCcw, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { DeploymentRecord, DeploymentTarget } from "@/lib/storage";
+
+interface DeploymentHistoryDialogProps {
+  history: DeploymentRecord[];
+  // Record whose redeploy or rollback is in progress
+  pendingId: string | null;
+  onRedeploy: (record: DeploymentRecord) => void;
+  onRollback: (record: DeploymentRecord) => void;
+  onRemove: (record: DeploymentRecord) => void;
+}
+
+const TARGET_LABELS: Record<DeploymentTarget, string> = {
+  "github-pages": "GitHub Pages",
+  vercel: "Vercel",
+  netlify: "Netlify",
+  cloudflare: "Cloudflare Pages",
+  "gitlab-pages": "GitLab Pages",
+  s3: "S3",
+};
+
+// Targets whose deploys are commits on GitHub, which can be restored without regenerating
+const ROLLBACK_TARGETS: DeploymentTarget[] = ["github-pages", "vercel"];
+
+function getReference(record: DeploymentRecord): string {
+  if (record.commitSha) return record.commitSha.slice(0, 7);
+  return record.deploymentId || "—";
+}
+
+export function DeploymentHistoryDialog({
+  history,
+  pendingId,
+  onRedeploy,
+  onRollback,
+  onRemove,
+}: DeploymentHistoryDialogProps) {
+  const findRecord = (id: string) => history.find((record) => record.id === id);
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <History className="h-4 w-4" />
+          Deployment History
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[900px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Deployment history</DialogTitle>
+          <DialogDescription>
+            Redeploy generates an earlier snapshot of your portfolio again. Roll back restores the
+            files of a GitHub Pages or Vercel deploy from its commit.
+          </DialogDescription>
+        </DialogHeader>
+
+        {history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No deployments yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Deployed</TableHead>
+                <TableHead>Target</TableHead>
+                <TableHead>Theme</TableHead>
+                <TableHead>Items</TableHead>
+                <TableHead>Commit / ID</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {history.map((record) => {
+                const restored = record.restoredFrom ? findRecord(record.restoredFrom) : null;
+                return (
+                  <TableRow key={record.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {new Date(record.deployedAt).toLocaleString()}
+                      {restored && (
+                        <span className="block text-xs text-muted-foreground">
+                          Restored from {new Date(restored.deployedAt).toLocaleString()}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <a
+                        href={record.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="underline underline-offset-2"
+                      >
+                        {TARGET_LABELS[record.target]}
+                      </a>
+                    </TableCell>
+                    <TableCell>
+                      {themes.find((theme) => theme.id === record.themeId)?.name || "Default"}
+                    </TableCell>
+                    <TableCell>{record.itemCount}</TableCell>
+                    <TableCell className="font-mono text-xs">{getReference(record)}</TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-2">
+                        {pendingId === record.id && <Loader2 className="h-4 w-4 animate-spin" />}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => onRedeploy(record)}
+                          disabled={Boolean(pendingId)}
+                          className="gap-1"
+                        >
+                          <Upload className="h-3 w-3" />
+                          Redeploy
+                        </Button>
+                        {ROLLBACK_TARGETS.includes(record.target) && record.commitSha && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => onRollback(record)}
+                            disabled={Boolean(pendingId)}
+                            className="gap-1"
+                          >
+                            <RotateCcw className="h-3 w-3" />
+                            Roll back
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => onRemove(record)}
+                          disabled={Boolean(pendingId)}
+                          aria-label="Remove from history"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,6 +2,7 @@ import { Loader2 } from "lucide-react";
 import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent } from "@/components/ui/dialog";
+import { CustomDomainStatus, type DnsRecord } from "./custom-domain-status";
 
 interface DeploymentOverlayProps {
   open: boolean;
@@ -9,6 +10,9 @@ interface DeploymentOverlayProps {
   deploymentUrl: string;
   portfolioUrl: string;
   username: string;
+  /** Custom domain from the CNAME file of the Pages repository */
+  customDomain?: string | null;
+  dnsRecords?: DnsRecord[];
 }
 
 export function DeploymentOverlay({
@@ -17,9 +21,10 @@ export function DeploymentOverlay({
   deploymentUrl,
   portfolioUrl,
   username,
+  customDomain = null,
+  dnsRecords = [],
 }: DeploymentOverlayProps) {
   const [countdown, setCountdown] = useState(60);
-  const [customDomain, setCustomDomain] = useState<string | null>(null);
 
   useEffect(() => {
     let timer: NodeJS.Timeout;
@@ -35,31 +40,8 @@ export function DeploymentOverlay({
     };
   }, [open, countdown]);
 
-  useEffect(() => {
-    const checkCustomDomain = async () => {
-      try {
-        // Check for CNAME in the repository
-        const res = await fetch(
-          `https://api.github.com/repos/${username}/${username}.github.io/contents/CNAME`,
-        );
-        if (res.ok) {
-          const data = await res.json();
-          const domain = atob(data.content.trim());
-          setCustomDomain(domain);
-        }
-      } catch (_error) {
-        // No custom domain configured
-      }
-    };
-
-    if (open) {
-      checkCustomDomain();
-    }
-  }, [username, open]);
-
   const handleViewPortfolio = () => {
-    const finalUrl = customDomain ? `https://${customDomain}/portfolio.html` : portfolioUrl;
-    window.open(finalUrl, "_blank");
+    window.open(portfolioUrl, "_blank");
     onClose();
   };
 
@@ -76,25 +58,23 @@ export function DeploymentOverlay({
             <p>Your portfolio has been committed to:</p>
             <p className="bg-muted p-2 rounded-md font-mono text-xs break-all">{deploymentUrl}</p>
 
-            {customDomain ? (
-              <>
-                <p>Your portfolio will be available at:</p>
-                <p className="bg-muted p-2 rounded-md font-mono text-xs">
-                  https://{customDomain}/portfolio.html
-                </p>
-              </>
-            ) : (
-              <>
-                <p>Your portfolio will be available at:</p>
-                <p className="bg-muted p-2 rounded-md font-mono text-xs">{portfolioUrl}</p>
-              </>
-            )}
+            <p>Your portfolio will be available at:</p>
+            <p className="bg-muted p-2 rounded-md font-mono text-xs">{portfolioUrl}</p>
 
             <p className="mt-4">
               GitHub Pages may take a few moments to update. You can view your portfolio in:
             </p>
           </div>
 
+          {customDomain && dnsRecords.length > 0 && (
+            <CustomDomainStatus
+              domain={customDomain}
+              target="github-pages"
+              username={username}
+              records={dnsRecords}
+            />
+          )}
+
           <div className="flex justify-end gap-3">
             <Button variant="outline" onClick={onClose}>
               Close
@@ -0,0 +1,193 @@
+import { Database, Loader2 } from "lucide-react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  type DeploymentSnapshot,
+  getGitHubToken,
+  getS3Target,
+  type S3TargetConfig,
+  saveS3Target,
+} from "@/lib/storage";
+
+interface S3DeployDialogProps {
+  // Portfolio fields of the deploy request (items, theme, introduction, ...)
+  portfolio: DeploymentSnapshot;
+  // Owner of the portfolio, used when no GitHub account is connected
+  userInfo?: { username: string; avatarUrl: string | null } | null;
+  onDeployed?: (url: string) => void;
+}
+
+const EMPTY_TARGET: S3TargetConfig = {
+  bucket: "",
+  prefix: "",
+  region: "",
+  endpoint: "",
+  accessKeyId: "",
+  secretAccessKey: "",
+};
+
+const FIELDS: {
+  key: keyof S3TargetConfig;
+  label: string;
+  placeholder: string;
+  type?: string;
+}[] = [
+  { key: "bucket", label: "Bucket", placeholder: "my-portfolio" },
+  { key: "prefix", label: "Prefix", placeholder: "Optional, e.g. portfolio/" },
+  { key: "region", label: "Region", placeholder: "us-east-1 (auto for R2)" },
+  {
+    key: "endpoint",
+    label: "Endpoint",
+    placeholder: "Empty for Amazon S3, e.g. https://<account>.r2.cloudflarestorage.com",
+  },
+  { key: "accessKeyId", label: "Access key ID", placeholder: "AKIA..." },
+  {
+    key: "secretAccessKey",
+    label: "Secret access key",
+    placeholder: "Secret access key",
+    type: "password",
+  },
+];
+
+export function S3DeployDialog({ portfolio, userInfo, onDeployed }: S3DeployDialogProps) {
+  const [target, setTarget] = useState<S3TargetConfig>(() => ({
+    ...EMPTY_TARGET,
+    ...getS3Target(),
+  }));
+  const [deleteStale, setDeleteStale] = useState(false);
+  const [isDeploying, setIsDeploying] = useState(false);
+  const [deployedUrl, setDeployedUrl] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const updateTarget = (key: keyof S3TargetConfig, value: string) => {
+    const updated = { ...target, [key]: value };
+    setTarget(updated);
+    saveS3Target(updated);
+  };
+
+  const handleDeploy = async () => {
+    try {
+      setIsDeploying(true);
+      setDeployedUrl(null);
+      const res = await apiRequest("POST", "/api/deploy/s3", {
+        ...portfolio,
+        accessToken: getGitHubToken() || undefined,
+        userInfo,
+        s3: target,
+        deleteStale: deleteStale && Boolean(target.prefix.trim()),
+      });
+      const data = await res.json();
+
+      setDeployedUrl(data.url);
+      onDeployed?.(data.url);
+      toast({
+        title: "Portfolio Deployed",
+        description:
+          data.deleted > 0
+            ? `Uploaded ${data.uploaded} files and removed ${data.deleted} stale files.`
+            : `Uploaded ${data.uploaded} files.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error
+            ? error.message.replace(/^\d+: /, "")
+            : "Failed to deploy to S3. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDeploying(false);
+    }
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <Database className="h-4 w-4" />
+          Deploy to S3
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[600px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Deploy to S3-compatible storage</DialogTitle>
+          <DialogDescription>
+            Uploads the portfolio to Amazon S3, Cloudflare R2, Backblaze B2, MinIO or any other
+            S3-compatible bucket. The bucket must be served as a static website.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {FIELDS.map((field) => (
+            <div key={field.key} className="space-y-2">
+              <Label htmlFor={`s3-${field.key}`}>{field.label}</Label>
+              <Input
+                id={`s3-${field.key}`}
+                type={field.type || "text"}
+                placeholder={field.placeholder}
+                value={target[field.key]}
+                onChange={(e) => updateTarget(field.key, e.target.value)}
+              />
+            </div>
+          ))}
+
+          <div className="flex items-center gap-2">
+            <Switch
+              id="s3-delete-stale"
+              checked={deleteStale && Boolean(target.prefix.trim())}
+              onCheckedChange={setDeleteStale}
+              disabled={!target.prefix.trim()}
+            />
+            <Label htmlFor="s3-delete-stale">
+              Delete files under the prefix that are not part of this deploy (requires a prefix)
+            </Label>
+          </div>
+
+          {deployedUrl && (
+            <p className="text-sm text-muted-foreground">
+              Your portfolio is live at:{" "}
+              <a
+                href={deployedUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="font-medium text-foreground underline"
+              >
+                {deployedUrl}
+              </a>
+            </p>
+          )}
+
+          <div className="flex justify-end">
+            <Button
+              onClick={handleDeploy}
+              disabled={
+                isDeploying ||
+                !target.bucket.trim() ||
+                !target.accessKeyId.trim() ||
+                !target.secretAccessKey.trim()
+              }
+              className="flex items-center gap-2"
+            >
+              {isDeploying && <Loader2 className="h-4 w-4 animate-spin" />}
+              Deploy
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,181 @@
+import type { PortfolioItem, PortfolioSection } from "@shared/schema";
+import { isDefaultSection } from "@shared/sections";
+import { ArrowDown, ArrowUp, LayoutList, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const AUTOMATIC_PLACEMENT = "__automatic__";
+
+interface SectionManagerProps {
+  sections: PortfolioSection[];
+  items: PortfolioItem[];
+  getItemTitle: (item: PortfolioItem) => string;
+  onChange: (sections: PortfolioSection[]) => void;
+}
+
+export function SectionManager({ sections, items, getItemTitle, onChange }: SectionManagerProps) {
+  const updateTitle = (sectionId: string, title: string) => {
+    onChange(
+      sections.map((section) => (section.id === sectionId ? { ...section, title } : section)),
+    );
+  };
+
+  const moveSection = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= sections.length) return;
+
+    const reordered = [...sections];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const addSection = () => {
+    onChange([
+      ...sections,
+      {
+        id: `custom-${Date.now()}`,
+        title: "New Section",
+        sources: [],
+        contentTypes: [],
+        itemIds: [],
+      },
+    ]);
+  };
+
+  const removeSection = (sectionId: string) => {
+    onChange(sections.filter((section) => section.id !== sectionId));
+  };
+
+  const getAssignedSectionId = (item: PortfolioItem): string => {
+    const assigned = sections.find((section) =>
+      (section.itemIds || []).some((id) => String(id) === String(item.id)),
+    );
+    return assigned ? assigned.id : AUTOMATIC_PLACEMENT;
+  };
+
+  const assignItem = (item: PortfolioItem, sectionId: string) => {
+    const itemId = String(item.id);
+    onChange(
+      sections.map((section) => {
+        const itemIds = (section.itemIds || []).filter((id) => String(id) !== itemId);
+        return {
+          ...section,
+          itemIds: section.id === sectionId ? [...itemIds, item.id] : itemIds,
+        };
+      }),
+    );
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-2">
+          <LayoutList className="h-4 w-4" />
+          Sections
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[600px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Portfolio Sections</DialogTitle>
+          <DialogDescription>
+            Rename and reorder sections. Items are grouped by source or content type unless you
+            place them in a specific section.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {sections.map((section, index) => (
+            <div key={section.id} className="flex items-center gap-2">
+              <Input
+                value={section.title}
+                onChange={(e) => updateTitle(section.id, e.target.value)}
+                aria-label={`Title for section ${index + 1}`}
+              />
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => moveSection(index, -1)}
+                disabled={index === 0}
+                aria-label="Move section up"
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => moveSection(index, 1)}
+                disabled={index === sections.length - 1}
+                aria-label="Move section down"
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => removeSection(section.id)}
+                disabled={isDefaultSection(section.id)}
+                className="text-red-500 hover:text-red-700"
+                aria-label="Remove section"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={addSection}
+            className="flex items-center gap-2"
+          >
+            <Plus className="h-4 w-4" />
+            Add Section
+          </Button>
+        </div>
+
+        {items.length > 0 && (
+          <div className="space-y-3 pt-4 border-t">
+            <Label>Item Placement</Label>
+            {items.map((item) => (
+              <div key={item.id} className="flex items-center justify-between gap-4">
+                <span className="text-sm truncate">{getItemTitle(item)}</span>
+                <Select
+                  value={getAssignedSectionId(item)}
+                  onValueChange={(sectionId) => assignItem(item, sectionId)}
+                >
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={AUTOMATIC_PLACEMENT}>Automatic</SelectItem>
+                    {sections.map((section) => (
+                      <SelectItem key={section.id} value={section.id}>
+                        {section.title || "Untitled Section"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,135 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent } from "@/components/ui/dialog";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+
+export interface StaticHostDeployment {
+  provider: "Netlify" | "Cloudflare Pages" | "GitLab Pages";
+  url: string;
+  // Status endpoint including its query, e.g. /api/deploy/netlify/status/<id>?accessToken=…
+  statusUrl: string;
+}
+
+interface StaticHostDeploymentOverlayProps {
+  open: boolean;
+  onClose: () => void;
+  deployment: StaticHostDeployment;
+}
+
+const POLL_INTERVAL_MS = 5000;
+const MAX_RETRIES = 60; // 5 minutes maximum
+
+export function StaticHostDeploymentOverlay({
+  open,
+  onClose,
+  deployment,
+}: StaticHostDeploymentOverlayProps) {
+  const [deploymentProgress, setDeploymentProgress] = useState(30);
+  const [deploymentState, setDeploymentState] = useState<string | null>(null);
+  const [deploymentStatus, setDeploymentStatus] = useState<"deploying" | "complete" | "error">(
+    "deploying",
+  );
+  const { toast } = useToast();
+  const { provider, statusUrl } = deployment;
+
+  useEffect(() => {
+    if (!open) return;
+
+    setDeploymentStatus("deploying");
+    setDeploymentProgress(30);
+
+    let retries = 0;
+    const interval = setInterval(async () => {
+      try {
+        if (retries >= MAX_RETRIES) {
+          throw new Error("Deployment timed out");
+        }
+
+        const statusResponse = await fetch(statusUrl);
+        if (!statusResponse.ok) {
+          throw new Error("Failed to check deployment status");
+        }
+
+        const statusData = await statusResponse.json();
+        setDeploymentState(statusData.state);
+
+        if (statusData.error) {
+          throw new Error(statusData.error);
+        }
+
+        if (statusData.ready) {
+          setDeploymentStatus("complete");
+          setDeploymentProgress(100);
+          clearInterval(interval);
+          toast({
+            title: "Deployment Complete",
+            description: `Your portfolio has been successfully deployed to ${provider}!`,
+          });
+        } else {
+          retries++;
+          setDeploymentProgress(Math.min(90, 30 + retries * 2));
+        }
+      } catch (error) {
+        clearInterval(interval);
+        setDeploymentStatus("error");
+        toast({
+          title: "Deployment Error",
+          description: error instanceof Error ? error.message : "Failed to check deployment status",
+          variant: "destructive",
+        });
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [open, provider, statusUrl, toast]);
+
+  const handleViewDeployment = () => {
+    window.open(deployment.url, "_blank");
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px]">
+        <div className="space-y-6 p-2">
+          <div className="space-y-2">
+            <h3 className="text-lg font-semibold">Deploying to {provider}</h3>
+            <p className="text-sm text-muted-foreground">
+              {deploymentStatus === "deploying" && "Publishing your portfolio..."}
+              {deploymentStatus === "complete" && "Deployment complete!"}
+              {deploymentStatus === "error" && "Deployment failed. Please try again."}
+            </p>
+          </div>
+
+          <div className="space-y-4">
+            <Progress value={deploymentProgress} className="h-2" />
+
+            <div className="text-sm text-muted-foreground space-y-1">
+              <p>Deploying to: {deployment.url}</p>
+              {deploymentState && deploymentStatus === "deploying" && (
+                <p>Status: {deploymentState}</p>
+              )}
+              {deploymentStatus === "complete" && (
+                <p className="font-medium text-foreground">
+                  Your portfolio is live at: {deployment.url}
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <Button variant="outline" onClick={onClose} disabled={deploymentStatus === "deploying"}>
+              {deploymentStatus === "deploying" ? "Deploying..." : "Close"}
+            </Button>
+            {deploymentStatus === "complete" && (
+              <Button onClick={handleViewDeployment} className="gap-2">
+                View Deployment
+              </Button>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,111 @@
+import type { PortfolioItem } from "@shared/schema";
+import { CheckCircle2, Circle, Loader2, RotateCcw, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import type { SummaryProgress as ItemProgress, SummaryStatus } from "@/hooks/use-summary-stream";
+
+interface SummaryProgressProps {
+  items: PortfolioItem[];
+  progress: Record<string, ItemProgress>;
+  isRunning: boolean;
+  getItemTitle: (item: PortfolioItem) => string;
+  onRetryFailed: () => void;
+  onCancel?: () => void;
+}
+
+function StatusIcon({ status }: { status: SummaryStatus }) {
+  switch (status) {
+    case "running":
+      return <Loader2 className="h-4 w-4 animate-spin text-blue-600" />;
+    case "done":
+      return <CheckCircle2 className="h-4 w-4 text-green-600" />;
+    case "failed":
+      return <XCircle className="h-4 w-4 text-destructive" />;
+    default:
+      return <Circle className="h-4 w-4 text-muted-foreground" />;
+  }
+}
+
+/**
+ * Live per-item progress for streamed summary generation
+ */
+export function SummaryProgress({
+  items,
+  progress,
+  isRunning,
+  getItemTitle,
+  onRetryFailed,
+  onCancel,
+}: SummaryProgressProps) {
+  const tracked = items.filter((item) => progress[String(item.id)]);
+  if (tracked.length === 0) return null;
+
+  const finishedCount = tracked.filter((item) => {
+    const { status } = progress[String(item.id)];
+    return status === "done" || status === "failed";
+  }).length;
+  const failedCount = tracked.filter(
+    (item) => progress[String(item.id)].status === "failed",
+  ).length;
+
+  return (
+    <div className="space-y-4 rounded-lg border bg-white p-4 text-left shadow-sm">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h3 className="font-semibold">Generating Summaries</h3>
+          <p className="text-sm text-muted-foreground">
+            {finishedCount} of {tracked.length} finished
+            {failedCount > 0 && ` · ${failedCount} failed`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {isRunning && onCancel && (
+            <Button variant="ghost" size="sm" onClick={onCancel}>
+              Stop
+            </Button>
+          )}
+          {!isRunning && failedCount > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onRetryFailed}
+              className="flex items-center gap-2"
+            >
+              <RotateCcw className="h-4 w-4" />
+              Retry failed ({failedCount})
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Progress value={(finishedCount / tracked.length) * 100} className="h-2" />
+
+      <ul className="max-h-72 space-y-2 overflow-y-auto">
+        {tracked.map((item) => {
+          const itemProgress = progress[String(item.id)];
+          return (
+            <li key={`${item.source}-${item.id}`} className="flex items-start gap-2 text-sm">
+              <span className="mt-0.5">
+                <StatusIcon status={itemProgress.status} />
+              </span>
+              <div className="min-w-0 flex-1">
+                <p className="font-medium">
+                  {getItemTitle(item)}
+                  {itemProgress.cached && (
+                    <span className="ml-2 text-xs font-normal text-muted-foreground">cached</span>
+                  )}
+                </p>
+                {itemProgress.status === "running" && itemProgress.text && (
+                  <p className="line-clamp-2 text-muted-foreground">{itemProgress.text}</p>
+                )}
+                {itemProgress.status === "failed" && (
+                  <p className="text-destructive">{itemProgress.error || "Unknown error"}</p>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
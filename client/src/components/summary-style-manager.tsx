@@ -0,0 +1,178 @@
+import type { PortfolioItem, SummaryStyle, SummaryTone } from "@shared/schema";
+import {
+  DEFAULT_SUMMARY_TEMPLATE,
+  getSummaryTone,
+  SUMMARY_TEMPLATE_PLACEHOLDERS,
+  SUMMARY_TONES,
+} from "@shared/summary-styles";
+import { MessageSquareText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+
+const PORTFOLIO_TONE = "__portfolio__";
+
+interface SummaryStyleManagerProps {
+  style: SummaryStyle;
+  itemTones: Record<string, SummaryTone>;
+  items: PortfolioItem[];
+  getItemTitle: (item: PortfolioItem) => string;
+  onChange: (style: SummaryStyle) => void;
+  onItemTonesChange: (tones: Record<string, SummaryTone>) => void;
+}
+
+export function SummaryStyleManager({
+  style,
+  itemTones,
+  items,
+  getItemTitle,
+  onChange,
+  onItemTonesChange,
+}: SummaryStyleManagerProps) {
+  const update = (updates: Partial<SummaryStyle>) => {
+    onChange({ ...style, ...updates });
+  };
+
+  const updateTargetWords = (value: string) => {
+    const words = parseInt(value, 10);
+    update({ targetWords: Number.isNaN(words) ? undefined : words });
+  };
+
+  const setItemTone = (item: PortfolioItem, tone: string) => {
+    const { [String(item.id)]: _removed, ...rest } = itemTones;
+    onItemTonesChange(tone === PORTFOLIO_TONE ? rest : { ...rest, [item.id]: tone as SummaryTone });
+  };
+
+  const usesCustomTemplate =
+    style.tone === "custom" || Object.values(itemTones).some((tone) => tone === "custom");
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-2">
+          <MessageSquareText className="h-4 w-4" />
+          Summary Style
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[600px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Summary Style</DialogTitle>
+          <DialogDescription>
+            Choose how AI summaries are written. The style applies the next time summaries are
+            generated.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="summary-tone">Tone</Label>
+            <Select
+              value={style.tone}
+              onValueChange={(tone) => update({ tone: tone as SummaryTone })}
+            >
+              <SelectTrigger id="summary-tone">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SUMMARY_TONES.map((tone) => (
+                  <SelectItem key={tone.id} value={tone.id}>
+                    {tone.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">
+              {getSummaryTone(style.tone).description}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="summary-target-words">Target length (words)</Label>
+              <Input
+                id="summary-target-words"
+                type="number"
+                min={20}
+                max={800}
+                placeholder="Tone default"
+                value={style.targetWords ?? ""}
+                onChange={(e) => updateTargetWords(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="summary-language">Language</Label>
+              <Input
+                id="summary-language"
+                placeholder="English"
+                maxLength={40}
+                value={style.language ?? ""}
+                onChange={(e) => update({ language: e.target.value || undefined })}
+              />
+            </div>
+          </div>
+
+          {usesCustomTemplate && (
+            <div className="space-y-2">
+              <Label htmlFor="summary-template">Custom template</Label>
+              <Textarea
+                id="summary-template"
+                rows={6}
+                maxLength={4000}
+                placeholder={DEFAULT_SUMMARY_TEMPLATE}
+                value={style.template ?? ""}
+                onChange={(e) => update({ template: e.target.value || undefined })}
+              />
+              <p className="text-sm text-muted-foreground">
+                Available placeholders:{" "}
+                {SUMMARY_TEMPLATE_PLACEHOLDERS.map((placeholder) => `{${placeholder}}`).join(", ")}
+              </p>
+            </div>
+          )}
+        </div>
+
+        {items.length > 0 && (
+          <div className="space-y-3 pt-4 border-t">
+            <Label>Tone per Item</Label>
+            {items.map((item) => (
+              <div key={item.id} className="flex items-center justify-between gap-4">
+                <span className="text-sm truncate">{getItemTitle(item)}</span>
+                <Select
+                  value={itemTones[String(item.id)] || PORTFOLIO_TONE}
+                  onValueChange={(tone) => setItemTone(item, tone)}
+                >
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={PORTFOLIO_TONE}>Portfolio tone</SelectItem>
+                    {SUMMARY_TONES.map((tone) => (
+                      <SelectItem key={tone.id} value={tone.id}>
+                        {tone.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,14 +3,23 @@ import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent } from "@/components/ui/dialog";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
+import { CustomDomainStatus, type DnsRecord } from "./custom-domain-status";
 
 interface VercelDeploymentOverlayProps {
   open: boolean;
   onClose: () => void;
   username: string;
+  customDomain?: string | null;
+  dnsRecords?: DnsRecord[];
 }
 
-export function VercelDeploymentOverlay({ open, onClose, username }: VercelDeploymentOverlayProps) {
+export function VercelDeploymentOverlay({
+  open,
+  onClose,
+  username,
+  customDomain = null,
+  dnsRecords = [],
+}: VercelDeploymentOverlayProps) {
   const [deploymentUrl, setDeploymentUrl] = useState<string | null>(null);
   const [deploymentProgress, setDeploymentProgress] = useState(0);
   const [deploymentStatus, setDeploymentStatus] = useState<
@@ -113,7 +122,7 @@ export function VercelDeploymentOverlay({ open, onClose, username }: VercelDeplo
 
             <div className="text-sm text-muted-foreground space-y-1">
               {deploymentStatus !== "error" && (
-                <p>Deploying to: {`${username}-foliolab.vercel.app`}</p>
+                <p>Deploying to: {customDomain || `${username}-foliolab.vercel.app`}</p>
               )}
               {deploymentUrl && deploymentStatus === "complete" && (
                 <p className="font-medium text-foreground">
@@ -123,6 +132,15 @@ export function VercelDeploymentOverlay({ open, onClose, username }: VercelDeplo
             </div>
           </div>
 
+          {customDomain && dnsRecords.length > 0 && (
+            <CustomDomainStatus
+              domain={customDomain}
+              target="vercel"
+              username={username}
+              records={dnsRecords}
+            />
+          )}
+
           <div className="flex justify-end gap-3">
             <Button variant="outline" onClick={onClose} disabled={deploymentStatus === "deploying"}>
               {deploymentStatus === "deploying" ? "Deploying..." : "Close"}
@@ -0,0 +1,244 @@
+import type { PortfolioItem, SourceType } from "@shared/schema";
+import { normalizeSummaryStyle } from "@shared/summary-styles";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  getGiteaInstanceUrl,
+  getGiteaToken,
+  getItemSummaryTones,
+  getSummaryStyle,
+} from "@/lib/storage";
+
+/** Sources the server can write summaries for */
+export const SUMMARY_SOURCES: SourceType[] = [
+  "github",
+  "gitlab",
+  "bitbucket",
+  "gitea",
+  "blog_rss",
+  "medium",
+  "publication",
+  "contribution",
+  "gist",
+  "talk",
+  "freeform",
+];
+
+/**
+ * Applies a generated summary to the field the portfolio shows for the item
+ */
+export function withSummary(item: PortfolioItem, summary: string): PortfolioItem {
+  if (item.source === "freeform") {
+    return { ...item, description: summary };
+  }
+  return { ...item, summary } as PortfolioItem;
+}
+
+/**
+ * Request body for the summary endpoints with the saved summary style.
+ * Items with their own tone carry the portfolio style with that tone as summaryStyle.
+ * The Gitea token lets the server read the READMEs of Gitea repositories.
+ */
+export function getSummaryRequest<T extends { id: string | number }>(items: T[]) {
+  const style = normalizeSummaryStyle(getSummaryStyle());
+  const tones = getItemSummaryTones();
+  const giteaToken = getGiteaToken();
+  return {
+    style,
+    gitea: giteaToken
+      ? { accessToken: giteaToken, baseUrl: getGiteaInstanceUrl() || undefined }
+      : undefined,
+    items: items.map((item) => {
+      const tone = tones[String(item.id)];
+      return tone ? { ...item, summaryStyle: { ...style, tone } } : item;
+    }),
+  };
+}
+
+export type SummaryStatus = "pending" | "running" | "done" | "failed";
+
+export interface SummaryProgress {
+  status: SummaryStatus;
+  /** Summary text received so far */
+  text: string;
+  /** Reason reported by the server when the item failed */
+  error?: string;
+  /** The summary was served from the server's summary cache */
+  cached?: boolean;
+}
+
+interface SummaryStreamOptions {
+  /** Called when an item's summary has been generated */
+  onSummary: (item: PortfolioItem, summary: string) => void;
+  /** Called after the last item has finished */
+  onComplete?: (failedCount: number) => void;
+}
+
+/**
+ * Splits a chunk of server-sent events into complete events, returning any partial remainder
+ */
+function parseEvents(buffer: string): {
+  events: Array<{ event: string; data: any }>;
+  rest: string;
+} {
+  const blocks = buffer.split("\n\n");
+  const rest = blocks.pop() || "";
+  const events = blocks.flatMap((block) => {
+    let event = "message";
+    let data = "";
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      else if (line.startsWith("data:")) data += line.slice(5).trim();
+    }
+    return data ? [{ event, data: JSON.parse(data) }] : [];
+  });
+  return { events, rest };
+}
+
+/**
+ * Generates AI summaries through /api/sources/generate-summaries/stream,
+ * tracking each item's progress and keeping failed items for a retry
+ */
+export function useSummaryStream({ onSummary, onComplete }: SummaryStreamOptions) {
+  const [progress, setProgress] = useState<Record<string, SummaryProgress>>({});
+  const [isRunning, setIsRunning] = useState(false);
+  const itemsRef = useRef<Record<string, PortfolioItem>>({});
+  const abortRef = useRef<AbortController | null>(null);
+  const callbacksRef = useRef({ onSummary, onComplete });
+  callbacksRef.current = { onSummary, onComplete };
+
+  // Stop the request when the page unmounts
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const updateItem = (id: string, update: (current: SummaryProgress) => SummaryProgress) => {
+    setProgress((current) => ({
+      ...current,
+      [id]: update(current[id] || { status: "pending", text: "" }),
+    }));
+  };
+
+  const run = useCallback(async (items: PortfolioItem[]) => {
+    if (items.length === 0) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+
+    for (const item of items) {
+      itemsRef.current[String(item.id)] = item;
+    }
+    setProgress((current) => {
+      const next = { ...current };
+      for (const item of items) {
+        next[String(item.id)] = { status: "pending", text: "" };
+      }
+      return next;
+    });
+
+    const finished = new Set<string>();
+    let failedCount = 0;
+    try {
+      const res = await apiRequest(
+        "POST",
+        "/api/sources/generate-summaries/stream",
+        getSummaryRequest(items),
+        controller.signal,
+      );
+      if (!res.body) {
+        throw new Error("Streaming is not supported by this browser");
+      }
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        const parsed = parseEvents(buffer + decoder.decode(value, { stream: true }));
+        buffer = parsed.rest;
+
+        for (const { event, data } of parsed.events) {
+          if (event === "started") {
+            updateItem(data.id, () => ({ status: "running", text: "" }));
+          } else if (event === "token") {
+            updateItem(data.id, (current) => ({ ...current, text: current.text + data.token }));
+          } else if (event === "done") {
+            finished.add(data.id);
+            updateItem(data.id, () => ({
+              status: "done",
+              text: data.summary,
+              cached: data.cached,
+            }));
+            const item = itemsRef.current[data.id];
+            if (item) callbacksRef.current.onSummary(item, data.summary);
+          } else if (event === "failed") {
+            finished.add(data.id);
+            failedCount++;
+            updateItem(data.id, (current) => ({
+              ...current,
+              status: "failed",
+              error: data.error,
+            }));
+          }
+        }
+      }
+
+      if (finished.size < items.length) {
+        throw new Error("The connection closed before all summaries were generated");
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return;
+
+      // The whole request failed, so every item that did not finish failed with it
+      const reason = error instanceof Error ? error.message : String(error);
+      for (const item of items) {
+        const id = String(item.id);
+        if (!finished.has(id)) {
+          failedCount++;
+          updateItem(id, (current) => ({ ...current, status: "failed", error: reason }));
+        }
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsRunning(false);
+      }
+    }
+
+    if (!controller.signal.aborted) {
+      callbacksRef.current.onComplete?.(failedCount);
+    }
+  }, []);
+
+  const failedIds = Object.keys(progress).filter((id) => progress[id].status === "failed");
+
+  /** Generates summaries again for the items that failed in the last run */
+  const retryFailed = useCallback(() => {
+    const failedItems = failedIds
+      .map((id) => itemsRef.current[id])
+      .filter((item): item is PortfolioItem => !!item);
+    return run(failedItems);
+  }, [failedIds, run]);
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsRunning(false);
+  }, []);
+
+  const reset = useCallback(() => {
+    setProgress({});
+  }, []);
+
+  return {
+    progress,
+    isRunning,
+    failedCount: failedIds.length,
+    start: run,
+    retryFailed,
+    cancel,
+    reset,
+  };
+}
@@ -1,12 +1,37 @@
-import type { DataSourceConfig, PortfolioItem, Repository, SourceType } from "@shared/schema";
+import type {
+  DataSourceConfig,
+  IntroductionHints,
+  PortfolioItem,
+  PortfolioSection,
+  Repository,
+  SourceType,
+  SummaryStyle,
+  SummaryTone,
+} from "@shared/schema";
+import { DEFAULT_SECTIONS } from "@shared/sections";
+import { DEFAULT_SUMMARY_STYLE } from "@shared/summary-styles";
 
 const STORAGE_KEYS = {
   REPOSITORIES: "foliolab_repositories",
   PORTFOLIO_ITEMS: "foliolab_portfolio_items",
   GITHUB_TOKEN: "foliolab_github_token",
+  GITHUB_DEPLOY_TOKEN: "foliolab_github_deploy_token",
   GITLAB_TOKEN: "foliolab_gitlab_token",
+  GITLAB_URL: "foliolab_gitlab_url",
+  GITLAB_PAGES_DOMAIN: "foliolab_gitlab_pages_domain",
   BITBUCKET_CREDENTIALS: "foliolab_bitbucket_credentials",
+  GITEA_TOKEN: "foliolab_gitea_token",
+  GITEA_URL: "foliolab_gitea_url",
+  NETLIFY_TOKEN: "foliolab_netlify_token",
+  CLOUDFLARE_CREDENTIALS: "foliolab_cloudflare_credentials",
+  S3_TARGET: "foliolab_s3_target",
+  CUSTOM_DOMAIN: "foliolab_custom_domain",
   DATA_SOURCES: "foliolab_data_sources",
+  PORTFOLIO_SECTIONS: "foliolab_portfolio_sections",
+  SUMMARY_STYLE: "foliolab_summary_style",
+  ITEM_SUMMARY_TONES: "foliolab_item_summary_tones",
+  INTRODUCTION_HINTS: "foliolab_introduction_hints",
+  DEPLOYMENT_HISTORY: "foliolab_deployment_history",
 } as const;
 
 // GitHub Token Management
@@ -38,6 +63,20 @@ export function removeGitHubToken() {
   localStorage.removeItem("github_token");
 }
 
+// Personal access token for deploying when the server deploys to a different GitHub
+// instance than repositories are imported from (e.g. GitHub Enterprise Server to github.com)
+export function saveGitHubDeployToken(token: string) {
+  if (token) {
+    localStorage.setItem(STORAGE_KEYS.GITHUB_DEPLOY_TOKEN, token);
+  } else {
+    localStorage.removeItem(STORAGE_KEYS.GITHUB_DEPLOY_TOKEN);
+  }
+}
+
+export function getGitHubDeployToken(): string | null {
+  return localStorage.getItem(STORAGE_KEYS.GITHUB_DEPLOY_TOKEN);
+}
+
 // GitLab Token Management
 // SECURITY NOTE: Tokens are stored in browser localStorage without encryption.
 // Users should use tokens with minimal required scopes (read_api for GitLab).
@@ -54,17 +93,48 @@ export function removeGitLabToken() {
   localStorage.removeItem(STORAGE_KEYS.GITLAB_TOKEN);
 }
 
+// Base URL of a self-hosted GitLab instance; gitlab.com when not set
+export function saveGitLabInstanceUrl(url: string) {
+  if (url) {
+    localStorage.setItem(STORAGE_KEYS.GITLAB_URL, url);
+  } else {
+    localStorage.removeItem(STORAGE_KEYS.GITLAB_URL);
+  }
+}
+
+export function getGitLabInstanceUrl(): string | null {
+  return localStorage.getItem(STORAGE_KEYS.GITLAB_URL);
+}
+
+// Pages domain of a self-hosted GitLab instance (e.g. pages.example.com); gitlab.io when not set
+export function saveGitLabPagesDomain(domain: string) {
+  if (domain) {
+    localStorage.setItem(STORAGE_KEYS.GITLAB_PAGES_DOMAIN, domain);
+  } else {
+    localStorage.removeItem(STORAGE_KEYS.GITLAB_PAGES_DOMAIN);
+  }
+}
+
+export function getGitLabPagesDomain(): string | null {
+  return localStorage.getItem(STORAGE_KEYS.GITLAB_PAGES_DOMAIN);
+}
+
 // Bitbucket Credentials Management
 // SECURITY NOTE: Credentials are stored in browser localStorage without encryption.
 // Users should create app passwords with minimal required permissions (repository:read).
 // Credentials persist until explicitly cleared or browser data is deleted.
 // Consider using session-based storage for enhanced security in sensitive environments.
-export function saveBitbucketCredentials(username: string, appPassword: string) {
-  const credentials = { username, appPassword };
+// baseUrl is set for Bitbucket Server / Data Center instances
+export function saveBitbucketCredentials(username: string, appPassword: string, baseUrl?: string) {
+  const credentials = baseUrl ? { username, appPassword, baseUrl } : { username, appPassword };
   localStorage.setItem(STORAGE_KEYS.BITBUCKET_CREDENTIALS, JSON.stringify(credentials));
 }
 
-export function getBitbucketCredentials(): { username: string; appPassword: string } | null {
+export function getBitbucketCredentials(): {
+  username: string;
+  appPassword: string;
+  baseUrl?: string;
+} | null {
   try {
     const data = localStorage.getItem(STORAGE_KEYS.BITBUCKET_CREDENTIALS);
     if (!data) return null;
@@ -79,14 +149,125 @@ export function removeBitbucketCredentials() {
   localStorage.removeItem(STORAGE_KEYS.BITBUCKET_CREDENTIALS);
 }
 
+// Gitea Token Management (Gitea, Forgejo, Codeberg)
+// SECURITY NOTE: Tokens are stored in browser localStorage without encryption.
+// Users should create tokens with read-only repository and user scopes.
+export function saveGiteaToken(token: string) {
+  localStorage.setItem(STORAGE_KEYS.GITEA_TOKEN, token);
+}
+
+export function getGiteaToken(): string | null {
+  return localStorage.getItem(STORAGE_KEYS.GITEA_TOKEN);
+}
+
+export function removeGiteaToken() {
+  localStorage.removeItem(STORAGE_KEYS.GITEA_TOKEN);
+}
+
+// Base URL of a Gitea or Forgejo instance; codeberg.org when not set
+export function saveGiteaInstanceUrl(url: string) {
+  if (url) {
+    localStorage.setItem(STORAGE_KEYS.GITEA_URL, url);
+  } else {
+    localStorage.removeItem(STORAGE_KEYS.GITEA_URL);
+  }
+}
+
+export function getGiteaInstanceUrl(): string | null {
+  return localStorage.getItem(STORAGE_KEYS.GITEA_URL);
+}
+
+// Deploy target credentials
+// SECURITY NOTE: Stored in browser localStorage without encryption like the source tokens.
+// Users should create tokens limited to deploying sites (Cloudflare: Pages Edit).
+export function saveNetlifyToken(token: string) {
+  if (token) {
+    localStorage.setItem(STORAGE_KEYS.NETLIFY_TOKEN, token);
+  } else {
+    localStorage.removeItem(STORAGE_KEYS.NETLIFY_TOKEN);
+  }
+}
+
+export function getNetlifyToken(): string | null {
+  return localStorage.getItem(STORAGE_KEYS.NETLIFY_TOKEN);
+}
+
+export function saveCloudflareCredentials(accountId: string, apiToken: string) {
+  if (accountId || apiToken) {
+    localStorage.setItem(
+      STORAGE_KEYS.CLOUDFLARE_CREDENTIALS,
+      JSON.stringify({ accountId, apiToken }),
+    );
+  } else {
+    localStorage.removeItem(STORAGE_KEYS.CLOUDFLARE_CREDENTIALS);
+  }
+}
+
+export function getCloudflareCredentials(): { accountId: string; apiToken: string } | null {
+  try {
+    const data = localStorage.getItem(STORAGE_KEYS.CLOUDFLARE_CREDENTIALS);
+    return data ? JSON.parse(data) : null;
+  } catch {
+    return null;
+  }
+}
+
+export interface S3TargetConfig {
+  bucket: string;
+  prefix: string;
+  region: string;
+  endpoint: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+// S3-compatible deploy target, including its access key pair
+export function saveS3Target(target: S3TargetConfig | null) {
+  if (target) {
+    localStorage.setItem(STORAGE_KEYS.S3_TARGET, JSON.stringify(target));
+  } else {
+    localStorage.removeItem(STORAGE_KEYS.S3_TARGET);
+  }
+}
+
+export function getS3Target(): S3TargetConfig | null {
+  try {
+    const data = localStorage.getItem(STORAGE_KEYS.S3_TARGET);
+    return data ? JSON.parse(data) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Custom domain for GitHub Pages and Vercel deploys (e.g. portfolio.example.com)
+export function saveCustomDomain(domain: string) {
+  if (domain) {
+    localStorage.setItem(STORAGE_KEYS.CUSTOM_DOMAIN, domain);
+  } else {
+    localStorage.removeItem(STORAGE_KEYS.CUSTOM_DOMAIN);
+  }
+}
+
+export function getCustomDomain(): string | null {
+  return localStorage.getItem(STORAGE_KEYS.CUSTOM_DOMAIN);
+}
+
 /**
- * Clear all stored credentials (GitHub, GitLab, Bitbucket)
+ * Clear all stored credentials (GitHub, GitLab, Bitbucket, Gitea, deploy targets)
  * Use this when user wants to logout or clear sensitive data
  */
 export function clearAllCredentials() {
   removeGitHubToken();
+  saveGitHubDeployToken("");
   removeGitLabToken();
+  saveGitLabInstanceUrl("");
+  saveGitLabPagesDomain("");
   removeBitbucketCredentials();
+  removeGiteaToken();
+  saveGiteaInstanceUrl("");
+  saveNetlifyToken("");
+  saveCloudflareCredentials("", "");
+  saveS3Target(null);
 }
 
 /**
@@ -94,7 +275,16 @@ export function clearAllCredentials() {
  * Useful for displaying security warnings to users
  */
 export function hasStoredCredentials(): boolean {
-  return !!(getGitHubToken() || getGitLabToken() || getBitbucketCredentials());
+  return !!(
+    getGitHubToken() ||
+    getGitHubDeployToken() ||
+    getGitLabToken() ||
+    getBitbucketCredentials() ||
+    getGiteaToken() ||
+    getNetlifyToken() ||
+    getCloudflareCredentials() ||
+    getS3Target()
+  );
 }
 
 // Data Sources Configuration
@@ -269,6 +459,196 @@ export function getPortfolioItemsBySource(source: SourceType): PortfolioItem[] {
   return getPortfolioItems().filter((item) => item.source === source);
 }
 
+// Portfolio Sections Management
+export function savePortfolioSections(sections: PortfolioSection[]) {
+  try {
+    localStorage.setItem(STORAGE_KEYS.PORTFOLIO_SECTIONS, JSON.stringify(sections));
+  } catch (error) {
+    console.error("Error saving portfolio sections to storage:", error);
+    throw error;
+  }
+}
+
+export function getPortfolioSections(): PortfolioSection[] {
+  try {
+    const data = localStorage.getItem(STORAGE_KEYS.PORTFOLIO_SECTIONS);
+    if (!data) return DEFAULT_SECTIONS.map((section) => ({ ...section }));
+    return JSON.parse(data) as PortfolioSection[];
+  } catch (error) {
+    console.error("Error reading portfolio sections from storage:", error);
+    return DEFAULT_SECTIONS.map((section) => ({ ...section }));
+  }
+}
+
+// Summary Style Management
+export function saveSummaryStyle(style: SummaryStyle) {
+  try {
+    localStorage.setItem(STORAGE_KEYS.SUMMARY_STYLE, JSON.stringify(style));
+  } catch (error) {
+    console.error("Error saving summary style to storage:", error);
+    throw error;
+  }
+}
+
+export function getSummaryStyle(): SummaryStyle {
+  try {
+    const data = localStorage.getItem(STORAGE_KEYS.SUMMARY_STYLE);
+    if (!data) return { ...DEFAULT_SUMMARY_STYLE };
+    return JSON.parse(data) as SummaryStyle;
+  } catch (error) {
+    console.error("Error reading summary style from storage:", error);
+    return { ...DEFAULT_SUMMARY_STYLE };
+  }
+}
+
+/**
+ * Per-item tone overrides, keyed by item ID
+ */
+export function saveItemSummaryTones(tones: Record<string, SummaryTone>) {
+  try {
+    localStorage.setItem(STORAGE_KEYS.ITEM_SUMMARY_TONES, JSON.stringify(tones));
+  } catch (error) {
+    console.error("Error saving item summary tones to storage:", error);
+    throw error;
+  }
+}
+
+export function getItemSummaryTones(): Record<string, SummaryTone> {
+  try {
+    const data = localStorage.getItem(STORAGE_KEYS.ITEM_SUMMARY_TONES);
+    if (!data) return {};
+    return JSON.parse(data) as Record<string, SummaryTone>;
+  } catch (error) {
+    console.error("Error reading item summary tones from storage:", error);
+    return {};
+  }
+}
+
+/**
+ * Headline and skills from an imported profile (e.g. a LinkedIn export),
+ * used when generating the introduction
+ */
+export function saveIntroductionHints(hints: IntroductionHints) {
+  try {
+    localStorage.setItem(STORAGE_KEYS.INTRODUCTION_HINTS, JSON.stringify(hints));
+  } catch (error) {
+    console.error("Error saving introduction hints to storage:", error);
+    throw error;
+  }
+}
+
+/**
+ * Merges newly imported hints into the stored ones; the latest headline wins
+ */
+export function addIntroductionHints(hints: IntroductionHints) {
+  const existing = getIntroductionHints();
+  const merge = (current: string[] = [], added: string[] = []) =>
+    Array.from(new Set([...current, ...added]));
+
+  saveIntroductionHints({
+    headline: hints.headline || existing?.headline,
+    skills: merge(existing?.skills, hints.skills).slice(0, 100),
+    interests: merge(existing?.interests, hints.interests).slice(0, 50),
+  });
+}
+
+export function getIntroductionHints(): IntroductionHints | null {
+  try {
+    const data = localStorage.getItem(STORAGE_KEYS.INTRODUCTION_HINTS);
+    if (!data) return null;
+    return JSON.parse(data) as IntroductionHints;
+  } catch (error) {
+    console.error("Error reading introduction hints from storage:", error);
+    return null;
+  }
+}
+
+// Deployment History Management
+export type DeploymentTarget =
+  | "github-pages"
+  | "vercel"
+  | "netlify"
+  | "cloudflare"
+  | "gitlab-pages"
+  | "s3";
+
+/**
+ * Portfolio content a deploy was generated from, so it can be deployed again
+ */
+export interface DeploymentSnapshot {
+  exportMode: "single" | "site";
+  items: PortfolioItem[];
+  introduction?: {
+    introduction: string;
+    skills: string[];
+    interests: string[];
+    customImageUrl?: string;
+  } | null;
+  themeId?: string;
+  customTitle?: string | null;
+  sections?: PortfolioSection[];
+}
+
+export interface DeploymentRecord {
+  id: string;
+  target: DeploymentTarget;
+  url: string;
+  deployedAt: string;
+  // Commit of Git-based targets (GitHub Pages, Vercel, GitLab Pages)
+  commitSha: string | null;
+  // Deployment of hosts that track them (Vercel, Netlify, Cloudflare Pages)
+  deploymentId: string | null;
+  themeId: string | null;
+  itemCount: number;
+  snapshot: DeploymentSnapshot;
+  // ID of the record a redeploy or rollback restored
+  restoredFrom?: string;
+}
+
+// Each snapshot holds every item, so only the latest deploys are kept
+export const DEPLOYMENT_HISTORY_LIMIT = 20;
+
+export function getDeploymentHistory(): DeploymentRecord[] {
+  try {
+    const data = localStorage.getItem(STORAGE_KEYS.DEPLOYMENT_HISTORY);
+    if (!data) return [];
+    return JSON.parse(data) as DeploymentRecord[];
+  } catch (error) {
+    console.error("Error reading deployment history from storage:", error);
+    return [];
+  }
+}
+
+/**
+ * Records a deploy, newest first
+ * @returns The stored record
+ */
+export function addDeploymentRecord(
+  record: Omit<DeploymentRecord, "id" | "deployedAt" | "themeId" | "itemCount">,
+): DeploymentRecord {
+  const entry: DeploymentRecord = {
+    ...record,
+    id: crypto.randomUUID(),
+    deployedAt: new Date().toISOString(),
+    themeId: record.snapshot.themeId || null,
+    itemCount: record.snapshot.items.length,
+  };
+  const history = [entry, ...getDeploymentHistory()].slice(0, DEPLOYMENT_HISTORY_LIMIT);
+
+  try {
+    localStorage.setItem(STORAGE_KEYS.DEPLOYMENT_HISTORY, JSON.stringify(history));
+  } catch (error) {
+    // A full storage quota must not fail the deploy that was just made
+    console.error("Error saving deployment history to storage:", error);
+  }
+  return entry;
+}
+
+export function removeDeploymentRecord(id: string) {
+  const history = getDeploymentHistory().filter((record) => record.id !== id);
+  localStorage.setItem(STORAGE_KEYS.DEPLOYMENT_HISTORY, JSON.stringify(history));
+}
+
 export function clearStorage() {
   Object.values(STORAGE_KEYS).forEach((key) => {
     localStorage.removeItem(key);
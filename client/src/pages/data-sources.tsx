@@ -1,17 +1,45 @@
-import type { BlogPost, FreeformContent, MediumPost, PortfolioItem } from "@shared/schema";
+import type {
+  BlogPost,
+  Contribution,
+  FreeformContent,
+  Gist,
+  MediumPost,
+  PortfolioItem,
+  Publication,
+  Talk,
+} from "@shared/schema";
 import { useState } from "react";
 import { useLocation } from "wouter";
 import {
+  addIntroductionHints,
   addPortfolioItem,
   addPortfolioItems,
   getBitbucketCredentials,
+  getGiteaInstanceUrl,
+  getGiteaToken,
   getGitHubToken,
+  getGitLabInstanceUrl,
   getGitLabToken,
   saveBitbucketCredentials,
+  saveGiteaInstanceUrl,
+  saveGiteaToken,
+  saveGitLabInstanceUrl,
   saveGitLabToken,
 } from "../lib/storage";
 
-type DataSourceType = "rss" | "medium" | "gitlab" | "bitbucket" | "freeform";
+type DataSourceType =
+  | "rss"
+  | "medium"
+  | "gitlab"
+  | "bitbucket"
+  | "gitea"
+  | "linkedin"
+  | "json_resume"
+  | "publications"
+  | "contributions"
+  | "gists"
+  | "talks"
+  | "freeform";
 
 export default function DataSourcesPage() {
   const [, setLocation] = useLocation();
@@ -33,6 +61,7 @@ export default function DataSourcesPage() {
   // GitLab Form State
   const [gitlabToken, setGitlabToken] = useState(getGitLabToken() || "");
   const [gitlabUsername, setGitlabUsername] = useState("");
+  const [gitlabUrl, setGitlabUrl] = useState(getGitLabInstanceUrl() || "");
 
   // Bitbucket Form State
   const [bitbucketUsername, setBitbucketUsername] = useState(
@@ -41,6 +70,39 @@ export default function DataSourcesPage() {
   const [bitbucketAppPassword, setBitbucketAppPassword] = useState(
     getBitbucketCredentials()?.appPassword || "",
   );
+  const [bitbucketUrl, setBitbucketUrl] = useState(getBitbucketCredentials()?.baseUrl || "");
+
+  // Gitea Form State
+  const [giteaToken, setGiteaToken] = useState(getGiteaToken() || "");
+  const [giteaUrl, setGiteaUrl] = useState(getGiteaInstanceUrl() || "");
+
+  // LinkedIn Form State
+  const [linkedinExport, setLinkedinExport] = useState<File | null>(null);
+
+  // JSON Resume Form State
+  const [resumeFile, setResumeFile] = useState<File | null>(null);
+
+  // Publications Form State
+  const [publicationsMode, setPublicationsMode] = useState<"bibtex" | "orcid" | "arxiv">("bibtex");
+  const [bibtex, setBibtex] = useState("");
+  const [orcidFile, setOrcidFile] = useState<File | null>(null);
+  const [arxivAuthor, setArxivAuthor] = useState("");
+
+  // Contributions Form State
+  const [contributionsToken, setContributionsToken] = useState(getGitHubToken() || "");
+
+  // Gists Form State
+  const [gistsToken, setGistsToken] = useState(getGitHubToken() || "");
+
+  // Talks Form State
+  const [talksMode, setTalksMode] = useState<"youtube" | "manual">("youtube");
+  const [talksFeed, setTalksFeed] = useState("");
+  const [talkTitle, setTalkTitle] = useState("");
+  const [talkEvent, setTalkEvent] = useState("");
+  const [talkDate, setTalkDate] = useState("");
+  const [talkDescription, setTalkDescription] = useState("");
+  const [talkVideoUrl, setTalkVideoUrl] = useState("");
+  const [talkSlidesUrl, setTalkSlidesUrl] = useState("");
 
   // Free-form State
   const [freeformTitle, setFreeformTitle] = useState("");
@@ -134,17 +196,23 @@ export default function DataSourcesPage() {
       const response = await fetch("/api/sources/gitlab", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ accessToken: gitlabToken, username: gitlabUsername }),
+        body: JSON.stringify({
+          accessToken: gitlabToken,
+          username: gitlabUsername,
+          baseUrl: gitlabUrl.trim() || undefined,
+        }),
       });
 
       if (!response.ok) {
-        throw new Error("Failed to fetch GitLab projects");
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.details || "Failed to fetch GitLab projects");
       }
 
       const data = await response.json();
       const projects = data.projects as PortfolioItem[];
 
       saveGitLabToken(gitlabToken);
+      saveGitLabInstanceUrl(gitlabUrl.trim());
       addPortfolioItems(projects);
       setSuccess(`Added ${projects.length} GitLab projects!`);
       setTimeout(() => setSuccess(null), 3000);
@@ -168,17 +236,26 @@ export default function DataSourcesPage() {
       const response = await fetch("/api/sources/bitbucket", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ username: bitbucketUsername, appPassword: bitbucketAppPassword }),
+        body: JSON.stringify({
+          username: bitbucketUsername,
+          appPassword: bitbucketAppPassword,
+          baseUrl: bitbucketUrl.trim() || undefined,
+        }),
       });
 
       if (!response.ok) {
-        throw new Error("Failed to fetch Bitbucket repositories");
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.details || "Failed to fetch Bitbucket repositories");
       }
 
       const data = await response.json();
       const repositories = data.repositories as PortfolioItem[];
 
-      saveBitbucketCredentials(bitbucketUsername, bitbucketAppPassword);
+      saveBitbucketCredentials(
+        bitbucketUsername,
+        bitbucketAppPassword,
+        bitbucketUrl.trim() || undefined,
+      );
       addPortfolioItems(repositories);
       setSuccess(`Added ${repositories.length} Bitbucket repositories!`);
       setTimeout(() => setSuccess(null), 3000);
@@ -189,6 +266,300 @@ export default function DataSourcesPage() {
     }
   };
 
+  const handleGiteaSubmit = async () => {
+    if (!giteaToken) {
+      setError("Please enter an access token");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/sources/gitea", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          accessToken: giteaToken,
+          baseUrl: giteaUrl.trim() || undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.details || data.message || "Failed to fetch Gitea repositories");
+      }
+
+      const data = await response.json();
+      const repositories = data.repositories as PortfolioItem[];
+
+      saveGiteaToken(giteaToken);
+      saveGiteaInstanceUrl(giteaUrl.trim());
+      addPortfolioItems(repositories);
+      setSuccess(`Added ${repositories.length} Gitea repositories!`);
+      setTimeout(() => setSuccess(null), 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch Gitea repositories");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLinkedInSubmit = async () => {
+    if (!linkedinExport) {
+      setError("Please choose your LinkedIn export ZIP");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/sources/linkedin", {
+        method: "POST",
+        headers: { "Content-Type": "application/zip" },
+        body: linkedinExport,
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.details || data.error || "Failed to import LinkedIn export");
+      }
+
+      const data = await response.json();
+      const items = data.items as PortfolioItem[];
+
+      addPortfolioItems(items);
+      addIntroductionHints(data.hints);
+      setSuccess(`Added ${items.length} items from your LinkedIn export!`);
+      setLinkedinExport(null);
+      setTimeout(() => setSuccess(null), 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import LinkedIn export");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleJsonResumeSubmit = async () => {
+    if (!resumeFile) {
+      setError("Please choose your resume.json file");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      let resume: unknown;
+      try {
+        resume = JSON.parse(await resumeFile.text());
+      } catch {
+        throw new Error("The selected file is not valid JSON");
+      }
+
+      const response = await fetch("/api/sources/json-resume", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ resume }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.details || data.error || "Failed to import JSON Resume");
+      }
+
+      const data = await response.json();
+      const items = data.items as PortfolioItem[];
+
+      addPortfolioItems(items);
+      addIntroductionHints(data.hints);
+      setSuccess(`Added ${items.length} items from your resume!`);
+      setResumeFile(null);
+      setTimeout(() => setSuccess(null), 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import JSON Resume");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePublicationsSubmit = async () => {
+    if (publicationsMode === "bibtex" && !bibtex.trim()) {
+      setError("Please paste or upload your BibTeX");
+      return;
+    }
+    if (publicationsMode === "orcid" && !orcidFile) {
+      setError("Please choose your ORCID works JSON file");
+      return;
+    }
+    if (publicationsMode === "arxiv" && !arxivAuthor.trim()) {
+      setError("Please enter your arXiv author identifier");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const request: RequestInit =
+        publicationsMode === "bibtex"
+          ? { headers: { "Content-Type": "application/x-bibtex" }, body: bibtex }
+          : publicationsMode === "orcid"
+            ? { headers: { "Content-Type": "application/vnd.orcid+json" }, body: orcidFile }
+            : {
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ author: arxivAuthor.trim() }),
+              };
+      const response = await fetch(`/api/sources/publications/${publicationsMode}`, {
+        method: "POST",
+        ...request,
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(
+          data.details || data.message || data.error || "Failed to import publications",
+        );
+      }
+
+      const data = await response.json();
+      const publications = data.publications as Publication[];
+
+      addPortfolioItems(publications as PortfolioItem[]);
+      setSuccess(`Added ${publications.length} publications!`);
+      setBibtex("");
+      setOrcidFile(null);
+      setTimeout(() => setSuccess(null), 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import publications");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleContributionsSubmit = async () => {
+    if (!contributionsToken) {
+      setError("Please enter a GitHub access token");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/github/contributions", {
+        headers: { Authorization: `Bearer ${contributionsToken}` },
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.details || data.message || "Failed to fetch contributions");
+      }
+
+      const data = await response.json();
+      const contributions = data.contributions as Contribution[];
+
+      addPortfolioItems(contributions as PortfolioItem[]);
+      setSuccess(`Added contributions to ${contributions.length} repositories!`);
+      setTimeout(() => setSuccess(null), 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch contributions");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleGistsSubmit = async () => {
+    if (!gistsToken) {
+      setError("Please enter a GitHub access token");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/github/gists", {
+        headers: { Authorization: `Bearer ${gistsToken}` },
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.details || data.message || "Failed to fetch gists");
+      }
+
+      const data = await response.json();
+      const gists = data.gists as Gist[];
+
+      addPortfolioItems(gists as PortfolioItem[]);
+      setSuccess(`Added ${gists.length} gists!`);
+      setTimeout(() => setSuccess(null), 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch gists");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleTalksSubmit = async () => {
+    if (talksMode === "youtube" && !talksFeed.trim()) {
+      setError("Please enter a YouTube channel or playlist URL");
+      return;
+    }
+    if (talksMode === "manual" && !talkTitle.trim()) {
+      setError("Please enter the title of the talk");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response =
+        talksMode === "youtube"
+          ? await fetch("/api/sources/talks/youtube", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ feed: talksFeed.trim() }),
+            })
+          : await fetch("/api/sources/talks", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({
+                title: talkTitle,
+                event: talkEvent,
+                date: talkDate,
+                description: talkDescription,
+                videoUrl: talkVideoUrl,
+                slidesUrl: talkSlidesUrl,
+              }),
+            });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.details || data.message || data.error || "Failed to add talks");
+      }
+
+      const data = await response.json();
+      const talks = (data.talks || [data.talk]) as Talk[];
+
+      addPortfolioItems(talks as PortfolioItem[]);
+      setSuccess(talks.length === 1 ? "Added talk!" : `Added ${talks.length} talks!`);
+      setTalkTitle("");
+      setTalkEvent("");
+      setTalkDate("");
+      setTalkDescription("");
+      setTalkVideoUrl("");
+      setTalkSlidesUrl("");
+      setTimeout(() => setSuccess(null), 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add talks");
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleFreeformSubmit = async () => {
     if (!freeformTitle || !freeformContent) {
       setError("Please enter both title and content");
@@ -263,6 +634,55 @@ export default function DataSourcesPage() {
       icon: "🪣",
       color: "bg-blue-50 border-blue-200",
     },
+    {
+      id: "gitea" as DataSourceType,
+      title: "Gitea / Forgejo",
+      description: "Import from Codeberg or your own Gitea or Forgejo",
+      icon: "🍵",
+      color: "bg-emerald-50 border-emerald-200",
+    },
+    {
+      id: "linkedin" as DataSourceType,
+      title: "LinkedIn Export",
+      description: "Import posts, positions and skills from your data export",
+      icon: "💼",
+      color: "bg-sky-50 border-sky-200",
+    },
+    {
+      id: "json_resume" as DataSourceType,
+      title: "JSON Resume",
+      description: "Import work, projects, awards and skills from resume.json",
+      icon: "📄",
+      color: "bg-amber-50 border-amber-200",
+    },
+    {
+      id: "publications" as DataSourceType,
+      title: "Publications",
+      description: "Import papers from BibTeX, ORCID or arXiv",
+      icon: "📚",
+      color: "bg-indigo-50 border-indigo-200",
+    },
+    {
+      id: "contributions" as DataSourceType,
+      title: "Open Source Contributions",
+      description: "Import your merged pull requests to other projects on GitHub",
+      icon: "🤝",
+      color: "bg-violet-50 border-violet-200",
+    },
+    {
+      id: "gists" as DataSourceType,
+      title: "GitHub Gists",
+      description: "Showcase your public scripts and snippets",
+      icon: "🧩",
+      color: "bg-slate-50 border-slate-200",
+    },
+    {
+      id: "talks" as DataSourceType,
+      title: "Talks",
+      description: "Add conference talks from YouTube or by hand",
+      icon: "🎤",
+      color: "bg-rose-50 border-rose-200",
+    },
     {
       id: "freeform" as DataSourceType,
       title: "Custom Content",
@@ -439,6 +859,19 @@ export default function DataSourcesPage() {
                   Create a token at GitLab Settings → Access Tokens (needs read_api scope)
                 </p>
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Instance URL (optional)
+                </label>
+                <input
+                  type="url"
+                  value={gitlabUrl}
+                  onChange={(e) => setGitlabUrl(e.target.value)}
+                  placeholder="https://gitlab.example.com"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <p className="text-sm text-gray-500 mt-1">Leave empty for gitlab.com</p>
+              </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Username (optional)
@@ -476,6 +909,22 @@ export default function DataSourcesPage() {
               </button>
             </div>
             <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Bitbucket Server / Data Center URL (optional)
+                </label>
+                <input
+                  type="url"
+                  value={bitbucketUrl}
+                  onChange={(e) => setBitbucketUrl(e.target.value)}
+                  placeholder="https://bitbucket.example.com"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <p className="text-sm text-gray-500 mt-1">
+                  Leave empty for bitbucket.org. For self-hosted instances, use your password or an
+                  HTTP access token as the app password.
+                </p>
+              </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Bitbucket Username *
@@ -515,6 +964,448 @@ export default function DataSourcesPage() {
           </div>
         )}
 
+        {/* Gitea Form */}
+        {activeSource === "gitea" && (
+          <div className="bg-white rounded-lg shadow-lg p-6 mb-4">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-2xl font-bold">Add Gitea / Forgejo Repositories</h2>
+              <button
+                onClick={() => setActiveSource(null)}
+                className="text-gray-500 hover:text-gray-700"
+                aria-label="Close form"
+              >
+                ✕
+              </button>
+            </div>
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Instance URL (optional)
+                </label>
+                <input
+                  type="url"
+                  value={giteaUrl}
+                  onChange={(e) => setGiteaUrl(e.target.value)}
+                  placeholder="https://git.example.com"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <p className="text-sm text-gray-500 mt-1">Leave empty for codeberg.org</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Personal Access Token *
+                </label>
+                <input
+                  type="password"
+                  value={giteaToken}
+                  onChange={(e) => setGiteaToken(e.target.value)}
+                  placeholder="Access token"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <p className="text-sm text-gray-500 mt-1">
+                  Create a token at Settings → Applications (needs read:repository and read:user)
+                </p>
+              </div>
+              <button
+                onClick={handleGiteaSubmit}
+                disabled={loading}
+                className="w-full bg-emerald-600 text-white py-2 px-4 rounded-lg hover:bg-emerald-700 disabled:bg-gray-400"
+              >
+                {loading ? "Fetching..." : "Import Gitea Repos"}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* LinkedIn Form */}
+        {activeSource === "linkedin" && (
+          <div className="bg-white rounded-lg shadow-lg p-6 mb-4">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-2xl font-bold">Import LinkedIn Export</h2>
+              <button
+                onClick={() => setActiveSource(null)}
+                className="text-gray-500 hover:text-gray-700"
+                aria-label="Close form"
+              >
+                ✕
+              </button>
+            </div>
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Data Export ZIP *
+                </label>
+                <input
+                  type="file"
+                  accept=".zip,application/zip"
+                  onChange={(e) => setLinkedinExport(e.target.files?.[0] || null)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <p className="text-sm text-gray-500 mt-1">
+                  Request it at LinkedIn Settings → Data privacy → Get a copy of your data. The file
+                  is processed in memory and never stored.
+                </p>
+              </div>
+              <button
+                onClick={handleLinkedInSubmit}
+                disabled={loading}
+                className="w-full bg-sky-600 text-white py-2 px-4 rounded-lg hover:bg-sky-700 disabled:bg-gray-400"
+              >
+                {loading ? "Importing..." : "Import LinkedIn Data"}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* JSON Resume Form */}
+        {activeSource === "json_resume" && (
+          <div className="bg-white rounded-lg shadow-lg p-6 mb-4">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-2xl font-bold">Import JSON Resume</h2>
+              <button
+                onClick={() => setActiveSource(null)}
+                className="text-gray-500 hover:text-gray-700"
+                aria-label="Close form"
+              >
+                ✕
+              </button>
+            </div>
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  resume.json *
+                </label>
+                <input
+                  type="file"
+                  accept=".json,application/json"
+                  onChange={(e) => setResumeFile(e.target.files?.[0] || null)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <p className="text-sm text-gray-500 mt-1">
+                  A resume in the jsonresume.org format. Work, projects, publications, awards and
+                  skills become portfolio items; skills and interests guide your introduction.
+                </p>
+              </div>
+              <button
+                onClick={handleJsonResumeSubmit}
+                disabled={loading}
+                className="w-full bg-amber-600 text-white py-2 px-4 rounded-lg hover:bg-amber-700 disabled:bg-gray-400"
+              >
+                {loading ? "Importing..." : "Import Resume"}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Publications Form */}
+        {activeSource === "publications" && (
+          <div className="bg-white rounded-lg shadow-lg p-6 mb-4">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-2xl font-bold">Import Publications</h2>
+              <button
+                onClick={() => setActiveSource(null)}
+                className="text-gray-500 hover:text-gray-700"
+                aria-label="Close form"
+              >
+                ✕
+              </button>
+            </div>
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Import From</label>
+                <select
+                  value={publicationsMode}
+                  onChange={(e) => setPublicationsMode(e.target.value as any)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="bibtex">BibTeX</option>
+                  <option value="orcid">ORCID works export</option>
+                  <option value="arxiv">arXiv author feed</option>
+                </select>
+              </div>
+              {publicationsMode === "bibtex" && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">BibTeX *</label>
+                  <textarea
+                    value={bibtex}
+                    onChange={(e) => setBibtex(e.target.value)}
+                    placeholder="@article{lovelace1843, ...}"
+                    rows={8}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <input
+                    type="file"
+                    accept=".bib,.bibtex,.txt"
+                    onChange={async (e) => setBibtex((await e.target.files?.[0]?.text()) || "")}
+                    className="w-full mt-2 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <p className="text-sm text-gray-500 mt-1">
+                    Paste or upload a .bib file, e.g. exported from Google Scholar, Zotero or DBLP
+                  </p>
+                </div>
+              )}
+              {publicationsMode === "orcid" && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    ORCID Works JSON *
+                  </label>
+                  <input
+                    type="file"
+                    accept=".json,application/json"
+                    onChange={(e) => setOrcidFile(e.target.files?.[0] || null)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <p className="text-sm text-gray-500 mt-1">
+                    Save https://pub.orcid.org/v3.0/&lt;your ORCID iD&gt;/works with an Accept:
+                    application/json header
+                  </p>
+                </div>
+              )}
+              {publicationsMode === "arxiv" && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    arXiv Author Identifier *
+                  </label>
+                  <input
+                    type="text"
+                    value={arxivAuthor}
+                    onChange={(e) => setArxivAuthor(e.target.value)}
+                    placeholder="lovelace_a_1 or 0000-0002-1825-0097"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <p className="text-sm text-gray-500 mt-1">
+                    Your arXiv author ID (arxiv.org/a/...) or an ORCID iD linked to your arXiv
+                    account
+                  </p>
+                </div>
+              )}
+              <button
+                onClick={handlePublicationsSubmit}
+                disabled={loading}
+                className="w-full bg-indigo-600 text-white py-2 px-4 rounded-lg hover:bg-indigo-700 disabled:bg-gray-400"
+              >
+                {loading ? "Importing..." : "Import Publications"}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Contributions Form */}
+        {activeSource === "contributions" && (
+          <div className="bg-white rounded-lg shadow-lg p-6 mb-4">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-2xl font-bold">Add Open Source Contributions</h2>
+              <button
+                onClick={() => setActiveSource(null)}
+                className="text-gray-500 hover:text-gray-700"
+                aria-label="Close form"
+              >
+                ✕
+              </button>
+            </div>
+            <div className="space-y-4">
+              {hasGitHubToken ? (
+                <p className="text-sm text-gray-600">
+                  Your merged pull requests to public repositories you don't own are grouped into
+                  one item per repository, using your GitHub sign-in.
+                </p>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    GitHub Access Token *
+                  </label>
+                  <input
+                    type="password"
+                    value={contributionsToken}
+                    onChange={(e) => setContributionsToken(e.target.value)}
+                    placeholder="ghp_..."
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <p className="text-sm text-gray-500 mt-1">
+                    A token without scopes is enough, only public pull requests are searched
+                  </p>
+                </div>
+              )}
+              <button
+                onClick={handleContributionsSubmit}
+                disabled={loading}
+                className="w-full bg-violet-600 text-white py-2 px-4 rounded-lg hover:bg-violet-700 disabled:bg-gray-400"
+              >
+                {loading ? "Searching..." : "Import Contributions"}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Gists Form */}
+        {activeSource === "gists" && (
+          <div className="bg-white rounded-lg shadow-lg p-6 mb-4">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-2xl font-bold">Add GitHub Gists</h2>
+              <button
+                onClick={() => setActiveSource(null)}
+                className="text-gray-500 hover:text-gray-700"
+                aria-label="Close form"
+              >
+                ✕
+              </button>
+            </div>
+            <div className="space-y-4">
+              {hasGitHubToken ? (
+                <p className="text-sm text-gray-600">
+                  Your public gists are imported with their files, using your GitHub sign-in. Secret
+                  gists are never listed.
+                </p>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    GitHub Access Token *
+                  </label>
+                  <input
+                    type="password"
+                    value={gistsToken}
+                    onChange={(e) => setGistsToken(e.target.value)}
+                    placeholder="ghp_..."
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <p className="text-sm text-gray-500 mt-1">
+                    A token without scopes is enough, only public gists are listed
+                  </p>
+                </div>
+              )}
+              <button
+                onClick={handleGistsSubmit}
+                disabled={loading}
+                className="w-full bg-slate-700 text-white py-2 px-4 rounded-lg hover:bg-slate-800 disabled:bg-gray-400"
+              >
+                {loading ? "Fetching..." : "Import Gists"}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Talks Form */}
+        {activeSource === "talks" && (
+          <div className="bg-white rounded-lg shadow-lg p-6 mb-4">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-2xl font-bold">Add Talks</h2>
+              <button
+                onClick={() => setActiveSource(null)}
+                className="text-gray-500 hover:text-gray-700"
+                aria-label="Close form"
+              >
+                ✕
+              </button>
+            </div>
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Add From</label>
+                <select
+                  value={talksMode}
+                  onChange={(e) => setTalksMode(e.target.value as any)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="youtube">YouTube channel or playlist</option>
+                  <option value="manual">Manual entry</option>
+                </select>
+              </div>
+              {talksMode === "youtube" && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Channel or Playlist URL *
+                  </label>
+                  <input
+                    type="url"
+                    value={talksFeed}
+                    onChange={(e) => setTalksFeed(e.target.value)}
+                    placeholder="https://www.youtube.com/playlist?list=PL..."
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <p className="text-sm text-gray-500 mt-1">
+                    A conference playlist records its title as the event of every talk
+                  </p>
+                </div>
+              )}
+              {talksMode === "manual" && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Title *</label>
+                    <input
+                      type="text"
+                      value={talkTitle}
+                      onChange={(e) => setTalkTitle(e.target.value)}
+                      placeholder="Scaling Engines to a Billion Users"
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Event</label>
+                    <input
+                      type="text"
+                      value={talkEvent}
+                      onChange={(e) => setTalkEvent(e.target.value)}
+                      placeholder="JSConf EU 2025"
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+                    <input
+                      type="date"
+                      value={talkDate}
+                      onChange={(e) => setTalkDate(e.target.value)}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Video URL
+                    </label>
+                    <input
+                      type="url"
+                      value={talkVideoUrl}
+                      onChange={(e) => setTalkVideoUrl(e.target.value)}
+                      placeholder="https://www.youtube.com/watch?v=..."
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Slides URL
+                    </label>
+                    <input
+                      type="url"
+                      value={talkSlidesUrl}
+                      onChange={(e) => setTalkSlidesUrl(e.target.value)}
+                      placeholder="https://speakerdeck.com/..."
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Description
+                    </label>
+                    <textarea
+                      value={talkDescription}
+                      onChange={(e) => setTalkDescription(e.target.value)}
+                      placeholder="What the talk is about"
+                      rows={4}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                </>
+              )}
+              <button
+                onClick={handleTalksSubmit}
+                disabled={loading}
+                className="w-full bg-rose-600 text-white py-2 px-4 rounded-lg hover:bg-rose-700 disabled:bg-gray-400"
+              >
+                {loading ? "Adding..." : talksMode === "youtube" ? "Import Videos" : "Add Talk"}
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Free-form Content Form */}
         {activeSource === "freeform" && (
           <div className="bg-white rounded-lg shadow-lg p-6 mb-4">
@@ -1,20 +1,31 @@
 import type {
   BlogPost,
+  Contribution,
   FreeformContent,
+  Gist,
   MediumPost,
   PortfolioItem,
+  Publication,
   SourceType,
+  Talk,
 } from "@shared/schema";
 import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
 import {
+  addIntroductionHints,
   addPortfolioItem,
   addPortfolioItems,
   getBitbucketCredentials,
+  getGiteaInstanceUrl,
+  getGiteaToken,
   getGitHubToken,
+  getGitLabInstanceUrl,
   getGitLabToken,
   saveBitbucketCredentials,
+  saveGiteaInstanceUrl,
+  saveGiteaToken,
   saveGitHubToken,
+  saveGitLabInstanceUrl,
   saveGitLabToken,
 } from "../lib/storage";
 import {
@@ -38,12 +49,29 @@ export default function DataWizardPage() {
   const [mediumUsername, setMediumUsername] = useState("");
   const [gitlabToken, setGitlabToken] = useState(getGitLabToken() || "");
   const [gitlabUsername, setGitlabUsername] = useState("");
+  const [gitlabUrl, setGitlabUrl] = useState(getGitLabInstanceUrl() || "");
   const [bitbucketUsername, setBitbucketUsername] = useState(
     getBitbucketCredentials()?.username || "",
   );
   const [bitbucketAppPassword, setBitbucketAppPassword] = useState(
     getBitbucketCredentials()?.appPassword || "",
   );
+  const [bitbucketUrl, setBitbucketUrl] = useState(getBitbucketCredentials()?.baseUrl || "");
+  const [giteaToken, setGiteaToken] = useState(getGiteaToken() || "");
+  const [giteaUrl, setGiteaUrl] = useState(getGiteaInstanceUrl() || "");
+  const [linkedinExport, setLinkedinExport] = useState<File | null>(null);
+  const [publicationsMode, setPublicationsMode] = useState<"bibtex" | "orcid" | "arxiv">("bibtex");
+  const [bibtex, setBibtex] = useState("");
+  const [orcidFile, setOrcidFile] = useState<File | null>(null);
+  const [arxivAuthor, setArxivAuthor] = useState("");
+  const [talksMode, setTalksMode] = useState<"youtube" | "manual">("youtube");
+  const [talksFeed, setTalksFeed] = useState("");
+  const [talkTitle, setTalkTitle] = useState("");
+  const [talkEvent, setTalkEvent] = useState("");
+  const [talkDate, setTalkDate] = useState("");
+  const [talkDescription, setTalkDescription] = useState("");
+  const [talkVideoUrl, setTalkVideoUrl] = useState("");
+  const [talkSlidesUrl, setTalkSlidesUrl] = useState("");
   const [githubToken, setGithubToken] = useState(getGitHubToken() || "");
   const [freeformTitle, setFreeformTitle] = useState("");
   const [freeformContent, setFreeformContent] = useState("");
@@ -136,6 +164,121 @@ export default function DataWizardPage() {
     }
   };
 
+  const handleContributionsSubmit = async () => {
+    if (!githubToken) {
+      setError("Please enter a GitHub personal access token");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/github/contributions", {
+        headers: { Authorization: `Bearer ${githubToken}` },
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.details || data.message || "Failed to fetch contributions");
+      }
+
+      const data = await response.json();
+      const contributions = data.contributions as Contribution[];
+
+      saveGitHubToken(githubToken);
+      addPortfolioItems(contributions as PortfolioItem[]);
+      handleSourceComplete(contributions.length);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch contributions");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleGistsSubmit = async () => {
+    if (!githubToken) {
+      setError("Please enter a GitHub personal access token");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/github/gists", {
+        headers: { Authorization: `Bearer ${githubToken}` },
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.details || data.message || "Failed to fetch gists");
+      }
+
+      const data = await response.json();
+      const gists = data.gists as Gist[];
+
+      saveGitHubToken(githubToken);
+      addPortfolioItems(gists as PortfolioItem[]);
+      handleSourceComplete(gists.length);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch gists");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleTalksSubmit = async () => {
+    if (talksMode === "youtube" && !talksFeed.trim()) {
+      setError("Please enter a YouTube channel or playlist URL");
+      return;
+    }
+    if (talksMode === "manual" && !talkTitle.trim()) {
+      setError("Please enter the title of the talk");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response =
+        talksMode === "youtube"
+          ? await fetch("/api/sources/talks/youtube", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ feed: talksFeed.trim() }),
+            })
+          : await fetch("/api/sources/talks", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({
+                title: talkTitle,
+                event: talkEvent,
+                date: talkDate,
+                description: talkDescription,
+                videoUrl: talkVideoUrl,
+                slidesUrl: talkSlidesUrl,
+              }),
+            });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.details || data.message || data.error || "Failed to add talks");
+      }
+
+      const data = await response.json();
+      const talks = (data.talks || [data.talk]) as Talk[];
+
+      addPortfolioItems(talks as PortfolioItem[]);
+      handleSourceComplete(talks.length);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add talks");
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleRSSSubmit = async () => {
     if (!rssFeedUrl) {
       setError("Please enter an RSS feed URL");
@@ -216,17 +359,23 @@ export default function DataWizardPage() {
       const response = await fetch("/api/sources/gitlab", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ accessToken: gitlabToken, username: gitlabUsername }),
+        body: JSON.stringify({
+          accessToken: gitlabToken,
+          username: gitlabUsername,
+          baseUrl: gitlabUrl.trim() || undefined,
+        }),
       });
 
       if (!response.ok) {
-        throw new Error("Failed to fetch GitLab projects");
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.details || "Failed to fetch GitLab projects");
       }
 
       const data = await response.json();
       const projects = data.projects as PortfolioItem[];
 
       saveGitLabToken(gitlabToken);
+      saveGitLabInstanceUrl(gitlabUrl.trim());
       addPortfolioItems(projects);
       handleSourceComplete(projects.length);
     } catch (err) {
@@ -249,17 +398,26 @@ export default function DataWizardPage() {
       const response = await fetch("/api/sources/bitbucket", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ username: bitbucketUsername, appPassword: bitbucketAppPassword }),
+        body: JSON.stringify({
+          username: bitbucketUsername,
+          appPassword: bitbucketAppPassword,
+          baseUrl: bitbucketUrl.trim() || undefined,
+        }),
       });
 
       if (!response.ok) {
-        throw new Error("Failed to fetch Bitbucket repositories");
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.details || "Failed to fetch Bitbucket repositories");
       }
 
       const data = await response.json();
       const repositories = data.repositories as PortfolioItem[];
 
-      saveBitbucketCredentials(bitbucketUsername, bitbucketAppPassword);
+      saveBitbucketCredentials(
+        bitbucketUsername,
+        bitbucketAppPassword,
+        bitbucketUrl.trim() || undefined,
+      );
       addPortfolioItems(repositories);
       handleSourceComplete(repositories.length);
     } catch (err) {
@@ -269,6 +427,132 @@ export default function DataWizardPage() {
     }
   };
 
+  const handleGiteaSubmit = async () => {
+    if (!giteaToken) {
+      setError("Please enter an access token");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/sources/gitea", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          accessToken: giteaToken,
+          baseUrl: giteaUrl.trim() || undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.details || data.message || "Failed to fetch Gitea repositories");
+      }
+
+      const data = await response.json();
+      const repositories = data.repositories as PortfolioItem[];
+
+      saveGiteaToken(giteaToken);
+      saveGiteaInstanceUrl(giteaUrl.trim());
+      addPortfolioItems(repositories);
+      handleSourceComplete(repositories.length);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch Gitea repositories");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLinkedInSubmit = async () => {
+    if (!linkedinExport) {
+      setError("Please choose your LinkedIn export ZIP");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/sources/linkedin", {
+        method: "POST",
+        headers: { "Content-Type": "application/zip" },
+        body: linkedinExport,
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.details || data.error || "Failed to import LinkedIn export");
+      }
+
+      const data = await response.json();
+      const items = data.items as PortfolioItem[];
+
+      addPortfolioItems(items);
+      addIntroductionHints(data.hints);
+      setLinkedinExport(null);
+      handleSourceComplete(items.length);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import LinkedIn export");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePublicationsSubmit = async () => {
+    if (publicationsMode === "bibtex" && !bibtex.trim()) {
+      setError("Please paste or upload your BibTeX");
+      return;
+    }
+    if (publicationsMode === "orcid" && !orcidFile) {
+      setError("Please choose your ORCID works JSON file");
+      return;
+    }
+    if (publicationsMode === "arxiv" && !arxivAuthor.trim()) {
+      setError("Please enter your arXiv author identifier");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const request: RequestInit =
+        publicationsMode === "bibtex"
+          ? { headers: { "Content-Type": "application/x-bibtex" }, body: bibtex }
+          : publicationsMode === "orcid"
+            ? { headers: { "Content-Type": "application/vnd.orcid+json" }, body: orcidFile }
+            : {
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ author: arxivAuthor.trim() }),
+              };
+      const response = await fetch(`/api/sources/publications/${publicationsMode}`, {
+        method: "POST",
+        ...request,
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(
+          data.details || data.message || data.error || "Failed to import publications",
+        );
+      }
+
+      const data = await response.json();
+      const publications = data.publications as Publication[];
+
+      addPortfolioItems(publications as PortfolioItem[]);
+      setBibtex("");
+      setOrcidFile(null);
+      handleSourceComplete(publications.length);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import publications");
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleFreeformSubmit = async () => {
     if (!freeformTitle || !freeformContent) {
       setError("Please enter both title and content");
@@ -528,6 +812,23 @@ export default function DataWizardPage() {
                   Create a token at GitLab Settings → Access Tokens (needs read_api scope)
                 </p>
               </div>
+              <div>
+                <label
+                  htmlFor="gitlab-url-wizard"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Instance URL (optional)
+                </label>
+                <input
+                  id="gitlab-url-wizard"
+                  type="url"
+                  value={gitlabUrl}
+                  onChange={(e) => setGitlabUrl(e.target.value)}
+                  placeholder="https://gitlab.example.com"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <p className="text-sm text-gray-500 mt-1">Leave empty for gitlab.com</p>
+              </div>
               <div>
                 <label
                   htmlFor="gitlab-username-wizard"
@@ -570,6 +871,26 @@ export default function DataWizardPage() {
             <h2 className="text-2xl font-bold mb-4">Add Bitbucket Repositories</h2>
             <p className="text-gray-600 mb-6">Connect your Bitbucket account</p>
             <div className="space-y-4">
+              <div>
+                <label
+                  htmlFor="bitbucket-url-wizard"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Bitbucket Server / Data Center URL (optional)
+                </label>
+                <input
+                  id="bitbucket-url-wizard"
+                  type="url"
+                  value={bitbucketUrl}
+                  onChange={(e) => setBitbucketUrl(e.target.value)}
+                  placeholder="https://bitbucket.example.com"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <p className="text-sm text-gray-500 mt-1">
+                  Leave empty for bitbucket.org. For self-hosted instances, use your password or an
+                  HTTP access token as the app password.
+                </p>
+              </div>
               <div>
                 <label
                   htmlFor="bitbucket-username-wizard"
@@ -626,6 +947,486 @@ export default function DataWizardPage() {
           </div>
         )}
 
+        {/* Gitea Form */}
+        {currentSource === "gitea" && (
+          <div className="bg-white rounded-lg shadow-lg p-6">
+            <h2 className="text-2xl font-bold mb-4">Add Gitea / Forgejo Repositories</h2>
+            <p className="text-gray-600 mb-6">Connect Codeberg or your own Gitea or Forgejo</p>
+            <div className="space-y-4">
+              <div>
+                <label
+                  htmlFor="gitea-url-wizard"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Instance URL (optional)
+                </label>
+                <input
+                  id="gitea-url-wizard"
+                  type="url"
+                  value={giteaUrl}
+                  onChange={(e) => setGiteaUrl(e.target.value)}
+                  placeholder="https://git.example.com"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <p className="text-sm text-gray-500 mt-1">Leave empty for codeberg.org</p>
+              </div>
+              <div>
+                <label
+                  htmlFor="gitea-token-wizard"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Personal Access Token *
+                </label>
+                <input
+                  id="gitea-token-wizard"
+                  type="password"
+                  value={giteaToken}
+                  onChange={(e) => setGiteaToken(e.target.value)}
+                  placeholder="Access token"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <p className="text-sm text-gray-500 mt-1">
+                  Create a token at Settings → Applications (needs read:repository and read:user)
+                </p>
+              </div>
+              <div className="flex gap-3">
+                <button
+                  onClick={handleSkipSource}
+                  disabled={loading}
+                  className="flex-1 bg-white border-2 border-gray-300 text-gray-700 py-2 px-4 rounded-lg hover:bg-gray-50"
+                >
+                  Skip
+                </button>
+                <button
+                  onClick={handleGiteaSubmit}
+                  disabled={loading}
+                  className="flex-1 bg-emerald-600 text-white py-2 px-4 rounded-lg hover:bg-emerald-700 disabled:bg-gray-400"
+                >
+                  {loading ? "Fetching..." : "Import Gitea Repos"}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* LinkedIn Form */}
+        {currentSource === "linkedin" && (
+          <div className="bg-white rounded-lg shadow-lg p-6">
+            <h2 className="text-2xl font-bold mb-4">Import LinkedIn Export</h2>
+            <p className="text-gray-600 mb-6">
+              Upload the ZIP from LinkedIn Settings → Data privacy → Get a copy of your data
+            </p>
+            <div className="space-y-4">
+              <div>
+                <label
+                  htmlFor="linkedin-export-wizard"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Data Export ZIP *
+                </label>
+                <input
+                  id="linkedin-export-wizard"
+                  type="file"
+                  accept=".zip,application/zip"
+                  onChange={(e) => setLinkedinExport(e.target.files?.[0] || null)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <p className="text-sm text-gray-500 mt-1">
+                  Posts, positions, education, certifications and skills are imported. The file is
+                  processed in memory and never stored.
+                </p>
+              </div>
+              <div className="flex gap-3">
+                <button
+                  onClick={handleSkipSource}
+                  disabled={loading}
+                  className="flex-1 bg-white border-2 border-gray-300 text-gray-700 py-2 px-4 rounded-lg hover:bg-gray-50"
+                >
+                  Skip
+                </button>
+                <button
+                  onClick={handleLinkedInSubmit}
+                  disabled={loading}
+                  className="flex-1 bg-sky-600 text-white py-2 px-4 rounded-lg hover:bg-sky-700 disabled:bg-gray-400"
+                >
+                  {loading ? "Importing..." : "Import LinkedIn Data"}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Publications Form */}
+        {currentSource === "publication" && (
+          <div className="bg-white rounded-lg shadow-lg p-6">
+            <h2 className="text-2xl font-bold mb-4">Import Publications</h2>
+            <p className="text-gray-600 mb-6">
+              Import your papers from BibTeX, an ORCID works export or your arXiv author feed
+            </p>
+            <div className="space-y-4">
+              <div>
+                <label
+                  htmlFor="publications-mode-wizard"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Import From
+                </label>
+                <select
+                  id="publications-mode-wizard"
+                  value={publicationsMode}
+                  onChange={(e) => setPublicationsMode(e.target.value as any)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="bibtex">BibTeX</option>
+                  <option value="orcid">ORCID works export</option>
+                  <option value="arxiv">arXiv author feed</option>
+                </select>
+              </div>
+              {publicationsMode === "bibtex" && (
+                <div>
+                  <label
+                    htmlFor="bibtex-wizard"
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    BibTeX *
+                  </label>
+                  <textarea
+                    id="bibtex-wizard"
+                    value={bibtex}
+                    onChange={(e) => setBibtex(e.target.value)}
+                    placeholder="@article{lovelace1843, ...}"
+                    rows={8}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <input
+                    type="file"
+                    accept=".bib,.bibtex,.txt"
+                    onChange={async (e) => setBibtex((await e.target.files?.[0]?.text()) || "")}
+                    className="w-full mt-2 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <p className="text-sm text-gray-500 mt-1">
+                    Paste or upload a .bib file, e.g. exported from Google Scholar, Zotero or DBLP
+                  </p>
+                </div>
+              )}
+              {publicationsMode === "orcid" && (
+                <div>
+                  <label
+                    htmlFor="orcid-works-wizard"
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    ORCID Works JSON *
+                  </label>
+                  <input
+                    id="orcid-works-wizard"
+                    type="file"
+                    accept=".json,application/json"
+                    onChange={(e) => setOrcidFile(e.target.files?.[0] || null)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <p className="text-sm text-gray-500 mt-1">
+                    Save https://pub.orcid.org/v3.0/&lt;your ORCID iD&gt;/works with an Accept:
+                    application/json header
+                  </p>
+                </div>
+              )}
+              {publicationsMode === "arxiv" && (
+                <div>
+                  <label
+                    htmlFor="arxiv-author-wizard"
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    arXiv Author Identifier *
+                  </label>
+                  <input
+                    id="arxiv-author-wizard"
+                    type="text"
+                    value={arxivAuthor}
+                    onChange={(e) => setArxivAuthor(e.target.value)}
+                    placeholder="lovelace_a_1 or 0000-0002-1825-0097"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <p className="text-sm text-gray-500 mt-1">
+                    Your arXiv author ID (arxiv.org/a/...) or an ORCID iD linked to your arXiv
+                    account
+                  </p>
+                </div>
+              )}
+              <div className="flex gap-3">
+                <button
+                  onClick={handleSkipSource}
+                  disabled={loading}
+                  className="flex-1 bg-white border-2 border-gray-300 text-gray-700 py-2 px-4 rounded-lg hover:bg-gray-50"
+                >
+                  Skip
+                </button>
+                <button
+                  onClick={handlePublicationsSubmit}
+                  disabled={loading}
+                  className="flex-1 bg-indigo-600 text-white py-2 px-4 rounded-lg hover:bg-indigo-700 disabled:bg-gray-400"
+                >
+                  {loading ? "Importing..." : "Import Publications"}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Contributions Form */}
+        {currentSource === "contribution" && (
+          <div className="bg-white rounded-lg shadow-lg p-6">
+            <h2 className="text-2xl font-bold mb-4">Add Open Source Contributions</h2>
+            <p className="text-gray-600 mb-6">
+              Import your merged pull requests to public repositories you don't own, grouped by
+              repository
+            </p>
+            <div className="space-y-4">
+              <div>
+                <label
+                  htmlFor="contributions-token-wizard"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Personal Access Token *
+                </label>
+                <input
+                  id="contributions-token-wizard"
+                  type="password"
+                  value={githubToken}
+                  onChange={(e) => setGithubToken(e.target.value)}
+                  placeholder="ghp_xxxxxxxxxxxxxxxxxxxx"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <p className="text-sm text-gray-500 mt-1">
+                  A token without scopes is enough, only public pull requests are searched
+                </p>
+              </div>
+              <div className="flex gap-3">
+                <button
+                  onClick={handleSkipSource}
+                  disabled={loading}
+                  className="flex-1 bg-white border-2 border-gray-300 text-gray-700 py-2 px-4 rounded-lg hover:bg-gray-50"
+                >
+                  Skip
+                </button>
+                <button
+                  onClick={handleContributionsSubmit}
+                  disabled={loading}
+                  className="flex-1 bg-violet-600 text-white py-2 px-4 rounded-lg hover:bg-violet-700 disabled:bg-gray-400"
+                >
+                  {loading ? "Searching..." : "Import Contributions"}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Gists Form */}
+        {currentSource === "gist" && (
+          <div className="bg-white rounded-lg shadow-lg p-6">
+            <h2 className="text-2xl font-bold mb-4">Add GitHub Gists</h2>
+            <p className="text-gray-600 mb-6">Import your public gists with their files</p>
+            <div className="space-y-4">
+              <div>
+                <label
+                  htmlFor="gists-token-wizard"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Personal Access Token *
+                </label>
+                <input
+                  id="gists-token-wizard"
+                  type="password"
+                  value={githubToken}
+                  onChange={(e) => setGithubToken(e.target.value)}
+                  placeholder="ghp_xxxxxxxxxxxxxxxxxxxx"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <p className="text-sm text-gray-500 mt-1">
+                  A token without scopes is enough, only public gists are listed
+                </p>
+              </div>
+              <div className="flex gap-3">
+                <button
+                  onClick={handleSkipSource}
+                  disabled={loading}
+                  className="flex-1 bg-white border-2 border-gray-300 text-gray-700 py-2 px-4 rounded-lg hover:bg-gray-50"
+                >
+                  Skip
+                </button>
+                <button
+                  onClick={handleGistsSubmit}
+                  disabled={loading}
+                  className="flex-1 bg-slate-700 text-white py-2 px-4 rounded-lg hover:bg-slate-800 disabled:bg-gray-400"
+                >
+                  {loading ? "Fetching..." : "Import Gists"}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Talks Form */}
+        {currentSource === "talk" && (
+          <div className="bg-white rounded-lg shadow-lg p-6">
+            <h2 className="text-2xl font-bold mb-4">Add Talks</h2>
+            <p className="text-gray-600 mb-6">
+              Import videos from a YouTube channel or conference playlist, or add a talk by hand
+            </p>
+            <div className="space-y-4">
+              <div>
+                <label
+                  htmlFor="talks-mode-wizard"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Add From
+                </label>
+                <select
+                  id="talks-mode-wizard"
+                  value={talksMode}
+                  onChange={(e) => setTalksMode(e.target.value as any)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="youtube">YouTube channel or playlist</option>
+                  <option value="manual">Manual entry</option>
+                </select>
+              </div>
+              {talksMode === "youtube" && (
+                <div>
+                  <label
+                    htmlFor="talks-feed-wizard"
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    Channel or Playlist URL *
+                  </label>
+                  <input
+                    id="talks-feed-wizard"
+                    type="url"
+                    value={talksFeed}
+                    onChange={(e) => setTalksFeed(e.target.value)}
+                    placeholder="https://www.youtube.com/playlist?list=PL..."
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              )}
+              {talksMode === "manual" && (
+                <>
+                  <div>
+                    <label
+                      htmlFor="talk-title-wizard"
+                      className="block text-sm font-medium text-gray-700 mb-1"
+                    >
+                      Title *
+                    </label>
+                    <input
+                      id="talk-title-wizard"
+                      type="text"
+                      value={talkTitle}
+                      onChange={(e) => setTalkTitle(e.target.value)}
+                      placeholder="Scaling Engines to a Billion Users"
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label
+                      htmlFor="talk-event-wizard"
+                      className="block text-sm font-medium text-gray-700 mb-1"
+                    >
+                      Event
+                    </label>
+                    <input
+                      id="talk-event-wizard"
+                      type="text"
+                      value={talkEvent}
+                      onChange={(e) => setTalkEvent(e.target.value)}
+                      placeholder="JSConf EU 2025"
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label
+                      htmlFor="talk-date-wizard"
+                      className="block text-sm font-medium text-gray-700 mb-1"
+                    >
+                      Date
+                    </label>
+                    <input
+                      id="talk-date-wizard"
+                      type="date"
+                      value={talkDate}
+                      onChange={(e) => setTalkDate(e.target.value)}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label
+                      htmlFor="talk-video-wizard"
+                      className="block text-sm font-medium text-gray-700 mb-1"
+                    >
+                      Video URL
+                    </label>
+                    <input
+                      id="talk-video-wizard"
+                      type="url"
+                      value={talkVideoUrl}
+                      onChange={(e) => setTalkVideoUrl(e.target.value)}
+                      placeholder="https://www.youtube.com/watch?v=..."
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label
+                      htmlFor="talk-slides-wizard"
+                      className="block text-sm font-medium text-gray-700 mb-1"
+                    >
+                      Slides URL
+                    </label>
+                    <input
+                      id="talk-slides-wizard"
+                      type="url"
+                      value={talkSlidesUrl}
+                      onChange={(e) => setTalkSlidesUrl(e.target.value)}
+                      placeholder="https://speakerdeck.com/..."
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label
+                      htmlFor="talk-description-wizard"
+                      className="block text-sm font-medium text-gray-700 mb-1"
+                    >
+                      Description
+                    </label>
+                    <textarea
+                      id="talk-description-wizard"
+                      value={talkDescription}
+                      onChange={(e) => setTalkDescription(e.target.value)}
+                      placeholder="What the talk is about"
+                      rows={4}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                </>
+              )}
+              <div className="flex gap-3">
+                <button
+                  onClick={handleSkipSource}
+                  disabled={loading}
+                  className="flex-1 bg-white border-2 border-gray-300 text-gray-700 py-2 px-4 rounded-lg hover:bg-gray-50"
+                >
+                  Skip
+                </button>
+                <button
+                  onClick={handleTalksSubmit}
+                  disabled={loading}
+                  className="flex-1 bg-rose-600 text-white py-2 px-4 rounded-lg hover:bg-rose-700 disabled:bg-gray-400"
+                >
+                  {loading ? "Adding..." : talksMode === "youtube" ? "Import Videos" : "Add Talk"}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Freeform Form */}
         {currentSource === "freeform" && (
           <div className="bg-white rounded-lg shadow-lg p-6">
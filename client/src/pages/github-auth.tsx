@@ -6,7 +6,7 @@ import { Card, CardContent } from "@/components/ui/card";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { removeGitHubToken, saveGitHubToken } from "@/lib/storage";
 
-function getGithubAuthUrl() {
+async function getGithubAuthUrl(): Promise<string> {
   const clientId = import.meta.env.VITE_GITHUB_CLIENT_ID;
   if (!clientId) {
     throw new Error("GitHub Client ID is not configured");
@@ -19,7 +19,20 @@ function getGithubAuthUrl() {
     state: crypto.randomUUID(),
   });
 
-  return `https://github.com/login/oauth/authorize?${params}`;
+  // GitHub Enterprise Server instances authorize on their own host, the server's import host
+  const res = await apiRequest("GET", "/api/github/config");
+  const { importUrl } = (await res.json()) as { importUrl: string };
+
+  return `${importUrl}/login/oauth/authorize?${params}`;
+}
+
+function redirectToGithubAuth() {
+  getGithubAuthUrl().then(
+    (url) => {
+      window.location.href = url;
+    },
+    (error) => console.error("Failed to start GitHub sign-in:", error),
+  );
 }
 
 export default function GithubAuth() {
@@ -83,7 +96,7 @@ export default function GithubAuth() {
       const usedCode = sessionStorage.getItem("github_oauth_code");
       if (usedCode === code) {
         console.warn("OAuth code already used, redirecting to new auth");
-        window.location.href = getGithubAuthUrl();
+        redirectToGithubAuth();
         return;
       }
 
@@ -98,7 +111,7 @@ export default function GithubAuth() {
     } else {
       // Clear any stored OAuth code when starting fresh
       sessionStorage.removeItem("github_oauth_code");
-      window.location.href = getGithubAuthUrl();
+      redirectToGithubAuth();
     }
   }, []);
 
@@ -126,7 +139,7 @@ export default function GithubAuth() {
               </div>
               <div className="flex flex-col gap-2">
                 <button
-                  onClick={() => (window.location.href = getGithubAuthUrl())}
+                  onClick={redirectToGithubAuth}
                   className="w-full px-4 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors"
                 >
                   Try Again
@@ -1,4 +1,20 @@
-import type { PortfolioItem, Repository } from "@shared/schema";
+import { formatCitation } from "@shared/citations";
+import { getGistExcerpt } from "@shared/gists";
+import { getPackageBadges } from "@shared/package-stats";
+import {
+  type Contribution,
+  type Gist,
+  isRepositoryItem,
+  type PackageStats,
+  type PortfolioItem,
+  type PortfolioSection,
+  type Repository,
+  type SummaryStyle,
+  type SummaryTone,
+  type Talk,
+} from "@shared/schema";
+import { groupItemsIntoSections } from "@shared/sections";
+import { normalizeSummaryStyle } from "@shared/summary-styles";
 import { themes } from "@shared/themes";
 import { useMutation } from "@tanstack/react-query";
 import {
@@ -9,13 +25,18 @@ import {
   ExternalLink,
   Github,
   GripVertical,
+  Loader2,
   Plus,
+  Sparkles,
   Trash2,
   X,
 } from "lucide-react";
 import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
 import { DeploymentActions } from "@/components/deployment-actions";
+import { SectionManager } from "@/components/section-manager";
+import { SummaryProgress } from "@/components/summary-progress";
+import { SummaryStyleManager } from "@/components/summary-style-manager";
 import { ThemeSelector } from "@/components/theme-selector";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
@@ -24,9 +45,21 @@ import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Textarea } from "@/components/ui/textarea";
+import { SUMMARY_SOURCES, useSummaryStream, withSummary } from "@/hooks/use-summary-stream";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { getPortfolioItems } from "@/lib/storage";
+import {
+  getGitHubToken,
+  getIntroductionHints,
+  getItemSummaryTones,
+  getPortfolioItems,
+  getPortfolioSections,
+  getSummaryStyle,
+  saveItemSummaryTones,
+  savePortfolioSections,
+  saveSummaryStyle,
+  updatePortfolioItem,
+} from "@/lib/storage";
 import { cn } from "@/lib/utils";
 
 interface UserIntroduction {
@@ -47,14 +80,14 @@ const capitalizeFirstLetter = (str: string) => {
 };
 
 const getItemTitle = (item: PortfolioItem): string => {
-  if (item.source === "github" || item.source === "gitlab" || item.source === "bitbucket") {
+  if (isRepositoryItem(item)) {
     return item.displayName || item.name;
   }
   return item.title || "Untitled";
 };
 
 const getItemSummary = (item: PortfolioItem): string => {
-  if (item.source === "github" || item.source === "gitlab" || item.source === "bitbucket") {
+  if (isRepositoryItem(item)) {
     return item.summary || "";
   }
   if (item.source === "linkedin") {
@@ -63,12 +96,64 @@ const getItemSummary = (item: PortfolioItem): string => {
   if (item.source === "freeform") {
     return item.description || "";
   }
+  if (item.source === "publication") {
+    return item.summary || item.abstract || "";
+  }
+  if (item.source === "contribution") {
+    return item.summary || item.representativePullRequest.title;
+  }
   return item.summary || item.description || "";
 };
 
+const formatContributionStats = (item: Contribution): string =>
+  `${item.pullRequestCount} merged PR${item.pullRequestCount === 1 ? "" : "s"} · +${item.additions.toLocaleString()} / −${item.deletions.toLocaleString()} lines`;
+
+const renderGistExcerpt = (item: Gist) => {
+  const excerpt = getGistExcerpt(item);
+  if (!excerpt) return null;
+  return (
+    <div className="mb-3">
+      <p className="text-sm text-muted-foreground mb-1">{excerpt.file.filename}</p>
+      <pre className="text-xs bg-slate-900 text-slate-100 p-3 rounded-md overflow-x-auto">
+        {excerpt.truncated ? `${excerpt.code}\n…` : excerpt.code}
+      </pre>
+    </div>
+  );
+};
+
+const renderTalkDetails = (item: Talk) => (
+  <div className="mb-3">
+    {(item.event || item.date) && (
+      <p className="text-sm text-muted-foreground mb-2">
+        {[item.event, item.date ? new Date(item.date).toLocaleDateString() : null]
+          .filter(Boolean)
+          .join(" · ")}
+      </p>
+    )}
+    {item.thumbnailUrl && (
+      <img
+        src={item.thumbnailUrl}
+        alt={`Video: ${item.title}`}
+        loading="lazy"
+        className="w-full max-w-md rounded-md mb-2"
+      />
+    )}
+    {item.slidesUrl && (
+      <a
+        href={item.slidesUrl}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-sm underline text-muted-foreground"
+      >
+        View slides
+      </a>
+    )}
+  </div>
+);
+
 const _getItemUrl = (item: PortfolioItem): string | undefined => {
   if (item.url) return item.url;
-  if (item.source === "github" || item.source === "gitlab" || item.source === "bitbucket") {
+  if (isRepositoryItem(item)) {
     return item.metadata.url || undefined;
   }
   return undefined;
@@ -83,6 +168,11 @@ export default function PortfolioPreview() {
   const [userInfo, setUserInfo] = useState<UserInfo | null>(null);
   const [customTitle, setCustomTitle] = useState<string | null>(null);
   const [selectedTheme, setSelectedTheme] = useState("modern");
+  const [sections, setSections] = useState<PortfolioSection[]>(() => getPortfolioSections());
+  const [summaryStyle, setSummaryStyle] = useState<SummaryStyle>(() => getSummaryStyle());
+  const [itemSummaryTones, setItemSummaryTones] = useState<Record<string, SummaryTone>>(() =>
+    getItemSummaryTones(),
+  );
   const theme = themes.find((t) => t.id === selectedTheme) || themes[0];
 
   // Edit state management
@@ -114,6 +204,8 @@ export default function PortfolioPreview() {
     mutationFn: async (repositories: Repository[]) => {
       const res = await apiRequest("POST", "/api/user/introduction", {
         repositories,
+        style: normalizeSummaryStyle(getSummaryStyle()),
+        hints: getIntroductionHints() || undefined,
       });
       const data = await res.json();
       return data;
@@ -132,6 +224,65 @@ export default function PortfolioPreview() {
     },
   });
 
+  // Stream AI summaries for the selected items, keeping them in storage as they arrive
+  const summaryStream = useSummaryStream({
+    onSummary: (summarizedItem, summary) => {
+      updatePortfolioItem(summarizedItem.id, withSummary(summarizedItem, summary));
+      setSelectedItems((items) =>
+        items.map((item) => (item.id === summarizedItem.id ? withSummary(item, summary) : item)),
+      );
+    },
+    onComplete: (failedCount) => {
+      toast(
+        failedCount > 0
+          ? {
+              title: "Some Summaries Failed",
+              description: `${failedCount} item(s) could not be summarized. You can retry them.`,
+              variant: "destructive",
+            }
+          : {
+              title: "Summaries Generated",
+              description: "All item summaries have been updated.",
+            },
+      );
+    },
+  });
+
+  // Look up npm, PyPI and crates.io stats once for repositories that were never checked
+  const { mutate: fetchPackageStats } = useMutation({
+    mutationFn: async (repositories: PortfolioItem[]) => {
+      const res = await apiRequest("POST", "/api/repositories/package-stats", {
+        repositories,
+        accessToken: getGitHubToken() || undefined,
+      });
+      const data = await res.json();
+      return data.packages as Record<string, PackageStats[]>;
+    },
+    onSuccess: (packages) => {
+      const withPackages = (item: PortfolioItem): PortfolioItem =>
+        isRepositoryItem(item) && packages[String(item.id)]
+          ? ({
+              ...item,
+              metadata: { ...item.metadata, packages: packages[String(item.id)] },
+            } as PortfolioItem)
+          : item;
+
+      for (const item of getPortfolioItems()) {
+        if (isRepositoryItem(item) && packages[String(item.id)]) {
+          updatePortfolioItem(item.id, withPackages(item));
+        }
+      }
+      setSelectedItems((items) => items.map(withPackages));
+    },
+    onError: (err) => {
+      console.error("Error fetching package stats:", err);
+    },
+  });
+
+  const generateSummaries = () => {
+    summaryStream.start(selectedItems.filter((item) => SUMMARY_SOURCES.includes(item.source)));
+  };
+
   // Edit handlers
   const startEditingIntro = () => {
     if (userIntro) {
@@ -244,17 +395,17 @@ export default function PortfolioPreview() {
       setSelectedItems((items) =>
         items.map((item) => {
           if (item.id === editingItemTitle) {
-            if (
-              item.source === "github" ||
-              item.source === "gitlab" ||
-              item.source === "bitbucket"
-            ) {
+            if (isRepositoryItem(item)) {
               return { ...item, displayName: tempItemTitle };
             } else if (
               item.source === "blog_rss" ||
               item.source === "medium" ||
               item.source === "freeform" ||
-              item.source === "linkedin"
+              item.source === "linkedin" ||
+              item.source === "publication" ||
+              item.source === "contribution" ||
+              item.source === "gist" ||
+              item.source === "talk"
             ) {
               return { ...item, title: tempItemTitle };
             }
@@ -340,6 +491,21 @@ export default function PortfolioPreview() {
     });
   };
 
+  const updateSections = (updatedSections: PortfolioSection[]) => {
+    setSections(updatedSections);
+    savePortfolioSections(updatedSections);
+  };
+
+  const updateSummaryStyle = (style: SummaryStyle) => {
+    setSummaryStyle(style);
+    saveSummaryStyle(style);
+  };
+
+  const updateItemSummaryTones = (tones: Record<string, SummaryTone>) => {
+    setItemSummaryTones(tones);
+    saveItemSummaryTones(tones);
+  };
+
   // Drag and drop handlers
   const handleDragStart = (e: React.DragEvent, index: number) => {
     setDraggedIndex(index);
@@ -396,6 +562,13 @@ export default function PortfolioPreview() {
     setSelectedItems(filtered);
     setIsLoading(false);
 
+    const uncheckedRepos = filtered.filter(
+      (item) => isRepositoryItem(item) && item.metadata.packages === undefined,
+    );
+    if (uncheckedRepos.length > 0) {
+      fetchPackageStats(uncheckedRepos.slice(0, 50));
+    }
+
     if (filtered.length > 0) {
       // Only generate intro if we have GitHub repos
       const githubRepos = filtered.filter((item) => item.source === "github") as Repository[];
@@ -420,7 +593,7 @@ export default function PortfolioPreview() {
         variant: "destructive",
       });
     }
-  }, [toast, generateIntro]);
+  }, [toast, generateIntro, fetchPackageStats]);
 
   if (isLoading) {
     return (
@@ -487,209 +660,243 @@ export default function PortfolioPreview() {
             : cn(theme.layout.content, "grid grid-cols-1 gap-6") // For others, use theme styling plus grid
         }
       >
-        {selectedItems.map((item, index) => (
-          <Card
-            key={item.id}
-            draggable
-            onDragStart={(e) => handleDragStart(e, index)}
-            onDragOver={(e) => handleDragOver(e, index)}
-            onDragLeave={handleDragLeave}
-            onDrop={(e) => handleDrop(e, index)}
-            onDragEnd={handleDragEnd}
-            className={cn(
-              theme.preview.card,
-              isMinimal ? "mb-2" : "mb-4", // Reduce spacing for Minimal theme
-              isModern ? "shadow-lg hover:shadow-xl transition-shadow" : "",
-              draggedIndex === index ? "opacity-50" : "",
-              dragOverIndex === index ? "border-blue-500 border-2" : "",
-              "cursor-move relative group",
-            )}
-          >
-            <CardHeader>
-              <div className="flex justify-between items-start">
-                <div className="flex items-start gap-2 flex-1">
-                  <GripVertical className="h-5 w-5 text-gray-400 mt-1 cursor-grab active:cursor-grabbing" />
-                  <div className="relative group flex-1">
-                    {editingItemTitle === item.id ? (
-                      <div className="space-y-2">
-                        <Input
-                          value={tempItemTitle}
-                          onChange={(e) => setTempItemTitle(e.target.value)}
-                          className="text-2xl font-semibold"
-                          placeholder="Enter title..."
-                        />
-                        <div className="flex gap-2">
-                          <Button size="sm" onClick={saveTitle} aria-label="Save repository title">
-                            <Check className="h-4 w-4" />
+        {groupItemsIntoSections(selectedItems, sections).map(({ section, items }) => (
+          <section key={section.id} className="space-y-4 mb-8">
+            <h2 className={cn("text-3xl font-bold mb-4", theme.preview.text)}>{section.title}</h2>
+            {items.map((item) => {
+              const index = selectedItems.indexOf(item);
+              return (
+                <Card
+                  key={item.id}
+                  draggable
+                  onDragStart={(e) => handleDragStart(e, index)}
+                  onDragOver={(e) => handleDragOver(e, index)}
+                  onDragLeave={handleDragLeave}
+                  onDrop={(e) => handleDrop(e, index)}
+                  onDragEnd={handleDragEnd}
+                  className={cn(
+                    theme.preview.card,
+                    isMinimal ? "mb-2" : "mb-4", // Reduce spacing for Minimal theme
+                    isModern ? "shadow-lg hover:shadow-xl transition-shadow" : "",
+                    draggedIndex === index ? "opacity-50" : "",
+                    dragOverIndex === index ? "border-blue-500 border-2" : "",
+                    "cursor-move relative group",
+                  )}
+                >
+                  <CardHeader>
+                    <div className="flex justify-between items-start">
+                      <div className="flex items-start gap-2 flex-1">
+                        <GripVertical className="h-5 w-5 text-gray-400 mt-1 cursor-grab active:cursor-grabbing" />
+                        <div className="relative group flex-1">
+                          {editingItemTitle === item.id ? (
+                            <div className="space-y-2">
+                              <Input
+                                value={tempItemTitle}
+                                onChange={(e) => setTempItemTitle(e.target.value)}
+                                className="text-2xl font-semibold"
+                                placeholder="Enter title..."
+                              />
+                              <div className="flex gap-2">
+                                <Button
+                                  size="sm"
+                                  onClick={saveTitle}
+                                  aria-label="Save repository title"
+                                >
+                                  <Check className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={cancelEdit}
+                                  aria-label="Cancel editing"
+                                >
+                                  <X className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            </div>
+                          ) : (
+                            <>
+                              <h3 className={cn("text-2xl font-semibold", theme.preview.text)}>
+                                {getItemTitle(item)}
+                              </h3>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className="absolute top-0 right-0 opacity-0 group-hover:opacity-100 transition-opacity"
+                                onClick={() => startEditingItemTitle(item.id, getItemTitle(item))}
+                                aria-label="Edit item title"
+                              >
+                                <Edit2 className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2 ml-2">
+                        {isRepositoryItem(item) && item.metadata.stars > 0 && (
+                          <span className="text-xs bg-amber-100 text-amber-800 px-2 py-1 rounded-full flex items-center">
+                            ★ {item.metadata.stars}
+                          </span>
+                        )}
+                        {isRepositoryItem(item) &&
+                          item.metadata.packages?.flatMap((stats) =>
+                            getPackageBadges(stats).map((badge) => (
+                              <a
+                                key={`${stats.registry}-${stats.name}-${badge}`}
+                                href={stats.url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                title={stats.name}
+                                className="text-xs bg-emerald-100 text-emerald-800 px-2 py-1 rounded-full whitespace-nowrap"
+                              >
+                                {badge}
+                              </a>
+                            )),
+                          )}
+                        {item.url && (
+                          <Button variant="outline" size="icon" asChild aria-label="View item">
+                            <a href={item.url} target="_blank" rel="noopener noreferrer">
+                              {item.source === "github" ||
+                              item.source === "contribution" ||
+                              item.source === "gist" ? (
+                                <Github className="h-4 w-4" />
+                              ) : (
+                                <ExternalLink className="h-4 w-4" />
+                              )}
+                            </a>
                           </Button>
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            onClick={cancelEdit}
-                            aria-label="Cancel editing"
-                          >
-                            <X className="h-4 w-4" />
+                        )}
+                        {isRepositoryItem(item) && item.metadata.url && (
+                          <Button variant="outline" size="icon" asChild>
+                            <a href={item.metadata.url} target="_blank" rel="noopener noreferrer">
+                              <ExternalLink className="h-4 w-4" />
+                            </a>
                           </Button>
-                        </div>
+                        )}
                       </div>
-                    ) : (
-                      <>
-                        <h2 className={cn("text-2xl font-semibold", theme.preview.text)}>
-                          {getItemTitle(item)}
-                        </h2>
-                        <Button
-                          size="sm"
-                          variant="ghost"
-                          className="absolute top-0 right-0 opacity-0 group-hover:opacity-100 transition-opacity"
-                          onClick={() => startEditingItemTitle(item.id, getItemTitle(item))}
-                          aria-label="Edit item title"
-                        >
-                          <Edit2 className="h-4 w-4" />
-                        </Button>
-                      </>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    {/* Item summary or description */}
+                    {item.source === "publication" && (
+                      <p className="text-sm text-muted-foreground mb-3">{formatCitation(item)}</p>
                     )}
-                  </div>
-                </div>
-                <div className="flex items-center gap-2 ml-2">
-                  {(item.source === "github" ||
-                    item.source === "gitlab" ||
-                    item.source === "bitbucket") &&
-                    item.metadata.stars > 0 && (
-                      <span className="text-xs bg-amber-100 text-amber-800 px-2 py-1 rounded-full flex items-center">
-                        ★ {item.metadata.stars}
-                      </span>
+                    {item.source === "contribution" && (
+                      <p className="text-sm text-muted-foreground mb-3">
+                        {formatContributionStats(item)}
+                      </p>
                     )}
-                  {item.url && (
-                    <Button variant="outline" size="icon" asChild aria-label="View item">
-                      <a href={item.url} target="_blank" rel="noopener noreferrer">
-                        {item.source === "github" ? (
-                          <Github className="h-4 w-4" />
+                    {item.source === "gist" && renderGistExcerpt(item)}
+                    {item.source === "talk" && renderTalkDetails(item)}
+                    {getItemSummary(item) ? (
+                      <div className="relative group">
+                        {editingItem === item.id ? (
+                          <div className="space-y-3">
+                            <Textarea
+                              value={tempItemSummary}
+                              onChange={(e) => setTempItemSummary(e.target.value)}
+                              className="min-h-[100px]"
+                              placeholder="Enter summary..."
+                            />
+                            <div className="flex gap-2">
+                              <Button
+                                size="sm"
+                                onClick={saveItemSummary}
+                                aria-label="Save repository summary"
+                              >
+                                <Check className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={cancelEdit}
+                                aria-label="Cancel editing"
+                              >
+                                <X className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </div>
                         ) : (
-                          <ExternalLink className="h-4 w-4" />
+                          <>
+                            <p className={cn("mb-4", theme.preview.text)}>{getItemSummary(item)}</p>
+                            <div className="absolute top-0 right-0 opacity-0 group-hover:opacity-100 transition-opacity flex gap-1">
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => startEditingItem(item.id, getItemSummary(item))}
+                                aria-label="Edit item summary"
+                              >
+                                <Edit2 className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => deleteItem(item.id)}
+                                className="text-red-500 hover:text-red-700"
+                                title="Remove from portfolio"
+                                aria-label="Remove from portfolio"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </>
                         )}
-                      </a>
-                    </Button>
-                  )}
-                  {(item.source === "github" ||
-                    item.source === "gitlab" ||
-                    item.source === "bitbucket") &&
-                    item.metadata.url && (
-                      <Button variant="outline" size="icon" asChild>
-                        <a href={item.metadata.url} target="_blank" rel="noopener noreferrer">
-                          <ExternalLink className="h-4 w-4" />
-                        </a>
-                      </Button>
-                    )}
-                </div>
-              </div>
-            </CardHeader>
-            <CardContent>
-              {/* Item summary or description */}
-              {getItemSummary(item) ? (
-                <div className="relative group">
-                  {editingItem === item.id ? (
-                    <div className="space-y-3">
-                      <Textarea
-                        value={tempItemSummary}
-                        onChange={(e) => setTempItemSummary(e.target.value)}
-                        className="min-h-[100px]"
-                        placeholder="Enter summary..."
-                      />
-                      <div className="flex gap-2">
-                        <Button
-                          size="sm"
-                          onClick={saveItemSummary}
-                          aria-label="Save repository summary"
-                        >
-                          <Check className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          onClick={cancelEdit}
-                          aria-label="Cancel editing"
-                        >
-                          <X className="h-4 w-4" />
-                        </Button>
-                      </div>
-                    </div>
-                  ) : (
-                    <>
-                      <p className={cn("mb-4", theme.preview.text)}>{getItemSummary(item)}</p>
-                      <div className="absolute top-0 right-0 opacity-0 group-hover:opacity-100 transition-opacity flex gap-1">
-                        <Button
-                          size="sm"
-                          variant="ghost"
-                          onClick={() => startEditingItem(item.id, getItemSummary(item))}
-                          aria-label="Edit item summary"
-                        >
-                          <Edit2 className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          size="sm"
-                          variant="ghost"
-                          onClick={() => deleteItem(item.id)}
-                          className="text-red-500 hover:text-red-700"
-                          title="Remove from portfolio"
-                          aria-label="Remove from portfolio"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </div>
-                    </>
-                  )}
-                  {/* Topics for repos */}
-                  {(item.source === "github" ||
-                    item.source === "gitlab" ||
-                    item.source === "bitbucket") &&
-                    item.metadata.topics.length > 0 && (
-                      <div className="flex gap-2 flex-wrap">
-                        {item.metadata.topics.map((topic) => (
-                          <span
-                            key={topic}
-                            className={
-                              isModern
-                                ? "px-2 py-1 rounded-full text-sm bg-gradient-to-r from-indigo-500 to-purple-500 text-white"
-                                : "px-2 py-1 rounded-full text-sm bg-slate-800 text-white" // Explicit styling for Minimal theme
-                            }
-                          >
-                            {topic}
-                          </span>
-                        ))}
+                        {/* Topics for repos */}
+                        {isRepositoryItem(item) && item.metadata.topics.length > 0 && (
+                          <div className="flex gap-2 flex-wrap">
+                            {item.metadata.topics.map((topic) => (
+                              <span
+                                key={topic}
+                                className={
+                                  isModern
+                                    ? "px-2 py-1 rounded-full text-sm bg-gradient-to-r from-indigo-500 to-purple-500 text-white"
+                                    : "px-2 py-1 rounded-full text-sm bg-slate-800 text-white" // Explicit styling for Minimal theme
+                                }
+                              >
+                                {topic}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                        {/* Tags for other types */}
+                        {(item.source === "blog_rss" ||
+                          item.source === "medium" ||
+                          item.source === "freeform" ||
+                          item.source === "publication" ||
+                          item.source === "contribution" ||
+                          item.source === "gist" ||
+                          item.source === "talk") &&
+                          item.tags && (
+                            <div className="flex gap-2 flex-wrap">
+                              {item.tags.map((tag) => (
+                                <span
+                                  key={tag}
+                                  className={
+                                    isModern
+                                      ? "px-2 py-1 rounded-full text-sm bg-gradient-to-r from-indigo-500 to-purple-500 text-white"
+                                      : "px-2 py-1 rounded-full text-sm bg-slate-800 text-white"
+                                  }
+                                >
+                                  {tag}
+                                </span>
+                              ))}
+                            </div>
+                          )}
                       </div>
-                    )}
-                  {/* Tags for other types */}
-                  {(item.source === "blog_rss" ||
-                    item.source === "medium" ||
-                    item.source === "freeform") &&
-                    item.tags && (
-                      <div className="flex gap-2 flex-wrap">
-                        {item.tags.map((tag) => (
-                          <span
-                            key={tag}
-                            className={
-                              isModern
-                                ? "px-2 py-1 rounded-full text-sm bg-gradient-to-r from-indigo-500 to-purple-500 text-white"
-                                : "px-2 py-1 rounded-full text-sm bg-slate-800 text-white"
-                            }
-                          >
-                            {tag}
-                          </span>
-                        ))}
+                    ) : (
+                      <div className="space-y-4">
+                        <Skeleton className="h-24" />
+                        <div className="flex gap-2">
+                          <Skeleton className="h-6 w-20" />
+                          <Skeleton className="h-6 w-20" />
+                        </div>
                       </div>
                     )}
-                </div>
-              ) : (
-                <div className="space-y-4">
-                  <Skeleton className="h-24" />
-                  <div className="flex gap-2">
-                    <Skeleton className="h-6 w-20" />
-                    <Skeleton className="h-6 w-20" />
-                  </div>
-                </div>
-              )}
-            </CardContent>
-          </Card>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </section>
         ))}
       </div>
     );
@@ -1027,14 +1234,53 @@ export default function PortfolioPreview() {
               Back to Repositories
             </Button>
 
-            <ThemeSelector value={selectedTheme} onValueChange={setSelectedTheme} />
+            <div className="flex items-center gap-4">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={generateSummaries}
+                disabled={summaryStream.isRunning || selectedItems.length === 0}
+                className="flex items-center gap-2"
+              >
+                {summaryStream.isRunning ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Sparkles className="h-4 w-4" />
+                )}
+                Generate Summaries
+              </Button>
+              <SummaryStyleManager
+                style={summaryStyle}
+                itemTones={itemSummaryTones}
+                items={selectedItems.filter((item) => SUMMARY_SOURCES.includes(item.source))}
+                getItemTitle={getItemTitle}
+                onChange={updateSummaryStyle}
+                onItemTonesChange={updateItemSummaryTones}
+              />
+              <SectionManager
+                sections={sections}
+                items={selectedItems}
+                getItemTitle={getItemTitle}
+                onChange={updateSections}
+              />
+              <ThemeSelector value={selectedTheme} onValueChange={setSelectedTheme} />
+            </div>
           </div>
 
+          <SummaryProgress
+            items={selectedItems}
+            progress={summaryStream.progress}
+            isRunning={summaryStream.isRunning}
+            getItemTitle={getItemTitle}
+            onRetryFailed={summaryStream.retryFailed}
+            onCancel={summaryStream.cancel}
+          />
+
           {/* Simple Editing Hint */}
           <div className="text-center mb-4">
             <p className="text-sm text-muted-foreground">
-              💡 Tip: Your portfolio is fully customizable! Hover over elements to edit, drag
-              repositories to reorder, or delete summaries
+              💡 Tip: Your portfolio is fully customizable! Hover over elements to edit, drag items
+              to reorder within a section, or delete summaries
             </p>
           </div>
 
@@ -1052,215 +1298,260 @@ export default function PortfolioPreview() {
                 {renderProfile()}
               </div>
               <div className="w-full max-w-6xl mx-auto px-4">
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-                  {selectedItems.map((item, index) => (
-                    <Card
-                      key={item.id}
-                      draggable
-                      onDragStart={(e) => handleDragStart(e, index)}
-                      onDragOver={(e) => handleDragOver(e, index)}
-                      onDragLeave={handleDragLeave}
-                      onDrop={(e) => handleDrop(e, index)}
-                      onDragEnd={handleDragEnd}
-                      className={cn(
-                        "border-l-4 border-stone-900 rounded-none shadow-[0_2px_40px_-12px_rgba(0,0,0,0.1)] bg-white h-full cursor-move relative group",
-                        draggedIndex === index ? "opacity-50" : "",
-                        dragOverIndex === index ? "border-blue-500 border-2" : "",
-                      )}
-                    >
-                      <CardHeader>
-                        <div className="flex justify-between items-start">
-                          <div className="flex items-start gap-2 flex-1">
-                            <GripVertical className="h-5 w-5 text-gray-400 mt-1 cursor-grab active:cursor-grabbing" />
-                            <div className="relative group flex-1">
-                              {editingItemTitle === item.id ? (
-                                <div className="space-y-2">
-                                  <Input
-                                    value={tempItemTitle}
-                                    onChange={(e) => setTempItemTitle(e.target.value)}
-                                    className="text-2xl font-semibold"
-                                    placeholder="Enter title..."
-                                  />
-                                  <div className="flex gap-2">
-                                    <Button
-                                      size="sm"
-                                      onClick={saveTitle}
-                                      aria-label="Save repository title"
-                                    >
-                                      <Check className="h-4 w-4" />
-                                    </Button>
+                {groupItemsIntoSections(selectedItems, sections).map(({ section, items }) => (
+                  <section key={section.id} className="mb-12">
+                    <h2 className={cn("text-3xl font-bold mb-8", theme.preview.text)}>
+                      {section.title}
+                    </h2>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                      {items.map((item) => {
+                        const index = selectedItems.indexOf(item);
+                        return (
+                          <Card
+                            key={item.id}
+                            draggable
+                            onDragStart={(e) => handleDragStart(e, index)}
+                            onDragOver={(e) => handleDragOver(e, index)}
+                            onDragLeave={handleDragLeave}
+                            onDrop={(e) => handleDrop(e, index)}
+                            onDragEnd={handleDragEnd}
+                            className={cn(
+                              "border-l-4 border-stone-900 rounded-none shadow-[0_2px_40px_-12px_rgba(0,0,0,0.1)] bg-white h-full cursor-move relative group",
+                              draggedIndex === index ? "opacity-50" : "",
+                              dragOverIndex === index ? "border-blue-500 border-2" : "",
+                            )}
+                          >
+                            <CardHeader>
+                              <div className="flex justify-between items-start">
+                                <div className="flex items-start gap-2 flex-1">
+                                  <GripVertical className="h-5 w-5 text-gray-400 mt-1 cursor-grab active:cursor-grabbing" />
+                                  <div className="relative group flex-1">
+                                    {editingItemTitle === item.id ? (
+                                      <div className="space-y-2">
+                                        <Input
+                                          value={tempItemTitle}
+                                          onChange={(e) => setTempItemTitle(e.target.value)}
+                                          className="text-2xl font-semibold"
+                                          placeholder="Enter title..."
+                                        />
+                                        <div className="flex gap-2">
+                                          <Button
+                                            size="sm"
+                                            onClick={saveTitle}
+                                            aria-label="Save repository title"
+                                          >
+                                            <Check className="h-4 w-4" />
+                                          </Button>
+                                          <Button
+                                            size="sm"
+                                            variant="outline"
+                                            onClick={cancelEdit}
+                                            aria-label="Cancel editing"
+                                          >
+                                            <X className="h-4 w-4" />
+                                          </Button>
+                                        </div>
+                                      </div>
+                                    ) : (
+                                      <>
+                                        <h3
+                                          className={cn(
+                                            "text-2xl font-semibold",
+                                            theme.preview.text,
+                                          )}
+                                        >
+                                          {getItemTitle(item)}
+                                        </h3>
+                                        <Button
+                                          size="sm"
+                                          variant="ghost"
+                                          className="absolute top-0 right-0 opacity-0 group-hover:opacity-100 transition-opacity"
+                                          onClick={() =>
+                                            startEditingItemTitle(item.id, getItemTitle(item))
+                                          }
+                                          aria-label="Edit item title"
+                                        >
+                                          <Edit2 className="h-4 w-4" />
+                                        </Button>
+                                      </>
+                                    )}
+                                  </div>
+                                </div>
+                                <div className="flex items-center gap-2 ml-2">
+                                  {isRepositoryItem(item) && item.metadata.stars > 0 && (
+                                    <span className="text-xs bg-amber-100 text-amber-800 px-2 py-1 rounded-full flex items-center">
+                                      ★ {item.metadata.stars}
+                                    </span>
+                                  )}
+                                  {isRepositoryItem(item) &&
+                                    item.metadata.packages?.flatMap((stats) =>
+                                      getPackageBadges(stats).map((badge) => (
+                                        <a
+                                          key={`${stats.registry}-${stats.name}-${badge}`}
+                                          href={stats.url}
+                                          target="_blank"
+                                          rel="noopener noreferrer"
+                                          title={stats.name}
+                                          className="text-xs bg-emerald-100 text-emerald-800 px-2 py-1 rounded-full whitespace-nowrap"
+                                        >
+                                          {badge}
+                                        </a>
+                                      )),
+                                    )}
+                                  {item.url && (
                                     <Button
-                                      size="sm"
                                       variant="outline"
-                                      onClick={cancelEdit}
-                                      aria-label="Cancel editing"
+                                      size="icon"
+                                      asChild
+                                      aria-label="View item"
                                     >
-                                      <X className="h-4 w-4" />
+                                      <a href={item.url} target="_blank" rel="noopener noreferrer">
+                                        {item.source === "github" ||
+                                        item.source === "contribution" ? (
+                                          <Github className="h-4 w-4" />
+                                        ) : (
+                                          <ExternalLink className="h-4 w-4" />
+                                        )}
+                                      </a>
                                     </Button>
-                                  </div>
+                                  )}
+                                  {isRepositoryItem(item) && item.metadata.url && (
+                                    <Button variant="outline" size="icon" asChild>
+                                      <a
+                                        href={item.metadata.url}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                      >
+                                        <ExternalLink className="h-4 w-4" />
+                                      </a>
+                                    </Button>
+                                  )}
                                 </div>
-                              ) : (
-                                <>
-                                  <h2 className={cn("text-2xl font-semibold", theme.preview.text)}>
-                                    {getItemTitle(item)}
-                                  </h2>
-                                  <Button
-                                    size="sm"
-                                    variant="ghost"
-                                    className="absolute top-0 right-0 opacity-0 group-hover:opacity-100 transition-opacity"
-                                    onClick={() =>
-                                      startEditingItemTitle(item.id, getItemTitle(item))
-                                    }
-                                    aria-label="Edit item title"
-                                  >
-                                    <Edit2 className="h-4 w-4" />
-                                  </Button>
-                                </>
+                              </div>
+                            </CardHeader>
+                            <CardContent>
+                              {/* Item summary or description */}
+                              {item.source === "publication" && (
+                                <p className="text-sm text-muted-foreground mb-3">
+                                  {formatCitation(item)}
+                                </p>
                               )}
-                            </div>
-                          </div>
-                          <div className="flex items-center gap-2 ml-2">
-                            {(item.source === "github" ||
-                              item.source === "gitlab" ||
-                              item.source === "bitbucket") &&
-                              item.metadata.stars > 0 && (
-                                <span className="text-xs bg-amber-100 text-amber-800 px-2 py-1 rounded-full flex items-center">
-                                  ★ {item.metadata.stars}
-                                </span>
+                              {item.source === "contribution" && (
+                                <p className="text-sm text-muted-foreground mb-3">
+                                  {formatContributionStats(item)}
+                                </p>
                               )}
-                            {item.url && (
-                              <Button variant="outline" size="icon" asChild aria-label="View item">
-                                <a href={item.url} target="_blank" rel="noopener noreferrer">
-                                  {item.source === "github" ? (
-                                    <Github className="h-4 w-4" />
+                              {item.source === "gist" && renderGistExcerpt(item)}
+                              {item.source === "talk" && renderTalkDetails(item)}
+                              {getItemSummary(item) ? (
+                                <div className="relative group">
+                                  {editingItem === item.id ? (
+                                    <div className="space-y-3">
+                                      <Textarea
+                                        value={tempItemSummary}
+                                        onChange={(e) => setTempItemSummary(e.target.value)}
+                                        className="min-h-[100px]"
+                                        placeholder="Enter summary..."
+                                      />
+                                      <div className="flex gap-2">
+                                        <Button
+                                          size="sm"
+                                          onClick={saveItemSummary}
+                                          aria-label="Save repository summary"
+                                        >
+                                          <Check className="h-4 w-4" />
+                                        </Button>
+                                        <Button
+                                          size="sm"
+                                          variant="outline"
+                                          onClick={cancelEdit}
+                                          aria-label="Cancel editing"
+                                        >
+                                          <X className="h-4 w-4" />
+                                        </Button>
+                                      </div>
+                                    </div>
                                   ) : (
-                                    <ExternalLink className="h-4 w-4" />
+                                    <>
+                                      <p className={cn("mb-4", theme.preview.text)}>
+                                        {getItemSummary(item)}
+                                      </p>
+                                      <div className="absolute top-0 right-0 opacity-0 group-hover:opacity-100 transition-opacity flex gap-1">
+                                        <Button
+                                          size="sm"
+                                          variant="ghost"
+                                          onClick={() =>
+                                            startEditingItem(item.id, getItemSummary(item))
+                                          }
+                                          aria-label="Edit item summary"
+                                        >
+                                          <Edit2 className="h-4 w-4" />
+                                        </Button>
+                                        <Button
+                                          size="sm"
+                                          variant="ghost"
+                                          onClick={() => deleteItem(item.id)}
+                                          className="text-red-500 hover:text-red-700"
+                                          title="Remove from portfolio"
+                                          aria-label="Remove from portfolio"
+                                        >
+                                          <Trash2 className="h-4 w-4" />
+                                        </Button>
+                                      </div>
+                                    </>
                                   )}
-                                </a>
-                              </Button>
-                            )}
-                            {(item.source === "github" ||
-                              item.source === "gitlab" ||
-                              item.source === "bitbucket") &&
-                              item.metadata.url && (
-                                <Button variant="outline" size="icon" asChild>
-                                  <a
-                                    href={item.metadata.url}
-                                    target="_blank"
-                                    rel="noopener noreferrer"
-                                  >
-                                    <ExternalLink className="h-4 w-4" />
-                                  </a>
-                                </Button>
-                              )}
-                          </div>
-                        </div>
-                      </CardHeader>
-                      <CardContent>
-                        {/* Item summary or description */}
-                        {getItemSummary(item) ? (
-                          <div className="relative group">
-                            {editingItem === item.id ? (
-                              <div className="space-y-3">
-                                <Textarea
-                                  value={tempItemSummary}
-                                  onChange={(e) => setTempItemSummary(e.target.value)}
-                                  className="min-h-[100px]"
-                                  placeholder="Enter summary..."
-                                />
-                                <div className="flex gap-2">
-                                  <Button
-                                    size="sm"
-                                    onClick={saveItemSummary}
-                                    aria-label="Save repository summary"
-                                  >
-                                    <Check className="h-4 w-4" />
-                                  </Button>
-                                  <Button
-                                    size="sm"
-                                    variant="outline"
-                                    onClick={cancelEdit}
-                                    aria-label="Cancel editing"
-                                  >
-                                    <X className="h-4 w-4" />
-                                  </Button>
-                                </div>
-                              </div>
-                            ) : (
-                              <>
-                                <p className={cn("mb-4", theme.preview.text)}>
-                                  {getItemSummary(item)}
-                                </p>
-                                <div className="absolute top-0 right-0 opacity-0 group-hover:opacity-100 transition-opacity flex gap-1">
-                                  <Button
-                                    size="sm"
-                                    variant="ghost"
-                                    onClick={() => startEditingItem(item.id, getItemSummary(item))}
-                                    aria-label="Edit item summary"
-                                  >
-                                    <Edit2 className="h-4 w-4" />
-                                  </Button>
-                                  <Button
-                                    size="sm"
-                                    variant="ghost"
-                                    onClick={() => deleteItem(item.id)}
-                                    className="text-red-500 hover:text-red-700"
-                                    title="Remove from portfolio"
-                                    aria-label="Remove from portfolio"
-                                  >
-                                    <Trash2 className="h-4 w-4" />
-                                  </Button>
-                                </div>
-                              </>
-                            )}
-                            {/* Topics for repos */}
-                            {(item.source === "github" ||
-                              item.source === "gitlab" ||
-                              item.source === "bitbucket") &&
-                              item.metadata.topics.length > 0 && (
-                                <div className="flex flex-wrap gap-2">
-                                  {item.metadata.topics.map((topic) => (
-                                    <Badge
-                                      key={topic}
-                                      variant="outline"
-                                      className="bg-stone-900 text-stone-50"
-                                    >
-                                      {topic}
-                                    </Badge>
-                                  ))}
+                                  {/* Topics for repos */}
+                                  {isRepositoryItem(item) && item.metadata.topics.length > 0 && (
+                                    <div className="flex flex-wrap gap-2">
+                                      {item.metadata.topics.map((topic) => (
+                                        <Badge
+                                          key={topic}
+                                          variant="outline"
+                                          className="bg-stone-900 text-stone-50"
+                                        >
+                                          {topic}
+                                        </Badge>
+                                      ))}
+                                    </div>
+                                  )}
+                                  {/* Tags for other types */}
+                                  {(item.source === "blog_rss" ||
+                                    item.source === "medium" ||
+                                    item.source === "freeform" ||
+                                    item.source === "publication" ||
+                                    item.source === "contribution" ||
+                                    item.source === "gist" ||
+                                    item.source === "talk") &&
+                                    item.tags && (
+                                      <div className="flex flex-wrap gap-2">
+                                        {item.tags.map((tag) => (
+                                          <Badge
+                                            key={tag}
+                                            variant="outline"
+                                            className="bg-stone-900 text-stone-50"
+                                          >
+                                            {tag}
+                                          </Badge>
+                                        ))}
+                                      </div>
+                                    )}
                                 </div>
-                              )}
-                            {/* Tags for other types */}
-                            {(item.source === "blog_rss" ||
-                              item.source === "medium" ||
-                              item.source === "freeform") &&
-                              item.tags && (
-                                <div className="flex flex-wrap gap-2">
-                                  {item.tags.map((tag) => (
-                                    <Badge
-                                      key={tag}
-                                      variant="outline"
-                                      className="bg-stone-900 text-stone-50"
-                                    >
-                                      {tag}
-                                    </Badge>
-                                  ))}
+                              ) : (
+                                <div className="space-y-4">
+                                  <Skeleton className="h-24" />
+                                  <div className="flex gap-2">
+                                    <Skeleton className="h-6 w-20" />
+                                    <Skeleton className="h-6 w-20" />
+                                  </div>
                                 </div>
                               )}
-                          </div>
-                        ) : (
-                          <div className="space-y-4">
-                            <Skeleton className="h-24" />
-                            <div className="flex gap-2">
-                              <Skeleton className="h-6 w-20" />
-                              <Skeleton className="h-6 w-20" />
-                            </div>
-                          </div>
-                        )}
-                      </CardContent>
-                    </Card>
-                  ))}
-                </div>
+                            </CardContent>
+                          </Card>
+                        );
+                      })}
+                    </div>
+                  </section>
+                ))}
               </div>
             </div>
           ) : (
@@ -1272,11 +1563,12 @@ export default function PortfolioPreview() {
           )}
 
           <DeploymentActions
-            repositories={selectedItems.filter((item) => item.source === "github") as Repository[]}
+            items={selectedItems}
             userInfo={userInfo}
             introduction={userIntro}
             theme={theme}
             customTitle={customTitle}
+            sections={sections}
           />
         </div>
       </div>
@@ -1,7 +1,7 @@
 import type { Repository } from "@shared/schema";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { ExternalLink, Search, X } from "lucide-react";
-import { useMemo, useState } from "react";
+import { useMemo, useRef, useState } from "react";
 import { useLocation } from "wouter";
 import { AnalysisProgress } from "@/components/analysis-progress";
 import { Button } from "@/components/ui/button";
@@ -16,11 +16,22 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
+import { getSummaryRequest } from "@/hooks/use-summary-stream";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { getGitHubToken, getRepositories, saveRepositories } from "@/lib/storage";
+import { getRepositories, saveRepositories } from "@/lib/storage";
 
 const REPOS_PER_PAGE = 10;
+const JOB_POLL_INTERVAL = 1000;
+
+interface SummaryJob {
+  id: string;
+  status: "running" | "completed" | "cancelled";
+  total: number;
+  completed: number;
+  summaries: Record<string, string>;
+  failed: Record<string, string>;
+}
 
 export default function RepoSelect() {
   const [, setLocation] = useLocation();
@@ -34,6 +45,7 @@ export default function RepoSelect() {
     repoName: "",
     progress: 0,
   });
+  const analysisJobRef = useRef<string | null>(null);
 
   const { data, isLoading } = useQuery<{ repositories: Repository[] }>({
     queryKey: ["/api/repositories"],
@@ -150,6 +162,39 @@ export default function RepoSelect() {
 
   const allSelected = paginatedRepos.length > 0 && paginatedRepos.every((repo) => repo.selected);
 
+  const applySummaries = (summaries: Record<string, string>) => {
+    queryClient.setQueryData<{ repositories: Repository[] }>(["/api/repositories"], (old) => {
+      if (!old) return old;
+      return {
+        repositories: old.repositories.map((r) =>
+          summaries[r.id] !== undefined ? { ...r, summary: summaries[r.id] } : r,
+        ),
+      };
+    });
+  };
+
+  const cancelAnalysis = async () => {
+    const jobId = analysisJobRef.current;
+    if (!jobId) return;
+
+    analysisJobRef.current = null;
+    try {
+      const res = await apiRequest("DELETE", `/api/sources/summary-jobs/${jobId}`);
+      const job: SummaryJob = await res.json();
+      applySummaries(job.summaries);
+      toast({
+        title: "Analysis Cancelled",
+        description: `Kept ${Object.keys(job.summaries).length} of ${job.total} summaries.`,
+      });
+    } catch (_error) {
+      toast({
+        title: "Error",
+        description: "Failed to cancel the analysis.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const analyzeRepos = async () => {
     try {
       setAnalysisProgress({
@@ -159,55 +204,52 @@ export default function RepoSelect() {
         progress: 0,
       });
 
-      // Analyze repositories sequentially to avoid rate limits
-      for (let i = 0; i < selectedRepos.length; i++) {
-        const repo = selectedRepos[i];
-        if (repo.id) {
-          setAnalysisProgress((prev) => ({
-            ...prev,
-            currentRepo: i + 1,
-            repoName: repo.name,
-            progress: (i / selectedRepos.length) * 100,
-          }));
-
-          const res = await apiRequest("POST", `/api/repositories/${repo.id}/analyze`, {
-            accessToken: getGitHubToken(),
-            username: localStorage.getItem("github_username"),
-          });
-
-          if (!res.ok) {
-            throw new Error("Failed to analyze repository");
-          }
-
-          const data = await res.json();
-
-          // Update the cache with the new summary
-          queryClient.setQueryData<{ repositories: Repository[] }>(["/api/repositories"], (old) => {
-            if (!old) return old;
-            return {
-              repositories: old.repositories.map((r) =>
-                r.id === data.repository.id ? { ...r, summary: data.repository.summary } : r,
-              ),
-            };
-          });
-        }
+      // Summaries are generated by a server-side job with bounded concurrency
+      const startRes = await apiRequest(
+        "POST",
+        "/api/sources/summary-jobs",
+        getSummaryRequest(selectedRepos),
+      );
+      let job: SummaryJob = await startRes.json();
+      const jobId = job.id;
+      analysisJobRef.current = jobId;
+
+      while (job.status === "running") {
+        await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL));
+        if (analysisJobRef.current !== jobId) return;
+
+        const res = await apiRequest("GET", `/api/sources/summary-jobs/${jobId}`);
+        job = await res.json();
+
+        applySummaries(job.summaries);
+        setAnalysisProgress((prev) => ({
+          ...prev,
+          currentRepo: job.completed,
+          progress: job.total > 0 ? (job.completed / job.total) * 100 : 100,
+        }));
       }
-
-      // Set progress to 100% when complete
-      setAnalysisProgress((prev) => ({
-        ...prev,
-        progress: 100,
-      }));
+      analysisJobRef.current = null;
+      if (job.status === "cancelled") return;
 
       // Small delay to show 100% completion before navigating
       await new Promise((resolve) => setTimeout(resolve, 500));
 
       setLocation("/preview");
-      toast({
-        title: "Success",
-        description: "Repository analysis complete!",
-      });
+      const failedCount = Object.keys(job.failed).length;
+      toast(
+        failedCount > 0
+          ? {
+              title: "Analysis Finished With Errors",
+              description: `${failedCount} of ${job.total} repositories could not be summarized.`,
+              variant: "destructive",
+            }
+          : {
+              title: "Success",
+              description: "Repository analysis complete!",
+            },
+      );
     } catch (_error) {
+      analysisJobRef.current = null;
       toast({
         title: "Error",
         description: "Failed to analyze repositories. Please try again.",
@@ -508,6 +550,7 @@ export default function RepoSelect() {
         currentRepo={analysisProgress.currentRepo}
         repoName={analysisProgress.repoName}
         progress={analysisProgress.progress}
+        onCancel={cancelAnalysis}
       />
     </div>
   );
@@ -1,10 +1,13 @@
-import type { PortfolioItem, SourceType } from "@shared/schema";
+import { isRepositoryItem, type PortfolioItem, type SourceType } from "@shared/schema";
 import { useEffect, useMemo, useState } from "react";
 import { useLocation } from "wouter";
+import { SummaryProgress } from "@/components/summary-progress";
+import { SUMMARY_SOURCES, useSummaryStream, withSummary } from "@/hooks/use-summary-stream";
 import {
   getPortfolioItems,
   savePortfolioItems,
   togglePortfolioItemSelection,
+  updatePortfolioItem,
 } from "../lib/storage";
 import { clearWizardState } from "../lib/wizard-state";
 
@@ -14,13 +17,18 @@ const sourceLabels: Record<SourceType, { label: string; icon: string; color: str
   medium: { label: "Medium", icon: "📝", color: "bg-green-100 text-green-800" },
   gitlab: { label: "GitLab", icon: "🦊", color: "bg-purple-100 text-purple-800" },
   bitbucket: { label: "Bitbucket", icon: "🪣", color: "bg-blue-100 text-blue-800" },
+  gitea: { label: "Gitea", icon: "🍵", color: "bg-emerald-100 text-emerald-800" },
   linkedin: { label: "LinkedIn", icon: "🔗", color: "bg-cyan-100 text-cyan-800" },
+  publication: { label: "Publications", icon: "📚", color: "bg-indigo-100 text-indigo-800" },
+  contribution: { label: "Contributions", icon: "🤝", color: "bg-violet-100 text-violet-800" },
+  gist: { label: "Gists", icon: "🧩", color: "bg-slate-100 text-slate-800" },
+  talk: { label: "Talks", icon: "🎤", color: "bg-rose-100 text-rose-800" },
   freeform: { label: "Custom", icon: "✍️", color: "bg-pink-100 text-pink-800" },
 };
 
 // Helper functions to safely access properties across different item types
 const getItemTitle = (item: PortfolioItem): string => {
-  if (item.source === "github" || item.source === "gitlab" || item.source === "bitbucket") {
+  if (isRepositoryItem(item)) {
     return (item as any).displayName || (item as any).name;
   }
   if ("title" in item) {
@@ -30,9 +38,22 @@ const getItemTitle = (item: PortfolioItem): string => {
 };
 
 const getItemDescription = (item: PortfolioItem): string | null => {
+  // The upstream description is about someone else's project
+  if (item.source === "contribution") {
+    return `${item.pullRequestCount} merged PRs, e.g. ${item.representativePullRequest.title}`;
+  }
   if ("description" in item && item.description !== null) {
     return item.description;
   }
+  if (item.source === "publication") {
+    return item.abstract || item.venue;
+  }
+  if (item.source === "talk") {
+    return item.event;
+  }
+  if (item.source === "gist") {
+    return item.files.map((file) => file.filename).join(", ");
+  }
   if (item.source === "linkedin" && "content" in item) {
     return item.content || null;
   }
@@ -46,8 +67,8 @@ const getItemTags = (item: PortfolioItem): string[] => {
   if ("tags" in item && Array.isArray(item.tags)) {
     return item.tags;
   }
-  if ((item.source === "github" || item.source === "gitlab") && "metadata" in item) {
-    return (item as any).metadata?.topics || [];
+  if (isRepositoryItem(item)) {
+    return item.metadata.topics || [];
   }
   return [];
 };
@@ -66,6 +87,19 @@ export default function SelectItemsPage() {
     setItems(allItems);
   };
 
+  const summaryStream = useSummaryStream({
+    onSummary: (item, summary) => {
+      updatePortfolioItem(item.id, withSummary(item, summary));
+      loadItems();
+    },
+  });
+
+  const handleGenerateSummaries = () => {
+    summaryStream.start(
+      items.filter((item) => item.selected && SUMMARY_SOURCES.includes(item.source)),
+    );
+  };
+
   const handleToggleSelection = (id: string | number) => {
     togglePortfolioItemSelection(id);
     loadItems();
@@ -92,6 +126,7 @@ export default function SelectItemsPage() {
     }
 
     // Clear wizard state when moving to preview
+    summaryStream.cancel();
     clearWizardState();
     setLocation("/preview");
   };
@@ -358,6 +393,18 @@ export default function SelectItemsPage() {
           })}
         </div>
 
+        {/* Summary Generation Progress */}
+        <div className="mb-6">
+          <SummaryProgress
+            items={items}
+            progress={summaryStream.progress}
+            isRunning={summaryStream.isRunning}
+            getItemTitle={getItemTitle}
+            onRetryFailed={summaryStream.retryFailed}
+            onCancel={summaryStream.cancel}
+          />
+        </div>
+
         {/* Action Buttons */}
         <div className="flex justify-between gap-4 sticky bottom-4 bg-white rounded-lg shadow-lg p-4">
           <button
@@ -366,12 +413,21 @@ export default function SelectItemsPage() {
           >
             ← Back
           </button>
-          <button
-            onClick={handleContinue}
-            className="bg-gradient-to-r from-blue-600 to-indigo-600 text-white py-3 px-8 rounded-lg hover:from-blue-700 hover:to-indigo-700 transition-all shadow-lg"
-          >
-            Continue to Preview →
-          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={handleGenerateSummaries}
+              disabled={summaryStream.isRunning || selectedCount === 0}
+              className="bg-white border-2 border-blue-600 text-blue-700 py-3 px-6 rounded-lg hover:bg-blue-50 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {summaryStream.isRunning ? "Generating Summaries..." : "Generate AI Summaries"}
+            </button>
+            <button
+              onClick={handleContinue}
+              className="bg-gradient-to-r from-blue-600 to-indigo-600 text-white py-3 px-8 rounded-lg hover:from-blue-700 hover:to-indigo-700 transition-all shadow-lg"
+            >
+              Continue to Preview →
+            </button>
+          </div>
         </div>
       </div>
     </div>
@@ -59,6 +59,54 @@ export default function SourceSelectionPage() {
       color: "bg-blue-50 border-blue-200",
       requiresAuth: true,
     },
+    {
+      type: "gitea",
+      title: "Gitea / Forgejo",
+      description: "Import from Codeberg or your own Gitea or Forgejo",
+      icon: "🍵",
+      color: "bg-emerald-50 border-emerald-200",
+      requiresAuth: true,
+    },
+    {
+      type: "linkedin",
+      title: "LinkedIn Export",
+      description: "Import posts, positions and skills from your data export",
+      icon: "💼",
+      color: "bg-sky-50 border-sky-200",
+      requiresAuth: false,
+    },
+    {
+      type: "publication",
+      title: "Publications",
+      description: "Import papers from BibTeX, ORCID or arXiv",
+      icon: "📚",
+      color: "bg-indigo-50 border-indigo-200",
+      requiresAuth: false,
+    },
+    {
+      type: "contribution",
+      title: "Open Source Contributions",
+      description: "Import your merged pull requests to other projects on GitHub",
+      icon: "🤝",
+      color: "bg-violet-50 border-violet-200",
+      requiresAuth: true,
+    },
+    {
+      type: "gist",
+      title: "GitHub Gists",
+      description: "Showcase your public scripts and snippets",
+      icon: "🧩",
+      color: "bg-slate-50 border-slate-200",
+      requiresAuth: true,
+    },
+    {
+      type: "talk",
+      title: "Talks",
+      description: "Add conference talks from YouTube or by hand",
+      icon: "🎤",
+      color: "bg-rose-50 border-rose-200",
+      requiresAuth: false,
+    },
     {
       type: "freeform",
       title: "Custom Content",
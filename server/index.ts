@@ -7,6 +7,7 @@ import express, {
   type Response,
   Router,
 } from "express";
+import { getLLMConfig, LLM_REQUIRED_ENV } from "./lib/llm/index.js";
 import { redactSensitiveData } from "./lib/security.js";
 import deployRoutes from "./routes/deploy.js";
 import githubRoutes from "./routes/github.js";
@@ -16,7 +17,9 @@ import userRoutes from "./routes/user.js";
 
 // Validate required environment variables at startup
 function validateEnvironment(): void {
-  const required = ["GITHUB_CLIENT_ID", "GITHUB_CLIENT_SECRET", "OPENAI_API_KEY"];
+  // The required AI variables depend on LLM_PROVIDER
+  const llmProvider = getLLMConfig().provider;
+  const required = ["GITHUB_CLIENT_ID", "GITHUB_CLIENT_SECRET", ...LLM_REQUIRED_ENV[llmProvider]];
 
   const missing = required.filter((key) => !process.env[key]);
 
@@ -29,7 +32,7 @@ function validateEnvironment(): void {
   }
 
   // Validate optional but recommended variables
-  const recommended = ["APP_URL", "OPENAI_API_MODEL"];
+  const recommended = ["APP_URL", ...(llmProvider === "openai" ? ["OPENAI_API_MODEL"] : [])];
   const missingRecommended = recommended.filter((key) => !process.env[key]);
 
   if (missingRecommended.length > 0) {
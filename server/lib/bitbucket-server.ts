@@ -0,0 +1,308 @@
+import axios from "axios";
+import type { BitbucketRepository } from "../../shared/schema";
+import { extractTitleFromReadme } from "./bitbucket.js";
+import { getInstanceRequestConfig, normalizeInstanceUrl } from "./network-guard.js";
+
+/**
+ * Adapter for Bitbucket Server and Data Center, which use the REST 1.0 API
+ * (https://<host>/rest/api/1.0) instead of the Bitbucket Cloud 2.0 API.
+ * Authentication uses the username with a password or HTTP access token.
+ */
+
+interface BitbucketServerRepo {
+  id: number;
+  slug: string;
+  name: string;
+  description?: string;
+  project: {
+    key: string;
+    name: string;
+    type: "NORMAL" | "PERSONAL";
+    owner?: {
+      name: string;
+      slug: string;
+    };
+  };
+  links: {
+    self?: Array<{ href: string }>;
+  };
+}
+
+interface BitbucketServerUser {
+  id: number;
+  name: string;
+  slug: string;
+  displayName: string;
+}
+
+interface BitbucketServerPage<T> {
+  values: T[];
+  isLastPage: boolean;
+  nextPageStart?: number;
+}
+
+const PAGE_LIMIT = 100;
+const MAX_PAGES = 10;
+
+/**
+ * Request options shared by all calls to one instance
+ */
+function getServerApi(baseUrl: string, username: string, password: string) {
+  const instanceUrl = normalizeInstanceUrl(baseUrl);
+  const auth = Buffer.from(`${username}:${password}`).toString("base64");
+
+  return {
+    instanceUrl,
+    apiUrl: `${instanceUrl}/rest/api/1.0`,
+    config: {
+      ...getInstanceRequestConfig(instanceUrl),
+      headers: {
+        Authorization: `Basic ${auth}`,
+      },
+    },
+  };
+}
+
+/**
+ * Fetches the authenticated Bitbucket Server user
+ * Privacy: Uses user-provided credentials, no backend logging
+ * @param baseUrl - Instance URL such as https://bitbucket.example.com
+ * @param username - Bitbucket Server username
+ * @param password - Password or HTTP access token
+ * @returns User information
+ */
+export async function getBitbucketServerUser(
+  baseUrl: string,
+  username: string,
+  password: string,
+): Promise<BitbucketServerUser> {
+  try {
+    const { apiUrl, config } = getServerApi(baseUrl, username, password);
+    const response = await axios.get<BitbucketServerUser>(
+      `${apiUrl}/users/${encodeURIComponent(username)}`,
+      config,
+    );
+    return response.data;
+  } catch (error) {
+    throw new Error(
+      `Failed to fetch Bitbucket Server user: ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  }
+}
+
+/**
+ * Lists the raw repositories the user can write to, across projects and their personal space
+ */
+async function listServerRepositories(
+  baseUrl: string,
+  username: string,
+  password: string,
+): Promise<BitbucketServerRepo[]> {
+  const { apiUrl, config } = getServerApi(baseUrl, username, password);
+  let repositories: BitbucketServerRepo[] = [];
+  let start: number | undefined = 0;
+  let pageCount = 0;
+
+  // REST 1.0 uses start/limit pagination with nextPageStart
+  while (start !== undefined && pageCount < MAX_PAGES) {
+    const response: { data: BitbucketServerPage<BitbucketServerRepo> } = await axios.get<
+      BitbucketServerPage<BitbucketServerRepo>
+    >(`${apiUrl}/repos`, {
+      ...config,
+      params: {
+        limit: PAGE_LIMIT,
+        start,
+        permission: "REPO_WRITE",
+      },
+    });
+
+    repositories = repositories.concat(response.data.values);
+    start = response.data.isLastPage ? undefined : response.data.nextPageStart;
+    pageCount++;
+  }
+
+  return repositories;
+}
+
+/**
+ * Fetches repositories the user can write to
+ * Privacy: Data fetched directly from the instance, processed in-memory only
+ * @param baseUrl - Instance URL
+ * @param username - Bitbucket Server username
+ * @param password - Password or HTTP access token
+ * @returns Array of Bitbucket repositories
+ */
+export async function getBitbucketServerRepositories(
+  baseUrl: string,
+  username: string,
+  password: string,
+): Promise<BitbucketRepository[]> {
+  try {
+    const repositories = await listServerRepositories(baseUrl, username, password);
+    const instanceUrl = normalizeInstanceUrl(baseUrl);
+    return repositories.map((repo) => convertBitbucketServerRepoToRepository(repo, instanceUrl));
+  } catch (error) {
+    throw new Error(
+      `Failed to fetch Bitbucket Server repositories: ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  }
+}
+
+/**
+ * Fetches README content from the default branch of a Bitbucket Server repository
+ * Privacy: No logging of README contents
+ * @param baseUrl - Instance URL
+ * @param projectKey - Project key (~username for personal repositories)
+ * @param repoSlug - Repository slug
+ * @param username - Bitbucket Server username
+ * @param password - Password or HTTP access token
+ * @returns README content or null
+ */
+export async function getBitbucketServerReadme(
+  baseUrl: string,
+  projectKey: string,
+  repoSlug: string,
+  username: string,
+  password: string,
+): Promise<string | null> {
+  try {
+    const { apiUrl, config } = getServerApi(baseUrl, username, password);
+    const readmeFiles = ["README.md", "readme.md", "Readme.md", "README", "readme"];
+
+    for (const filename of readmeFiles) {
+      try {
+        const response = await axios.get<string>(
+          `${apiUrl}/projects/${encodeURIComponent(projectKey)}/repos/${encodeURIComponent(repoSlug)}/raw/${filename}`,
+          { ...config, responseType: "text" },
+        );
+
+        if (response.data) {
+          return response.data;
+        }
+      } catch (_err) {}
+    }
+
+    return null;
+  } catch (_error) {
+    return null;
+  }
+}
+
+/**
+ * Converts a Bitbucket Server repository to our BitbucketRepository schema
+ * @param repo - REST 1.0 repository object
+ * @param instanceUrl - Instance URL, used for IDs and links
+ * @returns BitbucketRepository object
+ */
+function convertBitbucketServerRepoToRepository(
+  repo: BitbucketServerRepo,
+  instanceUrl: string,
+): BitbucketRepository {
+  const personal = repo.project.type === "PERSONAL";
+  const url =
+    repo.links.self?.[0]?.href ||
+    `${instanceUrl}/projects/${repo.project.key}/repos/${repo.slug}/browse`;
+  // Numeric IDs are only unique per instance
+  const id = `${new URL(instanceUrl).host}:${repo.id}`;
+
+  return {
+    id,
+    name: repo.name,
+    displayName: null, // Will be fetched from README if needed
+    description: repo.description || null,
+    url,
+    summary: null,
+    selected: false,
+    source: "bitbucket",
+    owner: {
+      login: personal ? repo.project.owner?.slug || repo.project.key : repo.project.key,
+      type: personal ? "User" : "Organization",
+      avatarUrl: null,
+    },
+    metadata: {
+      id,
+      stars: 0, // Bitbucket doesn't have stars
+      language: null, // REST 1.0 doesn't report languages
+      topics: [],
+      // REST 1.0 doesn't report activity on the repository resource
+      updatedAt: new Date().toISOString(),
+      url,
+    },
+  };
+}
+
+/**
+ * Fetches Bitbucket Server repositories with README titles
+ * Privacy: All processing in-memory, no data stored
+ * @param baseUrl - Instance URL
+ * @param username - Bitbucket Server username
+ * @param password - Password or HTTP access token
+ * @returns Array of BitbucketRepository with display names
+ */
+export async function getBitbucketServerRepositoriesWithTitles(
+  baseUrl: string,
+  username: string,
+  password: string,
+): Promise<BitbucketRepository[]> {
+  let repositories: BitbucketServerRepo[];
+  try {
+    repositories = await listServerRepositories(baseUrl, username, password);
+  } catch (error) {
+    throw new Error(
+      `Failed to fetch Bitbucket Server repositories: ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  }
+  const instanceUrl = normalizeInstanceUrl(baseUrl);
+
+  // Fetch README for each repository in batches (with delay to avoid rate limits)
+  const BATCH_SIZE = 10;
+  const BATCH_DELAY_MS = 200;
+  const repositoriesWithTitles = [];
+
+  for (let i = 0; i < repositories.length; i += BATCH_SIZE) {
+    const batch = repositories.slice(i, i + BATCH_SIZE);
+
+    const batchResults = await Promise.all(
+      batch.map(async (repo) => {
+        const readme = await getBitbucketServerReadme(
+          baseUrl,
+          repo.project.key,
+          repo.slug,
+          username,
+          password,
+        );
+
+        return {
+          ...convertBitbucketServerRepoToRepository(repo, instanceUrl),
+          displayName: extractTitleFromReadme(readme),
+        };
+      }),
+    );
+
+    repositoriesWithTitles.push(...batchResults);
+
+    // Apply delay between batches to avoid rate limiting (except for last batch)
+    if (i + BATCH_SIZE < repositories.length) {
+      await new Promise((resolve) => setTimeout(resolve, BATCH_DELAY_MS));
+    }
+  }
+
+  return repositoriesWithTitles;
+}
+
+/**
+ * Validates Bitbucket Server credentials
+ * @returns true if credentials are valid
+ */
+export async function validateBitbucketServerCredentials(
+  baseUrl: string,
+  username: string,
+  password: string,
+): Promise<boolean> {
+  try {
+    await getBitbucketServerUser(baseUrl, username, password);
+    return true;
+  } catch (_error) {
+    return false;
+  }
+}
@@ -0,0 +1,221 @@
+import crypto from "node:crypto";
+import path from "node:path";
+import type { PortfolioFile } from "./portfolio-generator.js";
+
+/**
+ * Deploys portfolios to Cloudflare Pages with Direct Upload, the flow Wrangler uses: files
+ * are uploaded to the project's asset store by content hash, then a deployment is created
+ * from a manifest mapping each path to its hash. No Git repository is involved.
+ */
+
+const CLOUDFLARE_API_URL = "https://api.cloudflare.com/client/v4";
+
+export interface CloudflareCredentials {
+  accountId: string;
+  apiToken: string;
+}
+
+export interface CloudflareDeployment {
+  projectName: string;
+  deploymentId: string;
+  url: string;
+}
+
+export interface CloudflareDeploymentStatus {
+  ready: boolean;
+  state: string;
+  url: string | null;
+  error: string | null;
+}
+
+interface CloudflareResponse<T> {
+  success: boolean;
+  errors?: { code: number; message: string }[];
+  result: T;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".html": "text/html",
+  ".css": "text/css",
+  ".js": "application/javascript",
+  ".json": "application/json",
+  ".svg": "image/svg+xml",
+  ".txt": "text/plain",
+  ".xml": "application/xml",
+};
+
+async function cloudflareRequest<T>(
+  token: string,
+  apiPath: string,
+  init: RequestInit = {},
+): Promise<T | null> {
+  const response = await fetch(`${CLOUDFLARE_API_URL}${apiPath}`, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      ...(typeof init.body === "string" ? { "Content-Type": "application/json" } : {}),
+      ...init.headers,
+    },
+  });
+
+  if (response.status === 404 && (!init.method || init.method === "GET")) {
+    return null;
+  }
+
+  const data: CloudflareResponse<T> = await response.json().catch(() => ({
+    success: false,
+    result: null,
+  }));
+  if (!response.ok || !data.success) {
+    const message = data.errors?.map((error) => error.message).join(", ");
+    throw new Error(`Cloudflare API error: ${message || response.statusText}`);
+  }
+
+  return data.result;
+}
+
+/**
+ * Asset key of a file. Wrangler hashes with BLAKE3, which Node does not ship; the asset store
+ * only needs a stable 32 character hex key per content and extension.
+ */
+export function getAssetHash(file: PortfolioFile): string {
+  const base64 = Buffer.from(file.content).toString("base64");
+  return crypto
+    .createHash("sha256")
+    .update(base64 + path.extname(file.path).slice(1))
+    .digest("hex")
+    .slice(0, 32);
+}
+
+/**
+ * Project name for a user's portfolio, served at <name>.pages.dev
+ */
+export function getCloudflareProjectName(username: string): string {
+  return `${username}-foliolab`
+    .toLowerCase()
+    .replace(/[^a-z0-9-]/g, "-")
+    .slice(0, 58);
+}
+
+async function getOrCreateProject(
+  { accountId, apiToken }: CloudflareCredentials,
+  name: string,
+): Promise<{ subdomain: string }> {
+  const projectsPath = `/accounts/${encodeURIComponent(accountId)}/pages/projects`;
+  const project = await cloudflareRequest<{ subdomain: string }>(
+    apiToken,
+    `${projectsPath}/${name}`,
+  );
+  if (project) return project;
+
+  const created = await cloudflareRequest<{ subdomain: string }>(apiToken, projectsPath, {
+    method: "POST",
+    body: JSON.stringify({ name, production_branch: "main" }),
+  });
+  return created!;
+}
+
+/**
+ * Uploads the files the asset store does not have yet, authenticated with the project's
+ * short-lived upload token
+ */
+async function uploadAssets(
+  uploadToken: string,
+  files: PortfolioFile[],
+  hashes: string[],
+): Promise<void> {
+  const missing = await cloudflareRequest<string[]>(uploadToken, "/pages/assets/check-missing", {
+    method: "POST",
+    body: JSON.stringify({ hashes }),
+  });
+  const missingHashes = new Set(missing || []);
+
+  const payload = files
+    .map((file, index) => ({ file, hash: hashes[index] }))
+    .filter(({ hash }) => missingHashes.has(hash))
+    .map(({ file, hash }) => ({
+      key: hash,
+      value: Buffer.from(file.content).toString("base64"),
+      metadata: {
+        contentType: CONTENT_TYPES[path.extname(file.path)] || "application/octet-stream",
+      },
+      base64: true,
+    }));
+
+  if (payload.length > 0) {
+    await cloudflareRequest(uploadToken, "/pages/assets/upload", {
+      method: "POST",
+      body: JSON.stringify(payload),
+    });
+  }
+
+  await cloudflareRequest(uploadToken, "/pages/assets/upsert-hashes", {
+    method: "POST",
+    body: JSON.stringify({ hashes }),
+  });
+}
+
+/**
+ * Uploads the portfolio files as a new production deployment of a Pages project
+ */
+export async function deployToCloudflarePages(
+  credentials: CloudflareCredentials,
+  projectName: string,
+  files: PortfolioFile[],
+): Promise<CloudflareDeployment> {
+  const { accountId, apiToken } = credentials;
+  const projectPath = `/accounts/${encodeURIComponent(accountId)}/pages/projects/${projectName}`;
+  const project = await getOrCreateProject(credentials, projectName);
+
+  const upload = await cloudflareRequest<{ jwt: string }>(apiToken, `${projectPath}/upload-token`);
+  if (!upload) throw new Error("Cloudflare API error: upload token was not issued");
+
+  const hashes = files.map(getAssetHash);
+  await uploadAssets(upload.jwt, files, hashes);
+
+  const manifest = Object.fromEntries(files.map((file, index) => [`/${file.path}`, hashes[index]]));
+  const form = new FormData();
+  form.append("manifest", JSON.stringify(manifest));
+  form.append("branch", "main");
+
+  const deployment = await cloudflareRequest<{ id: string }>(
+    apiToken,
+    `${projectPath}/deployments`,
+    { method: "POST", body: form },
+  );
+  if (!deployment) throw new Error("Cloudflare API error: deployment was not created");
+
+  return {
+    projectName,
+    deploymentId: deployment.id,
+    url: `https://${project.subdomain || `${projectName}.pages.dev`}`,
+  };
+}
+
+/**
+ * Current stage of a deployment; ready once the deploy stage has succeeded
+ */
+export async function getCloudflareDeploymentStatus(
+  { accountId, apiToken }: CloudflareCredentials,
+  projectName: string,
+  deploymentId: string,
+): Promise<CloudflareDeploymentStatus> {
+  const deployment = await cloudflareRequest<{
+    url?: string;
+    latest_stage?: { name: string; status: string };
+  }>(
+    apiToken,
+    `/accounts/${encodeURIComponent(accountId)}/pages/projects/${projectName}` +
+      `/deployments/${encodeURIComponent(deploymentId)}`,
+  );
+  if (!deployment) throw new Error("Cloudflare API error: deployment not found");
+
+  const stage = deployment.latest_stage;
+  const failed = stage?.status === "failure" || stage?.status === "canceled";
+  return {
+    ready: stage?.name === "deploy" && stage.status === "success",
+    state: stage ? `${stage.name}: ${stage.status}` : "queued",
+    url: deployment.url || null,
+    error: failed ? `Deployment ${stage.status} during ${stage.name}` : null,
+  };
+}
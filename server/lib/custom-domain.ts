@@ -0,0 +1,169 @@
+import { Resolver } from "node:dns/promises";
+
+/**
+ * Custom domains for GitHub Pages and Vercel deploys: validation, the DNS records the user
+ * has to create at their DNS provider, and a propagation check against public DNS.
+ */
+
+export type CustomDomainTarget = "github-pages" | "vercel";
+
+export interface DnsRecord {
+  type: "A" | "AAAA" | "CNAME" | "TXT";
+  name: string;
+  value: string;
+}
+
+export interface DnsRecordStatus extends DnsRecord {
+  // Values currently published for the name and type
+  found: string[];
+  ok: boolean;
+}
+
+export interface DomainStatus {
+  domain: string;
+  propagated: boolean;
+  records: DnsRecordStatus[];
+}
+
+// The lookups used from node:dns, so tests can pass a resolver with fixed answers
+interface DnsResolver {
+  resolve4(hostname: string): Promise<string[]>;
+  resolve6(hostname: string): Promise<string[]>;
+  resolveCname(hostname: string): Promise<string[]>;
+}
+
+// https://docs.github.com/en/pages/configuring-a-custom-domain-for-your-github-pages-site
+const GITHUB_PAGES_IPV4 = [
+  "185.199.108.153",
+  "185.199.109.153",
+  "185.199.110.153",
+  "185.199.111.153",
+];
+const GITHUB_PAGES_IPV6 = [
+  "2606:50c0:8000::153",
+  "2606:50c0:8001::153",
+  "2606:50c0:8002::153",
+  "2606:50c0:8003::153",
+];
+// https://vercel.com/docs/projects/domains/add-a-domain
+const VERCEL_IPV4 = "76.76.21.21";
+const VERCEL_CNAME = "cname.vercel-dns.com";
+
+const DOMAIN_REGEX = /^(?=.{1,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+// Public suffixes with two labels, so that e.g. example.co.uk is recognized as an apex domain
+const TWO_LABEL_SUFFIXES = ["co.uk", "org.uk", "me.uk", "com.au", "net.au", "co.nz", "co.jp"];
+// Hostnames that belong to the hosting provider, not to the user
+const PROVIDER_DOMAINS = ["github.io", "github.com", "vercel.app", "netlify.app", "pages.dev"];
+
+const DNS_TIMEOUT_MS = 5000;
+
+/**
+ * Validates a custom domain entered by the user, accepting a pasted URL
+ * @returns The lowercase hostname
+ * @throws When it is not a domain name or belongs to a hosting provider
+ */
+export function normalizeCustomDomain(input: string): string {
+  const domain = input
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, "")
+    .replace(/\/.*$/, "")
+    .replace(/\.$/, "");
+
+  if (!DOMAIN_REGEX.test(domain)) {
+    throw new Error("Custom domain must be a domain name such as portfolio.example.com");
+  }
+  if (PROVIDER_DOMAINS.some((provider) => domain === provider || domain.endsWith(`.${provider}`))) {
+    throw new Error("Custom domain must be a domain you own");
+  }
+  return domain;
+}
+
+/**
+ * Whether the domain is an apex (example.com), which cannot have a CNAME record
+ */
+export function isApexDomain(domain: string): boolean {
+  const labels = domain.split(".");
+  const suffix = labels.slice(-2).join(".");
+  return labels.length === (TWO_LABEL_SUFFIXES.includes(suffix) ? 3 : 2);
+}
+
+/**
+ * Records pointing the domain to the host: A/AAAA records for an apex domain, a CNAME
+ * record otherwise
+ * @param username - Owner of the GitHub Pages site, whose <user>.github.io the CNAME targets
+ */
+export function getDnsRecords(
+  domain: string,
+  target: CustomDomainTarget,
+  username: string,
+): DnsRecord[] {
+  if (target === "vercel") {
+    return isApexDomain(domain)
+      ? [{ type: "A", name: domain, value: VERCEL_IPV4 }]
+      : [{ type: "CNAME", name: domain, value: VERCEL_CNAME }];
+  }
+
+  if (isApexDomain(domain)) {
+    return [
+      ...GITHUB_PAGES_IPV4.map((value) => ({ type: "A" as const, name: domain, value })),
+      ...GITHUB_PAGES_IPV6.map((value) => ({ type: "AAAA" as const, name: domain, value })),
+    ];
+  }
+  return [{ type: "CNAME", name: domain, value: `${username.toLowerCase()}.github.io` }];
+}
+
+function createResolver(): DnsResolver {
+  return new Resolver({ timeout: DNS_TIMEOUT_MS, tries: 2 });
+}
+
+async function lookup(resolver: DnsResolver, record: DnsRecord): Promise<string[]> {
+  try {
+    if (record.type === "A") return await resolver.resolve4(record.name);
+    if (record.type === "AAAA") return await resolver.resolve6(record.name);
+    if (record.type === "CNAME") return await resolver.resolveCname(record.name);
+  } catch {
+    // ENODATA, ENOTFOUND and timeouts all mean the record is not visible yet
+  }
+  return [];
+}
+
+function normalizeValue(value: string): string {
+  return value.toLowerCase().replace(/\.$/, "");
+}
+
+/**
+ * Checks whether the records are visible in public DNS. TXT records (domain verification)
+ * are checked by the host itself and are reported as not found.
+ */
+export async function checkDomainPropagation(
+  domain: string,
+  records: DnsRecord[],
+  resolver: DnsResolver = createResolver(),
+): Promise<DomainStatus> {
+  const cache = new Map<string, Promise<string[]>>();
+  const statuses = await Promise.all(
+    records.map(async (record) => {
+      const key = `${record.type} ${record.name}`;
+      if (!cache.has(key)) cache.set(key, lookup(resolver, record));
+
+      const found = (await cache.get(key)!).map(normalizeValue);
+      return { ...record, found, ok: found.includes(normalizeValue(record.value)) };
+    }),
+  );
+
+  // The domain resolves to the host once every published A or CNAME value is one of the
+  // expected ones, so a leftover record of a previous host still counts as not propagated.
+  // AAAA records are optional.
+  const required = statuses.filter((status) => status.type === "A" || status.type === "CNAME");
+  const expected = new Set(required.map((status) => normalizeValue(status.value)));
+  return {
+    domain,
+    propagated:
+      required.length > 0 &&
+      required.every(
+        (status) => status.found.length > 0 && status.found.every((value) => expected.has(value)),
+      ),
+    records: statuses,
+  };
+}
@@ -48,9 +48,10 @@ export const ErrorCodes = {
   GITHUB_API_ERROR: "GITHUB_API_ERROR",
   REPO_NOT_FOUND: "REPO_NOT_FOUND",
 
-  // OpenAI errors
+  // AI provider errors
   OPENAI_API_ERROR: "OPENAI_API_ERROR",
   OPENAI_API_KEY_MISSING: "OPENAI_API_KEY_MISSING",
+  LLM_NOT_CONFIGURED: "LLM_NOT_CONFIGURED",
 
   // Validation errors
   INVALID_INPUT: "INVALID_INPUT",
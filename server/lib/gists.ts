@@ -0,0 +1,144 @@
+import type { Gist, GistFile } from "../../shared/schema";
+import { createOctokit } from "./github.js";
+import { type GitHubHost, getImportHost } from "./github-host.js";
+
+/**
+ * The user's public GitHub Gists with their files, languages and stars. File contents are
+ * kept, truncated, so summaries and the generated page can use them without another request.
+ */
+
+const MAX_PAGES = 5;
+const PAGE_SIZE = 100;
+const MAX_FILES = 10;
+export const MAX_FILE_CONTENT_LENGTH = 4000;
+
+// Languages of files that describe a gist rather than being its code
+const PROSE_LANGUAGES = ["Markdown", "Text", "reStructuredText", "AsciiDoc"];
+
+const GISTS_QUERY = `
+  query ($cursor: String) {
+    viewer {
+      gists(first: ${PAGE_SIZE}, after: $cursor, privacy: PUBLIC, orderBy: { field: UPDATED_AT, direction: DESC }) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        nodes {
+          name
+          description
+          url
+          stargazerCount
+          createdAt
+          updatedAt
+          files(limit: ${MAX_FILES}) {
+            name
+            size
+            language {
+              name
+            }
+            text(truncate: ${MAX_FILE_CONTENT_LENGTH})
+          }
+        }
+      }
+    }
+  }
+`;
+
+export interface GistNode {
+  name: string;
+  description: string | null;
+  url: string;
+  stargazerCount: number;
+  createdAt: string;
+  updatedAt: string;
+  files: Array<{
+    name: string;
+    size: number;
+    language: { name: string } | null;
+    text: string | null; // Null for binary files
+  }>;
+}
+
+interface GistsResponse {
+  viewer: {
+    gists: {
+      pageInfo: { hasNextPage: boolean; endCursor: string | null };
+      nodes: GistNode[];
+    };
+  };
+}
+
+/**
+ * The file to show as excerpt: the largest code file, or the largest file when the gist
+ * only contains prose
+ */
+export function getMainFile(files: GistFile[]): GistFile | null {
+  const bySize = [...files].sort((a, b) => b.size - a.size);
+  return (
+    bySize.find((file) => !file.language || !PROSE_LANGUAGES.includes(file.language)) ||
+    bySize[0] ||
+    null
+  );
+}
+
+/**
+ * Converts a gist from the GraphQL API into a portfolio item
+ */
+export function convertGist(node: GistNode): Gist {
+  const files: GistFile[] = node.files
+    .filter((file) => file.text !== null)
+    .map((file) => ({
+      filename: file.name,
+      language: file.language?.name || null,
+      size: file.size,
+      content: (file.text || "").slice(0, MAX_FILE_CONTENT_LENGTH),
+    }));
+  const mainFile = getMainFile(files);
+  const languages = Array.from(
+    new Set(files.map((file) => file.language).filter((language) => language !== null)),
+  );
+
+  return {
+    id: `gist-${node.name}`,
+    title: node.description?.trim() || mainFile?.filename || node.name,
+    description: node.description?.trim() || null,
+    url: node.url,
+    summary: null,
+    selected: false,
+    source: "gist",
+    files,
+    mainFile: mainFile?.filename || null,
+    languages,
+    stars: node.stargazerCount,
+    createdAt: node.createdAt,
+    updatedAt: node.updatedAt,
+    tags: [],
+  };
+}
+
+/**
+ * Fetches the user's public gists, most recently updated first
+ * Privacy: Uses the user's token for read-only access, secret gists are never listed
+ * @param accessToken - GitHub token of the user
+ */
+export async function getGists(
+  accessToken: string,
+  host: GitHubHost = getImportHost(),
+): Promise<Gist[]> {
+  const octokit = createOctokit(accessToken, host);
+  const gists: Gist[] = [];
+  let cursor: string | null = null;
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const { viewer }: GistsResponse = await octokit.graphql<GistsResponse>(GISTS_QUERY, {
+      cursor,
+    });
+
+    gists.push(...viewer.gists.nodes.map(convertGist));
+
+    if (!viewer.gists.pageInfo.hasNextPage) break;
+    cursor = viewer.gists.pageInfo.endCursor;
+  }
+
+  return gists;
+}
@@ -0,0 +1,267 @@
+import axios, { type AxiosRequestConfig } from "axios";
+import type { GiteaRepository } from "../../shared/schema";
+import { extractTitleFromReadme } from "./gitlab.js";
+import { getInstanceRequestConfig, normalizeInstanceUrl } from "./network-guard.js";
+
+/**
+ * Client for Gitea and Gitea-compatible forges (Forgejo, Codeberg), which share the
+ * Gitea REST API at https://<host>/api/v1. Authentication uses a personal access token.
+ */
+
+export const CODEBERG_URL = "https://codeberg.org";
+
+interface GiteaOwner {
+  id: number;
+  login: string;
+  full_name?: string;
+  avatar_url: string | null;
+}
+
+interface GiteaRepo {
+  id: number;
+  name: string;
+  full_name: string;
+  description: string;
+  html_url: string;
+  website?: string;
+  stars_count: number;
+  language?: string;
+  topics?: string[] | null;
+  updated_at: string;
+  archived: boolean;
+  private: boolean;
+  owner: GiteaOwner;
+}
+
+interface GiteaUser {
+  id: number;
+  login: string;
+  full_name: string;
+  avatar_url: string | null;
+}
+
+const PAGE_LIMIT = 50; // Default MAX_RESPONSE_ITEMS of Gitea instances
+const MAX_PAGES = 10;
+
+/**
+ * API root and request options for Codeberg or a self-hosted instance
+ * @param baseUrl - Instance URL such as https://git.example.com; codeberg.org when omitted
+ */
+function getGiteaApi(
+  accessToken: string,
+  baseUrl?: string,
+): { instanceUrl: string; apiUrl: string; config: AxiosRequestConfig } {
+  const headers = { Authorization: `token ${accessToken}` };
+
+  if (!baseUrl) {
+    return { instanceUrl: CODEBERG_URL, apiUrl: `${CODEBERG_URL}/api/v1`, config: { headers } };
+  }
+
+  const instanceUrl = normalizeInstanceUrl(baseUrl).replace(/\/api\/v1$/, "");
+  return {
+    instanceUrl,
+    apiUrl: `${instanceUrl}/api/v1`,
+    config: { ...getInstanceRequestConfig(instanceUrl), headers },
+  };
+}
+
+/**
+ * Fetches the user the token belongs to
+ * Privacy: Uses user-provided token, no backend logging
+ * @param accessToken - Personal access token
+ * @param baseUrl - Self-hosted instance URL; codeberg.org when omitted
+ * @returns User information
+ */
+export async function getGiteaUser(accessToken: string, baseUrl?: string): Promise<GiteaUser> {
+  try {
+    const { apiUrl, config } = getGiteaApi(accessToken, baseUrl);
+    const response = await axios.get<GiteaUser>(`${apiUrl}/user`, config);
+    return response.data;
+  } catch (error) {
+    throw new Error(
+      `Failed to fetch Gitea user: ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  }
+}
+
+/**
+ * Fetches the topics of a repository, for instances whose repository listing omits them
+ */
+async function getGiteaTopics(
+  repo: GiteaRepo,
+  apiUrl: string,
+  config: AxiosRequestConfig,
+): Promise<string[]> {
+  try {
+    const response = await axios.get<{ topics: string[] }>(
+      `${apiUrl}/repos/${encodeURIComponent(repo.owner.login)}/${encodeURIComponent(repo.name)}/topics`,
+      config,
+    );
+    return response.data.topics || [];
+  } catch (_error) {
+    return [];
+  }
+}
+
+/**
+ * Fetches the public repositories the user owns or is a member of, skipping archived ones
+ * Privacy: Data fetched directly from the instance, processed in-memory only
+ * @param accessToken - Personal access token
+ * @param baseUrl - Self-hosted instance URL; codeberg.org when omitted
+ * @returns Array of Gitea repositories
+ */
+export async function getGiteaRepositories(
+  accessToken: string,
+  baseUrl?: string,
+): Promise<GiteaRepository[]> {
+  try {
+    const { instanceUrl, apiUrl, config } = getGiteaApi(accessToken, baseUrl);
+    const user = await getGiteaUser(accessToken, baseUrl);
+    let repositories: GiteaRepo[] = [];
+
+    for (let page = 1; page <= MAX_PAGES; page++) {
+      const response = await axios.get<GiteaRepo[]>(`${apiUrl}/user/repos`, {
+        ...config,
+        params: { page, limit: PAGE_LIMIT },
+      });
+
+      repositories = repositories.concat(response.data);
+      if (response.data.length < PAGE_LIMIT) break;
+    }
+
+    const publicRepositories = repositories.filter((repo) => !repo.private && !repo.archived);
+
+    return Promise.all(
+      publicRepositories.map(async (repo) => {
+        const topics = repo.topics ?? (await getGiteaTopics(repo, apiUrl, config));
+        return convertGiteaRepoToRepository({ ...repo, topics }, instanceUrl, user.login);
+      }),
+    );
+  } catch (error) {
+    throw new Error(
+      `Failed to fetch Gitea repositories: ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  }
+}
+
+/**
+ * Fetches README content from the default branch of a repository
+ * Privacy: No logging of README contents
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param accessToken - Personal access token
+ * @param baseUrl - Self-hosted instance URL; codeberg.org when omitted
+ * @returns README content or null
+ */
+export async function getGiteaReadme(
+  owner: string,
+  repo: string,
+  accessToken: string,
+  baseUrl?: string,
+): Promise<string | null> {
+  try {
+    const { apiUrl, config } = getGiteaApi(accessToken, baseUrl);
+    const readmeFiles = ["README.md", "readme.md", "Readme.md", "README", "readme"];
+
+    for (const filename of readmeFiles) {
+      try {
+        const response = await axios.get<string>(
+          `${apiUrl}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/raw/${filename}`,
+          { ...config, responseType: "text" },
+        );
+
+        if (response.data) {
+          return response.data;
+        }
+      } catch (_err) {}
+    }
+
+    return null;
+  } catch (_error) {
+    return null;
+  }
+}
+
+/**
+ * Converts a Gitea repository to our GiteaRepository schema
+ * @param repo - Gitea repository object
+ * @param instanceUrl - Instance URL, used for IDs
+ * @param login - Login of the authenticated user, to tell personal from organization repositories
+ * @returns GiteaRepository object
+ */
+function convertGiteaRepoToRepository(
+  repo: GiteaRepo,
+  instanceUrl: string,
+  login: string,
+): GiteaRepository {
+  // Numeric IDs are only unique per instance
+  const id = `${new URL(instanceUrl).host}:${repo.id}`;
+  const isUserRepo = repo.owner.login === login;
+
+  return {
+    id,
+    name: repo.name,
+    displayName: null, // Will be fetched from README if needed
+    description: repo.description || null,
+    url: repo.html_url,
+    summary: null,
+    selected: false,
+    source: "gitea",
+    owner: {
+      login: repo.owner.login,
+      type: isUserRepo ? "User" : "Organization",
+      avatarUrl: repo.owner.avatar_url || null,
+    },
+    metadata: {
+      id,
+      stars: repo.stars_count,
+      language: repo.language || null,
+      topics: repo.topics || [],
+      updatedAt: repo.updated_at,
+      url: repo.website || repo.html_url,
+    },
+  };
+}
+
+/**
+ * Fetches Gitea repositories with README titles
+ * Privacy: All processing in-memory, no data stored
+ * @param accessToken - Personal access token
+ * @param baseUrl - Self-hosted instance URL; codeberg.org when omitted
+ * @returns Array of GiteaRepository with display names
+ */
+export async function getGiteaRepositoriesWithTitles(
+  accessToken: string,
+  baseUrl?: string,
+): Promise<GiteaRepository[]> {
+  const repositories = await getGiteaRepositories(accessToken, baseUrl);
+
+  // Fetch README for each repository in batches (with delay to avoid rate limits)
+  const BATCH_SIZE = 10;
+  const BATCH_DELAY_MS = 100;
+  const repositoriesWithTitles = [];
+
+  for (let i = 0; i < repositories.length; i += BATCH_SIZE) {
+    const batch = repositories.slice(i, i + BATCH_SIZE);
+
+    const batchResults = await Promise.all(
+      batch.map(async (repo) => {
+        const readme = await getGiteaReadme(repo.owner.login, repo.name, accessToken, baseUrl);
+
+        return {
+          ...repo,
+          displayName: extractTitleFromReadme(readme),
+        };
+      }),
+    );
+
+    repositoriesWithTitles.push(...batchResults);
+
+    // Apply delay between batches to avoid rate limiting (except for last batch)
+    if (i + BATCH_SIZE < repositories.length) {
+      await new Promise((resolve) => setTimeout(resolve, BATCH_DELAY_MS));
+    }
+  }
+
+  return repositoriesWithTitles;
+}
@@ -0,0 +1,174 @@
+import type { Contribution } from "../../shared/schema";
+import { createOctokit, getGithubUser, getUserOrganizations } from "./github.js";
+import { type GitHubHost, getImportHost } from "./github-host.js";
+
+/**
+ * Merged pull requests to other people's repositories, grouped into one portfolio item per
+ * repository. getRepositories only covers repositories the user owns or reaches through an
+ * organization, so this is the only place upstream work shows up.
+ */
+
+// The search API returns at most 1000 results
+const MAX_PAGES = 10;
+const PAGE_SIZE = 100;
+
+const MERGED_PULL_REQUESTS_QUERY = `
+  query ($query: String!, $cursor: String) {
+    search(query: $query, type: ISSUE, first: ${PAGE_SIZE}, after: $cursor) {
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      nodes {
+        ... on PullRequest {
+          title
+          url
+          additions
+          deletions
+          mergedAt
+          repository {
+            nameWithOwner
+            url
+            description
+            stargazerCount
+            isPrivate
+            owner {
+              login
+            }
+            primaryLanguage {
+              name
+            }
+            repositoryTopics(first: 10) {
+              nodes {
+                topic {
+                  name
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+export interface MergedPullRequest {
+  title: string;
+  url: string;
+  additions: number;
+  deletions: number;
+  mergedAt: string;
+  repository: {
+    nameWithOwner: string;
+    url: string;
+    description: string | null;
+    stargazerCount: number;
+    isPrivate: boolean;
+    owner: { login: string };
+    primaryLanguage: { name: string } | null;
+    repositoryTopics: { nodes: Array<{ topic: { name: string } }> };
+  };
+}
+
+interface SearchResponse {
+  search: {
+    pageInfo: { hasNextPage: boolean; endCursor: string | null };
+    nodes: Array<Partial<MergedPullRequest>>; // Empty for results that are not pull requests
+  };
+}
+
+/**
+ * Groups merged pull requests by repository into contribution items, most pull requests first
+ * @param excludedOwners - Logins whose repositories are not external (the user and their orgs)
+ */
+export function groupContributions(
+  pullRequests: MergedPullRequest[],
+  username: string,
+  excludedOwners: string[] = [],
+): Contribution[] {
+  const excluded = new Set([username, ...excludedOwners].map((login) => login.toLowerCase()));
+  const groups = new Map<string, MergedPullRequest[]>();
+
+  for (const pullRequest of pullRequests) {
+    const repository = pullRequest.repository;
+    if (repository.isPrivate || excluded.has(repository.owner.login.toLowerCase())) continue;
+
+    const group = groups.get(repository.nameWithOwner) || [];
+    group.push(pullRequest);
+    groups.set(repository.nameWithOwner, group);
+  }
+
+  return Array.from(groups.values())
+    .map((group) => {
+      const repository = group[0].repository;
+      const largest = group.reduce((a, b) =>
+        b.additions + b.deletions > a.additions + a.deletions ? b : a,
+      );
+      const mergedDates = group.map((pullRequest) => pullRequest.mergedAt).sort();
+      const query = encodeURIComponent(`is:pr is:merged author:${username}`);
+
+      return {
+        id: `contribution-${repository.nameWithOwner.toLowerCase()}`,
+        title: repository.nameWithOwner,
+        description: repository.description,
+        url: `${repository.url}/pulls?q=${query}`,
+        repositoryUrl: repository.url,
+        summary: null,
+        selected: false,
+        source: "contribution" as const,
+        pullRequestCount: group.length,
+        additions: group.reduce((total, pullRequest) => total + pullRequest.additions, 0),
+        deletions: group.reduce((total, pullRequest) => total + pullRequest.deletions, 0),
+        representativePullRequest: { title: largest.title, url: largest.url },
+        stars: repository.stargazerCount,
+        language: repository.primaryLanguage?.name || null,
+        firstMergedAt: mergedDates[0],
+        lastMergedAt: mergedDates[mergedDates.length - 1],
+        tags: repository.repositoryTopics.nodes.map((node) => node.topic.name),
+      };
+    })
+    .sort((a, b) => b.pullRequestCount - a.pullRequestCount || b.stars - a.stars);
+}
+
+/**
+ * Fetches the user's merged pull requests to external public repositories
+ * Privacy: Uses the user's token for read-only search, nothing is stored
+ * @param accessToken - GitHub token of the user
+ * @returns One contribution per upstream repository
+ */
+export async function getGitHubContributions(
+  accessToken: string,
+  host: GitHubHost = getImportHost(),
+): Promise<Contribution[]> {
+  const octokit = createOctokit(accessToken, host);
+  const [user, organizations] = await Promise.all([
+    getGithubUser(accessToken, host),
+    getUserOrganizations(accessToken, host).catch(() => []),
+  ]);
+
+  const pullRequests: MergedPullRequest[] = [];
+  let cursor: string | null = null;
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const { search }: SearchResponse = await octokit.graphql<SearchResponse>(
+      MERGED_PULL_REQUESTS_QUERY,
+      {
+        query: `is:pr is:merged is:public author:${user.username} -user:${user.username} sort:updated-desc`,
+        cursor,
+      },
+    );
+
+    for (const node of search.nodes) {
+      if (node.repository) pullRequests.push(node as MergedPullRequest);
+    }
+
+    if (!search.pageInfo.hasNextPage) break;
+    cursor = search.pageInfo.endCursor;
+  }
+
+  return groupContributions(
+    pullRequests,
+    user.username,
+    organizations.map((organization) => organization.login),
+  );
+}
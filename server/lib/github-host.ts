@@ -0,0 +1,99 @@
+/**
+ * GitHub instance used for API calls: github.com or a GitHub Enterprise Server.
+ * Hosts are operator configuration (environment variables), never user input.
+ */
+export interface GitHubHost {
+  /** Web URL, e.g. https://github.example.com */
+  webUrl: string;
+  /** REST API base URL, e.g. https://github.example.com/api/v3 */
+  apiUrl: string;
+  /** Whether this is a GitHub Enterprise Server instance */
+  enterprise: boolean;
+}
+
+export const GITHUB_DOTCOM: GitHubHost = {
+  webUrl: "https://github.com",
+  apiUrl: "https://api.github.com",
+  enterprise: false,
+};
+
+/**
+ * Resolves a GitHub web URL to its API endpoints
+ * @param url - Instance URL such as https://github.example.com; github.com when empty
+ */
+export function getGitHubHost(url?: string): GitHubHost {
+  if (!url?.trim()) return GITHUB_DOTCOM;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    throw new Error(`Invalid GitHub Enterprise URL: ${url}`);
+  }
+
+  const hostname = parsed.hostname.toLowerCase();
+  if (hostname === "github.com" || hostname === "api.github.com") {
+    return GITHUB_DOTCOM;
+  }
+
+  // Accept the API URL as well as the web URL
+  const webUrl = `${parsed.origin}${parsed.pathname.replace(/\/+$/, "").replace(/\/api\/v3$/, "")}`;
+  return {
+    webUrl,
+    apiUrl: `${webUrl}/api/v3`,
+    enterprise: true,
+  };
+}
+
+/**
+ * Host repositories are imported from (OAuth, repositories, READMEs, project analysis),
+ * from GITHUB_ENTERPRISE_URL
+ */
+export function getImportHost(env: NodeJS.ProcessEnv = process.env): GitHubHost {
+  return getGitHubHost(env.GITHUB_ENTERPRISE_URL);
+}
+
+/**
+ * Host portfolios are deployed to, from GITHUB_DEPLOY_URL; defaults to the import host
+ */
+export function getDeployHost(env: NodeJS.ProcessEnv = process.env): GitHubHost {
+  return env.GITHUB_DEPLOY_URL !== undefined
+    ? getGitHubHost(env.GITHUB_DEPLOY_URL)
+    : getImportHost(env);
+}
+
+/**
+ * Whether the import and deploy hosts differ, in which case deploying needs a token
+ * issued by the deploy host
+ */
+export function hasSeparateDeployHost(env: NodeJS.ProcessEnv = process.env): boolean {
+  return getImportHost(env).webUrl !== getDeployHost(env).webUrl;
+}
+
+/**
+ * Name of the user's Pages repository: <user>.github.io on github.com,
+ * <user>.<hostname> on GitHub Enterprise Server
+ */
+export function getPagesRepositoryName(host: GitHubHost, username: string): string {
+  return host.enterprise ? `${username}.${new URL(host.webUrl).hostname}` : `${username}.github.io`;
+}
+
+/**
+ * Public URL of the user's Pages site, without a trailing slash.
+ * Enterprise instances serve user sites from https://pages.<hostname>/<user> unless
+ * GITHUB_PAGES_URL (with an {owner} placeholder) describes a different layout.
+ */
+export function getPagesSiteUrl(
+  host: GitHubHost,
+  username: string,
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  if (!host.enterprise) return `https://${username}.github.io`;
+
+  if (env.GITHUB_PAGES_URL) {
+    return env.GITHUB_PAGES_URL.replace(/\{owner\}/g, username).replace(/\/+$/, "");
+  }
+
+  const { protocol, hostname } = new URL(host.webUrl);
+  return `${protocol}//pages.${hostname}/${username}`;
+}
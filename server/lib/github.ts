@@ -1,5 +1,12 @@
 import { Octokit } from "@octokit/rest";
 import type { Organization, Repository } from "@shared/schema";
+import {
+  type GitHubHost,
+  getDeployHost,
+  getImportHost,
+  getPagesRepositoryName,
+  getPagesSiteUrl,
+} from "./github-host.js";
 
 interface GithubUser {
   githubId: string;
@@ -63,8 +70,19 @@ async function paginateGithubAPI<T>(
   return results;
 }
 
-export async function getGithubUser(accessToken: string): Promise<GithubUser> {
-  const octokit = new Octokit({ auth: accessToken });
+/**
+ * Creates an API client for github.com or a GitHub Enterprise Server instance
+ * @param host - Instance to talk to (defaults to the import host)
+ */
+export function createOctokit(accessToken: string, host: GitHubHost = getImportHost()): Octokit {
+  return new Octokit({ auth: accessToken, baseUrl: host.apiUrl });
+}
+
+export async function getGithubUser(
+  accessToken: string,
+  host: GitHubHost = getImportHost(),
+): Promise<GithubUser> {
+  const octokit = createOctokit(accessToken, host);
   const { data } = await octokit.users.getAuthenticated();
   return {
     githubId: data.id.toString(),
@@ -77,8 +95,9 @@ export async function checkRepositoryExists(
   accessToken: string,
   username: string,
   repoName: string,
+  host: GitHubHost = getImportHost(),
 ): Promise<boolean> {
-  const octokit = new Octokit({ auth: accessToken });
+  const octokit = createOctokit(accessToken, host);
   try {
     await octokit.repos.get({
       owner: username,
@@ -93,8 +112,11 @@ export async function checkRepositoryExists(
   }
 }
 
-export async function getUserOrganizations(accessToken: string): Promise<Organization[]> {
-  const octokit = new Octokit({ auth: accessToken });
+export async function getUserOrganizations(
+  accessToken: string,
+  host: GitHubHost = getImportHost(),
+): Promise<Organization[]> {
+  const octokit = createOctokit(accessToken, host);
 
   try {
     const orgData = await paginateGithubAPI(async (page) => {
@@ -156,7 +178,7 @@ async function getUserRepositories(
     return filteredRepos.map((repo) => {
       // Extract the actual owner from the repository URL
       const urlParts = repo.html_url.split("/");
-      const repoOwner = urlParts[3]; // GitHub URLs follow the pattern: https://github.com/owner/repo
+      const repoOwner = urlParts[3]; // GitHub URLs follow the pattern: https://<host>/owner/repo
 
       // Determine if this is a user or organization based on the actual repo owner
       const isUserRepo = repoOwner === user.login;
@@ -227,7 +249,7 @@ async function getOrganizationRepositories(
     return filteredRepos.map((repo) => {
       // Extract the actual owner from the repository URL
       const urlParts = repo.html_url.split("/");
-      const repoOwner = urlParts[3]; // GitHub URLs follow the pattern: https://github.com/owner/repo
+      const repoOwner = urlParts[3]; // GitHub URLs follow the pattern: https://<host>/owner/repo
 
       return {
         id: repo.id,
@@ -261,8 +283,11 @@ async function getOrganizationRepositories(
   }
 }
 
-export async function getRepositories(accessToken: string): Promise<Repository[]> {
-  const octokit = new Octokit({ auth: accessToken });
+export async function getRepositories(
+  accessToken: string,
+  host: GitHubHost = getImportHost(),
+): Promise<Repository[]> {
+  const octokit = createOctokit(accessToken, host);
 
   try {
     // Get authenticated user info
@@ -285,7 +310,7 @@ export async function getRepositories(accessToken: string): Promise<Repository[]
     // Get user organizations with error handling
     let orgs: Organization[] = [];
     try {
-      orgs = await getUserOrganizations(accessToken);
+      orgs = await getUserOrganizations(accessToken, host);
     } catch (error) {
       console.warn("Failed to fetch organizations, continuing with user repos only:", error);
       orgs = [];
@@ -385,11 +410,12 @@ export async function createPortfolioRepository(
   accessToken: string,
   username: string,
   repoName: string = "foliolab-vercel",
+  host: GitHubHost = getImportHost(),
 ): Promise<{ repoUrl: string; wasCreated: boolean }> {
-  const octokit = new Octokit({ auth: accessToken });
+  const octokit = createOctokit(accessToken, host);
 
   try {
-    const exists = await checkRepositoryExists(accessToken, username, repoName);
+    const exists = await checkRepositoryExists(accessToken, username, repoName, host);
 
     if (!exists) {
       const { data: repo } = await octokit.repos.createForAuthenticatedUser({
@@ -434,9 +460,10 @@ export async function getReadmeContent(
   clientOrToken: Octokit | string,
   owner: string,
   repo: string,
+  host: GitHubHost = getImportHost(),
 ): Promise<string | null> {
   const octokit =
-    typeof clientOrToken === "string" ? new Octokit({ auth: clientOrToken }) : clientOrToken;
+    typeof clientOrToken === "string" ? createOctokit(clientOrToken, host) : clientOrToken;
 
   try {
     const { data } = await octokit.repos.getReadme({
@@ -451,13 +478,18 @@ export async function getReadmeContent(
   }
 }
 
+/**
+ * Commits portfolio files to the main branch of a portfolio repository
+ * @returns SHA of the new commit
+ */
 export async function commitPortfolioFiles(
   accessToken: string,
   username: string,
   files: Array<{ path: string; content: string }>,
   repoName: string = "foliolab-vercel",
-): Promise<void> {
-  const octokit = new Octokit({ auth: accessToken });
+  host: GitHubHost = getImportHost(),
+): Promise<string> {
+  const octokit = createOctokit(accessToken, host);
 
   try {
     const { data: ref } = await octokit.git.getRef({
@@ -492,22 +524,203 @@ export async function commitPortfolioFiles(
       ref: "heads/main",
       sha: commit.sha,
     });
+
+    return commit.sha;
   } catch (error) {
     console.error("Failed to commit portfolio files:", error);
     throw error;
   }
 }
 
+/**
+ * Rolls a portfolio repository back to an earlier deploy: commits the files of that commit on
+ * top of main, so the history of later deploys is kept
+ * @param ownedPaths - Files (or directories, ending in "/") FolioLab writes to the repository.
+ * Only these are restored, and those the earlier deploy did not have are deleted; everything
+ * else keeps its current content. Without them the whole tree is restored.
+ * @throws When a tree is too large for GitHub to list completely
+ * @returns SHA of the new commit
+ */
+export async function restorePortfolioCommit(
+  accessToken: string,
+  username: string,
+  repoName: string,
+  commitSha: string,
+  host: GitHubHost = getImportHost(),
+  ownedPaths?: string[],
+): Promise<string> {
+  const octokit = createOctokit(accessToken, host);
+
+  try {
+    const { data: ref } = await octokit.git.getRef({
+      owner: username,
+      repo: repoName,
+      ref: "heads/main",
+    });
+
+    const { data: target } = await octokit.git.getCommit({
+      owner: username,
+      repo: repoName,
+      commit_sha: commitSha,
+    });
+
+    let treeSha = target.tree.sha;
+    if (ownedPaths) {
+      const isOwned = (path: string) =>
+        ownedPaths.some((owned) => (owned.endsWith("/") ? path.startsWith(owned) : path === owned));
+      const getOwnedFiles = async (treeish: string) => {
+        const { data } = await octokit.git.getTree({
+          owner: username,
+          repo: repoName,
+          tree_sha: treeish,
+          recursive: "true",
+        });
+        // A partial listing would restore some files and leave others at their later version
+        if (data.truncated) {
+          throw new Error("Repository tree is too large to restore");
+        }
+        return data.tree.filter(
+          (entry): entry is typeof entry & { path: string } =>
+            entry.type === "blob" && Boolean(entry.path) && isOwned(entry.path as string),
+        );
+      };
+
+      const restored = await getOwnedFiles(target.tree.sha);
+      const restoredPaths = new Set(restored.map((entry) => entry.path));
+      const stale = (await getOwnedFiles(ref.object.sha)).filter(
+        (entry) => !restoredPaths.has(entry.path),
+      );
+
+      const { data: tree } = await octokit.git.createTree({
+        owner: username,
+        repo: repoName,
+        base_tree: ref.object.sha,
+        tree: [
+          ...restored.map((entry) => ({
+            path: entry.path,
+            mode: "100644" as const,
+            type: "blob" as const,
+            sha: entry.sha,
+          })),
+          ...stale.map((entry) => ({
+            path: entry.path,
+            mode: "100644" as const,
+            type: "blob" as const,
+            sha: null,
+          })),
+        ],
+      });
+      treeSha = tree.sha;
+    }
+
+    const { data: commit } = await octokit.git.createCommit({
+      owner: username,
+      repo: repoName,
+      message: `Restore portfolio from ${commitSha.slice(0, 7)}`,
+      tree: treeSha,
+      parents: [ref.object.sha],
+    });
+
+    await octokit.git.updateRef({
+      owner: username,
+      repo: repoName,
+      ref: "heads/main",
+      sha: commit.sha,
+    });
+
+    return commit.sha;
+  } catch (error) {
+    console.error("Failed to restore portfolio commit:", error);
+    throw error;
+  }
+}
+
+/**
+ * Text content of a file on the default branch
+ * @returns null when the file does not exist
+ */
+async function getRepositoryFileContent(
+  octokit: Octokit,
+  username: string,
+  repoName: string,
+  path: string,
+): Promise<string | null> {
+  try {
+    const { data } = await octokit.repos.getContent({
+      owner: username,
+      repo: repoName,
+      path,
+    });
+    if (Array.isArray(data) || data.type !== "file") return null;
+    return Buffer.from(data.content, "base64").toString("utf8");
+  } catch (error) {
+    if (isOctokitError(error) && error.status === 404) return null;
+    throw error;
+  }
+}
+
+/**
+ * Custom domain of a Pages repository, from its CNAME file
+ * @returns null when the repository has no CNAME file
+ */
+async function getPagesCustomDomain(
+  octokit: Octokit,
+  username: string,
+  repoName: string,
+): Promise<string | null> {
+  const cname = await getRepositoryFileContent(octokit, username, repoName, "CNAME");
+  return cname?.trim() || null;
+}
+
+/**
+ * Whether the site's 404 page may be copied to the repository root, the only place Pages
+ * serves it from: when the root has none, or still has the copy of an earlier deploy
+ */
+async function canWriteRootNotFoundPage(
+  octokit: Octokit,
+  username: string,
+  repoName: string,
+  notFoundPath: string,
+): Promise<boolean> {
+  const rootPage = await getRepositoryFileContent(octokit, username, repoName, "404.html");
+  if (rootPage === null) return true;
+  return rootPage === (await getRepositoryFileContent(octokit, username, repoName, notFoundPath));
+}
+
+/**
+ * Publishes portfolio files to the user's GitHub Pages repository in a single commit
+ * @param files - Files with paths relative to the repository root
+ * @param entryPath - Path of the page to link to once deployed
+ * @param host - Instance to deploy to (defaults to the deploy host)
+ * @param customDomain - Domain to serve the site from, written to the CNAME file. Without
+ * one, a domain already set in the repository is kept and reported.
+ * @param notFoundPath - Path of the site's 404 page among the files, also written to the
+ * repository root unless the user has a 404.html of their own there
+ */
 export async function deployToGitHubPages(
   accessToken: string,
   username: string,
-  html: string,
-): Promise<{ url: string; wasCreated: boolean }> {
-  const octokit = new Octokit({ auth: accessToken });
-  const repoName = `${username}.github.io`;
+  files: Array<{ path: string; content: string }>,
+  entryPath: string = "portfolio.html",
+  host: GitHubHost = getDeployHost(),
+  customDomain?: string,
+  notFoundPath?: string,
+): Promise<{
+  url: string;
+  repoUrl: string;
+  wasCreated: boolean;
+  customDomain: string | null;
+  commitSha: string;
+}> {
+  if (customDomain && host.enterprise) {
+    throw new Error("Custom domains are not supported for GitHub Enterprise Server Pages");
+  }
+
+  const octokit = createOctokit(accessToken, host);
+  const repoName = getPagesRepositoryName(host, username);
 
   try {
-    const exists = await checkRepositoryExists(accessToken, username, repoName);
+    const exists = await checkRepositoryExists(accessToken, username, repoName, host);
     let wasCreated = false;
 
     if (!exists) {
@@ -526,18 +739,25 @@ export async function deployToGitHubPages(
       ref: "heads/main",
     });
 
+    const notFoundPage = notFoundPath && files.find((file) => file.path === notFoundPath);
+    const writeRootNotFoundPage =
+      notFoundPage &&
+      (wasCreated || (await canWriteRootNotFoundPage(octokit, username, repoName, notFoundPath)));
+
     const { data: tree } = await octokit.git.createTree({
       owner: username,
       repo: repoName,
       base_tree: ref.object.sha,
       tree: [
-        {
-          path: "portfolio.html",
-          mode: "100644",
-          type: "blob",
-          content: html,
-        },
-      ],
+        ...files,
+        ...(writeRootNotFoundPage ? [{ path: "404.html", content: notFoundPage.content }] : []),
+        ...(customDomain ? [{ path: "CNAME", content: `${customDomain}\n` }] : []),
+      ].map((file) => ({
+        path: file.path,
+        mode: "100644",
+        type: "blob",
+        content: file.content,
+      })),
     });
 
     const { data: commit } = await octokit.git.createCommit({
@@ -555,9 +775,20 @@ export async function deployToGitHubPages(
       sha: commit.sha,
     });
 
+    const domain =
+      customDomain ||
+      (wasCreated || host.enterprise
+        ? null
+        : await getPagesCustomDomain(octokit, username, repoName));
+
     return {
-      url: `https://${username}.github.io/portfolio.html`,
+      url: domain
+        ? `https://${domain}/${entryPath}`
+        : `${getPagesSiteUrl(host, username)}/${entryPath}`,
+      repoUrl: `${host.webUrl}/${username}/${repoName}`,
       wasCreated,
+      customDomain: domain,
+      commitSha: commit.sha,
     };
   } catch (error) {
     console.error("Failed to deploy to GitHub Pages:", error);
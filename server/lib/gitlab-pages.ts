@@ -0,0 +1,332 @@
+import axios, { type AxiosRequestConfig, isAxiosError } from "axios";
+import { getGitLabApi } from "./gitlab.js";
+
+/**
+ * Publishes portfolios to the user's GitLab Pages project (<user>.gitlab.io on gitlab.com).
+ * Files are committed under public/ through the commits API together with a .gitlab-ci.yml
+ * whose pages job publishes that directory; the pipeline it triggers deploys the site.
+ */
+
+export const GITLAB_PAGES_DOMAIN = "gitlab.io";
+
+// Marks a .gitlab-ci.yml written by FolioLab, so one the user wrote is never overwritten
+const CI_CONFIG_MARKER = "# Generated by FolioLab";
+
+export const PAGES_CI_CONFIG = `${CI_CONFIG_MARKER}: publishes the public/ directory to GitLab Pages
+pages:
+  stage: deploy
+  image: alpine:latest
+  script:
+    - echo "Publishing portfolio"
+  artifacts:
+    paths:
+      - public
+  rules:
+    - if: $CI_COMMIT_BRANCH == $CI_DEFAULT_BRANCH
+`;
+
+// A `pages` job, or a job with the `pages` keyword. Included files are not fetched, so a
+// config with `include` is assumed to provide one.
+const PAGES_JOB_REGEX = /^\s*(pages|include)\s*:/m;
+
+export const PAGES_JOB_MISSING =
+  "Portfolio committed, but your .gitlab-ci.yml has no pages job, so GitLab will not publish it. Add a pages job that publishes the public/ directory.";
+
+const DOMAIN_REGEX = /^(?=.{1,253}$)([a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/i;
+const MAX_TREE_PAGES = 20;
+// Pipeline states after which the deploy will not progress any further
+const FAILED_PIPELINE_STATES = ["failed", "canceled", "skipped"];
+
+export interface GitLabPagesDeployment {
+  projectId: number;
+  projectUrl: string;
+  url: string;
+  commitSha: string;
+  wasCreated: boolean;
+  // Set when the project's own .gitlab-ci.yml will not publish the commit
+  ciWarning: string | null;
+}
+
+export interface GitLabPipelineStatus {
+  ready: boolean;
+  state: string;
+  url: string | null;
+  error: string | null;
+}
+
+interface GitLabProjectInfo {
+  id: number;
+  web_url: string;
+  default_branch: string | null;
+}
+
+interface CommitAction {
+  action: "create" | "update" | "delete";
+  file_path: string;
+  content?: string;
+}
+
+/**
+ * Domain user sites are served from: gitlab.io on gitlab.com. Self-hosted instances configure
+ * their own Pages domain, which the API does not expose, so it must be given.
+ * @throws When a self-hosted instance has no valid Pages domain
+ */
+export function getGitLabPagesDomain(baseUrl?: string, pagesDomain?: string): string {
+  const domain = pagesDomain?.trim().toLowerCase();
+  if (!domain) {
+    if (baseUrl) throw new Error("Pages domain is required for self-hosted GitLab");
+    return GITLAB_PAGES_DOMAIN;
+  }
+  if (!DOMAIN_REGEX.test(domain)) {
+    throw new Error("Pages domain must be a domain name such as pages.example.com");
+  }
+  return domain;
+}
+
+function getRequestConfig(accessToken: string, baseUrl?: string) {
+  const { apiUrl, config } = getGitLabApi(baseUrl);
+  return {
+    apiUrl,
+    config: { ...config, headers: { Authorization: `Bearer ${accessToken}` } },
+  };
+}
+
+function getErrorMessage(error: unknown): string {
+  if (isAxiosError(error) && error.response?.data) {
+    const { message, error: description } = error.response.data as {
+      message?: unknown;
+      error?: unknown;
+    };
+    const details = message ?? description;
+    if (details) return typeof details === "string" ? details : JSON.stringify(details);
+  }
+  return error instanceof Error ? error.message : "Unknown error";
+}
+
+async function getOrCreateProject(
+  apiUrl: string,
+  config: AxiosRequestConfig,
+  username: string,
+  projectPath: string,
+): Promise<{ project: GitLabProjectInfo; wasCreated: boolean }> {
+  try {
+    const response = await axios.get<GitLabProjectInfo>(
+      `${apiUrl}/projects/${encodeURIComponent(`${username}/${projectPath}`)}`,
+      config,
+    );
+    return { project: response.data, wasCreated: false };
+  } catch (error) {
+    if (!isAxiosError(error) || error.response?.status !== 404) throw error;
+  }
+
+  const response = await axios.post<GitLabProjectInfo>(
+    `${apiUrl}/projects`,
+    {
+      name: projectPath,
+      path: projectPath,
+      description: "My GitLab Pages website",
+      visibility: "public",
+    },
+    config,
+  );
+  return { project: response.data, wasCreated: true };
+}
+
+/**
+ * Paths of all files on a branch; empty for a project without commits
+ */
+async function getRepositoryFiles(
+  apiUrl: string,
+  config: AxiosRequestConfig,
+  projectId: number,
+  branch: string,
+): Promise<Set<string>> {
+  const paths = new Set<string>();
+
+  for (let page = 1; page <= MAX_TREE_PAGES; page++) {
+    let response: { data: { path: string; type: string }[]; headers: Record<string, unknown> };
+    try {
+      response = await axios.get(`${apiUrl}/projects/${projectId}/repository/tree`, {
+        ...config,
+        params: { ref: branch, recursive: true, per_page: 100, page },
+      });
+    } catch (error) {
+      if (isAxiosError(error) && error.response?.status === 404) return paths;
+      throw error;
+    }
+
+    for (const entry of response.data) {
+      if (entry.type === "blob") paths.add(entry.path);
+    }
+    if (!response.headers["x-next-page"]) break;
+  }
+
+  return paths;
+}
+
+/**
+ * Raw content of a file on a branch
+ */
+async function getFileContent(
+  apiUrl: string,
+  config: AxiosRequestConfig,
+  projectId: number,
+  branch: string,
+  filePath: string,
+): Promise<string> {
+  const { data } = await axios.get<string>(
+    `${apiUrl}/projects/${projectId}/repository/files/${encodeURIComponent(filePath)}/raw`,
+    { ...config, params: { ref: branch }, responseType: "text" },
+  );
+  return data;
+}
+
+/**
+ * Commits the portfolio files (paths relative to the site root) to the user's Pages project,
+ * creating the project on first deploy
+ * @param entryPath - Path of the page to link to once deployed
+ * @param siteDir - Directory of the site owned by FolioLab; files in it that are not part of
+ * this deploy are deleted
+ * @param notFoundPath - Path of the site's 404 page among the files, also published at the
+ * site root (the only place Pages serves it from) unless the user has a 404.html there. A root
+ * page identical to the previous deploy's copy is FolioLab's and is updated.
+ */
+export async function deployToGitLabPages(
+  accessToken: string,
+  files: Array<{ path: string; content: string }>,
+  options: {
+    baseUrl?: string;
+    pagesDomain?: string;
+    entryPath?: string;
+    siteDir?: string;
+    notFoundPath?: string;
+  } = {},
+): Promise<GitLabPagesDeployment> {
+  const { baseUrl, entryPath = "portfolio.html", siteDir, notFoundPath } = options;
+  const pagesDomain = getGitLabPagesDomain(baseUrl, options.pagesDomain);
+
+  try {
+    const { apiUrl, config } = getRequestConfig(accessToken, baseUrl);
+    const { data: user } = await axios.get<{ username: string }>(`${apiUrl}/user`, config);
+    const projectPath = `${user.username}.${pagesDomain}`;
+
+    const { project, wasCreated } = await getOrCreateProject(
+      apiUrl,
+      config,
+      user.username,
+      projectPath,
+    );
+    const branch = project.default_branch || "main";
+    const existing = await getRepositoryFiles(apiUrl, config, project.id, branch);
+
+    const committed = new Set<string>();
+    const actions: CommitAction[] = files.map((file) => {
+      const filePath = `public/${file.path}`;
+      committed.add(filePath);
+      return {
+        action: existing.has(filePath) ? "update" : "create",
+        file_path: filePath,
+        content: file.content,
+      };
+    });
+
+    const notFoundPage = notFoundPath && files.find((file) => file.path === notFoundPath);
+    if (notFoundPage) {
+      const rootPath = "public/404.html";
+      const previousPath = `public/${notFoundPath}`;
+      const isOwnPage =
+        existing.has(rootPath) &&
+        existing.has(previousPath) &&
+        (await getFileContent(apiUrl, config, project.id, branch, rootPath)) ===
+          (await getFileContent(apiUrl, config, project.id, branch, previousPath));
+      if (!existing.has(rootPath) || isOwnPage) {
+        actions.push({
+          action: existing.has(rootPath) ? "update" : "create",
+          file_path: rootPath,
+          content: notFoundPage.content,
+        });
+      }
+    }
+
+    if (siteDir) {
+      for (const filePath of Array.from(existing)) {
+        if (filePath.startsWith(`public/${siteDir}`) && !committed.has(filePath)) {
+          actions.push({ action: "delete", file_path: filePath });
+        }
+      }
+    }
+
+    let ciWarning: string | null = null;
+    if (!existing.has(".gitlab-ci.yml")) {
+      actions.push({ action: "create", file_path: ".gitlab-ci.yml", content: PAGES_CI_CONFIG });
+    } else {
+      const ciConfig = await getFileContent(apiUrl, config, project.id, branch, ".gitlab-ci.yml");
+      if (ciConfig.startsWith(CI_CONFIG_MARKER)) {
+        if (ciConfig !== PAGES_CI_CONFIG) {
+          actions.push({ action: "update", file_path: ".gitlab-ci.yml", content: PAGES_CI_CONFIG });
+        }
+      } else if (!PAGES_JOB_REGEX.test(ciConfig)) {
+        ciWarning = PAGES_JOB_MISSING;
+      }
+    }
+
+    const { data: commit } = await axios.post<{ id: string }>(
+      `${apiUrl}/projects/${project.id}/repository/commits`,
+      {
+        branch,
+        commit_message: wasCreated ? "Initial portfolio commit" : "Update portfolio site",
+        actions,
+      },
+      config,
+    );
+
+    return {
+      projectId: project.id,
+      projectUrl: project.web_url,
+      url: `https://${projectPath.toLowerCase()}/${entryPath}`,
+      commitSha: commit.id,
+      wasCreated,
+      ciWarning,
+    };
+  } catch (error) {
+    throw new Error(`Failed to deploy to GitLab Pages: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Status of the pipeline GitLab started for a deploy commit. GitLab creates pipelines
+ * asynchronously, so there may be none yet right after the commit.
+ */
+export async function getGitLabPipelineStatus(
+  accessToken: string,
+  projectId: number,
+  commitSha: string,
+  baseUrl?: string,
+): Promise<GitLabPipelineStatus> {
+  try {
+    const { apiUrl, config } = getRequestConfig(accessToken, baseUrl);
+    const { data: pipelines } = await axios.get<{ id: number; status: string; web_url: string }[]>(
+      `${apiUrl}/projects/${projectId}/pipelines`,
+      {
+        ...config,
+        params: { sha: commitSha, order_by: "id", sort: "desc", per_page: 1 },
+      },
+    );
+
+    const pipeline = pipelines[0];
+    if (!pipeline) {
+      return { ready: false, state: "waiting for pipeline", url: null, error: null };
+    }
+
+    return {
+      ready: pipeline.status === "success",
+      state: pipeline.status,
+      url: pipeline.web_url,
+      error: FAILED_PIPELINE_STATES.includes(pipeline.status)
+        ? `Pipeline ${pipeline.status}`
+        : null,
+    };
+  } catch (error) {
+    throw new Error(`Failed to fetch GitLab pipeline: ${getErrorMessage(error)}`);
+  }
+}
@@ -1,8 +1,22 @@
-import axios from "axios";
+import axios, { type AxiosRequestConfig } from "axios";
 import type { GitLabRepository } from "../../shared/schema";
+import { getInstanceRequestConfig, normalizeInstanceUrl } from "./network-guard.js";
 
 const GITLAB_API_URL = "https://gitlab.com/api/v4";
 
+/**
+ * API root and request options for gitlab.com or a self-hosted instance
+ * @param baseUrl - Instance URL such as https://gitlab.example.com; gitlab.com when omitted
+ */
+export function getGitLabApi(baseUrl?: string): { apiUrl: string; config: AxiosRequestConfig } {
+  if (!baseUrl) {
+    return { apiUrl: GITLAB_API_URL, config: {} };
+  }
+
+  const instanceUrl = normalizeInstanceUrl(baseUrl).replace(/\/api\/v4$/, "");
+  return { apiUrl: `${instanceUrl}/api/v4`, config: getInstanceRequestConfig(instanceUrl) };
+}
+
 interface GitLabProject {
   id: number;
   name: string;
@@ -40,11 +54,14 @@ interface GitLabUser {
  * Fetches GitLab user information
  * Privacy: Uses user-provided token, no backend logging
  * @param accessToken - GitLab personal access token
+ * @param baseUrl - Self-hosted instance URL; gitlab.com when omitted
  * @returns User information
  */
-export async function getGitLabUser(accessToken: string): Promise<GitLabUser> {
+export async function getGitLabUser(accessToken: string, baseUrl?: string): Promise<GitLabUser> {
   try {
-    const response = await axios.get<GitLabUser>(`${GITLAB_API_URL}/user`, {
+    const { apiUrl, config } = getGitLabApi(baseUrl);
+    const response = await axios.get<GitLabUser>(`${apiUrl}/user`, {
+      ...config,
       headers: {
         Authorization: `Bearer ${accessToken}`,
       },
@@ -62,17 +79,20 @@ export async function getGitLabUser(accessToken: string): Promise<GitLabUser> {
  * Privacy: Data fetched directly from GitLab API, processed in-memory only
  * @param accessToken - GitLab personal access token
  * @param username - GitLab username
+ * @param baseUrl - Self-hosted instance URL; gitlab.com when omitted
  * @returns Array of GitLab projects
  */
 export async function getGitLabProjects(
   accessToken: string,
   username: string,
+  baseUrl?: string,
 ): Promise<GitLabRepository[]> {
   if (!username) {
     throw new Error("GitLab username is required");
   }
 
   try {
+    const { apiUrl, config } = getGitLabApi(baseUrl);
     let projects: GitLabProject[] = [];
     let page = 1;
     const perPage = 100;
@@ -81,8 +101,9 @@ export async function getGitLabProjects(
     // Fetch user projects
     while (hasMore) {
       const response = await axios.get<GitLabProject[]>(
-        `${GITLAB_API_URL}/users/${username}/projects`,
+        `${apiUrl}/users/${encodeURIComponent(username)}/projects`,
         {
+          ...config,
           headers: {
             Authorization: `Bearer ${accessToken}`,
           },
@@ -120,13 +141,16 @@ export async function getGitLabProjects(
  * Privacy: No logging of README contents
  * @param projectId - GitLab project ID
  * @param accessToken - GitLab personal access token
+ * @param baseUrl - Self-hosted instance URL; gitlab.com when omitted
  * @returns README content or null
  */
 export async function getGitLabReadme(
   projectId: number,
   accessToken: string,
+  baseUrl?: string,
 ): Promise<string | null> {
   try {
+    const { apiUrl, config } = getGitLabApi(baseUrl);
     const readmeFiles = ["README.md", "readme.md", "Readme.md", "README", "readme"];
     const branches = ["main", "master"];
 
@@ -134,8 +158,9 @@ export async function getGitLabReadme(
       for (const filename of readmeFiles) {
         try {
           const response = await axios.get(
-            `${GITLAB_API_URL}/projects/${projectId}/repository/files/${encodeURIComponent(filename)}/raw`,
+            `${apiUrl}/projects/${projectId}/repository/files/${encodeURIComponent(filename)}/raw`,
             {
+              ...config,
               headers: {
                 Authorization: `Bearer ${accessToken}`,
               },
@@ -231,13 +256,15 @@ function convertGitLabProjectToRepository(project: GitLabProject): GitLabReposit
  * Privacy: All processing in-memory, no data stored
  * @param accessToken - GitLab personal access token
  * @param username - GitLab username
+ * @param baseUrl - Self-hosted instance URL; gitlab.com when omitted
  * @returns Array of GitLabRepository with display names
  */
 export async function getGitLabProjectsWithTitles(
   accessToken: string,
   username: string,
+  baseUrl?: string,
 ): Promise<GitLabRepository[]> {
-  const projects = await getGitLabProjects(accessToken, username);
+  const projects = await getGitLabProjects(accessToken, username, baseUrl);
 
   // Fetch README for each project in batches (with delay to avoid rate limits)
   const BATCH_SIZE = 10;
@@ -249,7 +276,7 @@ export async function getGitLabProjectsWithTitles(
 
     const batchResults = await Promise.all(
       batch.map(async (project) => {
-        const readme = await getGitLabReadme(project.id, accessToken);
+        const readme = await getGitLabReadme(project.id, accessToken, baseUrl);
         const displayName = extractTitleFromReadme(readme);
 
         return {
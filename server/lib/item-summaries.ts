@@ -0,0 +1,245 @@
+import type { SummaryStyle } from "../../shared/schema.js";
+import { getGiteaReadme } from "./gitea.js";
+import { getReadmeContent } from "./github.js";
+import type { LLMProvider, LLMTokenHandler } from "./llm/index.js";
+import { generateContentSummary, generateRepoSummary } from "./openai.js";
+
+/**
+ * Portfolio item as sent by the client. Only the fields used for summaries are listed;
+ * the shape depends on the item source.
+ */
+export interface SummarizableItem {
+  id: string | number;
+  source: string;
+  name?: string;
+  title?: string;
+  description?: string | null;
+  content?: string;
+  abstract?: string | null;
+  authors?: string[];
+  venue?: string | null;
+  year?: number | null;
+  pullRequestCount?: number;
+  additions?: number;
+  deletions?: number;
+  representativePullRequest?: { title: string; url: string };
+  stars?: number;
+  files?: Array<{ filename: string; language: string | null; content: string }>;
+  mainFile?: string | null;
+  event?: string | null;
+  date?: string | null;
+  author?: string | null;
+  publishedAt?: string;
+  tags?: string[];
+  url?: string;
+  owner?: { login: string };
+  metadata?: {
+    language: string | null;
+    topics: string[];
+    stars: number;
+    url?: string | null;
+  };
+  /** Overrides the job's summary style for this item */
+  summaryStyle?: SummaryStyle;
+}
+
+/** Token and instance READMEs of Gitea, Forgejo and Codeberg repositories are fetched with */
+export interface GiteaCredentials {
+  accessToken: string;
+  /** Self-hosted instance URL; codeberg.org when omitted */
+  baseUrl?: string;
+}
+
+export interface ItemSummary {
+  summary: string;
+  /** True when the summary was served from the summary cache */
+  cached: boolean;
+}
+
+const REPOSITORY_SOURCES = ["github", "gitlab", "bitbucket", "gitea"];
+
+/**
+ * Generates the AI summary for one portfolio item
+ * GitHub and Gitea READMEs are fetched when a token for their host is available. Only GitHub
+ * repositories without a README are analyzed through the GitHub API.
+ *
+ * @param accessToken - GitHub token
+ * @param onToken - Receives the summary text as it is generated
+ * @param style - Tone, length, language or custom template; the item's own style takes precedence
+ * @param signal - Aborts the provider request
+ * @param gitea - Token and instance of Gitea repositories
+ * @returns The summary, which is empty for sources without summaries
+ */
+export async function summarizeItem(
+  item: SummarizableItem,
+  provider: LLMProvider,
+  accessToken?: string,
+  onToken?: LLMTokenHandler,
+  style?: SummaryStyle,
+  signal?: AbortSignal,
+  gitea?: GiteaCredentials,
+): Promise<ItemSummary> {
+  const summaryStyle = item.summaryStyle || style;
+
+  if (REPOSITORY_SOURCES.includes(item.source)) {
+    const isGitHub = item.source === "github";
+    let readme = "";
+    if (item.owner && item.name) {
+      try {
+        if (isGitHub && accessToken) {
+          readme = (await getReadmeContent(accessToken, item.owner.login, item.name)) || "";
+        } else if (item.source === "gitea" && gitea) {
+          readme =
+            (await getGiteaReadme(item.owner.login, item.name, gitea.accessToken, gitea.baseUrl)) ||
+            "";
+        }
+      } catch (e) {
+        console.warn(`Could not fetch README for ${item.name}:`, e);
+      }
+    }
+
+    // Other hosts must not be analyzed as the github.com repository with the same name
+    const result = await generateRepoSummary(
+      item.name || "",
+      item.description || "",
+      readme,
+      provider,
+      summaryStyle,
+      item.metadata,
+      isGitHub ? accessToken : undefined,
+      isGitHub ? item.owner?.login : undefined,
+      onToken,
+      signal,
+    );
+    return { summary: result.summary, cached: !!result.cached };
+  }
+
+  if (item.source === "blog_rss" || item.source === "medium") {
+    const result = await generateContentSummary(
+      item.title || "",
+      item.description || "",
+      item.source === "blog_rss" ? "blog_post" : "medium_post",
+      provider,
+      {
+        author: item.author || undefined,
+        publishedAt: item.publishedAt,
+        tags: item.tags,
+        url: item.url,
+      },
+      onToken,
+      summaryStyle,
+      signal,
+    );
+    return { summary: result.summary, cached: !!result.cached };
+  }
+
+  if (item.source === "contribution") {
+    const content = [
+      `${item.pullRequestCount || 0} merged pull requests to ${item.title}, changing ${(item.additions || 0) + (item.deletions || 0)} lines (+${item.additions || 0} / -${item.deletions || 0}).`,
+      item.representativePullRequest
+        ? `Largest pull request: ${item.representativePullRequest.title}`
+        : null,
+      item.description ? `About the upstream project: ${item.description}` : null,
+      item.stars ? `The upstream project has ${item.stars} stars.` : null,
+    ]
+      .filter(Boolean)
+      .join("\n");
+
+    const result = await generateContentSummary(
+      `Contributions to ${item.title}`,
+      content,
+      "contribution",
+      provider,
+      { tags: item.tags, url: item.url },
+      onToken,
+      summaryStyle,
+      signal,
+    );
+    return { summary: result.summary, cached: !!result.cached };
+  }
+
+  if (item.source === "gist") {
+    // The main file first, so it survives truncation of long gists
+    const files = [...(item.files || [])].sort(
+      (a, b) => Number(b.filename === item.mainFile) - Number(a.filename === item.mainFile),
+    );
+    const content = files
+      .map(
+        (file) =>
+          `File: ${file.filename}${file.language ? ` (${file.language})` : ""}\n${file.content}`,
+      )
+      .join("\n\n");
+
+    const result = await generateContentSummary(
+      item.title || "",
+      item.description ? `${item.description}\n\n${content}` : content,
+      "gist",
+      provider,
+      { tags: item.tags, url: item.url },
+      onToken,
+      summaryStyle,
+      signal,
+    );
+    return { summary: result.summary, cached: !!result.cached };
+  }
+
+  if (item.source === "talk") {
+    const content = [item.event ? `Given at ${item.event}` : null, item.description]
+      .filter(Boolean)
+      .join("\n\n");
+
+    const result = await generateContentSummary(
+      item.title || "",
+      content || item.title || "",
+      "talk",
+      provider,
+      { publishedAt: item.date || undefined, tags: item.tags, url: item.url },
+      onToken,
+      summaryStyle,
+      signal,
+    );
+    return { summary: result.summary, cached: !!result.cached };
+  }
+
+  if (item.source === "publication") {
+    const result = await generateContentSummary(
+      item.title || "",
+      [
+        item.venue && `Published in ${item.venue}${item.year ? ` (${item.year})` : ""}.`,
+        item.abstract,
+      ]
+        .filter(Boolean)
+        .join("\n\n"),
+      "publication",
+      provider,
+      {
+        author: item.authors?.join(", "),
+        tags: item.tags,
+        url: item.url || undefined,
+      },
+      onToken,
+      summaryStyle,
+      signal,
+    );
+    return { summary: result.summary, cached: !!result.cached };
+  }
+
+  if (item.source === "freeform") {
+    const result = await generateContentSummary(
+      item.title || "",
+      item.content || "",
+      "freeform",
+      provider,
+      {
+        tags: item.tags,
+        url: item.url,
+      },
+      onToken,
+      summaryStyle,
+      signal,
+    );
+    return { summary: result.summary, cached: !!result.cached };
+  }
+
+  return { summary: "", cached: false };
+}
@@ -0,0 +1,504 @@
+import crypto from "node:crypto";
+import { z } from "zod";
+import { getPublicationLink } from "../../shared/citations.js";
+import type { FreeformContent, IntroductionHints, PortfolioItem } from "../../shared/schema";
+import { isRepositoryItem } from "../../shared/schema.js";
+
+/**
+ * Import and export of JSON Resume documents (https://jsonresume.org/schema), so skills and
+ * experience kept in a resume.json don't have to be typed in again, and a portfolio can be
+ * handed back to existing resume tooling.
+ */
+
+const JSON_RESUME_SCHEMA_URL =
+  "https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json";
+
+const MAX_ENTRIES = 200;
+
+// Resumes in the wild carry extra and missing fields, so only the fields we read are checked
+const text = z.string().trim().max(10000).optional();
+const list = z.array(z.string().trim().max(500)).max(MAX_ENTRIES).optional();
+
+const entry = <T extends z.ZodRawShape>(shape: T) =>
+  z.array(z.object(shape).passthrough()).max(MAX_ENTRIES).optional();
+
+export const jsonResumeSchema = z
+  .object({
+    basics: z
+      .object({
+        name: text,
+        label: text,
+        image: text,
+        summary: text,
+      })
+      .passthrough()
+      .optional(),
+    work: entry({
+      name: text,
+      position: text,
+      url: text,
+      location: text,
+      startDate: text,
+      endDate: text,
+      summary: text,
+      highlights: list,
+    }),
+    projects: entry({
+      name: text,
+      description: text,
+      url: text,
+      startDate: text,
+      endDate: text,
+      highlights: list,
+      keywords: list,
+    }),
+    publications: entry({
+      name: text,
+      publisher: text,
+      releaseDate: text,
+      url: text,
+      summary: text,
+    }),
+    awards: entry({
+      title: text,
+      date: text,
+      awarder: text,
+      summary: text,
+    }),
+    skills: entry({
+      name: text,
+      level: text,
+      keywords: list,
+    }),
+    interests: entry({
+      name: text,
+      keywords: list,
+    }),
+  })
+  .passthrough();
+
+export type JsonResume = z.infer<typeof jsonResumeSchema>;
+
+export interface JsonResumeImport {
+  items: FreeformContent[];
+  hints: IntroductionHints;
+}
+
+/**
+ * Portfolio as shown in the preview, the input of the exporter
+ */
+export interface PortfolioResume {
+  items: PortfolioItem[];
+  introduction?: {
+    introduction: string;
+    skills: string[];
+    interests: string[];
+    customImageUrl?: string;
+  } | null;
+  name?: string | null;
+  avatarUrl?: string | null;
+}
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+const ISO_DATE = /^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?$/;
+const SEPARATOR = " · ";
+
+/**
+ * Stable ID so importing the same resume twice yields the same items
+ */
+function createId(kind: string, ...values: Array<string | undefined>): string {
+  const hash = crypto
+    .createHash("sha256")
+    .update(values.map((value) => value || "").join("\n"))
+    .digest("hex")
+    .slice(0, 16);
+  return `json-resume-${kind}-${hash}`;
+}
+
+/**
+ * Formats a JSON Resume date ("2021-03-01", "2021-03" or "2021") as "Mar 2021" or "2021"
+ */
+function formatDate(value?: string): string {
+  const match = value?.match(ISO_DATE);
+  if (!match) return value || "";
+  const month = Number(match[2]);
+  return month >= 1 && month <= 12 ? `${MONTHS[month - 1]} ${match[1]}` : match[1];
+}
+
+/**
+ * Reads a date written by formatDate back into JSON Resume's ISO 8601 form
+ */
+function parseDate(value?: string): string | undefined {
+  if (!value) return undefined;
+  if (ISO_DATE.test(value)) return value;
+
+  const match = value.match(/^([A-Z][a-z]{2}) (\d{4})$/);
+  const month = match ? MONTHS.indexOf(match[1]) : -1;
+  return month === -1 ? undefined : `${match?.[2]}-${String(month + 1).padStart(2, "0")}`;
+}
+
+function formatPeriod(start?: string, end?: string): string {
+  if (!start && !end) return "";
+  return `${formatDate(start) || "?"} – ${formatDate(end) || "Present"}`;
+}
+
+/**
+ * Splits a period written by formatPeriod into start and end dates
+ */
+function parsePeriod(value?: string): { startDate?: string; endDate?: string } | null {
+  const match = value?.match(/^(.+) – (.+)$/);
+  if (!match) return null;
+
+  const startDate = parseDate(match[1]);
+  const endDate = match[2] === "Present" ? undefined : parseDate(match[2]);
+  if (!startDate && !endDate) return null;
+  return { startDate, endDate };
+}
+
+function joinParts(...parts: Array<string | undefined>): string | null {
+  const value = parts.filter(Boolean).join(SEPARATOR);
+  return value || null;
+}
+
+function splitParts(value?: string | null): string[] {
+  return value ? value.split(SEPARATOR) : [];
+}
+
+function withHighlights(summary: string | undefined, highlights: string[] = []): string {
+  const bullets = highlights.filter(Boolean).map((highlight) => `- ${highlight}`);
+  return [summary, bullets.join("\n")].filter(Boolean).join("\n\n");
+}
+
+function createFreeform(
+  kind: string,
+  fields: Pick<FreeformContent, "title" | "content" | "description" | "contentType" | "tags"> & {
+    url?: string;
+  },
+): FreeformContent {
+  return {
+    id: createId(kind, fields.title, fields.description || ""),
+    title: fields.title,
+    content: fields.content || fields.title,
+    description: fields.description,
+    url: fields.url || undefined,
+    selected: false,
+    source: "freeform",
+    createdAt: new Date().toISOString(),
+    contentType: fields.contentType,
+    tags: fields.tags,
+  };
+}
+
+/**
+ * Parses a JSON Resume document into free-form portfolio items and introduction hints:
+ * work becomes experience, projects projects, publications and awards achievements, and
+ * skills both skill items and the introduction's skills; interests seed its interests.
+ * Privacy: Processed in memory, nothing is stored
+ * @param input - Parsed resume.json
+ * @returns Items and hints
+ */
+export function importJsonResume(input: unknown): JsonResumeImport {
+  const parsed = jsonResumeSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new Error(
+      parsed.error.issues
+        .map((issue) => `${issue.path.join(".") || "resume"}: ${issue.message}`)
+        .join("; "),
+    );
+  }
+  const resume = parsed.data;
+
+  const items: FreeformContent[] = [];
+
+  for (const work of resume.work || []) {
+    if (!work.position && !work.name) continue;
+    const title =
+      work.position && work.name
+        ? `${work.position} at ${work.name}`
+        : work.position || work.name || "";
+    items.push(
+      createFreeform("work", {
+        title,
+        content: withHighlights(work.summary, work.highlights),
+        description: joinParts(formatPeriod(work.startDate, work.endDate), work.location),
+        url: work.url,
+        contentType: "experience",
+        tags: ["work"],
+      }),
+    );
+  }
+
+  for (const project of resume.projects || []) {
+    if (!project.name) continue;
+    items.push(
+      createFreeform("project", {
+        title: project.name,
+        content: withHighlights(project.description, project.highlights),
+        description: joinParts(formatPeriod(project.startDate, project.endDate)),
+        url: project.url,
+        contentType: "project",
+        tags: project.keywords || [],
+      }),
+    );
+  }
+
+  for (const publication of resume.publications || []) {
+    if (!publication.name) continue;
+    items.push(
+      createFreeform("publication", {
+        title: publication.name,
+        content: publication.summary || publication.name,
+        description: joinParts(publication.publisher, formatDate(publication.releaseDate)),
+        url: publication.url,
+        contentType: "achievement",
+        tags: ["publication"],
+      }),
+    );
+  }
+
+  for (const award of resume.awards || []) {
+    if (!award.title) continue;
+    items.push(
+      createFreeform("award", {
+        title: award.title,
+        content: award.summary || award.title,
+        description: joinParts(award.awarder, formatDate(award.date)),
+        contentType: "achievement",
+        tags: ["award"],
+      }),
+    );
+  }
+
+  for (const skill of resume.skills || []) {
+    if (!skill.name) continue;
+    const keywords = skill.keywords || [];
+    items.push(
+      createFreeform("skill", {
+        title: skill.name,
+        content: keywords.length > 0 ? keywords.join(", ") : skill.name,
+        description: joinParts(skill.level),
+        contentType: "skill",
+        tags: keywords,
+      }),
+    );
+  }
+
+  const skills = Array.from(
+    new Set(
+      (resume.skills || []).flatMap((skill) =>
+        [skill.name, ...(skill.keywords || [])].filter((name): name is string => !!name),
+      ),
+    ),
+  ).slice(0, 100);
+  const interests = Array.from(
+    new Set(
+      (resume.interests || [])
+        .map((interest) => interest.name)
+        .filter((name): name is string => !!name),
+    ),
+  ).slice(0, 50);
+
+  return {
+    items,
+    hints: {
+      headline: resume.basics?.label?.slice(0, 200) || undefined,
+      skills: skills.map((skill) => skill.slice(0, 100)),
+      interests: interests.map((interest) => interest.slice(0, 100)),
+    },
+  };
+}
+
+/**
+ * Splits "Issuer · Mar 2021" descriptions into the issuer and the ISO date, either may be missing
+ */
+function parseIssuer(parts: string[]): { issuer?: string; date?: string } {
+  const date = parts.map(parseDate).find(Boolean);
+  const issuer = parts.find((part) => !parseDate(part));
+  return { issuer, date };
+}
+
+/**
+ * Splits "Role at Company" titles, as written by the importers, back into their parts
+ */
+function splitTitle(title: string, separator: string): [string, string] | null {
+  const index = title.lastIndexOf(separator);
+  if (index <= 0) return null;
+  return [title.slice(0, index), title.slice(index + separator.length)];
+}
+
+/**
+ * Converts the portfolio into a JSON Resume document. Free-form items are mapped by their
+ * content type and tags (work, education, publication, award, certification). Repositories,
+ * gists, upstream contributions and other free-form items become projects; blog, Medium and
+ * LinkedIn posts, research papers and talks become publications.
+ * Privacy: Built from the request only, nothing is stored
+ * @param portfolio - Items, introduction and owner as shown in the preview
+ * @returns JSON Resume document
+ */
+export function exportJsonResume(portfolio: PortfolioResume): Record<string, unknown> {
+  const { items, introduction } = portfolio;
+  const work: Array<Record<string, unknown>> = [];
+  const education: Array<Record<string, unknown>> = [];
+  const projects: Array<Record<string, unknown>> = [];
+  const publications: Array<Record<string, unknown>> = [];
+  const awards: Array<Record<string, unknown>> = [];
+  const certificates: Array<Record<string, unknown>> = [];
+  const skills: Array<Record<string, unknown>> = [];
+
+  for (const item of items) {
+    if (isRepositoryItem(item)) {
+      projects.push({
+        name: item.displayName || item.name,
+        description: item.summary || item.description || undefined,
+        url: item.metadata.url || item.url,
+        keywords: [item.metadata.language, ...item.metadata.topics].filter(Boolean),
+      });
+      continue;
+    }
+
+    if (item.source === "blog_rss" || item.source === "medium") {
+      publications.push({
+        name: item.title,
+        publisher: item.source === "medium" ? "Medium" : item.author || undefined,
+        releaseDate: item.publishedAt.slice(0, 10),
+        url: item.url,
+        summary: item.summary || item.description || undefined,
+      });
+      continue;
+    }
+
+    if (item.source === "contribution") {
+      projects.push({
+        name: item.title,
+        description: item.summary || item.representativePullRequest.title,
+        url: item.url,
+        roles: ["Contributor"],
+        startDate: item.firstMergedAt.slice(0, 10),
+        endDate: item.lastMergedAt.slice(0, 10),
+        keywords: [item.language, ...item.tags].filter(Boolean),
+      });
+      continue;
+    }
+
+    if (item.source === "gist") {
+      projects.push({
+        name: item.title,
+        description: item.summary || item.description || undefined,
+        url: item.url,
+        keywords: [...item.languages, ...item.tags],
+      });
+      continue;
+    }
+
+    if (item.source === "publication") {
+      publications.push({
+        name: item.title,
+        publisher: item.venue || undefined,
+        releaseDate: item.year ? String(item.year) : undefined,
+        url: getPublicationLink(item) || undefined,
+        summary: item.summary || item.abstract || undefined,
+      });
+      continue;
+    }
+
+    if (item.source === "talk") {
+      publications.push({
+        name: item.title,
+        publisher: item.event || undefined,
+        releaseDate: item.date?.slice(0, 10),
+        url: item.videoUrl || item.slidesUrl || item.url || undefined,
+        summary: item.summary || item.description || undefined,
+      });
+      continue;
+    }
+
+    if (item.source === "linkedin") {
+      publications.push({
+        // Posts rarely have a title, so their first line stands in for one
+        name: item.title || item.content.split("\n")[0].slice(0, 100),
+        publisher: "LinkedIn",
+        releaseDate: item.publishedAt.slice(0, 10),
+        url: item.url || undefined,
+        summary: item.summary || item.content,
+      });
+      continue;
+    }
+
+    if (item.source !== "freeform") continue;
+
+    const parts = splitParts(item.description);
+    const period = parsePeriod(parts[0]);
+    const details = period ? parts.slice(1) : parts;
+    const url = item.url || undefined;
+
+    if (item.contentType === "experience" && item.tags.includes("education")) {
+      const [studyType, institution] = splitTitle(item.title, ", ") || [undefined, item.title];
+      education.push({ institution, studyType, url, ...period });
+    } else if (item.contentType === "experience") {
+      const [position, name] = splitTitle(item.title, " at ") || [item.title, undefined];
+      work.push({
+        name,
+        position,
+        url,
+        location: details[0],
+        summary: item.content,
+        ...period,
+      });
+    } else if (item.contentType === "skill") {
+      skills.push({ name: item.title, level: parts[0], keywords: item.tags });
+    } else if (item.tags.includes("publication")) {
+      const { issuer, date } = parseIssuer(parts);
+      publications.push({
+        name: item.title,
+        publisher: issuer,
+        releaseDate: date,
+        url,
+        summary: item.content,
+      });
+    } else if (item.tags.includes("certification")) {
+      const { issuer, date } = parseIssuer(parts);
+      certificates.push({ name: item.title, issuer, date, url });
+    } else if (item.contentType === "achievement") {
+      const { issuer, date } = parseIssuer(parts);
+      awards.push({ title: item.title, awarder: issuer, date, summary: item.content });
+    } else {
+      projects.push({
+        name: item.title,
+        description: item.content,
+        url,
+        keywords: item.tags,
+        ...period,
+      });
+    }
+  }
+
+  // Introduction skills not covered by a skill item are listed on their own
+  const skillNames = new Set(skills.map((skill) => String(skill.name).toLowerCase()));
+  for (const name of introduction?.skills || []) {
+    if (!skillNames.has(name.toLowerCase())) {
+      skillNames.add(name.toLowerCase());
+      skills.push({ name });
+    }
+  }
+
+  const resume: Record<string, unknown> = {
+    $schema: JSON_RESUME_SCHEMA_URL,
+    basics: {
+      name: portfolio.name || undefined,
+      image: introduction?.customImageUrl || portfolio.avatarUrl || undefined,
+      summary: introduction?.introduction || undefined,
+    },
+    work,
+    education,
+    projects,
+    publications,
+    awards,
+    certificates,
+    skills,
+    interests: (introduction?.interests || []).map((name) => ({ name })),
+    meta: { lastModified: new Date().toISOString() },
+  };
+
+  // Round-trip through JSON to drop undefined fields, which the schema doesn't allow as null
+  return JSON.parse(JSON.stringify(resume));
+}
@@ -0,0 +1,319 @@
+import crypto from "node:crypto";
+import JSZip from "jszip";
+import type { FreeformContent, IntroductionHints, LinkedInPost } from "../../shared/schema";
+
+/**
+ * Importer for LinkedIn's official data export ("Get a copy of your data"), since LinkedIn's
+ * API is closed. The ZIP is read in memory only; nothing is written to disk or logged.
+ */
+
+export interface LinkedInImport {
+  items: Array<LinkedInPost | FreeformContent>;
+  hints: IntroductionHints;
+  /** Export files that were recognized, e.g. ["Positions.csv", "Skills.csv"] */
+  files: string[];
+}
+
+type CsvRow = Record<string, string>;
+
+const LINKEDIN_FILES = [
+  "Profile.csv",
+  "Shares.csv",
+  "Positions.csv",
+  "Education.csv",
+  "Skills.csv",
+  "Certifications.csv",
+] as const;
+
+type LinkedInFile = (typeof LINKEDIN_FILES)[number];
+
+// Column identifying the header row; some export files start with a "Notes:" preamble
+const HEADER_COLUMNS: Record<LinkedInFile, string> = {
+  "Profile.csv": "First Name",
+  "Shares.csv": "ShareCommentary",
+  "Positions.csv": "Company Name",
+  "Education.csv": "School Name",
+  "Skills.csv": "Name",
+  "Certifications.csv": "Name",
+};
+
+const MAX_EXPORT_BYTES = 25 * 1024 * 1024;
+const MAX_CSV_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Parses CSV text (RFC 4180: quoted fields, escaped quotes and line breaks inside quotes)
+ * @returns Rows of fields
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((fields) => fields.some((value) => value.trim()));
+}
+
+/**
+ * Parses an export file into records keyed by column name, starting at the header row
+ */
+function parseRecords(text: string, headerColumn: string): CsvRow[] {
+  const rows = parseCsv(text);
+  const headerIndex = rows.findIndex((fields) =>
+    fields.some((value) => value.trim() === headerColumn),
+  );
+  if (headerIndex === -1) return [];
+
+  const header = rows[headerIndex].map((value) => value.trim());
+  return rows
+    .slice(headerIndex + 1)
+    .map((fields) =>
+      Object.fromEntries(header.map((column, i) => [column, (fields[i] || "").trim()])),
+    );
+}
+
+/**
+ * Reads an archive entry, refusing entries that decompress beyond MAX_CSV_BYTES
+ */
+function readEntry(file: JSZip.JSZipObject): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = file.nodeStream("nodebuffer");
+
+    stream
+      .on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_CSV_BYTES) {
+          stream.pause();
+          reject(new Error(`${file.name} is too large`));
+          return;
+        }
+        chunks.push(chunk);
+      })
+      .on("error", reject)
+      .on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+  });
+}
+
+/**
+ * Stable ID so importing the same export twice yields the same items
+ */
+function createId(kind: string, ...values: string[]): string {
+  const hash = crypto.createHash("sha256").update(values.join("\n")).digest("hex").slice(0, 16);
+  return `linkedin-${kind}-${hash}`;
+}
+
+/**
+ * Converts an export timestamp ("2024-03-05 14:22:10", UTC) to ISO 8601
+ */
+function toIsoDate(value: string): string {
+  const date = new Date(/^\d{4}-\d{2}-\d{2} /.test(value) ? `${value.replace(" ", "T")}Z` : value);
+  return Number.isNaN(date.getTime()) ? new Date(0).toISOString() : date.toISOString();
+}
+
+/**
+ * Formats a date range such as "Mar 2021 – Present"
+ */
+function formatPeriod(start: string, end: string): string {
+  if (!start && !end) return "";
+  return `${start || "?"} – ${end || "Present"}`;
+}
+
+function joinParts(...parts: string[]): string | null {
+  const text = parts.filter(Boolean).join(" · ");
+  return text || null;
+}
+
+function convertShare(row: CsvRow, author: string): LinkedInPost | null {
+  const content = row.ShareCommentary;
+  // Reposts without commentary carry nothing to show
+  if (!content) return null;
+
+  return {
+    id: createId("share", row.ShareLink, row.Date, content),
+    title: null,
+    content,
+    url: row.ShareLink || row.SharedUrl || null,
+    summary: null,
+    selected: false,
+    source: "linkedin",
+    publishedAt: toIsoDate(row.Date),
+    author,
+  };
+}
+
+function createFreeform(
+  kind: string,
+  fields: Pick<FreeformContent, "title" | "content" | "description" | "contentType" | "tags"> & {
+    url?: string;
+  },
+): FreeformContent {
+  return {
+    id: createId(kind, fields.title, fields.description || ""),
+    title: fields.title,
+    content: fields.content,
+    description: fields.description,
+    url: fields.url || undefined,
+    selected: false,
+    source: "freeform",
+    createdAt: new Date().toISOString(),
+    contentType: fields.contentType,
+    tags: fields.tags,
+  };
+}
+
+function convertPosition(row: CsvRow): FreeformContent | null {
+  const role = row.Title;
+  const company = row["Company Name"];
+  if (!role && !company) return null;
+
+  const title = role && company ? `${role} at ${company}` : role || company;
+  return createFreeform("position", {
+    title,
+    content: row.Description || title,
+    description: joinParts(formatPeriod(row["Started On"], row["Finished On"]), row.Location),
+    contentType: "experience",
+    tags: ["work"],
+  });
+}
+
+function convertEducation(row: CsvRow): FreeformContent | null {
+  const school = row["School Name"];
+  if (!school) return null;
+
+  const degree = row["Degree Name"];
+  const title = degree ? `${degree}, ${school}` : school;
+  return createFreeform("education", {
+    title,
+    content: [row.Notes, row.Activities].filter(Boolean).join("\n\n") || title,
+    description: joinParts([row["Start Date"], row["End Date"]].filter(Boolean).join(" – ")),
+    contentType: "experience",
+    tags: ["education"],
+  });
+}
+
+function convertCertification(row: CsvRow): FreeformContent | null {
+  const name = row.Name;
+  if (!name) return null;
+
+  const authority = row.Authority;
+  return createFreeform("certification", {
+    title: name,
+    content: authority ? `${name}, issued by ${authority}` : name,
+    description: joinParts(authority, row["Started On"]),
+    url: row.Url,
+    contentType: "achievement",
+    tags: ["certification"],
+  });
+}
+
+/**
+ * Headline for the introduction: the ongoing position, else the most recent one.
+ * Export rows are ordered from newest to oldest.
+ */
+function getHeadline(positions: CsvRow[], profile?: CsvRow): string | undefined {
+  if (profile?.Headline) return profile.Headline.slice(0, 200);
+
+  const position = positions.find((row) => !row["Finished On"]) || positions[0];
+  if (!position?.Title) return undefined;
+  const headline = position["Company Name"]
+    ? `${position.Title} at ${position["Company Name"]}`
+    : position.Title;
+  return headline.slice(0, 200);
+}
+
+/**
+ * Parses a LinkedIn data export ZIP into portfolio items and introduction hints:
+ * Shares.csv becomes LinkedIn posts, Positions.csv and Education.csv experience entries,
+ * Certifications.csv achievements, and Skills.csv the introduction's skills.
+ * Privacy: Processed entirely in memory, nothing is stored
+ * @param data - The export ZIP as uploaded
+ * @returns Items, hints and the recognized files
+ */
+export async function parseLinkedInExport(data: Buffer): Promise<LinkedInImport> {
+  if (data.length > MAX_EXPORT_BYTES) {
+    throw new Error("LinkedIn export is too large");
+  }
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    throw new Error("LinkedIn export is not a valid ZIP file");
+  }
+
+  // Files sit at the root or in a folder, depending on how the export was downloaded
+  const records: Partial<Record<LinkedInFile, CsvRow[]>> = {};
+  for (const file of Object.values(zip.files)) {
+    if (file.dir) continue;
+    const basename = file.name.split("/").pop()?.toLowerCase();
+    const known = LINKEDIN_FILES.find((name) => name.toLowerCase() === basename);
+    if (known && !records[known]) {
+      records[known] = parseRecords(await readEntry(file), HEADER_COLUMNS[known]);
+    }
+  }
+
+  const files = LINKEDIN_FILES.filter((name) => records[name] && name !== "Profile.csv");
+  if (files.length === 0) {
+    throw new Error(
+      "No Shares, Positions, Education, Skills or Certifications file found in the export",
+    );
+  }
+
+  const profile = records["Profile.csv"]?.[0];
+  const author = profile
+    ? [profile["First Name"], profile["Last Name"]].filter(Boolean).join(" ")
+    : "";
+  const positions = records["Positions.csv"] || [];
+
+  const items = [
+    ...(records["Shares.csv"] || []).map((row) => convertShare(row, author)),
+    ...positions.map(convertPosition),
+    ...(records["Education.csv"] || []).map(convertEducation),
+    ...(records["Certifications.csv"] || []).map(convertCertification),
+  ].filter((item): item is LinkedInPost | FreeformContent => item !== null);
+
+  const skills = Array.from(
+    new Set((records["Skills.csv"] || []).map((row) => row.Name.slice(0, 100)).filter(Boolean)),
+  ).slice(0, 100);
+
+  return {
+    items,
+    hints: { headline: getHeadline(positions, profile), skills },
+    files,
+  };
+}
@@ -0,0 +1,136 @@
+import { readResponseLines } from "./stream.js";
+import type { LLMCompletionRequest, LLMProvider, LLMTokenHandler } from "./types.js";
+import { createRequestError, getRequestSignal } from "./types.js";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+export interface AnthropicProviderOptions {
+  apiKey: string;
+  model: string;
+  baseUrl: string;
+  timeout: number;
+}
+
+interface AnthropicMessageResponse {
+  content?: Array<{ type: string; text?: string }>;
+  error?: { message?: string };
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  delta?: { type: string; text?: string };
+  error?: { message?: string };
+}
+
+/**
+ * Anthropic Messages API. There is no JSON mode, so JSON output is requested in the prompt
+ * and the response is pre-filled with an opening brace.
+ */
+export function createAnthropicProvider(options: AnthropicProviderOptions): LLMProvider {
+  const endpoint = `${options.baseUrl.replace(/\/+$/, "")}/v1/messages`;
+
+  const send = (request: LLMCompletionRequest, stream: boolean) => {
+    const messages: Array<{ role: "user" | "assistant"; content: string }> = [
+      { role: "user", content: request.user },
+    ];
+    if (request.json) {
+      messages.push({ role: "assistant", content: "{" });
+    }
+
+    return fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "x-api-key": options.apiKey,
+        "anthropic-version": ANTHROPIC_VERSION,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: options.model,
+        system: request.system,
+        messages,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        ...(stream && { stream: true }),
+      }),
+      signal: getRequestSignal(request, options.timeout),
+    });
+  };
+
+  const toRequestError = async (response: Response) => {
+    const data = (await response.json().catch(() => ({}))) as AnthropicMessageResponse;
+    return createRequestError(
+      `Anthropic API error: ${data.error?.message || response.statusText}`,
+      response.status,
+      response.headers.get("retry-after"),
+    );
+  };
+
+  return {
+    id: "anthropic",
+    model: options.model,
+    capabilities: {
+      jsonMode: false,
+      generative: true,
+      requiresApiKey: true,
+      local: false,
+      streaming: true,
+    },
+
+    async complete(request: LLMCompletionRequest): Promise<string> {
+      const response = await send(request, false);
+
+      if (!response.ok) {
+        throw await toRequestError(response);
+      }
+
+      const data = (await response.json().catch(() => ({}))) as AnthropicMessageResponse;
+      const text = (data.content || [])
+        .filter((block) => block.type === "text" && block.text)
+        .map((block) => block.text)
+        .join("");
+
+      if (!text) {
+        console.error("No text content in Anthropic response:", data);
+        throw new Error("No content in LLM response message");
+      }
+
+      return request.json ? `{${text}` : text;
+    },
+
+    async stream(request: LLMCompletionRequest, onToken: LLMTokenHandler): Promise<string> {
+      const response = await send(request, true);
+
+      if (!response.ok) {
+        throw await toRequestError(response);
+      }
+
+      let text = "";
+      if (request.json) {
+        text = "{";
+        onToken(text);
+      }
+
+      for await (const line of readResponseLines(response)) {
+        if (!line.startsWith("data:")) continue;
+
+        const event = JSON.parse(line.slice(5)) as AnthropicStreamEvent;
+        if (event.type === "error") {
+          throw createRequestError(
+            `Anthropic API error: ${event.error?.message || "stream interrupted"}`,
+          );
+        }
+        if (event.type === "content_block_delta" && event.delta?.type === "text_delta") {
+          const token = event.delta.text || "";
+          text += token;
+          onToken(token);
+        }
+      }
+
+      if (!text || text === "{") {
+        throw new Error("No content in LLM response message");
+      }
+
+      return text;
+    },
+  };
+}
@@ -0,0 +1,157 @@
+import { createAnthropicProvider } from "./anthropic-provider.js";
+import { createOllamaProvider } from "./ollama-provider.js";
+import { createOpenAIProvider } from "./openai-provider.js";
+import { createTemplateProvider } from "./template-provider.js";
+import type { LLMProvider, LLMProviderId } from "./types.js";
+
+export type {
+  LLMCapabilities,
+  LLMCompletionRequest,
+  LLMFacts,
+  LLMProvider,
+  LLMProviderId,
+  LLMRequestError,
+  LLMTask,
+  LLMTokenHandler,
+} from "./types.js";
+
+export const LLM_PROVIDER_IDS: LLMProviderId[] = ["openai", "anthropic", "ollama", "template"];
+
+const DEFAULT_MODELS: Record<LLMProviderId, string> = {
+  openai: "gpt-4o",
+  anthropic: "claude-sonnet-4-5",
+  ollama: "llama3.1",
+  template: "template",
+};
+
+// Environment variables each provider cannot work without
+export const LLM_REQUIRED_ENV: Record<LLMProviderId, string[]> = {
+  openai: ["OPENAI_API_KEY"],
+  anthropic: ["ANTHROPIC_API_KEY"],
+  ollama: [],
+  template: [],
+};
+
+export interface LLMConfig {
+  provider: LLMProviderId;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+  timeout: number;
+  maxRetries: number;
+}
+
+/**
+ * Reads the provider configuration from the environment.
+ * LLM_PROVIDER selects the backend (openai by default) and LLM_MODEL overrides
+ * the provider-specific model variable.
+ */
+export function getLLMConfig(env: NodeJS.ProcessEnv = process.env): LLMConfig {
+  const requested = (env.LLM_PROVIDER || "openai").trim().toLowerCase();
+  const provider = LLM_PROVIDER_IDS.includes(requested as LLMProviderId)
+    ? (requested as LLMProviderId)
+    : "openai";
+
+  if (provider !== requested) {
+    console.warn(`Unknown LLM_PROVIDER "${requested}", falling back to openai`);
+  }
+
+  const timeout = parseInt(env.LLM_TIMEOUT || env.OPENAI_TIMEOUT || "60000", 10);
+  const maxRetries = parseInt(env.LLM_MAX_RETRIES || env.OPENAI_MAX_RETRIES || "2", 10);
+
+  switch (provider) {
+    case "anthropic":
+      return {
+        provider,
+        model: env.LLM_MODEL || env.ANTHROPIC_MODEL || DEFAULT_MODELS.anthropic,
+        apiKey: env.ANTHROPIC_API_KEY,
+        baseUrl: env.ANTHROPIC_API_BASE_URL || "https://api.anthropic.com",
+        timeout,
+        maxRetries,
+      };
+    case "ollama":
+      return {
+        provider,
+        model: env.LLM_MODEL || env.OLLAMA_MODEL || DEFAULT_MODELS.ollama,
+        baseUrl: env.OLLAMA_BASE_URL || "http://localhost:11434",
+        timeout,
+        maxRetries,
+      };
+    case "template":
+      return { provider, model: DEFAULT_MODELS.template, timeout, maxRetries };
+    default:
+      return {
+        provider,
+        model: env.LLM_MODEL || env.OPENAI_API_MODEL || DEFAULT_MODELS.openai,
+        apiKey: env.OPENAI_API_KEY,
+        baseUrl: env.OPENAI_API_BASE_URL,
+        timeout,
+        maxRetries,
+      };
+  }
+}
+
+/**
+ * Describes what is missing from the configuration
+ * @returns null when the configured provider can be used
+ */
+export function getLLMConfigurationError(config: LLMConfig = getLLMConfig()): string | null {
+  const [apiKeyVariable] = LLM_REQUIRED_ENV[config.provider];
+  if (apiKeyVariable && !config.apiKey) {
+    return `${apiKeyVariable} environment variable is required`;
+  }
+  return null;
+}
+
+export function createLLMProvider(config: LLMConfig): LLMProvider {
+  const configurationError = getLLMConfigurationError(config);
+  if (configurationError) {
+    throw new Error(`LLM provider not configured: ${configurationError}`);
+  }
+
+  switch (config.provider) {
+    case "anthropic":
+      return createAnthropicProvider({
+        apiKey: config.apiKey as string,
+        model: config.model,
+        baseUrl: config.baseUrl as string,
+        timeout: config.timeout,
+      });
+    case "ollama":
+      return createOllamaProvider({
+        model: config.model,
+        baseUrl: config.baseUrl as string,
+        timeout: config.timeout,
+      });
+    case "template":
+      return createTemplateProvider();
+    default:
+      return createOpenAIProvider({
+        apiKey: config.apiKey as string,
+        model: config.model,
+        baseUrl: config.baseUrl,
+        timeout: config.timeout,
+        maxRetries: config.maxRetries,
+      });
+  }
+}
+
+/**
+ * Singleton provider built from the environment
+ * Reused across requests so HTTP clients are not recreated
+ */
+let cachedProvider: { key: string; provider: LLMProvider } | null = null;
+
+/**
+ * Gets the configured provider, creating it on first use or when the configuration changes
+ */
+export function getLLMProvider(): LLMProvider {
+  const config = getLLMConfig();
+  const key = JSON.stringify(config);
+
+  if (!cachedProvider || cachedProvider.key !== key) {
+    cachedProvider = { key, provider: createLLMProvider(config) };
+  }
+
+  return cachedProvider.provider;
+}
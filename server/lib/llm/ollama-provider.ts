@@ -0,0 +1,110 @@
+import { readResponseLines } from "./stream.js";
+import type { LLMCompletionRequest, LLMProvider, LLMTokenHandler } from "./types.js";
+import { createRequestError, getRequestSignal } from "./types.js";
+
+export interface OllamaProviderOptions {
+  model: string;
+  baseUrl: string;
+  timeout: number;
+}
+
+interface OllamaChatResponse {
+  message?: { content?: string };
+  error?: string;
+}
+
+/**
+ * Local Ollama server through its /api/chat endpoint. No API key is needed and
+ * content stays on the configured host.
+ */
+export function createOllamaProvider(options: OllamaProviderOptions): LLMProvider {
+  const endpoint = `${options.baseUrl.replace(/\/+$/, "")}/api/chat`;
+
+  const send = (request: LLMCompletionRequest, stream: boolean) =>
+    fetch(endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: options.model,
+        messages: [
+          { role: "system", content: request.system },
+          { role: "user", content: request.user },
+        ],
+        stream,
+        ...(request.json && { format: "json" }),
+        options: {
+          temperature: request.temperature,
+          num_predict: request.maxTokens,
+        },
+      }),
+      signal: getRequestSignal(request, options.timeout),
+    });
+
+  const toRequestError = async (response: Response) => {
+    const data = (await response.json().catch(() => ({}))) as OllamaChatResponse;
+    return createRequestError(
+      `Ollama API error: ${data.error || response.statusText}`,
+      response.status,
+      response.headers.get("retry-after"),
+    );
+  };
+
+  return {
+    id: "ollama",
+    model: options.model,
+    capabilities: {
+      jsonMode: true,
+      generative: true,
+      requiresApiKey: false,
+      local: true,
+      streaming: true,
+    },
+
+    async complete(request: LLMCompletionRequest): Promise<string> {
+      const response = await send(request, false);
+
+      if (!response.ok) {
+        throw await toRequestError(response);
+      }
+
+      const data = (await response.json().catch(() => ({}))) as OllamaChatResponse;
+      const content = data.message?.content;
+      if (!content) {
+        console.error("No content in Ollama response:", data);
+        throw new Error("No content in LLM response message");
+      }
+
+      return content;
+    },
+
+    async stream(request: LLMCompletionRequest, onToken: LLMTokenHandler): Promise<string> {
+      const response = await send(request, true);
+
+      if (!response.ok) {
+        throw await toRequestError(response);
+      }
+
+      // Each line is a JSON chunk; the last one has done set to true
+      let content = "";
+      for await (const line of readResponseLines(response)) {
+        if (!line.trim()) continue;
+
+        const chunk = JSON.parse(line) as OllamaChatResponse;
+        if (chunk.error) {
+          throw createRequestError(`Ollama API error: ${chunk.error}`);
+        }
+        const token = chunk.message?.content;
+        if (token) {
+          content += token;
+          onToken(token);
+        }
+      }
+
+      if (!content) {
+        throw new Error("No content in LLM response message");
+      }
+
+      return content;
+    },
+  };
+}
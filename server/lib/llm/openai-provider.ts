@@ -0,0 +1,121 @@
+import OpenAI from "openai";
+import type { LLMCompletionRequest, LLMProvider, LLMTokenHandler } from "./types.js";
+import { createRequestError } from "./types.js";
+
+export interface OpenAIProviderOptions {
+  apiKey: string;
+  model: string;
+  baseUrl?: string;
+  timeout: number;
+  maxRetries: number;
+}
+
+/**
+ * OpenAI Chat Completions, also used for OpenAI-compatible APIs such as Groq via baseUrl
+ */
+export function createOpenAIProvider(options: OpenAIProviderOptions): LLMProvider {
+  const client = new OpenAI({
+    apiKey: options.apiKey,
+    timeout: options.timeout,
+    maxRetries: options.maxRetries,
+    ...(options.baseUrl && { baseURL: options.baseUrl }),
+  });
+
+  console.log("✓ OpenAI client initialized");
+
+  const buildParams = (request: LLMCompletionRequest) => ({
+    model: options.model,
+    messages: [
+      {
+        role: "system" as const,
+        content: request.system,
+      },
+      {
+        role: "user" as const,
+        content: request.user,
+      },
+    ],
+    ...(request.json && { response_format: { type: "json_object" as const } }),
+    temperature: request.temperature,
+    max_tokens: request.maxTokens,
+  });
+
+  const toRequestError = (error: unknown) => {
+    if (error instanceof OpenAI.APIError) {
+      return createRequestError(
+        error.message,
+        error.status,
+        error.headers?.["retry-after"] ?? null,
+      );
+    }
+    return error;
+  };
+
+  return {
+    id: "openai",
+    model: options.model,
+    capabilities: {
+      jsonMode: true,
+      generative: true,
+      requiresApiKey: true,
+      local: false,
+      streaming: true,
+    },
+
+    async complete(request: LLMCompletionRequest): Promise<string> {
+      let response: OpenAI.Chat.Completions.ChatCompletion;
+      try {
+        response = await client.chat.completions.create(buildParams(request), {
+          signal: request.signal,
+        });
+      } catch (error) {
+        throw toRequestError(error);
+      }
+
+      // Check if response structure is valid
+      if (!response?.choices || !Array.isArray(response.choices) || response.choices.length === 0) {
+        console.error("Invalid response structure:", response);
+        throw new Error("Invalid response structure from LLM API");
+      }
+
+      const choice = response.choices[0];
+      if (!choice?.message) {
+        console.error("Invalid choice structure:", choice);
+        throw new Error("Invalid choice structure in LLM response");
+      }
+
+      const content = choice.message.content;
+      if (!content) {
+        console.error("No content in message:", choice.message);
+        throw new Error("No content in LLM response message");
+      }
+
+      return content;
+    },
+
+    async stream(request: LLMCompletionRequest, onToken: LLMTokenHandler): Promise<string> {
+      let content = "";
+      try {
+        const stream = await client.chat.completions.create(
+          { ...buildParams(request), stream: true },
+          { signal: request.signal },
+        );
+        for await (const chunk of stream) {
+          const token = chunk.choices[0]?.delta?.content;
+          if (token) {
+            content += token;
+            onToken(token);
+          }
+        }
+      } catch (error) {
+        throw toRequestError(error);
+      }
+
+      if (!content) {
+        throw new Error("No content in LLM response message");
+      }
+
+      return content;
+    },
+  };
+}
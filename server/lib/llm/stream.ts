@@ -0,0 +1,35 @@
+/**
+ * Reads a streamed HTTP response body line by line.
+ * Used for server-sent events (Anthropic) and newline-delimited JSON (Ollama).
+ */
+export async function* readResponseLines(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      let newline = buffer.indexOf("\n");
+      while (newline !== -1) {
+        yield buffer.slice(0, newline).replace(/\r$/, "");
+        buffer = buffer.slice(newline + 1);
+        newline = buffer.indexOf("\n");
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer) {
+      yield buffer.replace(/\r$/, "");
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
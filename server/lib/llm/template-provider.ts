@@ -0,0 +1,157 @@
+import type { LLMCompletionRequest, LLMFacts, LLMProvider } from "./types.js";
+
+const MAX_EXCERPT_LENGTH = 320;
+
+function formatList(values: string[]): string {
+  if (values.length <= 1) return values.join("");
+  return `${values.slice(0, -1).join(", ")} and ${values[values.length - 1]}`;
+}
+
+function asSentence(text: string): string {
+  const trimmed = text.trim();
+  return /[.!?]$/.test(trimmed) ? trimmed : `${trimmed}.`;
+}
+
+/**
+ * Takes whole sentences from the start of a text, up to maxLength characters
+ */
+function leadingSentences(text: string | null, maxLength = MAX_EXCERPT_LENGTH): string {
+  if (!text) return "";
+
+  const plain = text
+    .replace(/```[\s\S]*?```/g, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, " ")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/^#+\s.*$/gm, " ")
+    .replace(/[*_`>#]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  const sentences = plain.match(/[^.!?]+[.!?]+(\s|$)/g) || (plain ? [plain] : []);
+  let excerpt = "";
+  for (const sentence of sentences) {
+    const next = `${excerpt}${sentence}`;
+    if (next.length > maxLength) break;
+    excerpt = next;
+  }
+  return excerpt.trim();
+}
+
+function countValues(values: Array<string | null | undefined>): string[] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    if (!value) continue;
+    counts.set(value, (counts.get(value) || 0) + 1);
+  }
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([value]) => value);
+}
+
+function summarizeRepository(facts: Extract<LLMFacts, { kind: "repository" }>): string {
+  const sentences = [
+    facts.description
+      ? `${facts.name}: ${asSentence(facts.description)}`
+      : `${facts.name} is a software project.`,
+  ];
+
+  if (facts.projectSummary) {
+    sentences.push(asSentence(facts.projectSummary));
+  } else if (facts.techStack.length > 0) {
+    sentences.push(`It is built with ${formatList(facts.techStack.slice(0, 5))}.`);
+  } else if (facts.language) {
+    sentences.push(`It is written primarily in ${facts.language}.`);
+  }
+
+  const readmeExcerpt = leadingSentences(facts.readme);
+  if (readmeExcerpt && !(facts.description && readmeExcerpt.includes(facts.description))) {
+    sentences.push(readmeExcerpt);
+  }
+
+  if (facts.topics.length > 0) {
+    sentences.push(`Topics include ${formatList(facts.topics.slice(0, 5))}.`);
+  }
+
+  return sentences.join(" ");
+}
+
+function summarizeContent(facts: Extract<LLMFacts, { kind: "content" }>): string {
+  const sentences = [`"${facts.title}" is a ${facts.contentLabel}.`];
+
+  const excerpt = leadingSentences(facts.content);
+  if (excerpt) {
+    sentences.push(excerpt);
+  }
+
+  if (facts.tags.length > 0) {
+    sentences.push(`It covers ${formatList(facts.tags.slice(0, 5))}.`);
+  }
+
+  return sentences.join(" ");
+}
+
+function introduce(facts: Extract<LLMFacts, { kind: "introduction" }>) {
+  const items = facts.items;
+  const languages = countValues(items.map((item) => item.language));
+  const topics = countValues(
+    items.flatMap((item) => [...(item.topics || []), ...(item.tags || [])]),
+  );
+  const types = countValues(items.map((item) => item.type));
+
+  const skills = Array.from(
+    new Set([...(facts.hints?.skills || []), ...languages, ...topics]),
+  ).slice(0, 10);
+  const interests = Array.from(new Set([...(facts.hints?.interests || []), ...topics])).slice(0, 5);
+
+  const sentences = [
+    `I build and write about software, with ${items.length} ${items.length === 1 ? "piece" : "pieces"} of work collected here${types.length > 0 ? ` across ${formatList(types.map((type) => type.replace(/_/g, " ")))}` : ""}.`,
+  ];
+  if (facts.hints?.headline) {
+    sentences.unshift(`I work as ${facts.hints.headline}.`);
+  }
+  if (languages.length > 0) {
+    sentences.push(`Most of my projects are written in ${formatList(languages.slice(0, 3))}.`);
+  }
+  if (interests.length > 0) {
+    sentences.push(`Recurring themes in my work include ${formatList(interests)}.`);
+  }
+
+  return { introduction: sentences.join(" "), skills, interests };
+}
+
+/**
+ * Deterministic offline provider that writes summaries from structured facts,
+ * such as the generateProjectSummary output, without calling any model.
+ * Useful for demos, tests and installations without an AI provider.
+ */
+export function createTemplateProvider(): LLMProvider {
+  return {
+    id: "template",
+    model: "template",
+    capabilities: {
+      jsonMode: true,
+      generative: false,
+      requiresApiKey: false,
+      local: true,
+      streaming: false,
+    },
+
+    async complete(request: LLMCompletionRequest): Promise<string> {
+      request.signal?.throwIfAborted();
+      const facts = request.facts;
+      if (!facts) {
+        throw new Error(`The template provider needs structured facts for ${request.task}`);
+      }
+
+      if (facts.kind === "introduction") {
+        const introduction = introduce(facts);
+        return request.json ? JSON.stringify(introduction) : introduction.introduction;
+      }
+
+      const summary =
+        facts.kind === "repository" ? summarizeRepository(facts) : summarizeContent(facts);
+      return request.json ? JSON.stringify({ summary }) : summary;
+    },
+  };
+}
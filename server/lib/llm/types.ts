@@ -0,0 +1,125 @@
+export type LLMProviderId = "openai" | "anthropic" | "ollama" | "template";
+
+export type LLMTask = "repo_summary" | "content_summary" | "user_introduction";
+
+/**
+ * What a provider supports, so callers can adapt prompts and parsing
+ */
+export interface LLMCapabilities {
+  /** Output is guaranteed to be a JSON object when requested */
+  jsonMode: boolean;
+  /** Output is written by a model from the prompt; false for fact-based offline providers */
+  generative: boolean;
+  /** An API key must be configured */
+  requiresApiKey: boolean;
+  /** Content never leaves this machine or the configured self-hosted endpoint */
+  local: boolean;
+  /** Tokens can be received as they are generated through stream() */
+  streaming: boolean;
+}
+
+/**
+ * Structured input alongside the prompt. Generative providers use the prompt text;
+ * offline providers build their output from these facts instead.
+ */
+export type LLMFacts =
+  | {
+      kind: "repository";
+      name: string;
+      description: string;
+      language: string | null;
+      topics: string[];
+      techStack: string[];
+      projectSummary: string | null;
+      readme: string | null;
+    }
+  | {
+      kind: "content";
+      title: string;
+      contentLabel: string;
+      content: string;
+      tags: string[];
+    }
+  | {
+      kind: "introduction";
+      items: Array<{
+        title?: string;
+        type?: string;
+        description?: string | null;
+        language?: string | null;
+        topics?: string[];
+        tags?: string[];
+      }>;
+      hints?: { headline?: string; skills: string[]; interests?: string[] };
+    };
+
+export interface LLMCompletionRequest {
+  task: LLMTask;
+  system: string;
+  user: string;
+  maxTokens: number;
+  temperature: number;
+  /** Ask for a single JSON object as the response */
+  json: boolean;
+  facts?: LLMFacts;
+  /** Aborts the request, e.g. when the summary job it belongs to is cancelled */
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  readonly id: LLMProviderId;
+  readonly model: string;
+  readonly capabilities: LLMCapabilities;
+  /**
+   * Runs a single completion
+   * @returns The raw response text
+   */
+  complete(request: LLMCompletionRequest): Promise<string>;
+  /**
+   * Runs a single completion, calling onToken for each chunk of text as it arrives
+   * @returns The full response text
+   */
+  stream?(request: LLMCompletionRequest, onToken: LLMTokenHandler): Promise<string>;
+}
+
+export type LLMTokenHandler = (token: string) => void;
+
+/**
+ * Error thrown by providers for failed API calls, with the HTTP status when known
+ */
+export interface LLMRequestError extends Error {
+  status?: number;
+  retryAfterMs?: number;
+}
+
+/**
+ * Signal for a provider HTTP request: aborted after the timeout or with the request's own signal
+ */
+export function getRequestSignal(request: LLMCompletionRequest, timeout: number): AbortSignal {
+  const timeoutSignal = AbortSignal.timeout(timeout);
+  return request.signal ? AbortSignal.any([request.signal, timeoutSignal]) : timeoutSignal;
+}
+
+/**
+ * Builds an LLMRequestError from a failed HTTP response
+ */
+export function createRequestError(
+  message: string,
+  status?: number,
+  retryAfter?: string | null,
+): LLMRequestError {
+  const error = new Error(message) as LLMRequestError;
+  error.status = status;
+
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const retryAt = Date.parse(retryAfter);
+    if (Number.isFinite(seconds)) {
+      error.retryAfterMs = Math.max(0, seconds * 1000);
+    } else if (!Number.isNaN(retryAt)) {
+      error.retryAfterMs = Math.max(0, retryAt - Date.now());
+    }
+  }
+
+  return error;
+}
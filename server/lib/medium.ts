@@ -1,5 +1,5 @@
 import type { MediumPost } from "../../shared/schema";
-import { fetchRSSFeed } from "./rss.js";
+import { estimateReadTime, fetchRSSFeed } from "./rss.js";
 
 /**
  * Extracts Medium username from various URL formats
@@ -38,16 +38,6 @@ export function getMediumRSSUrl(username: string): string {
   return `https://medium.com/feed/@${cleanUsername}`;
 }
 
-/**
- * Estimates reading time from content length (Medium's algorithm approximation)
- * Medium uses ~275 words per minute
- */
-function estimateReadTime(content: string): number {
-  const wordCount = content.split(/\s+/).length;
-  const readTime = Math.ceil(wordCount / 275);
-  return Math.max(1, readTime); // Minimum 1 minute
-}
-
 /**
  * Extracts claps count from Medium post (not available in RSS, returns null)
  * Note: Claps require scraping the actual post page, which we avoid for privacy
@@ -0,0 +1,130 @@
+import crypto from "node:crypto";
+import type { PortfolioFile } from "./portfolio-generator.js";
+
+/**
+ * Deploys portfolios to Netlify through the file digest API: the deploy lists the SHA-1 of
+ * every file, and only files Netlify has not stored before are uploaded. No Git repository
+ * is involved.
+ */
+
+const NETLIFY_API_URL = "https://api.netlify.com/api/v1";
+
+export interface NetlifyDeployment {
+  siteId: string;
+  deployId: string;
+  url: string;
+}
+
+export interface NetlifyDeploymentStatus {
+  ready: boolean;
+  state: string;
+  url: string | null;
+  error: string | null;
+}
+
+async function netlifyRequest<T>(
+  token: string,
+  path: string,
+  init: RequestInit = {},
+): Promise<T | null> {
+  const response = await fetch(`${NETLIFY_API_URL}${path}`, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      ...(typeof init.body === "string" ? { "Content-Type": "application/json" } : {}),
+      ...init.headers,
+    },
+  });
+
+  if (response.status === 404 && (!init.method || init.method === "GET")) {
+    return null;
+  }
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(`Netlify API error: ${data.message || response.statusText}`);
+  }
+
+  return response.json();
+}
+
+function sha1(content: string): string {
+  return crypto.createHash("sha1").update(content).digest("hex");
+}
+
+/**
+ * Site name for a user's portfolio, served at <name>.netlify.app
+ */
+export function getNetlifySiteName(username: string): string {
+  return `${username}-foliolab`.toLowerCase().replace(/[^a-z0-9-]/g, "-");
+}
+
+/**
+ * Finds the portfolio site by its netlify.app domain, creating it on first deploy
+ */
+async function getOrCreateSite(token: string, name: string): Promise<{ id: string }> {
+  const site = await netlifyRequest<{ id: string }>(token, `/sites/${name}.netlify.app`);
+  if (site) return site;
+
+  const created = await netlifyRequest<{ id: string }>(token, "/sites", {
+    method: "POST",
+    body: JSON.stringify({ name }),
+  });
+  return created!;
+}
+
+/**
+ * Uploads the portfolio files as a new production deploy
+ * @param token - Netlify personal access token
+ */
+export async function deployToNetlify(
+  token: string,
+  siteName: string,
+  files: PortfolioFile[],
+): Promise<NetlifyDeployment> {
+  const site = await getOrCreateSite(token, siteName);
+
+  const digests = Object.fromEntries(files.map((file) => [`/${file.path}`, sha1(file.content)]));
+  const deploy = await netlifyRequest<{ id: string; required?: string[] }>(
+    token,
+    `/sites/${site.id}/deploys`,
+    { method: "POST", body: JSON.stringify({ files: digests }) },
+  );
+  if (!deploy) throw new Error("Netlify API error: deploy was not created");
+
+  // Netlify only asks for files whose content it has not stored yet
+  const required = new Set(deploy.required || []);
+  for (const file of files) {
+    if (!required.has(digests[`/${file.path}`])) continue;
+
+    await netlifyRequest(token, `/deploys/${deploy.id}/files/${encodeURI(file.path)}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/octet-stream" },
+      body: Buffer.from(file.content),
+    });
+  }
+
+  return { siteId: site.id, deployId: deploy.id, url: `https://${siteName}.netlify.app` };
+}
+
+/**
+ * Current state of a deploy; "ready" once it is live
+ */
+export async function getNetlifyDeploymentStatus(
+  token: string,
+  deployId: string,
+): Promise<NetlifyDeploymentStatus> {
+  const deploy = await netlifyRequest<{
+    state: string;
+    ssl_url?: string;
+    url?: string;
+    error_message?: string | null;
+  }>(token, `/deploys/${encodeURIComponent(deployId)}`);
+  if (!deploy) throw new Error("Netlify API error: deploy not found");
+
+  return {
+    ready: deploy.state === "ready",
+    state: deploy.state,
+    url: deploy.ssl_url || deploy.url || null,
+    error: deploy.error_message || null,
+  };
+}
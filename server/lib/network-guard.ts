@@ -0,0 +1,145 @@
+import dns from "node:dns";
+import { readFileSync } from "node:fs";
+import http from "node:http";
+import https from "node:https";
+import net from "node:net";
+import tls from "node:tls";
+import type { AxiosRequestConfig } from "axios";
+
+// Check for private / local IP addresses to prevent SSRF
+export const isPrivateIP = (ip: string): boolean => {
+  const cleanIp = ip.replace(/^\[(.*)\]$/, "$1");
+  const ipVersion = net.isIP(cleanIp);
+  if (!ipVersion) return false;
+
+  // IPv4: loopback, private ranges, link-local, unspecified, cloud metadata
+  if (ipVersion === 4) {
+    return /^(127\.|10\.|192\.168\.|172\.(1[6-9]|2[0-9]|3[0-1])\.|169\.254\.|0\.0\.0\.0)/.test(
+      cleanIp,
+    );
+  }
+
+  // IPv6: loopback (::1), unspecified (::), unique-local (fc00::/7),
+  // link-local (fe80::/10), and IPv4-mapped (::ffff:private)
+  const lowerIp = cleanIp.toLowerCase();
+  if (lowerIp === "::1" || lowerIp === "::") return true;
+  if (/^f[cd]/i.test(lowerIp)) return true; // fc00::/7 unique-local
+  if (/^fe[89ab]/i.test(lowerIp)) return true; // fe80::/10 link-local
+  // IPv4-mapped IPv6 (::ffff:10.x.x.x, etc.)
+  const v4Mapped = cleanIp.match(/::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (v4Mapped) return isPrivateIP(v4Mapped[1]);
+
+  return false;
+};
+
+// Custom DNS lookup to prevent DNS rebinding attacks pointing to local IPs
+export const safeLookup = (
+  hostname: string,
+  options: dns.LookupOptions | number,
+  callback: (
+    err: NodeJS.ErrnoException | null,
+    address: string | dns.LookupAddress[],
+    family: number,
+  ) => void,
+) => {
+  dns.lookup(hostname, options as dns.LookupOptions, (err, address, family) => {
+    if (err) return callback(err, address, family);
+
+    const addresses = Array.isArray(address) ? address : [{ address }];
+    for (const addr of addresses) {
+      if (isPrivateIP(addr.address)) {
+        return callback(
+          new Error(`Access to private IP ${addr.address} is blocked`),
+          address,
+          family,
+        );
+      }
+    }
+    callback(err, address, family);
+  });
+};
+
+/**
+ * Hosts the operator allows on private networks, from SELF_HOSTED_ALLOWED_HOSTS
+ * (comma-separated hostnames, e.g. gitlab.internal.example.com)
+ */
+export function getAllowedPrivateHosts(env: NodeJS.ProcessEnv = process.env): string[] {
+  return (env.SELF_HOSTED_ALLOWED_HOSTS || "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Validates a user-provided base URL of a self-hosted instance (GitLab, Bitbucket Data Center, ...)
+ * Only http(s) URLs without credentials, query or fragment are accepted. Private and local
+ * addresses are rejected unless the host is listed in SELF_HOSTED_ALLOWED_HOSTS, and plain
+ * http is only accepted for listed hosts.
+ * @returns The URL without a trailing slash
+ */
+export function normalizeInstanceUrl(
+  baseUrl: string,
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  let url: URL;
+  try {
+    url = new URL(baseUrl.trim());
+  } catch {
+    throw new Error("Instance URL is not a valid URL");
+  }
+
+  const hostname = url.hostname.toLowerCase();
+  const allowed = getAllowedPrivateHosts(env).includes(hostname);
+
+  if (url.protocol !== "https:" && !(url.protocol === "http:" && allowed)) {
+    throw new Error("Instance URL must use https");
+  }
+  if (url.username || url.password || url.search || url.hash) {
+    throw new Error("Instance URL must not contain credentials, a query or a fragment");
+  }
+  if (!allowed && (hostname === "localhost" || hostname.endsWith(".localhost"))) {
+    throw new Error("Direct access to private network is blocked");
+  }
+  if (!allowed && isPrivateIP(hostname)) {
+    throw new Error("Direct access to private network is blocked");
+  }
+
+  return `${url.origin}${url.pathname.replace(/\/+$/, "")}`;
+}
+
+/**
+ * Certificate authorities trusted for self-hosted instances: Node's defaults plus the
+ * PEM bundle in SELF_HOSTED_CA_FILE, for instances behind an internal CA
+ */
+function getCertificateAuthorities(env: NodeJS.ProcessEnv): string[] | undefined {
+  if (!env.SELF_HOSTED_CA_FILE) return undefined;
+  return [...tls.rootCertificates, readFileSync(env.SELF_HOSTED_CA_FILE, "utf8")];
+}
+
+const agents = new Map<string, { httpAgent: http.Agent; httpsAgent: https.Agent }>();
+
+/**
+ * Axios options for calls to a self-hosted instance: DNS answers pointing to private
+ * addresses are blocked (unless the host is allowed), redirects are not followed and
+ * the custom CA bundle is trusted
+ */
+export function getInstanceRequestConfig(
+  baseUrl: string,
+  env: NodeJS.ProcessEnv = process.env,
+): AxiosRequestConfig {
+  const hostname = new URL(baseUrl).hostname.toLowerCase();
+  const allowed = getAllowedPrivateHosts(env).includes(hostname);
+  const key = `${allowed}:${env.SELF_HOSTED_CA_FILE || ""}`;
+
+  let agent = agents.get(key);
+  if (!agent) {
+    const lookup = allowed ? undefined : safeLookup;
+    agent = {
+      httpAgent: new http.Agent({ keepAlive: true, lookup }),
+      httpsAgent: new https.Agent({ keepAlive: true, lookup, ca: getCertificateAuthorities(env) }),
+    };
+    agents.set(key, agent);
+  }
+
+  return { ...agent, maxRedirects: 0 };
+}
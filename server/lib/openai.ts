@@ -1,9 +1,30 @@
-import OpenAI from "openai";
-import { analyzeProjectStructure, generateProjectSummary } from "./project-analyzer.js";
+import type { IntroductionHints, SummaryStyle } from "../../shared/schema.js";
+import { isRepositoryItem } from "../../shared/schema.js";
+import {
+  DEFAULT_SUMMARY_TEMPLATE,
+  getSummaryTone,
+  renderSummaryTemplate,
+  type SummaryTemplateValues,
+} from "../../shared/summary-styles.js";
+import type {
+  LLMCompletionRequest,
+  LLMFacts,
+  LLMProvider,
+  LLMRequestError,
+  LLMTokenHandler,
+} from "./llm/index.js";
+import {
+  analyzeProjectStructure,
+  generateProjectSummary,
+  getProjectStructureVersion,
+} from "./project-analyzer.js";
 import { cleanReadmeContent } from "./readme-cleaner.js";
+import { cacheSummary, getCachedSummary, getSummaryCacheKey } from "./summary-cache.js";
 
 interface RepoSummary {
   summary: string;
+  /** True when the summary was served from the summary cache */
+  cached?: boolean;
 }
 
 interface UserIntroduction {
@@ -22,20 +43,61 @@ const LLM_CONFIG = {
     REPO_SUMMARY: 800, // ~600 words for detailed project description
     USER_INTRO: 600, // ~450 words for professional introduction
   },
-  TIMEOUT: parseInt(process.env.OPENAI_TIMEOUT || "60000", 10),
-  MAX_RETRIES: parseInt(process.env.OPENAI_MAX_RETRIES || "2", 10),
-  DEFAULT_MODEL: process.env.OPENAI_API_MODEL || "gpt-4o",
   README_MAX_LENGTH: 2000, // Maximum README characters to send to LLM
 } as const;
 
 const DEFAULT_PROMPT =
   "Generate a comprehensive yet readable project summary for a developer portfolio. The summary should be 200-300 words, providing enough detail to showcase the project's purpose, technical approach, and impact without being overwhelming. Focus on what makes this project interesting and valuable, highlighting technical challenges solved, technologies used effectively, and potential impact. Write in a professional tone that demonstrates the developer's capabilities and technical expertise.";
 const JSON_FORMAT_SUFFIX = "Respond with JSON in this format: { 'summary': string }";
+const TEXT_FORMAT_SUFFIX = "Respond with the summary text only, without a title or preamble.";
 const _USER_INTRO_PROMPT =
   "Based on the repository information, generate a compelling professional introduction for a developer portfolio. The introduction should be 150-200 words, showcasing the developer's expertise, technical journey, and what drives their work. Highlight their strongest technical skills, preferred technologies, and areas of specialization. Make it personal yet professional, demonstrating both technical competence and passion for development. Include 8-12 primary skills and 4-6 areas of interest that reflect their technical focus and career direction.";
 const USER_INTRO_FORMAT =
   "Respond with JSON in this format: { 'introduction': string, 'skills': string[], 'interests': string[] }";
 
+const CUSTOM_TEMPLATE_SYSTEM_PROMPT =
+  "You write summaries for a developer portfolio. Follow the user's instructions and write only the summary.";
+
+/**
+ * Appends the target length and language of a summary style to a prompt
+ */
+function applyStyleOptions(prompt: string, style?: SummaryStyle, subject = "summary"): string {
+  const parts = [prompt];
+  if (style?.targetWords) {
+    parts.push(
+      `Aim for about ${style.targetWords} words, regardless of any length mentioned above.`,
+    );
+  }
+  if (style?.language) {
+    parts.push(`Write the ${subject} in ${style.language}.`);
+  }
+  return parts.join("\n\n");
+}
+
+/**
+ * Builds the system prompt and, for custom templates, the user message for a summary.
+ * A plain string is a caller-supplied prompt; a style selects a tone preset or template.
+ */
+function getSummaryPrompts(
+  defaultPrompt: string,
+  customPrompt: string | SummaryStyle | undefined,
+  context: string,
+): { system: string; template: string | null } {
+  if (typeof customPrompt !== "object") {
+    return { system: `${customPrompt || defaultPrompt}${context}`, template: null };
+  }
+
+  if (customPrompt.tone === "custom") {
+    return {
+      system: applyStyleOptions(CUSTOM_TEMPLATE_SYSTEM_PROMPT, customPrompt),
+      template: customPrompt.template?.trim() || DEFAULT_SUMMARY_TEMPLATE,
+    };
+  }
+
+  const instructions = getSummaryTone(customPrompt.tone).instructions || defaultPrompt;
+  return { system: applyStyleOptions(`${instructions}${context}`, customPrompt), template: null };
+}
+
 /**
  * Intelligently truncates text at natural boundaries
  * Tries to break at paragraphs, then sentences, then words
@@ -72,88 +134,94 @@ function intelligentTruncate(text: string, maxLength: number): string {
 }
 
 /**
- * Singleton OpenAI client instance
- * Reused across requests for better performance
+ * Parses a JSON object from an LLM response
+ * Providers without a JSON mode may wrap the object in prose or code fences
  */
-let openaiClient: OpenAI | null = null;
+function parseJsonResponse<T>(content: string): T {
+  try {
+    return JSON.parse(content) as T;
+  } catch (parseError) {
+    const start = content.indexOf("{");
+    const end = content.lastIndexOf("}");
+    if (start !== -1 && end > start) {
+      try {
+        return JSON.parse(content.slice(start, end + 1)) as T;
+      } catch {
+        // Fall through to report the original error
+      }
+    }
+
+    console.error("Failed to parse JSON response:", parseError);
+    console.error("Raw content:", content);
+    throw new Error(
+      `Failed to parse JSON response: ${parseError instanceof Error ? parseError.message : String(parseError)}`,
+    );
+  }
+}
 
 /**
- * Gets or creates an OpenAI client instance
- * Uses singleton pattern to avoid recreating the client on every request
- *
- * @param apiKey - OpenAI API key
- * @returns OpenAI client instance
+ * Adds context to a provider error while keeping its HTTP status and Retry-After delay,
+ * so callers can still recognise rate limiting
  */
-function getOpenAIClient(apiKey: string): OpenAI {
-  if (!openaiClient) {
-    openaiClient = new OpenAI({
-      apiKey,
-      timeout: LLM_CONFIG.TIMEOUT,
-      maxRetries: LLM_CONFIG.MAX_RETRIES,
-      ...(process.env.OPENAI_API_BASE_URL && { baseURL: process.env.OPENAI_API_BASE_URL }),
-    });
-
-    console.log("✓ OpenAI client initialized");
+function wrapError(message: string, error: unknown): LLMRequestError {
+  const wrapped = new Error(message) as LLMRequestError;
+  if (error && typeof error === "object") {
+    const { status, retryAfterMs } = error as LLMRequestError;
+    wrapped.status = status;
+    wrapped.retryAfterMs = retryAfterMs;
   }
-
-  return openaiClient;
+  return wrapped;
 }
 
-async function generateWithOpenAI(
-  prompt: string,
-  userContent: string,
-  apiKey: string,
-): Promise<RepoSummary> {
+async function generateJson<T>(
+  provider: LLMProvider,
+  request: Omit<LLMCompletionRequest, "json" | "temperature">,
+): Promise<T> {
   try {
-    const openai = getOpenAIClient(apiKey);
-
-    const response = await openai.chat.completions.create({
-      model: LLM_CONFIG.DEFAULT_MODEL,
-      messages: [
-        {
-          role: "system",
-          content: prompt,
-        },
-        {
-          role: "user",
-          content: userContent,
-        },
-      ],
-      response_format: { type: "json_object" },
+    const content = await provider.complete({
+      ...request,
+      json: true,
       temperature: LLM_CONFIG.TEMPERATURE,
-      max_tokens: LLM_CONFIG.MAX_TOKENS.REPO_SUMMARY,
     });
+    return parseJsonResponse<T>(content);
+  } catch (error) {
+    console.error(`Error generating ${request.task} with ${provider.id}:`, error);
+    throw error;
+  }
+}
 
-    // Check if response structure is valid
-    if (!response?.choices || !Array.isArray(response.choices) || response.choices.length === 0) {
-      console.error("Invalid response structure:", response);
-      throw new Error("Invalid response structure from LLM API");
-    }
-
-    const choice = response.choices[0];
-    if (!choice?.message) {
-      console.error("Invalid choice structure:", choice);
-      throw new Error("Invalid choice structure in LLM response");
-    }
-
-    const content = choice.message.content;
-    if (!content) {
-      console.error("No content in message:", choice.message);
-      throw new Error("No content in LLM response message");
-    }
+/**
+ * Generates a { summary } result, streaming it through onToken when requested.
+ * Streaming providers are asked for plain text so tokens can be shown as they arrive;
+ * other providers answer in JSON and the finished summary is sent as a single token.
+ */
+async function generateSummary(
+  provider: LLMProvider,
+  request: Omit<LLMCompletionRequest, "json" | "temperature">,
+  onToken?: LLMTokenHandler,
+): Promise<RepoSummary> {
+  if (!onToken || !provider.stream) {
+    const result = await generateJson<RepoSummary>(provider, {
+      ...request,
+      system: `${request.system}\n\n${JSON_FORMAT_SUFFIX}`,
+    });
+    onToken?.(result.summary);
+    return result;
+  }
 
-    try {
-      const parsed = JSON.parse(content) as RepoSummary;
-      return parsed;
-    } catch (parseError) {
-      console.error("Failed to parse JSON response:", parseError);
-      console.error("Raw content:", content);
-      throw new Error(
-        `Failed to parse JSON response: ${parseError instanceof Error ? parseError.message : String(parseError)}`,
-      );
-    }
+  try {
+    const summary = await provider.stream(
+      {
+        ...request,
+        system: `${request.system}\n\n${TEXT_FORMAT_SUFFIX}`,
+        json: false,
+        temperature: LLM_CONFIG.TEMPERATURE,
+      },
+      onToken,
+    );
+    return { summary: summary.trim() };
   } catch (error) {
-    console.error("Error in generateWithOpenAI:", error);
+    console.error(`Error streaming ${request.task} with ${provider.id}:`, error);
     throw error;
   }
 }
@@ -162,8 +230,8 @@ async function generateRepoSummary(
   name: string,
   description: string,
   readme: string,
-  apiKey: string,
-  customPrompt?: string,
+  provider: LLMProvider,
+  customPrompt?: string | SummaryStyle,
   metadata?: {
     language: string | null;
     topics: string[];
@@ -172,6 +240,8 @@ async function generateRepoSummary(
   },
   accessToken?: string,
   owner?: string,
+  onToken?: LLMTokenHandler,
+  signal?: AbortSignal,
 ): Promise<RepoSummary> {
   try {
     // Build enhanced context with metadata
@@ -199,18 +269,78 @@ async function generateRepoSummary(
       }
     }
 
+    const facts: Extract<LLMFacts, { kind: "repository" }> = {
+      kind: "repository",
+      name,
+      description,
+      language: metadata?.language || null,
+      topics: metadata?.topics || [],
+      techStack: [],
+      projectSummary: null,
+      readme: null,
+    };
+
+    const { system: prompt, template } = getSummaryPrompts(
+      DEFAULT_PROMPT,
+      customPrompt,
+      `
+    
+Additional context: This summary will be displayed in a developer portfolio to showcase technical skills and project impact. Focus on:
+- Technical challenges solved and approaches used
+- Technologies and frameworks utilized effectively
+- Project outcomes and potential impact
+- Code quality and development practices demonstrated`,
+    );
+
+    // Clean the README content to remove badges and noise
+    const hasReadme = !!readme?.trim();
+    const cleanedReadme = hasReadme ? cleanReadmeContent(readme) : "";
+
+    // Offline providers describe the project from its structure even when a README exists,
+    // as do custom templates that ask for the tech stack
+    const needsStructure =
+      !hasReadme || !provider.capabilities.generative || !!template?.includes("{techStack}");
+
+    // Unchanged repositories are answered from the cache without calling the provider.
+    // The owner is part of the key because summaries may describe private project structure,
+    // and the latest commit because that structure changes with the code.
+    const cacheKey = getSummaryCacheKey({
+      task: "repo_summary",
+      name,
+      owner,
+      description,
+      metadata,
+      readme: cleanedReadme,
+      structure:
+        needsStructure && accessToken && owner
+          ? await getProjectStructureVersion(accessToken, owner, name)
+          : null,
+      prompt,
+      template,
+      provider: provider.id,
+      model: provider.model,
+    });
+    const cachedSummary = await getCachedSummary(cacheKey);
+    if (cachedSummary !== undefined) {
+      onToken?.(cachedSummary);
+      return { summary: cachedSummary, cached: true };
+    }
+
     // Handle README content or fallback to project structure analysis
-    if (readme?.trim()) {
-      // Clean the README content to remove badges and noise
-      const cleanedReadme = cleanReadmeContent(readme);
+    if (hasReadme) {
       const trimmedReadme = intelligentTruncate(cleanedReadme, LLM_CONFIG.README_MAX_LENGTH);
 
       userContentParts.push(`README:\n${trimmedReadme}`);
-    } else if (accessToken && owner) {
+      facts.readme = trimmedReadme;
+    }
+
+    if (needsStructure && accessToken && owner) {
       try {
         // Analyze project structure when README is not available
         const projectStructure = await analyzeProjectStructure(accessToken, owner, name);
         const structureSummary = generateProjectSummary(projectStructure);
+        facts.projectSummary = structureSummary;
+        facts.techStack = projectStructure.techStack;
 
         userContentParts.push(`Project Structure Analysis:\n${structureSummary}`);
 
@@ -249,31 +379,45 @@ async function generateRepoSummary(
         }
       } catch (error) {
         console.warn("Failed to analyze project structure:", error);
-        userContentParts.push(
-          `Note: No README available and project structure analysis failed. Analysis based on repository metadata only.`,
-        );
+        if (!hasReadme) {
+          userContentParts.push(
+            `Note: No README available and project structure analysis failed. Analysis based on repository metadata only.`,
+          );
+        }
       }
-    } else {
+    } else if (!hasReadme) {
       userContentParts.push(
         `Note: No README available. Analysis based on repository metadata only.`,
       );
     }
 
-    const userContent = userContentParts.join("\n");
-
-    const prompt = `${customPrompt || DEFAULT_PROMPT}
-    
-Additional context: This summary will be displayed in a developer portfolio to showcase technical skills and project impact. Focus on:
-- Technical challenges solved and approaches used
-- Technologies and frameworks utilized effectively
-- Project outcomes and potential impact
-- Code quality and development practices demonstrated
-
-${JSON_FORMAT_SUFFIX}`;
+    const userContent = template
+      ? renderSummaryTemplate(template, {
+          name,
+          description,
+          language: metadata?.language || "",
+          topics: metadata?.topics?.join(", "),
+          techStack: facts.techStack.join(", "),
+          readme: facts.readme || "",
+          url: metadata?.url || "",
+        })
+      : userContentParts.join("\n");
 
     try {
-      const result = await generateWithOpenAI(prompt, userContent, apiKey);
-      return result;
+      const result = await generateSummary(
+        provider,
+        {
+          task: "repo_summary",
+          system: prompt,
+          user: userContent,
+          maxTokens: LLM_CONFIG.MAX_TOKENS.REPO_SUMMARY,
+          facts,
+          signal,
+        },
+        onToken,
+      );
+      await cacheSummary(cacheKey, result.summary);
+      return { ...result, cached: false };
     } catch (llmError) {
       console.error("LLM generation error:", llmError);
       throw llmError;
@@ -282,13 +426,51 @@ ${JSON_FORMAT_SUFFIX}`;
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.error("Failed to generate summary:", errorMessage);
     console.error("Error stack:", error instanceof Error ? error.stack : "No stack trace");
-    throw new Error(`Failed to generate summary: ${errorMessage}`);
+    throw wrapError(`Failed to generate summary: ${errorMessage}`, error);
+  }
+}
+
+/**
+ * Tone and language instructions for the introduction, matching the portfolio's summary style
+ */
+function getIntroductionStyle(style?: SummaryStyle): string {
+  if (!style) return "";
+
+  const tone = getSummaryTone(style.tone);
+  const toneInstruction = tone.instructions
+    ? `Match this tone: ${tone.label.toLowerCase()} (${tone.description.toLowerCase()}).`
+    : "";
+  const options = applyStyleOptions(
+    toneInstruction,
+    { ...style, targetWords: undefined },
+    "introduction",
+  );
+  return options.trim() ? `${options.trim()}\n\n` : "";
+}
+
+/**
+ * Self-reported profile details for the introduction prompt, such as a LinkedIn headline
+ */
+function getIntroductionHints(hints?: IntroductionHints): string {
+  const interests = hints?.interests || [];
+  if (!hints || (!hints.headline && hints.skills.length === 0 && interests.length === 0)) {
+    return "";
   }
+
+  const lines = [
+    "Self-reported profile (prefer these skills and interests when the portfolio supports them):",
+  ];
+  if (hints.headline) lines.push(`Headline: ${hints.headline}`);
+  if (hints.skills.length > 0) lines.push(`Skills: ${hints.skills.join(", ")}`);
+  if (interests.length > 0) lines.push(`Interests: ${interests.join(", ")}`);
+  return `\n\n${lines.join("\n")}`;
 }
 
 async function generateUserIntroduction(
   items: Array<any>,
-  apiKey: string,
+  provider: LLMProvider,
+  style?: SummaryStyle,
+  hints?: IntroductionHints,
 ): Promise<UserIntroduction> {
   try {
     // Extract information from all portfolio items
@@ -299,10 +481,17 @@ async function generateUserIntroduction(
         summary: item.summary,
       };
 
-      if (item.source === "github" || item.source === "gitlab" || item.source === "bitbucket") {
+      if (isRepositoryItem(item)) {
         baseInfo.description = item.description;
         baseInfo.language = item.metadata?.language;
         baseInfo.topics = item.metadata?.topics;
+        if (item.metadata?.packages?.length) {
+          baseInfo.packages = item.metadata.packages.map((stats: any) => ({
+            registry: stats.registry,
+            name: stats.name,
+            weeklyDownloads: stats.weeklyDownloads,
+          }));
+        }
       } else if (item.source === "blog_rss" || item.source === "medium") {
         baseInfo.description = item.description;
         baseInfo.tags = item.tags;
@@ -311,6 +500,24 @@ async function generateUserIntroduction(
         baseInfo.contentType = item.contentType;
         baseInfo.tags = item.tags;
         baseInfo.description = item.description;
+      } else if (item.source === "contribution") {
+        baseInfo.description = `${item.pullRequestCount} merged pull requests to ${item.title}, e.g. "${item.representativePullRequest?.title}"`;
+        baseInfo.language = item.language;
+        baseInfo.topics = item.tags;
+      } else if (item.source === "gist") {
+        baseInfo.description = item.description || item.mainFile;
+        baseInfo.language = item.languages?.[0];
+        baseInfo.topics = item.tags;
+      } else if (item.source === "talk") {
+        baseInfo.description = item.description?.slice(0, 500);
+        baseInfo.event = item.event;
+        baseInfo.tags = item.tags;
+      } else if (item.source === "publication") {
+        baseInfo.description = item.abstract?.slice(0, 500);
+        baseInfo.venue = item.venue;
+        baseInfo.tags = item.tags;
+      } else if (item.source === "linkedin") {
+        baseInfo.description = item.content?.slice(0, 500);
       }
 
       return baseInfo;
@@ -318,60 +525,21 @@ async function generateUserIntroduction(
 
     const prompt = `Based on the portfolio items (including repositories, blog posts, articles, and projects), generate a compelling professional introduction for a developer portfolio. The introduction should be 150-200 words, showcasing the developer's expertise, technical journey, and what drives their work. Highlight their strongest technical skills, preferred technologies, and areas of specialization based on ALL their work including code repositories, technical writing, and projects. Make it personal yet professional, demonstrating both technical competence and passion for development. Include 8-12 primary skills and 4-6 areas of interest that reflect their technical focus and career direction across all their portfolio items.
 
-${USER_INTRO_FORMAT}`;
-    const userContent = JSON.stringify(portfolioInfo, null, 2);
-
-    const openai = getOpenAIClient(apiKey);
+${getIntroductionStyle(style)}${USER_INTRO_FORMAT}`;
+    const userContent = `${JSON.stringify(portfolioInfo, null, 2)}${getIntroductionHints(hints)}`;
 
-    const response = await openai.chat.completions.create({
-      model: LLM_CONFIG.DEFAULT_MODEL,
-      messages: [
-        {
-          role: "system",
-          content: prompt,
-        },
-        {
-          role: "user",
-          content: userContent,
-        },
-      ],
-      response_format: { type: "json_object" },
-      temperature: LLM_CONFIG.TEMPERATURE,
-      max_tokens: LLM_CONFIG.MAX_TOKENS.USER_INTRO,
+    return await generateJson<UserIntroduction>(provider, {
+      task: "user_introduction",
+      system: prompt,
+      user: userContent,
+      maxTokens: LLM_CONFIG.MAX_TOKENS.USER_INTRO,
+      facts: { kind: "introduction", items: portfolioInfo, hints },
     });
-
-    // Check if response structure is valid
-    if (!response?.choices || !Array.isArray(response.choices) || response.choices.length === 0) {
-      console.error("Invalid response structure:", response);
-      throw new Error("Invalid response structure from LLM API");
-    }
-
-    const choice = response.choices[0];
-    if (!choice?.message) {
-      console.error("Invalid choice structure:", choice);
-      throw new Error("Invalid choice structure in LLM response");
-    }
-
-    const content = choice.message.content;
-    if (!content) {
-      console.error("No content in message:", choice.message);
-      throw new Error("No content in LLM response message");
-    }
-
-    try {
-      const parsed = JSON.parse(content) as UserIntroduction;
-      return parsed;
-    } catch (parseError) {
-      console.error("Failed to parse JSON response:", parseError);
-      console.error("Raw content:", content);
-      throw new Error(
-        `Failed to parse JSON response: ${parseError instanceof Error ? parseError.message : String(parseError)}`,
-      );
-    }
   } catch (error) {
     console.error("Failed to generate user introduction:", error);
-    throw new Error(
+    throw wrapError(
       `Failed to generate user introduction: ${error instanceof Error ? error.message : String(error)}`,
+      error,
     );
   }
 }
@@ -379,14 +547,24 @@ ${USER_INTRO_FORMAT}`;
 async function generateContentSummary(
   title: string,
   content: string,
-  contentType: "blog_post" | "medium_post" | "freeform",
-  apiKey: string,
+  contentType:
+    | "blog_post"
+    | "medium_post"
+    | "publication"
+    | "contribution"
+    | "gist"
+    | "talk"
+    | "freeform",
+  provider: LLMProvider,
   metadata?: {
     author?: string | null;
     publishedAt?: string;
     tags?: string[];
     url?: string;
   },
+  onToken?: LLMTokenHandler,
+  style?: SummaryStyle,
+  signal?: AbortSignal,
 ): Promise<RepoSummary> {
   try {
     let userContent = `Title: ${title}`;
@@ -418,18 +596,77 @@ async function generateContentSummary(
         ? "blog post"
         : contentType === "medium_post"
           ? "Medium article"
-          : "portfolio content";
-
-    const prompt = `Generate a compelling summary for this ${contentTypeLabel} for a developer portfolio. The summary should be 150-250 words, highlighting the key insights, technical concepts, or achievements discussed. Make it engaging and showcase the author's expertise and thought process. Focus on what makes this content valuable and what readers will learn or gain from it.
+          : contentType === "publication"
+            ? "research publication"
+            : contentType === "contribution"
+              ? "open source contribution"
+              : contentType === "gist"
+                ? "code snippet shared as a GitHub Gist"
+                : contentType === "talk"
+                  ? "conference talk"
+                  : "portfolio content";
+    // Contributions are about the author's pull requests, not the upstream project
+    const focus =
+      contentType === "contribution"
+        ? " Describe what the author contributed to the project and the impact of those changes. Mention the project itself only as context; do not summarize it."
+        : contentType === "gist"
+          ? " Explain what the code does, how it works and when it is useful."
+          : "";
+
+    const templateValues: SummaryTemplateValues = {
+      name: title,
+      description: `A ${contentTypeLabel}`,
+      topics: metadata?.tags?.join(", "),
+      readme: trimmedContent,
+      url: metadata?.url,
+    };
+    const { system: prompt, template } = getSummaryPrompts(
+      `Generate a compelling summary for this ${contentTypeLabel} for a developer portfolio. The summary should be 150-250 words, highlighting the key insights, technical concepts, or achievements discussed. Make it engaging and showcase the author's expertise and thought process. Focus on what makes this content valuable and what readers will learn or gain from it.${focus}`,
+      style,
+      "",
+    );
 
-${JSON_FORMAT_SUFFIX}`;
+    const cacheKey = getSummaryCacheKey({
+      task: "content_summary",
+      title,
+      content,
+      contentType,
+      metadata,
+      prompt,
+      template,
+      provider: provider.id,
+      model: provider.model,
+    });
+    const cachedSummary = await getCachedSummary(cacheKey);
+    if (cachedSummary !== undefined) {
+      onToken?.(cachedSummary);
+      return { summary: cachedSummary, cached: true };
+    }
 
-    const result = await generateWithOpenAI(prompt, userContent, apiKey);
-    return result;
+    const result = await generateSummary(
+      provider,
+      {
+        task: "content_summary",
+        system: prompt,
+        user: template ? renderSummaryTemplate(template, templateValues) : userContent,
+        maxTokens: LLM_CONFIG.MAX_TOKENS.REPO_SUMMARY,
+        facts: {
+          kind: "content",
+          title,
+          contentLabel: contentTypeLabel,
+          content: trimmedContent,
+          tags: metadata?.tags || [],
+        },
+        signal,
+      },
+      onToken,
+    );
+    await cacheSummary(cacheKey, result.summary);
+    return { ...result, cached: false };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.error("Failed to generate content summary:", errorMessage);
-    throw new Error(`Failed to generate content summary: ${errorMessage}`);
+    throw wrapError(`Failed to generate content summary: ${errorMessage}`, error);
   }
 }
 
@@ -0,0 +1,303 @@
+import type { PackageRegistry, PackageStats, RepositoryItem } from "../../shared/schema.js";
+import { isRepositoryItem } from "../../shared/schema.js";
+import { analyzeProjectStructure, type PackageInfo } from "./project-analyzer.js";
+
+/**
+ * Detects repositories that are published to npm, PyPI or crates.io and collects their
+ * latest version, weekly downloads and dependents count. A package only counts when its
+ * registry entry links back to the repository, so a repo that merely shares a name with a
+ * popular package gets no stats.
+ */
+
+export interface PackageCandidate {
+  registry: PackageRegistry;
+  name: string;
+}
+
+interface RegistryPackage {
+  version: string | null;
+  repositoryUrls: string[];
+}
+
+// npm, PyPI and crates.io names, optionally npm-scoped; anything else is not looked up
+const PACKAGE_NAME_REGEX = /^(@[\w.~-]+\/)?[\w.~-]+$/;
+
+const REGISTRY_TIMEOUT_MS = 10_000;
+const BATCH_SIZE = 5;
+export const MAX_PACKAGE_STATS_REPOSITORIES = 50;
+
+// Registries to try by primary language when the manifests could not be read
+const LANGUAGE_REGISTRIES: Record<string, PackageRegistry> = {
+  JavaScript: "npm",
+  TypeScript: "npm",
+  Python: "pypi",
+  Rust: "crates",
+};
+
+const MANIFEST_REGISTRIES: Partial<Record<PackageInfo["type"], PackageRegistry>> = {
+  "package.json": "npm",
+  "pyproject.toml": "pypi",
+  "Cargo.toml": "crates",
+};
+
+// System names used by deps.dev
+const DEPS_DEV_SYSTEMS: Record<PackageRegistry, string> = {
+  npm: "npm",
+  pypi: "pypi",
+  crates: "cargo",
+};
+
+/**
+ * Page of the package on its registry
+ */
+export function getPackageUrl(registry: PackageRegistry, name: string): string {
+  switch (registry) {
+    case "npm":
+      return `https://www.npmjs.com/package/${name}`;
+    case "pypi":
+      return `https://pypi.org/project/${name}/`;
+    case "crates":
+      return `https://crates.io/crates/${name}`;
+  }
+}
+
+/**
+ * Reduces a repository URL to host/path for comparison, e.g.
+ * "git+ssh://git@github.com/Owner/Repo.git" becomes "github.com/owner/repo".
+ * npm shorthands ("owner/repo", "github:owner/repo") resolve to github.com.
+ */
+export function normalizeRepositoryUrl(url: string): string {
+  let value = url.trim().toLowerCase();
+
+  const shorthand = value.match(/^(?:(github|gitlab|bitbucket):)?([\w.-]+\/[\w.-]+)$/);
+  if (shorthand) {
+    const host = shorthand[1] === "bitbucket" ? "bitbucket.org" : `${shorthand[1] || "github"}.com`;
+    value = `${host}/${shorthand[2]}`;
+  }
+
+  return value
+    .replace(/^git\+/, "")
+    .replace(/^[a-z]+:\/\//, "")
+    .replace(/^[^@/]+@([^:/]+):/, "$1/") // scp-like git@host:owner/repo
+    .replace(/^[^@/]+@/, "")
+    .replace(/^www\./, "")
+    .replace(/[?#].*$/, "")
+    .replace(/\/+$/, "")
+    .replace(/\.git$/, "");
+}
+
+/**
+ * Whether a registry's repository link points at the repository, or into it for monorepos
+ */
+function linksToRepository(registryUrl: string, repositoryUrl: string): boolean {
+  const registry = normalizeRepositoryUrl(registryUrl);
+  const repository = normalizeRepositoryUrl(repositoryUrl);
+  return registry === repository || registry.startsWith(`${repository}/`);
+}
+
+/**
+ * Packages the repository may be published as: the names declared in its manifests,
+ * or the repository name on the registry of its language when no manifest was read
+ */
+export function getPackageCandidates(
+  repo: RepositoryItem,
+  packageFiles: PackageInfo[],
+): PackageCandidate[] {
+  const candidates: PackageCandidate[] = [];
+
+  for (const file of packageFiles) {
+    const registry = MANIFEST_REGISTRIES[file.type];
+    if (registry && file.packageName && !file.private) {
+      candidates.push({ registry, name: file.packageName });
+    }
+  }
+
+  if (candidates.length === 0 && packageFiles.length === 0) {
+    const registry = repo.metadata.language ? LANGUAGE_REGISTRIES[repo.metadata.language] : null;
+    if (registry) {
+      candidates.push({ registry, name: repo.name.toLowerCase() });
+    }
+  }
+
+  return candidates.filter((candidate) => PACKAGE_NAME_REGEX.test(candidate.name));
+}
+
+async function fetchJson(url: string): Promise<any | null> {
+  const response = await fetch(url, {
+    headers: {
+      Accept: "application/json",
+      // crates.io rejects requests without a User-Agent
+      "User-Agent": "FolioLab/1.0.0",
+    },
+    signal: AbortSignal.timeout(REGISTRY_TIMEOUT_MS),
+  });
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`${new URL(url).hostname} returned ${response.status}`);
+  }
+  return response.json();
+}
+
+function getRepositoryField(repository: unknown): string | null {
+  if (typeof repository === "string") return repository;
+  if (repository && typeof repository === "object" && "url" in repository) {
+    return typeof repository.url === "string" ? repository.url : null;
+  }
+  return null;
+}
+
+async function getRegistryPackage(candidate: PackageCandidate): Promise<RegistryPackage | null> {
+  const { registry, name } = candidate;
+
+  if (registry === "npm") {
+    const data = await fetchJson(`https://registry.npmjs.org/${name.replace("/", "%2F")}/latest`);
+    if (!data) return null;
+    return {
+      version: data.version || null,
+      repositoryUrls: [getRepositoryField(data.repository), data.homepage].filter(Boolean),
+    };
+  }
+
+  if (registry === "pypi") {
+    const data = await fetchJson(`https://pypi.org/pypi/${encodeURIComponent(name)}/json`);
+    if (!data?.info) return null;
+    return {
+      version: data.info.version || null,
+      repositoryUrls: [
+        ...Object.values<string>(data.info.project_urls || {}),
+        data.info.home_page,
+      ].filter((url) => typeof url === "string" && url !== ""),
+    };
+  }
+
+  const data = await fetchJson(`https://crates.io/api/v1/crates/${encodeURIComponent(name)}`);
+  if (!data?.crate) return null;
+  return {
+    version: data.crate.max_stable_version || data.crate.newest_version || null,
+    repositoryUrls: [data.crate.repository, data.crate.homepage].filter(Boolean),
+  };
+}
+
+/**
+ * Downloads over the last seven days
+ */
+async function getWeeklyDownloads(candidate: PackageCandidate): Promise<number | null> {
+  const { registry, name } = candidate;
+
+  if (registry === "npm") {
+    const data = await fetchJson(`https://api.npmjs.org/downloads/point/last-week/${name}`);
+    return typeof data?.downloads === "number" ? data.downloads : null;
+  }
+
+  if (registry === "pypi") {
+    const data = await fetchJson(
+      `https://pypistats.org/api/packages/${encodeURIComponent(name.toLowerCase())}/recent?period=week`,
+    );
+    return typeof data?.data?.last_week === "number" ? data.data.last_week : null;
+  }
+
+  // crates.io only reports daily downloads per version over the last 90 days
+  const data = await fetchJson(
+    `https://crates.io/api/v1/crates/${encodeURIComponent(name)}/downloads`,
+  );
+  if (!data) return null;
+
+  const since = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const days = [...(data.version_downloads || []), ...(data.meta?.extra_downloads || [])];
+  return days
+    .filter((day: { date: string }) => day.date > since)
+    .reduce((total: number, day: { downloads: number }) => total + (day.downloads || 0), 0);
+}
+
+/**
+ * Number of packages depending on this version, direct or indirect, according to deps.dev
+ */
+async function getDependentsCount(
+  candidate: PackageCandidate,
+  version: string | null,
+): Promise<number | null> {
+  if (!version) return null;
+
+  const system = DEPS_DEV_SYSTEMS[candidate.registry];
+  const data = await fetchJson(
+    `https://api.deps.dev/v3alpha/systems/${system}/packages/${encodeURIComponent(candidate.name)}/versions/${encodeURIComponent(version)}:dependents`,
+  );
+  return typeof data?.dependentCount === "number" ? data.dependentCount : null;
+}
+
+/**
+ * Looks up a package and returns its stats when it is published from the repository
+ * Download and dependents counts are optional extras; their failures leave them null.
+ */
+export async function getPackageStats(
+  candidate: PackageCandidate,
+  repositoryUrl: string,
+): Promise<PackageStats | null> {
+  const registryPackage = await getRegistryPackage(candidate);
+  if (!registryPackage?.repositoryUrls.some((url) => linksToRepository(url, repositoryUrl))) {
+    return null;
+  }
+
+  const [weeklyDownloads, dependents] = await Promise.all([
+    getWeeklyDownloads(candidate).catch(() => null),
+    getDependentsCount(candidate, registryPackage.version).catch(() => null),
+  ]);
+
+  return {
+    registry: candidate.registry,
+    name: candidate.name,
+    version: registryPackage.version,
+    weeklyDownloads,
+    dependents,
+    url: getPackageUrl(candidate.registry, candidate.name),
+  };
+}
+
+/**
+ * Collects registry stats for the repositories in a portfolio.
+ * GitHub manifests are read with the access token; other repositories are matched by
+ * name. Failures never abort the lookup.
+ * Privacy: Only public registry APIs are queried, nothing is stored
+ * @returns Published packages keyed by item id, empty for repositories that are not published
+ */
+export async function collectPackageStats(
+  accessToken: string | null | undefined,
+  items: RepositoryItem[],
+): Promise<Record<string, PackageStats[]>> {
+  const stats: Record<string, PackageStats[]> = {};
+  const repositories = (items || [])
+    .filter((item) => item && isRepositoryItem(item))
+    .slice(0, MAX_PACKAGE_STATS_REPOSITORIES);
+
+  for (let i = 0; i < repositories.length; i += BATCH_SIZE) {
+    const batch = repositories.slice(i, i + BATCH_SIZE);
+
+    await Promise.all(
+      batch.map(async (repo) => {
+        stats[String(repo.id)] = [];
+        try {
+          const packageFiles =
+            repo.source === "github" && accessToken
+              ? (await analyzeProjectStructure(accessToken, repo.owner.login, repo.name))
+                  .packageFiles
+              : [];
+
+          const packages = await Promise.all(
+            getPackageCandidates(repo, packageFiles).map((candidate) =>
+              getPackageStats(candidate, repo.url).catch((error) => {
+                console.warn(`Failed to look up ${candidate.registry} package:`, error);
+                return null;
+              }),
+            ),
+          );
+          stats[String(repo.id)] = packages.filter((stat): stat is PackageStats => stat !== null);
+        } catch (error) {
+          console.warn(`Failed to collect package stats for ${repo.name}:`, error);
+        }
+      }),
+    );
+  }
+
+  return stats;
+}
@@ -0,0 +1,173 @@
+import JSZip from "jszip";
+import { PORTFOLIO_CSS } from "./portfolio-css.js";
+import {
+  getPortfolioContentSecurityPolicy,
+  type PortfolioAssets,
+  type PortfolioFile,
+} from "./portfolio-generator.js";
+
+export const BUNDLE_ASSETS: Required<PortfolioAssets> = {
+  stylesheet: "assets/portfolio.css",
+  favicon: "assets/favicon.svg",
+};
+
+// Avatars are only downloaded from known image hosts to avoid fetching arbitrary URLs server-side
+const AVATAR_HOSTS = [
+  "avatars.githubusercontent.com",
+  "secure.gravatar.com",
+  "www.gravatar.com",
+  "gitlab.com",
+  "media.licdn.com",
+];
+const AVATAR_MAX_BYTES = 2 * 1024 * 1024;
+const AVATAR_TIMEOUT_MS = 10_000;
+const AVATAR_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+};
+
+export interface BundleAvatar {
+  path: string;
+  data: Buffer;
+}
+
+/**
+ * Downloads the user's avatar so the bundle works without hotlinking.
+ * @returns null when the URL is not an allowed https image host or the download fails
+ */
+export async function fetchAvatar(
+  avatarUrl: string | null | undefined,
+): Promise<BundleAvatar | null> {
+  if (!avatarUrl) return null;
+
+  let url: URL;
+  try {
+    url = new URL(avatarUrl);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== "https:" || !AVATAR_HOSTS.includes(url.hostname)) {
+    return null;
+  }
+
+  try {
+    const response = await fetch(url, {
+      redirect: "error",
+      signal: AbortSignal.timeout(AVATAR_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const contentType = (response.headers.get("content-type") || "").split(";")[0].trim();
+    const extension = AVATAR_EXTENSIONS[contentType.toLowerCase()];
+    if (!extension) {
+      throw new Error(`Unsupported content type ${contentType || "(none)"}`);
+    }
+
+    const data = Buffer.from(await response.arrayBuffer());
+    if (data.length > AVATAR_MAX_BYTES) {
+      throw new Error(`Avatar exceeds ${AVATAR_MAX_BYTES} bytes`);
+    }
+
+    return { path: `avatar.${extension}`, data };
+  } catch (error) {
+    console.warn("Could not download avatar for bundle:", error);
+    return null;
+  }
+}
+
+/**
+ * Renders a simple SVG favicon showing the first letter of the portfolio owner's name
+ */
+export function generateFavicon(name: string): string {
+  const initial = (name.trim()[0] || "P").toUpperCase().replace(/[^A-Z0-9]/, "P");
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 64 64"><rect width="64" height="64" rx="14" fill="#4f46e5"/><text x="32" y="44" font-family="system-ui, -apple-system, sans-serif" font-size="34" font-weight="700" text-anchor="middle" fill="#ffffff">${initial}</text></svg>
+`;
+}
+
+/**
+ * Stylesheet and favicon files referenced by pages generated with BUNDLE_ASSETS
+ */
+export function getBundleAssetFiles(ownerName: string): PortfolioFile[] {
+  return [
+    { path: BUNDLE_ASSETS.stylesheet, content: PORTFOLIO_CSS },
+    { path: BUNDLE_ASSETS.favicon, content: generateFavicon(ownerName) },
+  ];
+}
+
+/**
+ * Hosting instructions shipped with the bundle
+ */
+export function renderBundleReadme(title: string, paths: string[]): string {
+  return `# ${title}
+
+This folder is a self-contained static website generated by FolioLab.
+It loads no scripts, fonts or stylesheets from third-party servers.
+
+## Contents
+
+${paths.map((path) => `- \`${path}\``).join("\n")}
+
+## Preview locally
+
+Open \`index.html\` in a browser, or serve the folder:
+
+\`\`\`sh
+npx serve .
+\`\`\`
+
+## Hosting
+
+Upload the contents of this folder (not the folder itself) to any static host:
+
+- **GitHub Pages**: push the files to a repository and enable Pages for the branch in Settings → Pages.
+- **Netlify**: drag the folder onto https://app.netlify.com/drop.
+- **Vercel**: run \`npx vercel deploy\` inside the folder.
+- **Cloudflare Pages**: create a project with Direct Upload and upload the folder.
+- **Amazon S3 or any web server**: copy the files and serve \`index.html\` as the index document.
+
+Hosts that support custom error pages will serve \`404.html\` for missing URLs if present.
+
+## Content Security Policy
+
+The site runs no JavaScript, so it works with a strict policy. If your host lets you set
+response headers, add:
+
+\`\`\`
+Content-Security-Policy: ${getPortfolioContentSecurityPolicy()}
+\`\`\`
+`;
+}
+
+/**
+ * Packs generated pages with the vendored stylesheet, favicon, avatar and README into a ZIP archive.
+ * Pages should be generated with BUNDLE_ASSETS and the avatar's path so references resolve inside the bundle.
+ */
+export async function createPortfolioBundle(
+  files: PortfolioFile[],
+  options: { title: string; ownerName: string; avatar?: BundleAvatar | null },
+): Promise<Buffer> {
+  try {
+    const zip = new JSZip();
+
+    for (const file of [...files, ...getBundleAssetFiles(options.ownerName)]) {
+      zip.file(file.path, file.content);
+    }
+    if (options.avatar) {
+      zip.file(options.avatar.path, options.avatar.data);
+    }
+
+    const paths = Object.keys(zip.files)
+      .filter((path) => !zip.files[path].dir)
+      .sort();
+    zip.file("README.md", renderBundleReadme(options.title, ["README.md", ...paths]));
+
+    return await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to create portfolio bundle: ${errorMessage}`);
+  }
+}
@@ -1,5 +1,30 @@
-import type { Repository } from "../../shared/schema.js";
+import { createHash } from "node:crypto";
+import {
+  formatCitation,
+  getPublicationLink,
+  PUBLICATION_TYPE_LABELS,
+} from "../../shared/citations.js";
+import { getGistExcerpt } from "../../shared/gists.js";
+import { getPackageBadges } from "../../shared/package-stats.js";
+import type {
+  BlogPost,
+  Contribution,
+  FreeformContent,
+  Gist,
+  LinkedInPost,
+  MediumPost,
+  PortfolioItem,
+  PortfolioSection,
+  Publication,
+  RepositoryItem,
+  Talk,
+} from "../../shared/schema.js";
+import { isRepositoryItem } from "../../shared/schema.js";
+import { DEFAULT_SECTIONS, groupItemsIntoSections } from "../../shared/sections.js";
 import { themes } from "../../shared/themes.js";
+import { PORTFOLIO_CSS } from "./portfolio-css.js";
+import type { ProjectDetails } from "./project-details.js";
+import { highlightCode } from "./syntax-highlight.js";
 
 export function escapeHtml(unsafe: string): string {
   return unsafe
@@ -24,84 +49,517 @@ export function sanitizeUrl(url: string | null | undefined): string {
   return escapeHtml(trimmed);
 }
 
-export function generatePortfolioHtml(
-  username: string,
-  repositories: Repository[],
-  introduction?: {
-    introduction: string;
-    skills: string[];
-    interests: string[];
-  },
-  avatarUrl?: string | null,
-  theme: {
-    id: string;
-    preview: {
-      background: string;
-      text: string;
-      accent: string;
-      card: string;
-      border: string;
-    };
-    layout: {
-      container: string;
-      header: string;
-      content: string;
-      profile: string;
-    };
-  } = themes[1],
-  customTitle?: string | null,
+type PortfolioTheme = {
+  id: string;
+  preview: {
+    background: string;
+    text: string;
+    accent: string;
+    card: string;
+    border: string;
+  };
+  layout: {
+    container: string;
+    header: string;
+    content: string;
+    profile: string;
+    section: string;
+  };
+};
+
+// Inline SVG icons (Lucide, ISC license) so generated pages need no icon font from a CDN
+const ICONS = {
+  github:
+    '<path d="M15 22v-4a4.8 4.8 0 0 0-1-3.5c3 0 6-2 6-5.5.08-1.25-.27-2.48-1-3.5.28-1.15.28-2.35 0-3.5 0 0-1 0-3 1.5-2.64-.5-5.36-.5-8 0C6 2 5 2 5 2c-.3 1.15-.3 2.35 0 3.5A5.403 5.403 0 0 0 4 9c0 3.5 3 5.5 6 5.5-.39.49-.68 1.05-.85 1.65-.17.6-.22 1.23-.15 1.85v4"/><path d="M9 18c-4.51 2-5-2-7-2"/>',
+  gitlab:
+    '<path d="m22 13.29-3.33-10a.42.42 0 0 0-.14-.18.38.38 0 0 0-.22-.11.39.39 0 0 0-.23.07.42.42 0 0 0-.14.18l-2.26 6.67H8.32L6.1 3.26a.42.42 0 0 0-.1-.18.38.38 0 0 0-.26-.08.39.39 0 0 0-.23.07.42.42 0 0 0-.14.18L2 13.29a.74.74 0 0 0 .27.83L12 21l9.69-6.88a.71.71 0 0 0 .31-.83Z"/>',
+  code: '<polyline points="16 18 22 12 16 6"/><polyline points="8 6 2 12 8 18"/>',
+  linkedin:
+    '<path d="M16 8a6 6 0 0 1 6 6v7h-4v-7a2 2 0 0 0-2-2 2 2 0 0 0-2 2v7h-4v-7a6 6 0 0 1 6-6z"/><rect width="4" height="12" x="2" y="9"/><circle cx="4" cy="4" r="2"/>',
+  book: '<path d="M2 3h6a4 4 0 0 1 4 4v14a3 3 0 0 0-3-3H2z"/><path d="M22 3h-6a4 4 0 0 0-4 4v14a3 3 0 0 1 3-3h7z"/>',
+  external:
+    '<path d="M15 3h6v6"/><path d="M10 14 21 3"/><path d="M18 13v6a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h6"/>',
+  video:
+    '<path d="m16 13 5.223 3.482a.5.5 0 0 0 .777-.416V7.87a.5.5 0 0 0-.752-.432L16 10.5"/><rect x="2" y="6" width="14" height="12" rx="2"/>',
+  presentation:
+    '<path d="M2 3h20"/><path d="M21 3v11a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V3"/><path d="m7 21 5-5 5 5"/>',
+} as const;
+
+type IconName = keyof typeof ICONS;
+
+function renderIcon(icon: IconName): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true">${ICONS[icon]}</svg>`;
+}
+
+const REPOSITORY_HOSTS: Record<RepositoryItem["source"], { label: string; icon: IconName }> = {
+  github: { label: "GitHub", icon: "github" },
+  gitlab: { label: "GitLab", icon: "gitlab" },
+  bitbucket: { label: "Bitbucket", icon: "code" },
+  gitea: { label: "Gitea", icon: "code" },
+};
+
+const FREEFORM_CONTENT_TYPE_LABELS: Record<FreeformContent["contentType"], string> = {
+  project: "Project",
+  achievement: "Achievement",
+  skill: "Skill",
+  experience: "Experience",
+  other: "Other",
+};
+
+export function formatPublishDate(date: string | null | undefined): string {
+  if (!date) return "";
+  const parsed = new Date(date);
+  if (Number.isNaN(parsed.getTime())) return date;
+  return parsed.toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function formatMonth(date: string): string {
+  const parsed = new Date(date);
+  if (Number.isNaN(parsed.getTime())) return date;
+  return parsed.toLocaleDateString("en-US", { year: "numeric", month: "short", timeZone: "UTC" });
+}
+
+function renderTags(tags: string[], theme: PortfolioTheme): string {
+  return tags
+    .map((tag) =>
+      theme.id === "modern"
+        ? `<span class="px-2 py-1 rounded-full text-sm bg-gradient-to-r from-indigo-500 to-purple-500 text-white">${escapeHtml(tag)}</span>`
+        : `<span class="${theme.preview.accent} px-2 py-1 rounded-full text-sm">${escapeHtml(tag)}</span>`,
+    )
+    .join("");
+}
+
+function renderCard(
+  theme: PortfolioTheme,
+  title: string,
+  badges: string,
+  links: string,
+  meta: string,
+  body: string,
+  tags: string[],
+  detailHref?: string,
+  extra = "", // Trusted HTML between the body and the tags
+): string {
+  const marginClass = theme.id === "minimal" ? "mb-6" : "";
+
+  return `
+                    <article class="${theme.preview.card} p-6 relative card-shadow ${marginClass}">
+                        <div class="flex justify-between items-start">
+                            <h3 class="text-2xl font-semibold mb-2 ${theme.preview.text}">${escapeHtml(title)}</h3>
+                            <div class="flex items-center gap-2">
+                                ${badges}
+                                ${links}
+                            </div>
+                        </div>
+                        ${meta ? `<p class="text-sm text-gray-500 mb-3">${meta}</p>` : ""}
+                        <p class="${theme.preview.text} mb-4">${escapeHtml(body)}</p>
+                        ${extra}
+                        <div class="flex gap-2 flex-wrap">
+                            ${renderTags(tags, theme)}
+                        </div>
+                        ${
+                          detailHref
+                            ? `<a href="${sanitizeUrl(detailHref)}" class="inline-block mt-4 text-sm font-medium underline ${theme.preview.text}">View details →</a>`
+                            : ""
+                        }
+                    </article>
+                  `;
+}
+
+function renderLink(url: string | null | undefined, title: string, icon: IconName): string {
+  return `<a href="${sanitizeUrl(url)}" class="icon-button border border-gray-200 bg-white" target="_blank" title="${escapeHtml(title)}">
+                                    ${renderIcon(icon)}
+                                </a>`;
+}
+
+function renderRepositoryCard(
+  repo: RepositoryItem,
+  theme: PortfolioTheme,
+  detailHref?: string,
+): string {
+  const host = REPOSITORY_HOSTS[repo.source] || REPOSITORY_HOSTS.github;
+  const topics = Array.isArray(repo.metadata?.topics) ? repo.metadata.topics : [];
+  const description = repo.summary || repo.description || "";
+
+  const badges = [
+    repo.metadata?.language
+      ? `<span class="text-xs bg-sky-100 text-sky-800 px-2 py-1 rounded-full">${escapeHtml(repo.metadata.language)}</span>`
+      : "",
+    repo.metadata?.stars > 0
+      ? `
+                                <span class="text-xs bg-amber-100 text-amber-800 px-2 py-1 rounded-full flex items-center">
+                                    ★ ${repo.metadata.stars}
+                                </span>
+                                `
+      : "",
+    ...(repo.metadata?.packages || []).map((stats) =>
+      getPackageBadges(stats)
+        .map(
+          (badge) =>
+            `<a href="${sanitizeUrl(stats.url)}" class="text-xs bg-emerald-100 text-emerald-800 px-2 py-1 rounded-full" target="_blank" title="${escapeHtml(stats.name)}">${escapeHtml(badge)}</a>`,
+        )
+        .join(""),
+    ),
+  ].join("");
+
+  const links = [
+    renderLink(repo.url, `View on ${host.label}`, host.icon),
+    repo.metadata?.url ? renderLink(repo.metadata.url, "View Live Demo", "external") : "",
+  ].join("");
+
+  return renderCard(
+    theme,
+    repo.displayName || repo.name || "Untitled Project",
+    badges,
+    links,
+    "",
+    description,
+    topics,
+    detailHref,
+  );
+}
+
+function renderPostCard(post: BlogPost | MediumPost, theme: PortfolioTheme): string {
+  const meta = [
+    formatPublishDate(post.publishedAt),
+    post.readTime ? `${post.readTime} min read` : "",
+  ]
+    .filter(Boolean)
+    .map((part) => escapeHtml(part))
+    .join(" · ");
+
+  const links = renderLink(
+    post.url,
+    post.source === "medium" ? "Read on Medium" : "Read Post",
+    "book",
+  );
+
+  return renderCard(
+    theme,
+    post.title || "Untitled Post",
+    "",
+    links,
+    meta,
+    post.summary || post.description || "",
+    Array.isArray(post.tags) ? post.tags : [],
+  );
+}
+
+function renderLinkedInCard(post: LinkedInPost, theme: PortfolioTheme): string {
+  const meta = escapeHtml(formatPublishDate(post.publishedAt));
+  const links = post.url ? renderLink(post.url, "View on LinkedIn", "linkedin") : "";
+
+  return renderCard(
+    theme,
+    post.title || "LinkedIn Post",
+    "",
+    links,
+    meta,
+    post.summary || post.content || "",
+    [],
+  );
+}
+
+function renderPublicationCard(publication: Publication, theme: PortfolioTheme): string {
+  const publicationType = PUBLICATION_TYPE_LABELS[publication.publicationType] || "Publication";
+  const badges = `<span class="text-xs bg-sky-100 text-sky-800 px-2 py-1 rounded-full">${escapeHtml(publicationType)}</span>`;
+  const link = getPublicationLink(publication);
+  const links = link ? renderLink(link, "Read Publication", "book") : "";
+
+  return renderCard(
+    theme,
+    publication.title || "Untitled Publication",
+    badges,
+    links,
+    escapeHtml(formatCitation(publication)),
+    publication.summary || publication.abstract || "",
+    Array.isArray(publication.tags) ? publication.tags : [],
+  );
+}
+
+function renderContributionCard(contribution: Contribution, theme: PortfolioTheme): string {
+  const pullRequests = `${contribution.pullRequestCount} merged PR${contribution.pullRequestCount === 1 ? "" : "s"}`;
+  const badges = [
+    contribution.language
+      ? `<span class="text-xs bg-sky-100 text-sky-800 px-2 py-1 rounded-full">${escapeHtml(contribution.language)}</span>`
+      : "",
+    contribution.stars > 0
+      ? `<span class="text-xs bg-amber-100 text-amber-800 px-2 py-1 rounded-full">★ ${contribution.stars}</span>`
+      : "",
+    `<span class="text-xs bg-emerald-100 text-emerald-800 px-2 py-1 rounded-full">${pullRequests}</span>`,
+  ].join("");
+  const links = renderLink(contribution.url, "View Pull Requests", "github");
+
+  const firstMonth = formatMonth(contribution.firstMergedAt);
+  const lastMonth = formatMonth(contribution.lastMergedAt);
+  const meta = [
+    `+${contribution.additions.toLocaleString("en-US")} / −${contribution.deletions.toLocaleString("en-US")} lines`,
+    firstMonth === lastMonth ? firstMonth : `${firstMonth} – ${lastMonth}`,
+  ]
+    .map((part) => escapeHtml(part))
+    .join(" · ");
+
+  return renderCard(
+    theme,
+    contribution.title,
+    badges,
+    links,
+    meta,
+    contribution.summary || contribution.representativePullRequest.title,
+    Array.isArray(contribution.tags) ? contribution.tags : [],
+  );
+}
+
+function renderGistCard(gist: Gist, theme: PortfolioTheme): string {
+  const badges = [
+    ...gist.languages
+      .slice(0, 3)
+      .map(
+        (language) =>
+          `<span class="text-xs bg-sky-100 text-sky-800 px-2 py-1 rounded-full">${escapeHtml(language)}</span>`,
+      ),
+    gist.stars > 0
+      ? `<span class="text-xs bg-amber-100 text-amber-800 px-2 py-1 rounded-full">★ ${gist.stars}</span>`
+      : "",
+  ].join("");
+  const links = renderLink(gist.url, "View Gist", "code");
+
+  const meta = [
+    `${gist.files.length} file${gist.files.length === 1 ? "" : "s"}`,
+    formatPublishDate(gist.updatedAt),
+  ]
+    .filter(Boolean)
+    .map((part) => escapeHtml(part))
+    .join(" · ");
+
+  const excerpt = getGistExcerpt(gist);
+  const excerptHtml = excerpt
+    ? `<p class="text-sm text-gray-500 mb-2">${escapeHtml(excerpt.file.filename)}</p>
+                        <pre class="code-excerpt"><code>${highlightCode(excerpt.code, excerpt.file.language)}${excerpt.truncated ? "\n…" : ""}</code></pre>`
+    : "";
+
+  return renderCard(
+    theme,
+    gist.title || "Untitled Gist",
+    badges,
+    links,
+    meta,
+    gist.summary || "", // The description is already the title
+    Array.isArray(gist.tags) ? gist.tags : [],
+    undefined,
+    excerptHtml,
+  );
+}
+
+function renderTalkCard(talk: Talk, theme: PortfolioTheme): string {
+  const links = [
+    talk.videoUrl ? renderLink(talk.videoUrl, "Watch Talk", "video") : "",
+    talk.slidesUrl ? renderLink(talk.slidesUrl, "View Slides", "presentation") : "",
+  ].join("");
+  const meta = [talk.event || "", formatPublishDate(talk.date)]
+    .filter(Boolean)
+    .map((part) => escapeHtml(part))
+    .join(" · ");
+
+  // A lazy-loaded thumbnail rather than an embedded player, so the page loads no third-party
+  // frames or scripts
+  const thumbnail = talk.thumbnailUrl
+    ? `<a href="${sanitizeUrl(talk.videoUrl || talk.url)}" class="block mb-4" target="_blank">
+                            <img src="${sanitizeUrl(talk.thumbnailUrl)}" alt="${escapeHtml(`Video: ${talk.title}`)}" loading="lazy" class="w-full rounded-xl">
+                        </a>`
+    : "";
+
+  return renderCard(
+    theme,
+    talk.title || "Untitled Talk",
+    "",
+    links,
+    meta,
+    talk.summary || talk.description || "",
+    Array.isArray(talk.tags) ? talk.tags : [],
+    undefined,
+    thumbnail,
+  );
+}
+
+function renderFreeformCard(
+  content: FreeformContent,
+  theme: PortfolioTheme,
+  detailHref?: string,
 ): string {
-  if (!repositories || repositories.length === 0) {
-    throw new Error("No repositories provided for portfolio generation");
+  const contentType = FREEFORM_CONTENT_TYPE_LABELS[content.contentType] || "Other";
+  const badges = `<span class="text-xs bg-emerald-100 text-emerald-800 px-2 py-1 rounded-full">${escapeHtml(contentType)}</span>`;
+  const links = content.url ? renderLink(content.url, "Learn More", "external") : "";
+
+  return renderCard(
+    theme,
+    content.title || "Untitled",
+    badges,
+    links,
+    "",
+    content.description || content.content || "",
+    Array.isArray(content.tags) ? content.tags : [],
+    detailHref,
+  );
+}
+
+function renderPortfolioItem(
+  item: PortfolioItem,
+  theme: PortfolioTheme,
+  detailHref?: string,
+): string {
+  if (!item || typeof item !== "object") {
+    console.error("Invalid portfolio item:", item);
+    return "";
   }
 
-  const capitalizedUsername = capitalizeFirstLetter(username);
-  const portfolioTitle = customTitle || `${capitalizedUsername}'s Portfolio`;
+  if (isRepositoryItem(item)) {
+    return renderRepositoryCard(item, theme, detailHref);
+  }
+
+  switch (item.source) {
+    case "blog_rss":
+    case "medium":
+      return renderPostCard(item, theme);
+    case "linkedin":
+      return renderLinkedInCard(item, theme);
+    case "publication":
+      return renderPublicationCard(item, theme);
+    case "contribution":
+      return renderContributionCard(item, theme);
+    case "gist":
+      return renderGistCard(item, theme);
+    case "talk":
+      return renderTalkCard(item, theme);
+    case "freeform":
+      return renderFreeformCard(item, theme, detailHref);
+    default:
+      console.error("Unsupported portfolio item source:", (item as PortfolioItem).source);
+      return "";
+  }
+}
+
+function renderSections(
+  items: PortfolioItem[],
+  sections: PortfolioSection[],
+  theme: PortfolioTheme,
+  detailPages?: Map<string, string>,
+): string {
+  return groupItemsIntoSections(items, sections)
+    .map(
+      ({ section, items: sectionItems }) => `
+                <section id="section-${escapeHtml(section.id)}" class="col-span-full mb-12">
+                    <h2 class="text-3xl font-bold mb-8 ${theme.preview.text}">${escapeHtml(section.title)}</h2>
+                    <div class="${theme.layout.section}">
+                        ${sectionItems
+                          .map((item) =>
+                            renderPortfolioItem(item, theme, detailPages?.get(String(item.id))),
+                          )
+                          .join("")}
+                    </div>
+                </section>`,
+    )
+    .join("");
+}
+
+type PortfolioIntroduction = {
+  introduction: string;
+  skills: string[];
+  interests: string[];
+};
+
+/**
+ * Static files referenced by generated pages, as paths relative to the site root.
+ * Without a stylesheet the compiled CSS is inlined into every page.
+ */
+export interface PortfolioAssets {
+  stylesheet?: string;
+  favicon?: string;
+}
+
+// Generated pages run no scripts and load styles only from the page itself or the site,
+// so they work under a strict Content Security Policy
+const INLINE_CSS_HASH = `'sha256-${createHash("sha256").update(PORTFOLIO_CSS).digest("base64")}'`;
+
+/**
+ * Content Security Policy for hosting generated portfolios.
+ * @param styleSource - Allowed stylesheet source, "'self'" when the stylesheet is a separate file
+ */
+export function getPortfolioContentSecurityPolicy(styleSource = "'self'"): string {
+  return [
+    "default-src 'none'",
+    `style-src ${styleSource}`,
+    "img-src 'self' https: data:",
+    "base-uri 'none'",
+    "form-action 'none'",
+  ].join("; ");
+}
+
+/**
+ * @param root - Prefix that resolves asset paths from the page, e.g. "../" for detail pages
+ */
+function renderDocument(
+  title: string,
+  theme: PortfolioTheme,
+  body: string,
+  assets: PortfolioAssets = {},
+  root = "",
+): string {
+  // Single-file pages carry their own policy; sites with a separate stylesheet rely on the
+  // host's headers because 'self' does not match pages opened from disk in every browser
+  const styles = assets.stylesheet
+    ? `    <link rel="stylesheet" href="${escapeHtml(root + assets.stylesheet)}">`
+    : `    <meta http-equiv="Content-Security-Policy" content="${getPortfolioContentSecurityPolicy(INLINE_CSS_HASH)}">
+    <style>${PORTFOLIO_CSS}</style>`;
 
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>${escapeHtml(portfolioTitle)}</title>
-    <script src="https://cdn.tailwindcss.com"></script>
-    <link rel="stylesheet" href="https://cdnjs.cloudflare.com/ajax/libs/font-awesome/6.5.1/css/all.min.css">
-    <style>
-    /* Define gradient backgrounds for themes */
-    .bg-gradient-to-br.from-indigo-50.via-white.to-purple-50 {
-      background: linear-gradient(to bottom right, #eef2ff, #ffffff, #faf5ff);
-    }
-    .bg-gradient-to-r.from-indigo-500.to-purple-500 {
-      background: linear-gradient(to right, #6366f1, #a855f7);
-      color: white;
-    }
-    /* Shadow styling for cards */
-    .card-shadow {
-      box-shadow: 0 10px 25px -5px rgba(0, 0, 0, 0.1), 0 8px 10px -6px rgba(0, 0, 0, 0.05);
-      transition: box-shadow 0.3s ease, transform 0.3s ease;
-    }
-    .card-shadow:hover {
-      box-shadow: 0 20px 25px -5px rgba(0, 0, 0, 0.15), 0 10px 10px -5px rgba(0, 0, 0, 0.1);
-      transform: translateY(-2px);
+    <title>${escapeHtml(title)}</title>${
+      assets.favicon
+        ? `
+    <link rel="icon" href="${escapeHtml(root + assets.favicon)}">`
+        : ""
     }
-    /* Button styling */
-    .icon-button {
-      display: inline-flex;
-      align-items: center;
-      justify-content: center;
-      width: 32px;
-      height: 32px;
-      border-radius: 4px;
-      transition: all 0.2s ease;
-    }
-    .icon-button:hover {
-      opacity: 0.8;
-    }
-    </style>
+${styles}
 </head>
 <body class="${theme.preview.background}">
     <div class="container mx-auto px-4 py-20">
-        <div class="${theme.layout.container}">
+${body}
+    </div>
+</body>
+</html>`;
+}
+
+function renderIndexPage(
+  username: string,
+  items: PortfolioItem[],
+  introduction: PortfolioIntroduction | undefined,
+  avatarUrl: string | null | undefined,
+  theme: PortfolioTheme,
+  customTitle: string | null | undefined,
+  sections: PortfolioSection[],
+  detailPages?: Map<string, string>,
+  assets?: PortfolioAssets,
+): string {
+  if (!items || items.length === 0) {
+    throw new Error("No portfolio items provided for portfolio generation");
+  }
+
+  const capitalizedUsername = capitalizeFirstLetter(username);
+  const portfolioTitle = customTitle || `${capitalizedUsername}'s Portfolio`;
+
+  return renderDocument(
+    portfolioTitle,
+    theme,
+    `        <div class="${theme.layout.container}">
             <header class="${theme.layout.header}">
                 <div class="${theme.layout.profile}">
                     ${
@@ -139,61 +597,238 @@ export function generatePortfolioHtml(
             </header>
 
             <div class="${theme.layout.content}">
-                ${repositories
-                  .map((repo) => {
-                    if (!repo || typeof repo !== "object") {
-                      console.error("Invalid repository object:", repo);
-                      return "";
-                    }
+                ${renderSections(items, sections, theme, detailPages)}
+            </div>
+        </div>`,
+    assets,
+  );
+}
 
-                    const topics = Array.isArray(repo.metadata?.topics) ? repo.metadata.topics : [];
-                    const description = repo.summary || repo.description || "";
+export function generatePortfolioHtml(
+  username: string,
+  items: PortfolioItem[],
+  introduction?: PortfolioIntroduction,
+  avatarUrl?: string | null,
+  theme: PortfolioTheme = themes[1],
+  customTitle?: string | null,
+  sections: PortfolioSection[] = DEFAULT_SECTIONS,
+  assets: PortfolioAssets = {},
+): string {
+  return renderIndexPage(
+    username,
+    items,
+    introduction,
+    avatarUrl,
+    theme,
+    customTitle,
+    sections,
+    undefined,
+    assets,
+  );
+}
 
-                    const marginClass = theme.id === "minimal" ? "mb-6" : "";
+export interface PortfolioFile {
+  path: string;
+  content: string;
+}
 
-                    return `
-                    <article class="${theme.preview.card} p-6 relative card-shadow ${marginClass}">
-                        <div class="flex justify-between items-start">
-                            <h2 class="text-2xl font-semibold mb-2 ${theme.preview.text}">${escapeHtml(repo.displayName || repo.name || "Untitled Project")}</h2>
-                            <div class="flex items-center gap-2">
-                                ${
-                                  repo.metadata?.stars > 0
-                                    ? `
-                                <span class="text-xs bg-amber-100 text-amber-800 px-2 py-1 rounded-full flex items-center">
-                                    ★ ${repo.metadata.stars}
-                                </span>
-                                `
-                                    : ""
-                                }
-                                <a href="${sanitizeUrl(repo.url)}" class="icon-button border border-gray-200 bg-white" target="_blank" title="View on GitHub">
-                                    <i class="fab fa-github"></i>
-                                </a>
-                                ${
-                                  repo.metadata?.url
-                                    ? `<a href="${sanitizeUrl(repo.metadata.url)}" class="icon-button border border-gray-200 bg-white" target="_blank" title="View Live Demo">
-                                        <i class="fas fa-external-link-alt"></i>
-                                    </a>`
-                                    : ""
-                                }
-                            </div>
-                        </div>
-                        <p class="${theme.preview.text} mb-4">${escapeHtml(description)}</p>
-                        <div class="flex gap-2 flex-wrap">
-                            ${topics
-                              .map((topic) =>
-                                theme.id === "modern"
-                                  ? `<span class="px-2 py-1 rounded-full text-sm bg-gradient-to-r from-indigo-500 to-purple-500 text-white">${escapeHtml(topic)}</span>`
-                                  : `<span class="${theme.preview.accent} px-2 py-1 rounded-full text-sm">${escapeHtml(topic)}</span>`,
-                              )
-                              .join("")}
-                        </div>
-                    </article>
-                  `;
-                  })
-                  .join("")}
-            </div>
-        </div>
-    </div>
-</body>
-</html>`;
+function hasDetailPage(item: PortfolioItem): boolean {
+  return isRepositoryItem(item) || (item.source === "freeform" && item.contentType === "project");
+}
+
+function slugify(value: string): string {
+  const slug = value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return slug || "project";
+}
+
+function renderReadmeExcerpt(excerpt: string, theme: PortfolioTheme): string {
+  return excerpt
+    .split(/\n{2,}/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .map(
+      (paragraph) =>
+        `<p class="${theme.preview.text} mb-4 leading-relaxed">${escapeHtml(paragraph)}</p>`,
+    )
+    .join("\n                    ");
+}
+
+function renderDetailPage(
+  item: RepositoryItem | FreeformContent,
+  theme: PortfolioTheme,
+  portfolioTitle: string,
+  details: ProjectDetails | undefined,
+  assets: PortfolioAssets,
+): string {
+  const isRepo = isRepositoryItem(item);
+  const title = isRepo ? item.displayName || item.name : item.title;
+  const summary = isRepo ? item.summary || item.description || "" : item.description || "";
+  const body = isRepo ? "" : item.content;
+  const tags = isRepo ? item.metadata?.topics || [] : item.tags || [];
+  const techStack =
+    details?.techStack && details.techStack.length > 0
+      ? details.techStack
+      : isRepo && item.metadata?.language
+        ? [item.metadata.language]
+        : [];
+
+  const links: Array<{ url: string; label: string }> = [];
+  if (isRepo) {
+    const host = REPOSITORY_HOSTS[item.source] || REPOSITORY_HOSTS.github;
+    links.push({ url: item.url, label: `View on ${host.label}` });
+    if (item.metadata?.url) {
+      links.push({ url: item.metadata.url, label: "View Live Demo" });
+    }
+  } else if (item.url) {
+    links.push({ url: item.url, label: "Learn More" });
+  }
+
+  return renderDocument(
+    `${title} · ${portfolioTitle}`,
+    theme,
+    `        <main class="max-w-3xl mx-auto">
+            <a href="../index.html" class="text-sm font-medium underline ${theme.preview.text}">← Back to portfolio</a>
+            <article class="${theme.preview.card} p-8 mt-6 card-shadow">
+                <h1 class="text-4xl font-bold mb-4 ${theme.preview.text}">${escapeHtml(title || "Untitled Project")}</h1>
+                ${summary ? `<p class="${theme.preview.text} text-lg mb-6 leading-relaxed">${escapeHtml(summary)}</p>` : ""}
+                ${body ? renderReadmeExcerpt(body, theme) : ""}
+                ${
+                  techStack.length > 0
+                    ? `
+                <h2 class="text-xl font-semibold mt-8 mb-3 ${theme.preview.text}">Tech Stack</h2>
+                <div class="flex gap-2 flex-wrap">
+                    ${renderTags(techStack, theme)}
+                </div>`
+                    : ""
+                }
+                ${
+                  details?.readmeExcerpt
+                    ? `
+                <h2 class="text-xl font-semibold mt-8 mb-3 ${theme.preview.text}">From the README</h2>
+                <div class="border-l-4 ${theme.preview.border} pl-4">
+                    ${renderReadmeExcerpt(details.readmeExcerpt, theme)}
+                </div>`
+                    : ""
+                }
+                ${
+                  tags.length > 0
+                    ? `
+                <h2 class="text-xl font-semibold mt-8 mb-3 ${theme.preview.text}">Topics</h2>
+                <div class="flex gap-2 flex-wrap">
+                    ${renderTags(tags, theme)}
+                </div>`
+                    : ""
+                }
+                ${
+                  links.length > 0
+                    ? `
+                <h2 class="text-xl font-semibold mt-8 mb-3 ${theme.preview.text}">Links</h2>
+                <ul class="space-y-2">
+                    ${links
+                      .map(
+                        (link) =>
+                          `<li><a href="${sanitizeUrl(link.url)}" class="underline ${theme.preview.text}" target="_blank" rel="noopener noreferrer">${escapeHtml(link.label)}</a></li>`,
+                      )
+                      .join("\n                    ")}
+                </ul>`
+                    : ""
+                }
+            </article>
+        </main>`,
+    assets,
+    "../",
+  );
+}
+
+function renderNotFoundPage(
+  theme: PortfolioTheme,
+  portfolioTitle: string,
+  homeHref: string,
+  assets: PortfolioAssets,
+): string {
+  return renderDocument(
+    `Page Not Found · ${portfolioTitle}`,
+    theme,
+    `        <main class="max-w-xl mx-auto text-center">
+            <h1 class="text-6xl font-bold mb-4 ${theme.preview.text}">404</h1>
+            <p class="${theme.preview.text} text-lg mb-8">This page could not be found.</p>
+            <a href="${sanitizeUrl(homeHref)}" class="inline-block px-4 py-2 rounded-full ${theme.preview.accent}">Back to portfolio</a>
+        </main>`,
+    assets,
+    homeHref.endsWith("/") ? homeHref : `${homeHref}/`,
+  );
+}
+
+/**
+ * Generates a small static site: the index page, one detail page per project
+ * (repositories and free-form projects) and a 404 page.
+ * All links between pages are relative so the site can be hosted under any path,
+ * except the 404 page which links to homeHref because hosts serve it for any missing URL.
+ * @param projectDetails - Tech stack and README excerpts keyed by item id
+ * @param assets - Stylesheet and favicon shipped alongside the pages
+ * @returns Files with paths relative to the site root
+ */
+export function generatePortfolioSite(
+  username: string,
+  items: PortfolioItem[],
+  introduction?: PortfolioIntroduction,
+  avatarUrl?: string | null,
+  theme: PortfolioTheme = themes[1],
+  customTitle?: string | null,
+  sections: PortfolioSection[] = DEFAULT_SECTIONS,
+  projectDetails: Record<string, ProjectDetails> = {},
+  homeHref = "/",
+  assets: PortfolioAssets = {},
+): PortfolioFile[] {
+  const portfolioTitle = customTitle || `${capitalizeFirstLetter(username)}'s Portfolio`;
+  const detailPages = new Map<string, string>();
+  const usedSlugs = new Set<string>();
+  const files: PortfolioFile[] = [];
+
+  for (const item of items || []) {
+    if (!item || !hasDetailPage(item)) continue;
+
+    const baseSlug = slugify(
+      isRepositoryItem(item) ? item.name : (item as FreeformContent).title || "project",
+    );
+    let slug = baseSlug;
+    for (let suffix = 2; usedSlugs.has(slug); suffix++) {
+      slug = `${baseSlug}-${suffix}`;
+    }
+    usedSlugs.add(slug);
+
+    const path = `projects/${slug}.html`;
+    detailPages.set(String(item.id), path);
+    files.push({
+      path,
+      content: renderDetailPage(
+        item as RepositoryItem | FreeformContent,
+        theme,
+        portfolioTitle,
+        projectDetails[String(item.id)],
+        assets,
+      ),
+    });
+  }
+
+  const index = renderIndexPage(
+    username,
+    items,
+    introduction,
+    avatarUrl,
+    theme,
+    customTitle,
+    sections,
+    detailPages,
+    assets,
+  );
+
+  return [
+    { path: "index.html", content: index },
+    ...files,
+    { path: "404.html", content: renderNotFoundPage(theme, portfolioTitle, homeHref, assets) },
+  ];
 }
@@ -1,4 +1,5 @@
-import { Octokit } from "@octokit/rest";
+import type { Octokit } from "@octokit/rest";
+import { createOctokit } from "./github.js";
 
 export interface ProjectStructure {
   rootFiles: string[];
@@ -17,6 +18,7 @@ export interface PackageInfo {
     | "package.json"
     | "requirements.txt"
     | "Cargo.toml"
+    | "pyproject.toml"
     | "go.mod"
     | "pom.xml"
     | "Gemfile"
@@ -24,6 +26,10 @@ export interface PackageInfo {
   dependencies?: string[];
   scripts?: string[];
   description?: string;
+  /** Name the package is published under, for manifests that declare one */
+  packageName?: string;
+  /** Manifest opts out of publishing (package.json "private", Cargo.toml publish = false) */
+  private?: boolean;
 }
 
 export interface ConfigInfo {
@@ -146,6 +152,7 @@ const PACKAGE_FILES = new Set([
   "package.json",
   "requirements.txt",
   "cargo.toml",
+  "pyproject.toml",
   "go.mod",
   "go.sum",
   "pom.xml",
@@ -161,12 +168,34 @@ const SOURCE_EXT_REGEX =
 const MAJOR_TECH_REGEX =
   /react|vue|angular|express|django|flask|spring|rails|laravel|mongodb|postgresql|mysql|redis|docker|kubernetes|aws|azure|gcp|firebase|graphql|apollo|prisma|typeorm|sequelize/i;
 
+/**
+ * Version of the files the structure analysis reads: the latest commit on the default branch
+ * @returns The commit SHA, or null when it cannot be fetched
+ */
+export async function getProjectStructureVersion(
+  accessToken: string,
+  owner: string,
+  repo: string,
+): Promise<string | null> {
+  try {
+    const { data: commits } = await createOctokit(accessToken).repos.listCommits({
+      owner,
+      repo,
+      per_page: 1,
+    });
+    return commits[0]?.sha || null;
+  } catch (error) {
+    console.warn(`Failed to fetch the latest commit of ${owner}/${repo}:`, error);
+    return null;
+  }
+}
+
 export async function analyzeProjectStructure(
   accessToken: string,
   owner: string,
   repo: string,
 ): Promise<ProjectStructure> {
-  const octokit = new Octokit({ auth: accessToken });
+  const octokit = createOctokit(accessToken);
 
   try {
     // Get repository contents
@@ -287,6 +316,8 @@ async function analyzePackageFile(
       return analyzeRequirementsTxt(content);
     } else if (fileName === "cargo.toml") {
       return analyzeCargoToml(content);
+    } else if (fileName === "pyproject.toml") {
+      return analyzePyprojectToml(content);
     } else if (fileName === "go.mod") {
       return analyzeGoMod(content);
     }
@@ -310,6 +341,8 @@ function analyzePackageJson(content: string): PackageInfo {
       ],
       scripts: Object.keys(pkg.scripts || {}),
       description: pkg.description,
+      packageName: typeof pkg.name === "string" ? pkg.name : undefined,
+      private: pkg.private === true,
     };
   } catch (_error) {
     return {
@@ -335,10 +368,30 @@ function analyzeRequirementsTxt(content: string): PackageInfo {
   };
 }
 
+/**
+ * Reads a string value such as name = "foo" from a TOML section
+ */
+function getTomlString(lines: string[], section: string, key: string): string | undefined {
+  let inSection = false;
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith("[")) {
+      inSection = trimmed === `[${section}]`;
+      continue;
+    }
+    const match = inSection && trimmed.match(/^([\w-]+)\s*=\s*["']([^"']*)["']/);
+    if (match && match[1] === key) return match[2];
+  }
+  return undefined;
+}
+
 function analyzeCargoToml(content: string): PackageInfo {
   const dependencies: string[] = [];
   const lines = content.split("\n");
   let inDependencies = false;
+  let inPackage = false;
+  let publish = true;
 
   for (const line of lines) {
     if (line.trim() === "[dependencies]") {
@@ -347,8 +400,12 @@ function analyzeCargoToml(content: string): PackageInfo {
     }
     if (line.trim().startsWith("[") && line.trim() !== "[dependencies]") {
       inDependencies = false;
+      inPackage = line.trim() === "[package]";
       continue;
     }
+    if (inPackage && /^publish\s*=\s*(false|\[\s*\])/.test(line.trim())) {
+      publish = false;
+    }
     if (inDependencies && line.includes("=")) {
       const dep = line.split("=")[0].trim();
       if (dep) dependencies.push(dep);
@@ -359,6 +416,24 @@ function analyzeCargoToml(content: string): PackageInfo {
     name: "Cargo.toml",
     type: "Cargo.toml",
     dependencies,
+    packageName: getTomlString(lines, "package", "name"),
+    private: !publish,
+  };
+}
+
+function analyzePyprojectToml(content: string): PackageInfo {
+  const lines = content.split("\n");
+  const dependencies = Array.from(
+    content.matchAll(/^\s*["']([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?:\[[^\]]*\])?\s*[<>=!~;,"']/gm),
+    (match) => match[1],
+  );
+
+  return {
+    name: "pyproject.toml",
+    type: "pyproject.toml",
+    dependencies,
+    packageName:
+      getTomlString(lines, "project", "name") || getTomlString(lines, "tool.poetry", "name"),
   };
 }
 
@@ -0,0 +1,109 @@
+import type { PortfolioItem } from "../../shared/schema.js";
+import { isRepositoryItem } from "../../shared/schema.js";
+import { getReadmeContent } from "./github.js";
+import { analyzeProjectStructure } from "./project-analyzer.js";
+import { cleanReadmeContent } from "./readme-cleaner.js";
+
+export interface ProjectDetails {
+  techStack: string[];
+  readmeExcerpt: string | null;
+}
+
+const README_EXCERPT_LENGTH = 1200;
+const BATCH_SIZE = 5;
+
+/**
+ * Turns a README into a short plain-text excerpt for project detail pages.
+ * Strips the title, images, HTML and markdown syntax, and cuts at a paragraph boundary.
+ */
+export function extractReadmeExcerpt(
+  readme: string | null | undefined,
+  maxLength: number = README_EXCERPT_LENGTH,
+): string | null {
+  const cleaned = cleanReadmeContent(readme);
+  if (!cleaned) return null;
+
+  const paragraphs = cleaned
+    .replace(/```[\s\S]*?```/g, "")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/<[^>]+>/g, "")
+    .split(/\n{2,}/)
+    .map((paragraph) =>
+      paragraph
+        .replace(/^#+\s*/gm, "")
+        .replace(/^\s*[-*+]\s+/gm, "• ")
+        .replace(/[*_`]/g, "")
+        .replace(/[ \t]+/g, " ")
+        .trim(),
+    )
+    .filter(Boolean);
+
+  // Drop the leading title, which is already shown as the page heading
+  if (paragraphs.length > 1 && !paragraphs[0].includes("\n") && paragraphs[0].length < 80) {
+    paragraphs.shift();
+  }
+
+  let excerpt = "";
+  for (const paragraph of paragraphs) {
+    const next = excerpt ? `${excerpt}\n\n${paragraph}` : paragraph;
+    if (next.length > maxLength) {
+      if (!excerpt) {
+        excerpt = `${paragraph.slice(0, maxLength).trimEnd()}…`;
+      }
+      break;
+    }
+    excerpt = next;
+  }
+
+  return excerpt || null;
+}
+
+/**
+ * Collects tech stack and README excerpts for the projects in a portfolio.
+ * GitHub repositories are analyzed with the access token; other repositories
+ * fall back to their primary language. Failures never abort the export.
+ * @returns Details keyed by item id
+ */
+export async function collectProjectDetails(
+  accessToken: string | null | undefined,
+  items: PortfolioItem[],
+): Promise<Record<string, ProjectDetails>> {
+  const details: Record<string, ProjectDetails> = {};
+  const repositories = (items || []).filter(isRepositoryItem);
+
+  for (const repo of repositories) {
+    details[String(repo.id)] = {
+      techStack: repo.metadata?.language ? [repo.metadata.language] : [],
+      readmeExcerpt: null,
+    };
+  }
+
+  const githubRepos = accessToken ? repositories.filter((repo) => repo.source === "github") : [];
+
+  for (let i = 0; i < githubRepos.length; i += BATCH_SIZE) {
+    const batch = githubRepos.slice(i, i + BATCH_SIZE);
+
+    await Promise.all(
+      batch.map(async (repo) => {
+        const owner = repo.owner.login;
+        try {
+          const [structure, readme] = await Promise.all([
+            analyzeProjectStructure(accessToken as string, owner, repo.name),
+            getReadmeContent(accessToken as string, owner, repo.name),
+          ]);
+
+          const current = details[String(repo.id)];
+          details[String(repo.id)] = {
+            techStack: structure.techStack.length > 0 ? structure.techStack : current.techStack,
+            readmeExcerpt: extractReadmeExcerpt(readme),
+          };
+        } catch (error) {
+          console.warn(`Failed to collect project details for ${owner}/${repo.name}:`, error);
+        }
+      }),
+    );
+  }
+
+  return details;
+}
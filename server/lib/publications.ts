@@ -0,0 +1,532 @@
+import crypto from "node:crypto";
+import type { Publication, PublicationType } from "../../shared/schema";
+import { fetchRSSFeed, type RSSFeedItem } from "./rss.js";
+
+/**
+ * Importers for research publications: BibTeX, ORCID works JSON and arXiv author feeds.
+ * Everything is parsed in memory; nothing is stored or logged.
+ */
+
+export const MAX_BIBTEX_LENGTH = 1024 * 1024;
+const MAX_PUBLICATIONS = 500;
+
+export interface BibTeXEntry {
+  type: string;
+  key: string;
+  fields: Record<string, string>;
+}
+
+const BIBTEX_TYPES: Record<string, PublicationType> = {
+  article: "article",
+  inproceedings: "conference",
+  conference: "conference",
+  proceedings: "conference",
+  book: "book",
+  inbook: "book",
+  incollection: "book",
+  booklet: "book",
+  phdthesis: "thesis",
+  mastersthesis: "thesis",
+  thesis: "thesis",
+  techreport: "report",
+  report: "report",
+};
+
+const ORCID_TYPES: Record<string, PublicationType> = {
+  "journal-article": "article",
+  "conference-paper": "conference",
+  "conference-abstract": "conference",
+  "conference-poster": "conference",
+  preprint: "preprint",
+  book: "book",
+  "book-chapter": "book",
+  "edited-book": "book",
+  "dissertation-thesis": "thesis",
+  dissertation: "thesis",
+  report: "report",
+  "working-paper": "report",
+};
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// Combining marks for LaTeX accent commands, e.g. \"{o} becomes ö
+const LATEX_ACCENTS: Record<string, string> = {
+  '"': "̈",
+  "'": "́",
+  "`": "̀",
+  "^": "̂",
+  "~": "̃",
+  "=": "̄",
+  ".": "̇",
+  u: "̆",
+  v: "̌",
+  H: "̋",
+  c: "̧",
+  r: "̊",
+  k: "̨",
+};
+
+const LATEX_SYMBOLS: Record<string, string> = {
+  ss: "ß",
+  o: "ø",
+  O: "Ø",
+  ae: "æ",
+  AE: "Æ",
+  oe: "œ",
+  OE: "Œ",
+  aa: "å",
+  AA: "Å",
+  l: "ł",
+  L: "Ł",
+  i: "ı",
+};
+
+/**
+ * Converts LaTeX markup in a BibTeX value to plain text
+ */
+export function cleanLatex(value: string): string {
+  return value
+    .replace(/\\(["'`^~=.])\s*\{?\\?([A-Za-z])\}?/g, (_match, accent: string, letter: string) =>
+      `${letter}${LATEX_ACCENTS[accent]}`.normalize("NFC"),
+    )
+    .replace(/\\([uvHcrk])(?:\s*\{\\?([A-Za-z])\}|\s+([A-Za-z]))/g, (_match, accent, a, b) =>
+      `${a || b}${LATEX_ACCENTS[accent]}`.normalize("NFC"),
+    )
+    .replace(
+      /\\(ss|ae|AE|oe|OE|aa|AA|o|O|l|L|i)(?![A-Za-z])\s*/g,
+      (_match, symbol: string) => LATEX_SYMBOLS[symbol],
+    )
+    .replace(/\\([&%$#_{}])/g, "$1")
+    .replace(/\\[A-Za-z]+\s*(?=\{)/g, "") // \emph{...}, \textbf{...}: keep the argument
+    .replace(/\\[A-Za-z]+/g, "")
+    .replace(/---/g, "—")
+    .replace(/--/g, "–")
+    .replace(/~/g, " ")
+    .replace(/[{}$]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Parses BibTeX into raw entries. @string macros are expanded; @comment and @preamble are
+ * skipped. Field names are lowercased and values keep their LaTeX markup.
+ */
+export function parseBibTeX(input: string): BibTeXEntry[] {
+  const entries: BibTeXEntry[] = [];
+  const macros: Record<string, string> = Object.fromEntries(
+    MONTHS.map((month, i) => [month, String(i + 1)]),
+  );
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    while (pos < input.length && /\s/.test(input[pos])) pos++;
+  };
+
+  const readIdentifier = () => {
+    const start = pos;
+    while (pos < input.length && /[^\s,={}()"#]/.test(input[pos])) pos++;
+    return input.slice(start, pos);
+  };
+
+  // Reads a {balanced} or "quoted" value, without its delimiters
+  const readDelimited = () => {
+    const quoted = input[pos] === '"';
+    let depth = 0;
+    const start = ++pos;
+
+    while (pos < input.length) {
+      const char = input[pos];
+      if (char === "\\") {
+        pos += 2;
+        continue;
+      }
+      if (char === "{") depth++;
+      else if (char === "}" && depth > 0) depth--;
+      else if (depth === 0 && char === (quoted ? '"' : "}")) break;
+      pos++;
+    }
+
+    if (pos >= input.length) throw new Error("Unterminated value in BibTeX");
+    return input.slice(start, pos++);
+  };
+
+  // Reads a value made of parts joined with #
+  const readValue = () => {
+    const parts: string[] = [];
+    for (;;) {
+      skipWhitespace();
+      const char = input[pos];
+      if (char === "{" || char === '"') {
+        parts.push(readDelimited());
+      } else {
+        const identifier = readIdentifier();
+        if (!identifier) throw new Error(`Missing value at position ${pos} in BibTeX`);
+        parts.push(/^\d+$/.test(identifier) ? identifier : macros[identifier.toLowerCase()] || "");
+      }
+      skipWhitespace();
+      if (input[pos] !== "#") return parts.join("");
+      pos++;
+    }
+  };
+
+  while (entries.length < MAX_PUBLICATIONS) {
+    const at = input.indexOf("@", pos);
+    if (at === -1) break;
+    pos = at + 1;
+
+    const type = readIdentifier().toLowerCase();
+    skipWhitespace();
+    const open = input[pos];
+    if (!type || (open !== "{" && open !== "(")) continue;
+
+    if (type === "comment" || type === "preamble") {
+      if (open === "{") readDelimited();
+      continue;
+    }
+
+    const close = open === "{" ? "}" : ")";
+    pos++;
+    skipWhitespace();
+
+    if (type === "string") {
+      const name = readIdentifier().toLowerCase();
+      skipWhitespace();
+      if (input[pos] === "=") {
+        pos++;
+        macros[name] = readValue();
+      }
+      skipWhitespace();
+      if (input[pos] === close) pos++;
+      continue;
+    }
+
+    const key = readIdentifier();
+    const fields: Record<string, string> = {};
+
+    for (;;) {
+      skipWhitespace();
+      if (input[pos] === ",") {
+        pos++;
+        skipWhitespace();
+      }
+      if (pos >= input.length) throw new Error(`Unterminated entry ${key} in BibTeX`);
+      if (input[pos] === close) {
+        pos++;
+        break;
+      }
+
+      const name = readIdentifier().toLowerCase();
+      skipWhitespace();
+      if (!name || input[pos] !== "=") {
+        throw new Error(`Invalid field in BibTeX entry ${key}`);
+      }
+      pos++;
+      fields[name] = readValue();
+    }
+
+    entries.push({ type, key, fields });
+  }
+
+  return entries;
+}
+
+/**
+ * Splits a BibTeX author field on "and" outside of braces
+ */
+function splitBibTeXAuthors(value: string): string[] {
+  const authors: string[] = [];
+  let depth = 0;
+  let current = "";
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === "{") depth++;
+    if (char === "}") depth--;
+
+    if (depth === 0 && /^\s+and\s+/i.test(value.slice(i))) {
+      authors.push(current);
+      current = "";
+      i += (value.slice(i).match(/^\s+and\s+/i)?.[0].length || 1) - 1;
+      continue;
+    }
+    current += char;
+  }
+  authors.push(current);
+
+  return authors.map(cleanLatex).filter(Boolean);
+}
+
+function normalizeDoi(value?: string | null): string | null {
+  if (!value) return null;
+  const doi = value
+    .trim()
+    .replace(/^https?:\/\/(dx\.)?doi\.org\//i, "")
+    .replace(/^doi:\s*/i, "");
+  return /^10\.\d{4,}\/\S+$/.test(doi) ? doi : null;
+}
+
+/**
+ * Extracts a versionless arXiv ID from an ID, "arXiv:" reference or arxiv.org URL
+ */
+function normalizeArxivId(value?: string | null): string | null {
+  if (!value) return null;
+  const match = value.match(
+    /(?:arxiv\.org\/(?:abs|pdf)\/|arxiv:\s*|^)(\d{4}\.\d{4,5}|[a-z-]+(?:\.[A-Z]{2})?\/\d{7})(v\d+)?/i,
+  );
+  return match ? match[1] : null;
+}
+
+function parseYear(value?: string | null): number | null {
+  const match = value?.match(/\b(\d{4})\b/);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Stable ID from the DOI, arXiv ID or title and year, so the same paper imported from
+ * different sources gets the same ID
+ */
+function createPublicationId(
+  doi: string | null,
+  arxivId: string | null,
+  title: string,
+  year: number | null,
+): string {
+  const identity = doi
+    ? `doi:${doi.toLowerCase()}`
+    : arxivId
+      ? `arxiv:${arxivId}`
+      : `${title.toLowerCase()}\n${year ?? ""}`;
+  const hash = crypto.createHash("sha256").update(identity).digest("hex").slice(0, 16);
+  return `publication-${hash}`;
+}
+
+function createPublication(
+  fields: Omit<Publication, "id" | "summary" | "selected" | "source">,
+): Publication {
+  return {
+    id: createPublicationId(fields.doi || null, fields.arxivId || null, fields.title, fields.year),
+    ...fields,
+    summary: null,
+    selected: false,
+    source: "publication",
+  };
+}
+
+/**
+ * Drops repeated publications, keeping the first
+ */
+function uniquePublications(publications: Publication[]): Publication[] {
+  const seen = new Set<string>();
+  return publications.filter((publication) => {
+    if (seen.has(publication.id)) return false;
+    seen.add(publication.id);
+    return true;
+  });
+}
+
+function convertBibTeXEntry(entry: BibTeXEntry): Publication | null {
+  const fields = entry.fields;
+  const title = cleanLatex(fields.title || "");
+  if (!title) return null;
+
+  const isArxiv = /arxiv/i.test(fields.archiveprefix || fields.eprinttype || "");
+  const arxivId =
+    normalizeArxivId(isArxiv ? fields.eprint : null) ||
+    normalizeArxivId(fields.journal?.match(/arxiv/i) ? fields.journal : null) ||
+    normalizeArxivId(fields.url?.includes("arxiv.org") ? fields.url : null);
+  const venue =
+    fields.journal ||
+    fields.booktitle ||
+    (entry.type.endsWith("thesis") ? fields.school : null) ||
+    (entry.type === "techreport" ? fields.institution : null) ||
+    fields.publisher ||
+    fields.howpublished;
+  const cleanVenue = venue ? cleanLatex(venue) : "";
+
+  let publicationType = BIBTEX_TYPES[entry.type] || "other";
+  if (publicationType === "other" && arxivId) publicationType = "preprint";
+  // arXiv exports cite preprints as journal = {arXiv preprint arXiv:...}
+  if (publicationType === "article" && /^arxiv/i.test(cleanVenue)) publicationType = "preprint";
+
+  return createPublication({
+    title,
+    abstract: fields.abstract ? cleanLatex(fields.abstract) : null,
+    url: fields.url ? fields.url.trim() : null,
+    publicationType,
+    authors: fields.author ? splitBibTeXAuthors(fields.author) : [],
+    venue: cleanVenue && !/^arxiv/i.test(cleanVenue) ? cleanVenue : null,
+    year: parseYear(fields.year || fields.date),
+    doi: normalizeDoi(fields.doi),
+    arxivId,
+    tags: (fields.keywords || "")
+      .split(/[,;]/)
+      .map((keyword) => cleanLatex(keyword))
+      .filter(Boolean),
+  });
+}
+
+/**
+ * Converts pasted or uploaded BibTeX into publications
+ * Privacy: Processed in memory, nothing is stored
+ * @param bibtex - BibTeX source, e.g. exported from Google Scholar or Zotero
+ * @returns Publications, in the order of the file
+ */
+export function getPublicationsFromBibTeX(bibtex: string): Publication[] {
+  if (bibtex.length > MAX_BIBTEX_LENGTH) {
+    throw new Error("BibTeX is too large");
+  }
+
+  const publications = parseBibTeX(bibtex)
+    .map(convertBibTeXEntry)
+    .filter((publication): publication is Publication => publication !== null);
+
+  if (publications.length === 0) {
+    throw new Error("No BibTeX entries with a title found");
+  }
+  return uniquePublications(publications);
+}
+
+type OrcidValue = { value?: string | null } | null | undefined;
+
+interface OrcidWork {
+  title?: { title?: OrcidValue } | null;
+  type?: string | null;
+  "journal-title"?: OrcidValue;
+  "short-description"?: string | null;
+  "publication-date"?: { year?: OrcidValue } | null;
+  "external-ids"?: {
+    "external-id"?: Array<{
+      "external-id-type"?: string;
+      "external-id-value"?: string;
+    }> | null;
+  } | null;
+  url?: OrcidValue;
+  contributors?: {
+    contributor?: Array<{ "credit-name"?: OrcidValue }> | null;
+  } | null;
+}
+
+/**
+ * Finds the works in the shapes the ORCID API returns: the /works summary
+ * ({ group: [{ "work-summary": [...] }] }), the bulk /works/{put-codes} response
+ * ({ bulk: [{ work }] }), or a plain array of works
+ */
+function getOrcidWorks(input: unknown): OrcidWork[] {
+  if (Array.isArray(input)) return input;
+  if (!input || typeof input !== "object") return [];
+
+  const data = input as Record<string, any>;
+  if (Array.isArray(data.group)) {
+    // The first summary of a group is the preferred version of the work
+    return data.group.map((group: any) => group?.["work-summary"]?.[0]).filter(Boolean);
+  }
+  if (Array.isArray(data.bulk)) {
+    return data.bulk.map((item: any) => item?.work).filter(Boolean);
+  }
+  return data.title ? [data as OrcidWork] : [];
+}
+
+function convertOrcidWork(work: OrcidWork): Publication | null {
+  const title = work.title?.title?.value?.trim();
+  if (!title) return null;
+
+  const externalIds = work["external-ids"]?.["external-id"] || [];
+  const getExternalId = (type: string) =>
+    externalIds.find((id) => id["external-id-type"]?.toLowerCase() === type)?.["external-id-value"];
+  const arxivId = normalizeArxivId(getExternalId("arxiv"));
+
+  return createPublication({
+    title,
+    abstract: work["short-description"]?.trim() || null,
+    url: work.url?.value || null,
+    publicationType:
+      ORCID_TYPES[work.type?.toLowerCase() || ""] || (arxivId ? "preprint" : "other"),
+    authors: (work.contributors?.contributor || [])
+      .map((contributor) => contributor["credit-name"]?.value?.trim())
+      .filter((name): name is string => !!name),
+    venue: work["journal-title"]?.value?.trim() || null,
+    year: parseYear(work["publication-date"]?.year?.value),
+    doi: normalizeDoi(getExternalId("doi")),
+    arxivId,
+    tags: [],
+  });
+}
+
+/**
+ * Converts an ORCID works JSON export into publications
+ * Privacy: Processed in memory, nothing is stored
+ * @param input - Parsed JSON from the ORCID API or an export of it
+ * @returns Publications
+ */
+export function getPublicationsFromOrcid(input: unknown): Publication[] {
+  const publications = getOrcidWorks(input)
+    .slice(0, MAX_PUBLICATIONS)
+    .map(convertOrcidWork)
+    .filter((publication): publication is Publication => publication !== null);
+
+  if (publications.length === 0) {
+    throw new Error("No works found in the ORCID export");
+  }
+  return uniquePublications(publications);
+}
+
+/**
+ * Resolves an arXiv author identifier (e.g. lovelace_a_1), ORCID iD or arxiv.org/a/ URL
+ * to the author's Atom feed
+ */
+export function getArxivFeedUrl(author: string): string {
+  const value = author
+    .trim()
+    .replace(/^https?:\/\/(www\.)?arxiv\.org\/a\//i, "")
+    .replace(/\.(html|atom2?)$/i, "")
+    .replace(/\/+$/, "");
+
+  if (!/^[a-z0-9_]+$/i.test(value) && !/^\d{4}-\d{4}-\d{4}-\d{3}[\dX]$/.test(value)) {
+    throw new Error("Invalid arXiv author identifier");
+  }
+  return `https://arxiv.org/a/${value}.atom`;
+}
+
+function normalizeWhitespace(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Converts the entries of an arXiv Atom feed into publications
+ */
+export function convertArxivEntries(items: RSSFeedItem[]): Publication[] {
+  return uniquePublications(
+    items.slice(0, MAX_PUBLICATIONS).flatMap((item) => {
+      const arxivId = normalizeArxivId(item.guid || item.link);
+      const title = normalizeWhitespace(item.title || "");
+      if (!arxivId || !title) return [];
+
+      const journalRef = item.journalRef ? normalizeWhitespace(item.journalRef) : null;
+      return [
+        createPublication({
+          title,
+          abstract: item.summary ? normalizeWhitespace(item.summary) : null,
+          url: `https://arxiv.org/abs/${arxivId}`,
+          publicationType: journalRef ? "article" : "preprint",
+          authors: item.authors?.length ? item.authors : item.creator ? [item.creator] : [],
+          venue: journalRef,
+          year: parseYear(item.isoDate || item.pubDate),
+          doi: normalizeDoi(item.doi),
+          arxivId,
+          tags: [],
+        }),
+      ];
+    }),
+  );
+}
+
+/**
+ * Fetches an author's papers from their arXiv Atom feed
+ * Privacy: Fetched through the SSRF-safe feed fetcher, nothing is stored
+ * @param author - arXiv author identifier, ORCID iD or arxiv.org/a/ URL
+ * @returns Publications, newest first
+ */
+export async function getArxivPublications(author: string): Promise<Publication[]> {
+  const feed = await fetchRSSFeed(getArxivFeedUrl(author));
+  return convertArxivEntries(feed.items);
+}
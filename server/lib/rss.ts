@@ -1,70 +1,22 @@
-import dns from "node:dns";
-import net from "node:net";
 import Parser from "rss-parser";
 import type { BlogPost } from "../../shared/schema";
-
-// Check for private / local IP addresses to prevent SSRF
-const isPrivateIP = (ip: string): boolean => {
-  const cleanIp = ip.replace(/^\[(.*)\]$/, "$1");
-  const ipVersion = net.isIP(cleanIp);
-  if (!ipVersion) return false;
-
-  // IPv4: loopback, private ranges, link-local, unspecified, cloud metadata
-  if (ipVersion === 4) {
-    return /^(127\.|10\.|192\.168\.|172\.(1[6-9]|2[0-9]|3[0-1])\.|169\.254\.|0\.0\.0\.0)/.test(
-      cleanIp,
-    );
-  }
-
-  // IPv6: loopback (::1), unspecified (::), unique-local (fc00::/7),
-  // link-local (fe80::/10), and IPv4-mapped (::ffff:private)
-  const lowerIp = cleanIp.toLowerCase();
-  if (lowerIp === "::1" || lowerIp === "::") return true;
-  if (/^f[cd]/i.test(lowerIp)) return true; // fc00::/7 unique-local
-  if (/^fe[89ab]/i.test(lowerIp)) return true; // fe80::/10 link-local
-  // IPv4-mapped IPv6 (::ffff:10.x.x.x, etc.)
-  const v4Mapped = cleanIp.match(/::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
-  if (v4Mapped) return isPrivateIP(v4Mapped[1]);
-
-  return false;
-};
-
-// Custom DNS lookup to prevent DNS rebinding attacks pointing to local IPs
-const customLookup = (
-  hostname: string,
-  options: dns.LookupOptions | number,
-  callback: (
-    err: NodeJS.ErrnoException | null,
-    address: string | dns.LookupAddress[],
-    family: number,
-  ) => void,
-) => {
-  dns.lookup(hostname, options as dns.LookupOptions, (err, address, family) => {
-    if (err) return callback(err, address, family);
-
-    const addresses = Array.isArray(address) ? address : [{ address }];
-    for (const addr of addresses) {
-      if (isPrivateIP(addr.address)) {
-        return callback(
-          new Error(`Access to private IP ${addr.address} is blocked`),
-          address,
-          family,
-        );
-      }
-    }
-    callback(err, address, family);
-  });
-};
+import { isPrivateIP, safeLookup } from "./network-guard.js";
 
 const parser = new Parser({
   maxRedirects: 0, // Prevent redirects to IP literals to bypass dns.lookup
   requestOptions: {
-    lookup: customLookup,
+    lookup: safeLookup,
   },
   customFields: {
     item: [
       ["content:encoded", "contentEncoded"],
       ["media:content", "mediaContent"],
+      // Atom entries list every author; rss-parser only keeps the first
+      ["author", "authors", { keepArray: true }],
+      ["arxiv:doi", "arxivDoi"],
+      ["arxiv:journal_ref", "arxivJournalRef"],
+      ["yt:videoId", "youtubeVideoId"],
+      ["media:group", "mediaGroup"],
     ],
   },
 });
@@ -79,6 +31,17 @@ export interface RSSFeedItem {
   guid?: string;
   categories?: string[];
   isoDate?: string;
+  /** All authors, for feeds with several per entry */
+  authors?: string[];
+  /** Atom summary, e.g. the abstract in arXiv feeds */
+  summary?: string;
+  /** DOI and journal reference from arXiv's Atom extensions */
+  doi?: string;
+  journalRef?: string;
+  /** Video ID, description and thumbnail from YouTube's Atom extensions */
+  videoId?: string;
+  videoDescription?: string;
+  thumbnailUrl?: string;
 }
 
 export interface RSSFeed {
@@ -88,6 +51,17 @@ export interface RSSFeed {
   items: RSSFeedItem[];
 }
 
+/**
+ * Reads author names from RSS (text) or Atom (<author><name>) author elements
+ */
+function getAuthorNames(authors: unknown): string[] | undefined {
+  if (!Array.isArray(authors)) return undefined;
+  return authors
+    .map((author) => (typeof author === "string" ? author : author?.name?.[0]))
+    .filter((name): name is string => typeof name === "string" && name.trim() !== "")
+    .map((name) => name.trim());
+}
+
 /**
  * Fetches and parses an RSS feed from the given URL
  * Privacy: This function fetches data directly from user-provided URLs without logging
@@ -118,6 +92,13 @@ export async function fetchRSSFeed(feedUrl: string): Promise<RSSFeed> {
         guid: item.guid || item.link,
         categories: item.categories || [],
         isoDate: item.isoDate,
+        authors: getAuthorNames((item as any).authors),
+        summary: (item as any).summary,
+        doi: (item as any).arxivDoi,
+        journalRef: (item as any).arxivJournalRef,
+        videoId: (item as any).youtubeVideoId,
+        videoDescription: (item as any).mediaGroup?.["media:description"]?.[0],
+        thumbnailUrl: (item as any).mediaGroup?.["media:thumbnail"]?.[0]?.$?.url,
       })),
     };
   } catch (error) {
@@ -128,6 +109,16 @@ export async function fetchRSSFeed(feedUrl: string): Promise<RSSFeed> {
   }
 }
 
+/**
+ * Estimates reading time from content length (Medium's algorithm approximation)
+ * Medium uses ~275 words per minute
+ */
+export function estimateReadTime(content: string): number {
+  const wordCount = content.split(/\s+/).length;
+  const readTime = Math.ceil(wordCount / 275);
+  return Math.max(1, readTime); // Minimum 1 minute
+}
+
 /**
  * Converts RSS feed items to BlogPost schema format
  * Privacy: All processing happens in-memory, no data is stored
@@ -158,6 +149,7 @@ export function convertRSSItemsToBlogPosts(
       author: author || item.creator || null,
       tags: item.categories || [],
       feedUrl,
+      readTime: item.content ? estimateReadTime(item.content) : null,
     };
   });
 }
@@ -0,0 +1,326 @@
+import crypto from "node:crypto";
+import path from "node:path";
+import axios, { type AxiosRequestConfig, isAxiosError } from "axios";
+import { getInstanceRequestConfig, normalizeInstanceUrl } from "./network-guard.js";
+import type { PortfolioFile } from "./portfolio-generator.js";
+
+/**
+ * Deploys portfolios to S3-compatible object storage (Amazon S3, Cloudflare R2, Backblaze B2,
+ * MinIO). Requests are signed with AWS Signature Version 4. Custom endpoints are addressed
+ * path-style (<endpoint>/<bucket>/<key>) and go through the self-hosted instance guard, so
+ * an internal MinIO must be listed in SELF_HOSTED_ALLOWED_HOSTS.
+ */
+
+export const DEFAULT_S3_REGION = "us-east-1";
+
+// Stale objects are only deleted under a prefix; without one, deleting would empty the bucket
+export const STALE_PREFIX_REQUIRED = "A prefix is required to delete stale files";
+
+export interface S3TargetInput {
+  bucket?: unknown;
+  prefix?: unknown;
+  region?: unknown;
+  endpoint?: unknown;
+  accessKeyId?: unknown;
+  secretAccessKey?: unknown;
+}
+
+export interface S3Target {
+  bucket: string;
+  // Key prefix without leading slash, ending in "/" unless empty
+  prefix: string;
+  region: string;
+  // Custom endpoint; Amazon S3 when null
+  endpoint: string | null;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+export interface S3Deployment {
+  url: string;
+  uploaded: number;
+  deleted: number;
+}
+
+interface SignableRequest {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  body?: Buffer;
+}
+
+const BUCKET_REGEX = /^[a-z0-9][a-z0-9.-]{1,61}[a-z0-9]$/;
+const REGION_REGEX = /^[a-z0-9-]+$/;
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".js": "application/javascript; charset=utf-8",
+  ".json": "application/json",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".txt": "text/plain; charset=utf-8",
+  ".xml": "application/xml",
+};
+
+// Pages must pick up a redeploy right away; stylesheets and images keep their names across
+// deploys, so they are only cached for an hour
+const HTML_CACHE_CONTROL = "no-cache";
+const ASSET_CACHE_CONTROL = "public, max-age=3600";
+
+function getRequiredString(value: unknown, field: string): string {
+  if (typeof value !== "string" || value.trim() === "") {
+    throw new Error(`${field} is required`);
+  }
+  return value.trim();
+}
+
+/**
+ * Validates the deploy target entered by the user
+ * @throws When a field is missing or invalid
+ */
+export function normalizeS3Target(input: S3TargetInput): S3Target {
+  const bucket = getRequiredString(input.bucket, "Bucket");
+  if (!BUCKET_REGEX.test(bucket)) {
+    throw new Error("Bucket must be a valid S3 bucket name");
+  }
+
+  const region =
+    typeof input.region === "string" && input.region.trim() !== ""
+      ? input.region.trim()
+      : DEFAULT_S3_REGION;
+  if (!REGION_REGEX.test(region)) {
+    throw new Error("Region must be a region name such as us-east-1 or auto");
+  }
+
+  const prefix =
+    typeof input.prefix === "string" ? input.prefix.trim().replace(/^\/+|\/+$/g, "") : "";
+  if (prefix.split("/").some((segment) => segment === "." || segment === "..")) {
+    throw new Error("Prefix must not contain . or .. segments");
+  }
+
+  const endpoint =
+    typeof input.endpoint === "string" && input.endpoint.trim() !== ""
+      ? normalizeInstanceUrl(input.endpoint)
+      : null;
+
+  return {
+    bucket,
+    prefix: prefix ? `${prefix}/` : "",
+    region,
+    endpoint,
+    accessKeyId: getRequiredString(input.accessKeyId, "Access key ID"),
+    secretAccessKey: getRequiredString(input.secretAccessKey, "Secret access key"),
+  };
+}
+
+export function getContentType(filePath: string): string {
+  return CONTENT_TYPES[path.extname(filePath).toLowerCase()] || "application/octet-stream";
+}
+
+export function getCacheControl(filePath: string): string {
+  return path.extname(filePath).toLowerCase() === ".html"
+    ? HTML_CACHE_CONTROL
+    : ASSET_CACHE_CONTROL;
+}
+
+// RFC 3986 encoding as required by Signature Version 4; encodeURIComponent leaves !'()* as is
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+}
+
+function sha256(data: string | Buffer): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac("sha256", key).update(data).digest();
+}
+
+/**
+ * Signs a request with AWS Signature Version 4, adding the x-amz-date, x-amz-content-sha256
+ * and Authorization headers. The URL path must already be encoded.
+ * @param date - Signing time; the current time when omitted
+ */
+export function signS3Request(
+  request: SignableRequest,
+  target: Pick<S3Target, "region" | "accessKeyId" | "secretAccessKey">,
+  date = new Date(),
+): Record<string, string> {
+  const amzDate = date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+  const day = amzDate.slice(0, 8);
+  const scope = `${day}/${target.region}/s3/aws4_request`;
+
+  const headers: Record<string, string> = {
+    ...request.headers,
+    host: request.url.host,
+    "x-amz-content-sha256": sha256(request.body || ""),
+    "x-amz-date": amzDate,
+  };
+  const headerNames = Object.keys(headers)
+    .map((name) => name.toLowerCase())
+    .sort();
+  const lowerHeaders = Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value.trim()]),
+  );
+  const signedHeaders = headerNames.join(";");
+
+  const query = Array.from(request.url.searchParams.entries())
+    .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("&");
+
+  const canonicalRequest = [
+    request.method,
+    request.url.pathname,
+    query,
+    ...headerNames.map((name) => `${name}:${lowerHeaders[name]}`),
+    "",
+    signedHeaders,
+    headers["x-amz-content-sha256"],
+  ].join("\n");
+
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256(canonicalRequest)].join("\n");
+  const signingKey = ["s3", "aws4_request"].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${target.secretAccessKey}`, day), target.region),
+  );
+  const signature = crypto.createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+  return {
+    ...headers,
+    Authorization:
+      `AWS4-HMAC-SHA256 Credential=${target.accessKeyId}/${scope}, ` +
+      `SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+/**
+ * URL of an object, or of the bucket itself when key is empty
+ */
+export function getObjectUrl(target: S3Target, key: string): URL {
+  const encodedKey = key.split("/").map(encodeRfc3986).join("/");
+  return target.endpoint
+    ? new URL(`${target.endpoint}/${target.bucket}/${encodedKey}`)
+    : new URL(`https://${target.bucket}.s3.${target.region}.amazonaws.com/${encodedKey}`);
+}
+
+function getRequestConfig(target: S3Target): AxiosRequestConfig {
+  return target.endpoint ? getInstanceRequestConfig(target.endpoint) : {};
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+async function s3Request(
+  target: S3Target,
+  method: string,
+  url: URL,
+  body?: Buffer,
+  headers: Record<string, string> = {},
+): Promise<string> {
+  try {
+    const response = await axios.request<string>({
+      ...getRequestConfig(target),
+      method,
+      url: url.toString(),
+      data: body,
+      headers: signS3Request({ method, url, headers, body }, target),
+      responseType: "text",
+      transformResponse: (data) => data,
+    });
+    return response.data;
+  } catch (error) {
+    if (isAxiosError(error) && error.response) {
+      const message = String(error.response.data || "").match(/<Message>([^<]*)<\/Message>/)?.[1];
+      throw new Error(
+        `S3 error: ${message ? decodeXml(message) : `HTTP ${error.response.status}`}`,
+      );
+    }
+    throw new Error(`S3 error: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+}
+
+/**
+ * Lists the keys under the target prefix, following continuation tokens (ListObjectsV2)
+ */
+export async function listS3Keys(target: S3Target): Promise<string[]> {
+  const keys: string[] = [];
+  let continuationToken: string | null = null;
+
+  do {
+    const url = getObjectUrl(target, "");
+    url.searchParams.set("list-type", "2");
+    if (target.prefix) url.searchParams.set("prefix", target.prefix);
+    if (continuationToken) url.searchParams.set("continuation-token", continuationToken);
+
+    const xml = await s3Request(target, "GET", url);
+    for (const match of Array.from(xml.matchAll(/<Key>([^<]*)<\/Key>/g))) {
+      keys.push(decodeXml(match[1]));
+    }
+
+    const truncated = /<IsTruncated>true<\/IsTruncated>/.test(xml);
+    const next = xml.match(/<NextContinuationToken>([^<]*)<\/NextContinuationToken>/)?.[1];
+    continuationToken = truncated && next ? decodeXml(next) : null;
+  } while (continuationToken);
+
+  return keys;
+}
+
+/**
+ * Uploads the portfolio files under the target prefix
+ * @param deleteStale - Also delete objects under the prefix that are not part of this deploy,
+ * e.g. detail pages of projects that were removed
+ * @throws When deleteStale is set without a prefix, which would empty the whole bucket
+ */
+export async function deployToS3(
+  target: S3Target,
+  files: PortfolioFile[],
+  deleteStale = false,
+): Promise<S3Deployment> {
+  if (deleteStale && !target.prefix) {
+    throw new Error(STALE_PREFIX_REQUIRED);
+  }
+
+  const keys = new Set<string>();
+
+  for (const file of files) {
+    const key = `${target.prefix}${file.path}`;
+    keys.add(key);
+    await s3Request(target, "PUT", getObjectUrl(target, key), Buffer.from(file.content), {
+      "Content-Type": getContentType(file.path),
+      "Cache-Control": getCacheControl(file.path),
+    });
+  }
+
+  let deleted = 0;
+  if (deleteStale) {
+    for (const key of await listS3Keys(target)) {
+      if (keys.has(key)) continue;
+      await s3Request(target, "DELETE", getObjectUrl(target, key));
+      deleted++;
+    }
+  }
+
+  return {
+    url: getObjectUrl(target, `${target.prefix}index.html`).toString(),
+    uploaded: files.length,
+    deleted,
+  };
+}
@@ -0,0 +1,171 @@
+import crypto from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * Storage backend for generated summaries, keyed by content hash
+ */
+export interface SummaryCacheStore {
+  get(key: string): Promise<string | undefined>;
+  set(key: string, summary: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const DEFAULT_MAX_ENTRIES = 1000;
+const DEFAULT_CACHE_DIR = ".cache/summaries";
+
+/**
+ * In-memory store that evicts the least recently used entry once maxEntries is reached
+ */
+export function createMemoryCacheStore(maxEntries = DEFAULT_MAX_ENTRIES): SummaryCacheStore {
+  const entries = new Map<string, string>();
+
+  return {
+    async get(key) {
+      const summary = entries.get(key);
+      if (summary !== undefined) {
+        // Re-insert so the entry becomes the most recently used
+        entries.delete(key);
+        entries.set(key, summary);
+      }
+      return summary;
+    },
+    async set(key, summary) {
+      entries.delete(key);
+      entries.set(key, summary);
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value as string;
+        entries.delete(oldest);
+      }
+    },
+    async clear() {
+      entries.clear();
+    },
+  };
+}
+
+/**
+ * File-backed store with one JSON file per entry, so summaries survive restarts
+ */
+export function createFileCacheStore(directory: string): SummaryCacheStore {
+  const fileFor = (key: string) => path.join(directory, `${key}.json`);
+
+  return {
+    async get(key) {
+      try {
+        const data = JSON.parse(await readFile(fileFor(key), "utf8"));
+        return typeof data.summary === "string" ? data.summary : undefined;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          console.warn(`Ignoring unreadable summary cache entry ${key}:`, error);
+        }
+        return undefined;
+      }
+    },
+    async set(key, summary) {
+      await mkdir(directory, { recursive: true });
+      await writeFile(
+        fileFor(key),
+        JSON.stringify({ summary, createdAt: new Date().toISOString() }),
+      );
+    },
+    async clear() {
+      await rm(directory, { recursive: true, force: true });
+    },
+  };
+}
+
+/**
+ * Builds the store selected by SUMMARY_CACHE: memory (default), file or off
+ */
+export function createSummaryCacheStore(
+  env: NodeJS.ProcessEnv = process.env,
+): SummaryCacheStore | null {
+  const mode = (env.SUMMARY_CACHE || "memory").trim().toLowerCase();
+
+  switch (mode) {
+    case "off":
+      return null;
+    case "file":
+      return createFileCacheStore(env.SUMMARY_CACHE_DIR || DEFAULT_CACHE_DIR);
+    default: {
+      if (mode !== "memory") {
+        console.warn(`Unknown SUMMARY_CACHE "${mode}", falling back to memory`);
+      }
+      const maxEntries = parseInt(env.SUMMARY_CACHE_MAX_ENTRIES || "", 10);
+      return createMemoryCacheStore(
+        Number.isNaN(maxEntries) || maxEntries < 1 ? DEFAULT_MAX_ENTRIES : maxEntries,
+      );
+    }
+  }
+}
+
+let store: SummaryCacheStore | null | undefined;
+
+function getStore(): SummaryCacheStore | null {
+  if (store === undefined) {
+    store = createSummaryCacheStore();
+  }
+  return store;
+}
+
+/**
+ * Replaces the cache backend, e.g. with a shared store; null disables caching
+ */
+export function setSummaryCacheStore(cacheStore: SummaryCacheStore | null) {
+  store = cacheStore;
+}
+
+/**
+ * Serializes a value with object keys sorted, so equal inputs always hash the same
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Hashes everything that affects a summary: content, metadata, prompt and model
+ */
+export function getSummaryCacheKey(input: Record<string, unknown>): string {
+  return crypto.createHash("sha256").update(stableStringify(input)).digest("hex");
+}
+
+/**
+ * Looks up a cached summary. Cache failures are logged and treated as a miss.
+ */
+export async function getCachedSummary(key: string): Promise<string | undefined> {
+  try {
+    return await getStore()?.get(key);
+  } catch (error) {
+    console.warn("Failed to read summary cache:", error);
+    return undefined;
+  }
+}
+
+/**
+ * Stores a generated summary. Cache failures are logged and otherwise ignored.
+ */
+export async function cacheSummary(key: string, summary: string): Promise<void> {
+  try {
+    await getStore()?.set(key, summary);
+  } catch (error) {
+    console.warn("Failed to write summary cache:", error);
+  }
+}
+
+/**
+ * Removes all cached summaries
+ */
+export async function clearSummaryCache(): Promise<void> {
+  await getStore()?.clear();
+}
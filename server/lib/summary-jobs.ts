@@ -0,0 +1,270 @@
+import crypto from "node:crypto";
+import type { SummaryStyle } from "../../shared/schema.js";
+import { type GiteaCredentials, type SummarizableItem, summarizeItem } from "./item-summaries.js";
+import type { LLMProvider, LLMRequestError } from "./llm/index.js";
+
+export type SummaryJobStatus = "running" | "completed" | "cancelled";
+
+/**
+ * Progress events, in the order they happen for each item.
+ * An item is started again when it is retried after a rate limit.
+ */
+export type SummaryJobEvent =
+  | { type: "started"; id: string }
+  | { type: "token"; id: string; token: string }
+  | { type: "done"; id: string; summary: string; cached: boolean }
+  | { type: "failed"; id: string; error: string }
+  | { type: "complete"; job: SummaryJobSnapshot };
+
+export interface SummaryJobSnapshot {
+  id: string;
+  status: SummaryJobStatus;
+  total: number;
+  completed: number;
+  summaries: Record<string, string>;
+  failed: Record<string, string>;
+  /** Items whose summary was served from the summary cache */
+  cached: string[];
+  /** Items that were not summarized because the job was cancelled */
+  pending: string[];
+  createdAt: string;
+  finishedAt: string | null;
+}
+
+export interface SummaryJobOptions {
+  /** GitHub token used to fetch READMEs and analyze repositories without one */
+  accessToken?: string;
+  /** Token and instance used to fetch READMEs of Gitea repositories */
+  gitea?: GiteaCredentials;
+  /** Number of items summarized at the same time */
+  concurrency?: number;
+  /** Default summary style; items may override it with their own summaryStyle */
+  style?: SummaryStyle;
+  /** Attempts per item when the provider is rate limiting */
+  maxAttempts?: number;
+  /** Receives progress events; summaries are streamed token by token when set */
+  onEvent?: (event: SummaryJobEvent) => void;
+}
+
+export interface SummaryJob {
+  readonly id: string;
+  /** Resolves with the final state once the job completes or is cancelled */
+  readonly done: Promise<SummaryJobSnapshot>;
+  snapshot(): SummaryJobSnapshot;
+  cancel(): SummaryJobSnapshot;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+export const MAX_CONCURRENCY = 16;
+const DEFAULT_MAX_ATTEMPTS = 4;
+const RATE_LIMIT_BACKOFF_MS = 2000;
+const MAX_RATE_LIMIT_WAIT_MS = 60 * 1000;
+
+/** Finished jobs stay available for polling this long */
+const JOB_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * Default number of items summarized at once, from SUMMARY_CONCURRENCY
+ */
+export function getSummaryConcurrency(env: NodeJS.ProcessEnv = process.env): number {
+  const configured = parseInt(env.SUMMARY_CONCURRENCY || "", 10);
+  return clampConcurrency(Number.isNaN(configured) ? DEFAULT_CONCURRENCY : configured);
+}
+
+function clampConcurrency(value: number): number {
+  return Math.min(MAX_CONCURRENCY, Math.max(1, Math.floor(value)));
+}
+
+/**
+ * Time until which each provider should not be called, shared by all jobs
+ * so one 429 pauses every worker talking to that provider
+ */
+const providerCooldowns = new Map<string, number>();
+
+function isRateLimited(error: unknown): error is LLMRequestError {
+  return (error as LLMRequestError | undefined)?.status === 429;
+}
+
+function pauseProvider(provider: LLMProvider, error: LLMRequestError, attempt: number) {
+  const delay = Math.min(
+    error.retryAfterMs ?? RATE_LIMIT_BACKOFF_MS * 2 ** (attempt - 1),
+    MAX_RATE_LIMIT_WAIT_MS,
+  );
+  const until = Date.now() + delay;
+  providerCooldowns.set(provider.id, Math.max(providerCooldowns.get(provider.id) || 0, until));
+}
+
+/**
+ * Waits for the provider's cooldown to pass
+ * @returns false when the job was cancelled while waiting
+ */
+async function waitForProvider(provider: LLMProvider, signal: AbortSignal): Promise<boolean> {
+  let wait = (providerCooldowns.get(provider.id) || 0) - Date.now();
+  while (wait > 0 && !signal.aborted) {
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(done, wait);
+      function done() {
+        clearTimeout(timer);
+        signal.removeEventListener("abort", done);
+        resolve();
+      }
+      signal.addEventListener("abort", done);
+    });
+    wait = (providerCooldowns.get(provider.id) || 0) - Date.now();
+  }
+  return !signal.aborted;
+}
+
+const jobs = new Map<string, { job: SummaryJob; ownerKey: string; finishedAt: number | null }>();
+
+function hashToken(accessToken?: string): string {
+  return crypto
+    .createHash("sha256")
+    .update(accessToken || "")
+    .digest("hex");
+}
+
+function removeExpiredJobs() {
+  const now = Date.now();
+  jobs.forEach((entry, id) => {
+    if (entry.finishedAt !== null && now - entry.finishedAt > JOB_TTL_MS) {
+      jobs.delete(id);
+    }
+  });
+}
+
+/**
+ * Starts summarizing items in the background with bounded concurrency.
+ * Items rate limited by the provider (HTTP 429) wait for Retry-After and are retried;
+ * other failures are recorded per item without stopping the job.
+ */
+export function createSummaryJob(
+  items: SummarizableItem[],
+  provider: LLMProvider,
+  options: SummaryJobOptions = {},
+): SummaryJob {
+  removeExpiredJobs();
+
+  const id = crypto.randomUUID();
+  const createdAt = new Date().toISOString();
+  const concurrency = clampConcurrency(options.concurrency ?? getSummaryConcurrency());
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const controller = new AbortController();
+  const emit = (event: SummaryJobEvent) => options.onEvent?.(event);
+
+  const queue = [...items];
+  const summaries: Record<string, string> = {};
+  const failed: Record<string, string> = {};
+  const cached: string[] = [];
+  const pending = new Set(items.map((item) => String(item.id)));
+  let status: SummaryJobStatus = "running";
+  let finishedAt: string | null = null;
+
+  const snapshot = (): SummaryJobSnapshot => ({
+    id,
+    status,
+    total: items.length,
+    completed: Object.keys(summaries).length + Object.keys(failed).length,
+    summaries: { ...summaries },
+    failed: { ...failed },
+    cached: [...cached],
+    pending: status === "cancelled" ? Array.from(pending) : [],
+    createdAt,
+    finishedAt,
+  });
+
+  const finish = (finalStatus: SummaryJobStatus) => {
+    if (status !== "running") return;
+    status = finalStatus;
+    finishedAt = new Date().toISOString();
+    const entry = jobs.get(id);
+    if (entry) entry.finishedAt = Date.now();
+    emit({ type: "complete", job: snapshot() });
+  };
+
+  const summarize = async (item: SummarizableItem) => {
+    const itemId = String(item.id);
+
+    for (let attempt = 1; ; attempt++) {
+      if (!(await waitForProvider(provider, controller.signal))) return;
+
+      emit({ type: "started", id: itemId });
+      try {
+        const result = await summarizeItem(
+          item,
+          provider,
+          options.accessToken,
+          options.onEvent
+            ? (token) => {
+                if (!controller.signal.aborted) emit({ type: "token", id: itemId, token });
+              }
+            : undefined,
+          options.style,
+          controller.signal,
+          options.gitea,
+        );
+        // Results that arrive after cancellation are dropped so the final state does not change
+        if (controller.signal.aborted) return;
+        pending.delete(itemId);
+        summaries[itemId] = result.summary;
+        if (result.cached) cached.push(itemId);
+        emit({ type: "done", id: itemId, summary: result.summary, cached: result.cached });
+        return;
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        if (isRateLimited(error) && attempt < maxAttempts) {
+          console.warn(`${provider.id} rate limit reached, retrying item ${itemId}`);
+          pauseProvider(provider, error, attempt);
+          continue;
+        }
+
+        console.error(`Failed to generate summary for item ${itemId}:`, error);
+        pending.delete(itemId);
+        failed[itemId] = error instanceof Error ? error.message : String(error);
+        emit({ type: "failed", id: itemId, error: failed[itemId] });
+        return;
+      }
+    }
+  };
+
+  const worker = async () => {
+    while (!controller.signal.aborted) {
+      const item = queue.shift();
+      if (!item) return;
+      await summarize(item);
+    }
+  };
+
+  const done = Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker))
+    .then(() => finish("completed"))
+    .then(snapshot);
+
+  const job: SummaryJob = {
+    id,
+    done,
+    snapshot,
+    cancel() {
+      if (status === "running") {
+        controller.abort();
+        finish("cancelled");
+      }
+      return snapshot();
+    },
+  };
+
+  jobs.set(id, { job, ownerKey: hashToken(options.accessToken), finishedAt: null });
+  return job;
+}
+
+/**
+ * Looks up a job for the client that started it
+ * @returns undefined when the job does not exist, expired or belongs to another token
+ */
+export function getSummaryJob(id: string, accessToken?: string): SummaryJob | undefined {
+  removeExpiredJobs();
+  const entry = jobs.get(id);
+  if (!entry || entry.ownerKey !== hashToken(accessToken)) {
+    return undefined;
+  }
+  return entry.job;
+}
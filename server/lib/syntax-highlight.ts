@@ -0,0 +1,227 @@
+/**
+ * Minimal syntax highlighting for code excerpts in generated portfolios. Comments, strings,
+ * numbers and keywords are wrapped in spans styled by portfolio.css; everything else is
+ * escaped text. Unknown languages get strings and numbers only.
+ */
+
+interface LanguageRules {
+  lineComment: string | null;
+  blockComment: [string, string] | null;
+  keywords: string[];
+}
+
+const C_STYLE_KEYWORDS = [
+  "break",
+  "case",
+  "catch",
+  "class",
+  "const",
+  "continue",
+  "default",
+  "do",
+  "else",
+  "enum",
+  "extends",
+  "false",
+  "finally",
+  "for",
+  "if",
+  "import",
+  "new",
+  "null",
+  "private",
+  "protected",
+  "public",
+  "return",
+  "static",
+  "switch",
+  "this",
+  "throw",
+  "true",
+  "try",
+  "void",
+  "while",
+];
+
+const JAVASCRIPT_KEYWORDS = [
+  ...C_STYLE_KEYWORDS,
+  "async",
+  "await",
+  "export",
+  "from",
+  "function",
+  "let",
+  "of",
+  "typeof",
+  "undefined",
+  "var",
+  "yield",
+];
+
+const LANGUAGES: Record<string, LanguageRules> = {
+  JavaScript: { lineComment: "//", blockComment: ["/*", "*/"], keywords: JAVASCRIPT_KEYWORDS },
+  TypeScript: {
+    lineComment: "//",
+    blockComment: ["/*", "*/"],
+    keywords: [...JAVASCRIPT_KEYWORDS, "interface", "type", "implements", "readonly", "as"],
+  },
+  Java: {
+    lineComment: "//",
+    blockComment: ["/*", "*/"],
+    keywords: [...C_STYLE_KEYWORDS, "final", "implements", "interface", "package", "throws"],
+  },
+  "C#": {
+    lineComment: "//",
+    blockComment: ["/*", "*/"],
+    keywords: [...C_STYLE_KEYWORDS, "async", "await", "namespace", "using", "var"],
+  },
+  C: {
+    lineComment: "//",
+    blockComment: ["/*", "*/"],
+    keywords: [...C_STYLE_KEYWORDS, "int", "char", "struct", "sizeof", "typedef", "unsigned"],
+  },
+  "C++": {
+    lineComment: "//",
+    blockComment: ["/*", "*/"],
+    keywords: [...C_STYLE_KEYWORDS, "auto", "int", "namespace", "struct", "template", "using"],
+  },
+  Go: {
+    lineComment: "//",
+    blockComment: ["/*", "*/"],
+    keywords: [
+      ..."break case chan const continue default defer else for func go if import".split(" "),
+      ..."interface map nil package range return select struct switch type var".split(" "),
+    ],
+  },
+  Rust: {
+    lineComment: "//",
+    blockComment: ["/*", "*/"],
+    keywords: [
+      ..."as async await break const continue else enum false fn for if impl in let".split(" "),
+      ..."loop match mod move mut pub return self Self struct trait true use where".split(" "),
+      "while",
+    ],
+  },
+  Python: {
+    lineComment: "#",
+    blockComment: null,
+    keywords: [
+      ..."and as async await break class continue def del elif else except False".split(" "),
+      ..."finally for from if import in is lambda None not or pass raise return".split(" "),
+      ..."self True try while with yield".split(" "),
+    ],
+  },
+  Ruby: {
+    lineComment: "#",
+    blockComment: null,
+    keywords: [
+      ..."begin class def do else elsif end ensure false if module nil require".split(" "),
+      ..."rescue return self then true unless until when while yield".split(" "),
+    ],
+  },
+  Shell: {
+    lineComment: "#",
+    blockComment: null,
+    keywords: [
+      ..."case do done echo elif else esac exit export fi for function if in".split(" "),
+      ..."local return set then until while".split(" "),
+    ],
+  },
+  SQL: {
+    lineComment: "--",
+    blockComment: ["/*", "*/"],
+    keywords: [
+      ..."select from where join left right inner outer on group by order having".split(" "),
+      ..."insert into values update set delete create table index as and or not".split(" "),
+      ..."null limit distinct".split(" "),
+    ],
+  },
+};
+
+// GitHub language names that share the rules of another language
+const LANGUAGE_ALIASES: Record<string, string> = {
+  TSX: "TypeScript",
+  JSX: "JavaScript",
+  Kotlin: "Java",
+  Bash: "Shell",
+  Zsh: "Shell",
+  PowerShell: "Shell",
+  YAML: "Shell",
+  TOML: "Shell",
+  Dockerfile: "Shell",
+  Makefile: "Shell",
+};
+
+const STRING_PATTERN =
+  String.raw`"""[\s\S]*?"""|'''[\s\S]*?'''|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|` +
+  "`(?:\\\\[\\s\\S]|[^`\\\\])*`";
+const NUMBER_PATTERN = String.raw`\b(?:0x[\da-fA-F]+|\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)\b`;
+const WORD_PATTERN = String.raw`[A-Za-z_$][\w$]*`;
+
+// Code is only ever element content, so quotes need no escaping
+function escapeHtml(code: string): string {
+  return code.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function getRules(language: string | null): LanguageRules | null {
+  if (!language) return null;
+  return LANGUAGES[LANGUAGE_ALIASES[language] || language] || null;
+}
+
+function buildTokenPattern(rules: LanguageRules | null): RegExp {
+  const comments = [
+    rules?.blockComment
+      ? `${escapeRegExp(rules.blockComment[0])}[\\s\\S]*?${escapeRegExp(rules.blockComment[1])}`
+      : null,
+    rules?.lineComment ? `${escapeRegExp(rules.lineComment)}[^\\n]*` : null,
+  ].filter(Boolean);
+
+  return new RegExp(
+    [
+      comments.length > 0 ? `(?<comment>${comments.join("|")})` : null,
+      `(?<string>${STRING_PATTERN})`,
+      `(?<number>${NUMBER_PATTERN})`,
+      `(?<word>${WORD_PATTERN})`,
+    ]
+      .filter(Boolean)
+      .join("|"),
+    "g",
+  );
+}
+
+function renderToken(kind: string, value: string): string {
+  return `<span class="token-${kind}">${escapeHtml(value)}</span>`;
+}
+
+/**
+ * Highlights code as HTML for a `<pre><code>` block
+ * @param language - GitHub language name, e.g. "TypeScript" or "Python"
+ */
+export function highlightCode(code: string, language: string | null): string {
+  const rules = getRules(language);
+  const keywords = new Set(rules?.keywords || []);
+  // SQL keywords are case-insensitive
+  const normalize = rules === LANGUAGES.SQL ? (word: string) => word.toLowerCase() : String;
+
+  let html = "";
+  let index = 0;
+
+  for (const match of Array.from(code.matchAll(buildTokenPattern(rules)))) {
+    const groups = match.groups || {};
+    html += escapeHtml(code.slice(index, match.index));
+
+    if (groups.comment) html += renderToken("comment", match[0]);
+    else if (groups.string) html += renderToken("string", match[0]);
+    else if (groups.number) html += renderToken("number", match[0]);
+    else if (keywords.has(normalize(match[0]))) html += renderToken("keyword", match[0]);
+    else html += escapeHtml(match[0]);
+
+    index = (match.index || 0) + match[0].length;
+  }
+
+  return html + escapeHtml(code.slice(index));
+}
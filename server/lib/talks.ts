@@ -0,0 +1,183 @@
+import crypto from "node:crypto";
+import type { Talk } from "../../shared/schema";
+import { fetchRSSFeed, type RSSFeedItem } from "./rss.js";
+
+/**
+ * Conference talks and videos, imported from the public Atom feed of a YouTube channel or
+ * playlist, or entered by hand. Talks with a YouTube video share the video's ID, so a talk
+ * entered by hand is not duplicated when the playlist is imported later.
+ */
+
+const YOUTUBE_FEED_URL = "https://www.youtube.com/feeds/videos.xml";
+const CHANNEL_ID_REGEX = /^UC[\w-]{22}$/;
+const PLAYLIST_ID_REGEX = /^(?:PL|UU|FL|OL|LL)[\w-]{10,}$/;
+const VIDEO_ID_REGEX = /^[\w-]{11}$/;
+
+const MAX_DESCRIPTION_LENGTH = 2000;
+
+export interface TalkInput {
+  title?: unknown;
+  event?: unknown;
+  date?: unknown;
+  description?: unknown;
+  videoUrl?: unknown;
+  slidesUrl?: unknown;
+  tags?: unknown;
+}
+
+function isYouTubeHost(hostname: string): boolean {
+  return /(^|\.)youtube\.com$/.test(hostname) || hostname === "youtu.be";
+}
+
+/**
+ * Atom feed URL for a YouTube channel or playlist. Accepts channel and playlist URLs, feed
+ * URLs, and bare channel (UC…) or playlist (PL…) IDs. Handles (@name) cannot be resolved
+ * without the YouTube Data API.
+ */
+export function getYouTubeFeedUrl(input: string): string {
+  const value = input.trim();
+
+  if (CHANNEL_ID_REGEX.test(value)) return `${YOUTUBE_FEED_URL}?channel_id=${value}`;
+  if (PLAYLIST_ID_REGEX.test(value)) return `${YOUTUBE_FEED_URL}?playlist_id=${value}`;
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error("Enter a YouTube channel or playlist URL");
+  }
+  if (!isYouTubeHost(url.hostname)) {
+    throw new Error("Only YouTube channels and playlists are supported");
+  }
+
+  const playlistId = url.searchParams.get("playlist_id") || url.searchParams.get("list");
+  if (playlistId && PLAYLIST_ID_REGEX.test(playlistId)) {
+    return `${YOUTUBE_FEED_URL}?playlist_id=${playlistId}`;
+  }
+
+  const channelId =
+    url.searchParams.get("channel_id") || url.pathname.match(/^\/channel\/([\w-]+)/)?.[1];
+  if (channelId && CHANNEL_ID_REGEX.test(channelId)) {
+    return `${YOUTUBE_FEED_URL}?channel_id=${channelId}`;
+  }
+
+  throw new Error("Use the channel URL with its ID (youtube.com/channel/UC…) or a playlist URL");
+}
+
+/**
+ * Video ID of a youtube.com/watch, youtu.be, embed or shorts URL
+ */
+export function getYouTubeVideoId(videoUrl: string | null | undefined): string | null {
+  if (!videoUrl) return null;
+
+  try {
+    const url = new URL(videoUrl);
+    if (!isYouTubeHost(url.hostname)) return null;
+
+    const id =
+      url.hostname === "youtu.be"
+        ? url.pathname.slice(1)
+        : url.searchParams.get("v") || url.pathname.match(/^\/(?:embed|shorts|live)\/([^/]+)/)?.[1];
+    return id && VIDEO_ID_REGEX.test(id) ? id : null;
+  } catch {
+    return null;
+  }
+}
+
+function getYouTubeThumbnailUrl(videoId: string): string {
+  return `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`;
+}
+
+/**
+ * Converts the entries of a YouTube feed into talks
+ * @param event - Event to record on every talk, e.g. the title of a conference playlist
+ */
+export function convertYouTubeEntries(items: RSSFeedItem[], event: string | null): Talk[] {
+  return items.flatMap((item) => {
+    const videoId = item.videoId || getYouTubeVideoId(item.link);
+    if (!videoId) return [];
+
+    const videoUrl = `https://www.youtube.com/watch?v=${videoId}`;
+    return [
+      {
+        id: `talk-${videoId}`,
+        title: item.title,
+        description: item.videoDescription?.trim().slice(0, MAX_DESCRIPTION_LENGTH) || null,
+        url: videoUrl,
+        summary: null,
+        selected: false,
+        source: "talk" as const,
+        event,
+        date: item.isoDate || null,
+        videoUrl,
+        slidesUrl: null,
+        thumbnailUrl: item.thumbnailUrl || getYouTubeThumbnailUrl(videoId),
+        tags: [],
+      },
+    ];
+  });
+}
+
+/**
+ * Fetches the videos of a YouTube channel or playlist (the 15 most recent, as in the feed)
+ * Privacy: Uses the public Atom feed, no authentication needed
+ * @param input - Channel or playlist URL or ID
+ */
+export async function getYouTubeTalks(input: string): Promise<Talk[]> {
+  const feedUrl = getYouTubeFeedUrl(input);
+  const feed = await fetchRSSFeed(feedUrl);
+
+  // A channel feed is titled after the channel, a playlist feed after e.g. the conference
+  const event = feedUrl.includes("playlist_id=") ? feed.title : null;
+  return convertYouTubeEntries(feed.items, event);
+}
+
+function getOptionalString(value: unknown): string | null {
+  return typeof value === "string" && value.trim() !== "" ? value.trim() : null;
+}
+
+function getOptionalUrl(value: unknown, field: string): string | null {
+  const url = getOptionalString(value);
+  if (url && !/^https?:\/\/[^\s]+$/i.test(url)) {
+    throw new Error(`${field} must be an http(s) URL`);
+  }
+  return url;
+}
+
+/**
+ * Creates a talk from the manual entry form
+ * @throws When the title is missing, the date is invalid or a URL is not http(s)
+ */
+export function createTalk(input: TalkInput): Talk {
+  const title = getOptionalString(input.title);
+  if (!title) {
+    throw new Error("Title is required");
+  }
+
+  const date = getOptionalString(input.date);
+  if (date && Number.isNaN(new Date(date).getTime())) {
+    throw new Error("Date must be a valid date");
+  }
+
+  const videoUrl = getOptionalUrl(input.videoUrl, "Video URL");
+  const slidesUrl = getOptionalUrl(input.slidesUrl, "Slides URL");
+  const videoId = getYouTubeVideoId(videoUrl);
+
+  return {
+    id: `talk-${videoId || crypto.randomBytes(8).toString("hex")}`,
+    title,
+    description: getOptionalString(input.description),
+    url: videoUrl || slidesUrl,
+    summary: null,
+    selected: false,
+    source: "talk",
+    event: getOptionalString(input.event),
+    date,
+    videoUrl,
+    slidesUrl,
+    thumbnailUrl: videoId ? getYouTubeThumbnailUrl(videoId) : null,
+    tags: Array.isArray(input.tags)
+      ? input.tags.filter((tag): tag is string => typeof tag === "string" && tag.trim() !== "")
+      : [],
+  };
+}
@@ -1,64 +1,319 @@
 import { Router } from "express";
-import { themes } from "../../shared/themes.js";
+import type { PortfolioItem, PortfolioSection } from "../../shared/schema.js";
+import { portfolioSectionsSchema } from "../../shared/sections.js";
+import { type Theme, themes } from "../../shared/themes.js";
+import {
+  deployToCloudflarePages,
+  getCloudflareDeploymentStatus,
+  getCloudflareProjectName,
+} from "../lib/cloudflare-pages.js";
+import {
+  type CustomDomainTarget,
+  checkDomainPropagation,
+  type DnsRecord,
+  getDnsRecords,
+  normalizeCustomDomain,
+} from "../lib/custom-domain.js";
 import {
   commitPortfolioFiles,
   createPortfolioRepository,
   deployToGitHubPages,
   getGithubUser,
+  restorePortfolioCommit,
 } from "../lib/github.js";
+import {
+  type GitHubHost,
+  getDeployHost,
+  getPagesRepositoryName,
+  hasSeparateDeployHost,
+} from "../lib/github-host.js";
+import { getGitLabUser } from "../lib/gitlab.js";
+import {
+  deployToGitLabPages,
+  getGitLabPagesDomain,
+  getGitLabPipelineStatus,
+} from "../lib/gitlab-pages.js";
+import { getLLMConfigurationError, getLLMProvider } from "../lib/llm/index.js";
+import { deployToNetlify, getNetlifyDeploymentStatus, getNetlifySiteName } from "../lib/netlify.js";
 import { generateUserIntroduction } from "../lib/openai.js";
-import { generatePortfolioHtml } from "../lib/portfolio-generator.js";
+import {
+  BUNDLE_ASSETS,
+  createPortfolioBundle,
+  fetchAvatar,
+  getBundleAssetFiles,
+} from "../lib/portfolio-bundle.js";
+import {
+  capitalizeFirstLetter,
+  generatePortfolioHtml,
+  generatePortfolioSite,
+  type PortfolioFile,
+} from "../lib/portfolio-generator.js";
+import { collectProjectDetails } from "../lib/project-details.js";
+import { deployToS3, normalizeS3Target, type S3Target, STALE_PREFIX_REQUIRED } from "../lib/s3.js";
 import { safeJsonStringify } from "../lib/security.js";
 
 const router = Router();
 
+// Directory the multi-page site is published under in the user's GitHub Pages repository,
+// so an existing index.html there is left untouched
+const PAGES_SITE_DIR = "portfolio";
+
+// Files FolioLab writes to the user's GitHub Pages repository, the only ones a rollback restores
+const PAGES_OWNED_PATHS = ["portfolio.html", `${PAGES_SITE_DIR}/`, "404.html", "CNAME"];
+
+const COMMIT_SHA_REGEX = /^[0-9a-f]{40}$/i;
+
+/**
+ * Resolves the account portfolios are deployed with. When the deploy host differs from the
+ * import host (e.g. importing from GitHub Enterprise Server and publishing to github.com),
+ * the client must send a token issued by the deploy host as deployAccessToken.
+ * @returns The deploy token, host and user, or null when the deploy token is missing
+ */
+async function getDeployAccount(
+  accessToken: string,
+  deployAccessToken: string | undefined,
+): Promise<{ token: string; host: GitHubHost; username: string } | null> {
+  const host = getDeployHost();
+  const token = deployAccessToken || (hasSeparateDeployHost() ? undefined : accessToken);
+  if (!token) return null;
+
+  const user = await getGithubUser(token, host);
+  return { token, host, username: user.username };
+}
+
+const DEPLOY_TOKEN_REQUIRED = {
+  error: "Deployment access token is required",
+  details: "Portfolios are deployed to a different GitHub instance than they are imported from",
+};
+
+const VERCEL_REQUIRES_GITHUB_COM = {
+  error: "Vercel deploys require github.com",
+  details: "Vercel only imports repositories from github.com, not from GitHub Enterprise Server",
+};
+
+/**
+ * Validates the sections sent with a deploy request.
+ * @returns An error response body, or null when the sections are valid
+ */
+function getSectionsError(sections: unknown): { error: string; details: string } | null {
+  const result = portfolioSectionsSchema.safeParse(sections);
+  if (result.success) return null;
+  return {
+    error: "Invalid portfolio sections",
+    details: result.error.issues.map((issue) => issue.message).join("; "),
+  };
+}
+
+/**
+ * Builds the multi-page static site (index, project detail pages and 404.html).
+ * Pages share one stylesheet file; pass includeAssets=false when the caller packs the assets itself.
+ * @param homeHref - Where the 404 page links back to
+ */
+async function buildPortfolioSite(
+  accessToken: string | undefined,
+  username: string,
+  items: PortfolioItem[],
+  introduction: Parameters<typeof generatePortfolioSite>[2],
+  avatarUrl: string | null,
+  theme: Theme,
+  customTitle: string | null | undefined,
+  sections: PortfolioSection[] | undefined,
+  homeHref: string,
+  includeAssets = true,
+): Promise<PortfolioFile[]> {
+  const projectDetails = await collectProjectDetails(accessToken, items);
+  const pages = generatePortfolioSite(
+    username,
+    items,
+    introduction,
+    avatarUrl,
+    theme,
+    customTitle,
+    sections,
+    projectDetails,
+    homeHref,
+    BUNDLE_ASSETS,
+  );
+  return includeAssets ? [...pages, ...getBundleAssetFiles(username)] : pages;
+}
+
+/**
+ * Owner of a portfolio deployed to a static host: the GitHub user when the client sends a
+ * GitHub token, otherwise the user shown in the preview, so deploying needs no GitHub account
+ * @returns null when there is neither a token nor a username
+ */
+async function getStaticHostOwner(
+  accessToken: string | undefined,
+  userInfo: { username?: unknown; avatarUrl?: unknown } | undefined,
+): Promise<{ username: string; avatarUrl: string | null } | null> {
+  if (accessToken) return getGithubUser(accessToken);
+  if (typeof userInfo?.username !== "string" || !userInfo.username.trim()) return null;
+  return {
+    username: userInfo.username.trim(),
+    avatarUrl: typeof userInfo.avatarUrl === "string" ? userInfo.avatarUrl : null,
+  };
+}
+
+const OWNER_REQUIRED = { error: "GitHub access token or username is required" };
+
+/**
+ * Builds the files uploaded to static hosts (Netlify, Cloudflare Pages, S3, GitLab Pages),
+ * served from the site root unless homeHref says otherwise. Generates the introduction when
+ * the client has none.
+ * @param accessToken - GitHub token used to collect project details, if the user has one
+ * @param user - Owner the portfolio is generated for
+ * @returns The files, or an error response body when the AI provider is not configured
+ */
+async function buildStaticHostFiles(
+  accessToken: string | undefined,
+  user: { username: string; avatarUrl: string | null },
+  body: Record<string, any>,
+  homeHref = "/",
+): Promise<{ username: string; files: PortfolioFile[] } | { error: string; details: string }> {
+  const { exportMode, items, themeId, introduction, customTitle, sections } = body;
+  let userIntroduction = introduction;
+
+  if (!userIntroduction) {
+    const llmConfigError = getLLMConfigurationError();
+    if (llmConfigError) {
+      return { error: "AI provider not configured", details: llmConfigError };
+    }
+    userIntroduction = await generateUserIntroduction(items, getLLMProvider());
+  }
+
+  const theme = themes.find((t) => t.id === themeId) || themes[1];
+  const files: PortfolioFile[] =
+    exportMode === "site"
+      ? await buildPortfolioSite(
+          accessToken,
+          user.username,
+          items,
+          userIntroduction,
+          user.avatarUrl,
+          theme,
+          customTitle,
+          sections,
+          homeHref,
+        )
+      : [
+          {
+            path: "index.html",
+            content: generatePortfolioHtml(
+              user.username,
+              items,
+              userIntroduction,
+              user.avatarUrl,
+              theme,
+              customTitle,
+              sections,
+            ),
+          },
+        ];
+
+  return { username: user.username, files };
+}
+
 router.post("/api/deploy/github", async (req, res) => {
-  const { accessToken, downloadOnly, repositories, themeId, introduction, customTitle } = req.body;
+  const {
+    accessToken,
+    deployAccessToken,
+    downloadOnly,
+    exportMode,
+    items,
+    themeId,
+    introduction,
+    customTitle,
+    sections,
+  } = req.body;
 
   if (!accessToken) {
     return res.status(400).json({ error: "GitHub access token is required" });
   }
+  const sectionsError = getSectionsError(sections);
+  if (sectionsError) {
+    return res.status(400).json(sectionsError);
+  }
 
   try {
     const user = await getGithubUser(accessToken);
     let userIntroduction = introduction;
 
     if (!userIntroduction) {
-      const serverApiKey = process.env.OPENAI_API_KEY;
-      if (!serverApiKey) {
+      const llmConfigError = getLLMConfigurationError();
+      if (llmConfigError) {
         return res.status(500).json({
-          error: "OpenAI API key not configured",
-          details: "OPENAI_API_KEY environment variable is required",
+          error: "AI provider not configured",
+          details: llmConfigError,
         });
       }
-      userIntroduction = await generateUserIntroduction(repositories, serverApiKey);
+      userIntroduction = await generateUserIntroduction(items, getLLMProvider());
     }
 
     const theme = themes.find((t) => t.id === themeId) || themes[1];
-    const html = generatePortfolioHtml(
-      user.username,
-      repositories,
-      userIntroduction,
-      user.avatarUrl,
-      theme,
-      customTitle,
-    );
+    let files: PortfolioFile[];
 
-    if (downloadOnly) {
-      return res.json({ html });
+    if (exportMode === "site") {
+      files = await buildPortfolioSite(
+        accessToken,
+        user.username,
+        items,
+        userIntroduction,
+        user.avatarUrl,
+        theme,
+        customTitle,
+        sections,
+        "/",
+      );
+
+      if (downloadOnly) {
+        return res.json({ files });
+      }
+    } else {
+      const html = generatePortfolioHtml(
+        user.username,
+        items,
+        userIntroduction,
+        user.avatarUrl,
+        theme,
+        customTitle,
+        sections,
+      );
+
+      if (downloadOnly) {
+        return res.json({ html });
+      }
+
+      files = [
+        {
+          path: "index.html",
+          content: html,
+        },
+      ];
     }
 
-    const { repoUrl, wasCreated } = await createPortfolioRepository(accessToken, user.username);
-    await commitPortfolioFiles(accessToken, user.username, [
-      {
-        path: "index.html",
-        content: html,
-      },
-    ]);
+    const account = await getDeployAccount(accessToken, deployAccessToken);
+    if (!account) {
+      return res.status(400).json(DEPLOY_TOKEN_REQUIRED);
+    }
+
+    const { repoUrl, wasCreated } = await createPortfolioRepository(
+      account.token,
+      account.username,
+      undefined,
+      account.host,
+    );
+    const commitSha = await commitPortfolioFiles(
+      account.token,
+      account.username,
+      files,
+      undefined,
+      account.host,
+    );
 
     res.json({
       success: true,
       repoUrl,
+      commitSha,
       wasCreated,
       message: wasCreated
         ? "Repository created and portfolio files added successfully"
@@ -73,48 +328,206 @@ router.post("/api/deploy/github", async (req, res) => {
   }
 });
 
+router.post("/api/deploy/zip", async (req, res) => {
+  const { accessToken, exportMode, items, themeId, introduction, customTitle, sections } = req.body;
+
+  if (!accessToken) {
+    return res.status(400).json({ error: "GitHub access token is required" });
+  }
+
+  if (!Array.isArray(items) || items.length === 0) {
+    return res.status(400).json({ error: "No portfolio items provided for export" });
+  }
+  const sectionsError = getSectionsError(sections);
+  if (sectionsError) {
+    return res.status(400).json(sectionsError);
+  }
+
+  try {
+    const user = await getGithubUser(accessToken);
+    let userIntroduction = introduction;
+
+    if (!userIntroduction) {
+      const llmConfigError = getLLMConfigurationError();
+      if (llmConfigError) {
+        return res.status(500).json({
+          error: "AI provider not configured",
+          details: llmConfigError,
+        });
+      }
+      userIntroduction = await generateUserIntroduction(items, getLLMProvider());
+    }
+
+    const theme = themes.find((t) => t.id === themeId) || themes[1];
+    const avatar = await fetchAvatar(user.avatarUrl);
+    const avatarUrl = avatar ? avatar.path : user.avatarUrl;
+
+    const files: PortfolioFile[] =
+      exportMode === "site"
+        ? await buildPortfolioSite(
+            accessToken,
+            user.username,
+            items,
+            userIntroduction,
+            avatarUrl,
+            theme,
+            customTitle,
+            sections,
+            "/",
+            false,
+          )
+        : [
+            {
+              path: "index.html",
+              content: generatePortfolioHtml(
+                user.username,
+                items,
+                userIntroduction,
+                avatarUrl,
+                theme,
+                customTitle,
+                sections,
+                BUNDLE_ASSETS,
+              ),
+            },
+          ];
+
+    const bundle = await createPortfolioBundle(files, {
+      title: customTitle || `${capitalizeFirstLetter(user.username)}'s Portfolio`,
+      ownerName: user.username,
+      avatar,
+    });
+
+    res.setHeader("Content-Type", "application/zip");
+    res.setHeader("Content-Disposition", 'attachment; filename="portfolio.zip"');
+    res.send(bundle);
+  } catch (error) {
+    console.error("Failed to export portfolio ZIP:", error);
+    res.status(500).json({
+      error: "Failed to export portfolio ZIP",
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
 router.post("/api/deploy/github-pages", async (req, res) => {
-  const { accessToken, repositories, themeId, introduction, customTitle } = req.body;
+  const {
+    accessToken,
+    deployAccessToken,
+    exportMode,
+    items,
+    themeId,
+    introduction,
+    customTitle,
+    sections,
+    customDomain,
+  } = req.body;
 
   if (!accessToken) {
     return res.status(400).json({ error: "GitHub access token is required" });
   }
 
-  if (!Array.isArray(repositories) || repositories.length === 0) {
-    return res.status(400).json({ error: "No repositories provided for deployment" });
+  if (!Array.isArray(items) || items.length === 0) {
+    return res.status(400).json({ error: "No portfolio items provided for deployment" });
+  }
+  const sectionsError = getSectionsError(sections);
+  if (sectionsError) {
+    return res.status(400).json(sectionsError);
+  }
+
+  let domain: string | undefined;
+  try {
+    domain = customDomain ? normalizeCustomDomain(customDomain) : undefined;
+  } catch (error) {
+    return res.status(400).json({
+      error: "Invalid custom domain",
+      details: error instanceof Error ? error.message : String(error),
+    });
   }
 
   try {
     const user = await getGithubUser(accessToken);
+    const account = await getDeployAccount(accessToken, deployAccessToken);
+    if (!account) {
+      return res.status(400).json(DEPLOY_TOKEN_REQUIRED);
+    }
+    if (domain && account.host.enterprise) {
+      return res.status(400).json({
+        error: "Invalid custom domain",
+        details: "Custom domains are not supported for GitHub Enterprise Server Pages",
+      });
+    }
 
     let userIntroduction = introduction;
 
     if (!userIntroduction) {
-      const serverApiKey = process.env.OPENAI_API_KEY;
-      if (!serverApiKey) {
+      const llmConfigError = getLLMConfigurationError();
+      if (llmConfigError) {
         return res.status(500).json({
-          error: "OpenAI API key not configured",
-          details: "OPENAI_API_KEY environment variable is required",
+          error: "AI provider not configured",
+          details: llmConfigError,
         });
       }
-      userIntroduction = await generateUserIntroduction(repositories, serverApiKey);
+      userIntroduction = await generateUserIntroduction(items, getLLMProvider());
     }
 
     const theme = themes.find((t) => t.id === themeId) || themes[1];
-    const html = generatePortfolioHtml(
-      user.username,
-      repositories,
-      userIntroduction,
-      user.avatarUrl,
-      theme,
-      customTitle,
-    );
+    let deployment: Awaited<ReturnType<typeof deployToGitHubPages>>;
 
-    const { url, wasCreated } = await deployToGitHubPages(accessToken, user.username, html);
+    if (exportMode === "site") {
+      const siteFiles = await buildPortfolioSite(
+        accessToken,
+        user.username,
+        items,
+        userIntroduction,
+        user.avatarUrl,
+        theme,
+        customTitle,
+        sections,
+        `/${PAGES_SITE_DIR}/`,
+      );
+      deployment = await deployToGitHubPages(
+        account.token,
+        account.username,
+        siteFiles.map((file) => ({ ...file, path: `${PAGES_SITE_DIR}/${file.path}` })),
+        `${PAGES_SITE_DIR}/`,
+        account.host,
+        domain,
+        `${PAGES_SITE_DIR}/404.html`,
+      );
+    } else {
+      const html = generatePortfolioHtml(
+        user.username,
+        items,
+        userIntroduction,
+        user.avatarUrl,
+        theme,
+        customTitle,
+        sections,
+      );
+      deployment = await deployToGitHubPages(
+        account.token,
+        account.username,
+        [{ path: "portfolio.html", content: html }],
+        undefined,
+        account.host,
+        domain,
+      );
+    }
+
+    const { url, repoUrl, wasCreated, commitSha } = deployment;
 
     res.json({
       success: true,
       url,
+      repoUrl,
+      commitSha,
+      username: account.username,
+      enterprise: account.host.enterprise,
+      customDomain: deployment.customDomain,
+      dnsRecords: deployment.customDomain
+        ? getDnsRecords(deployment.customDomain, "github-pages", account.username)
+        : [],
       wasCreated,
       message: wasCreated
         ? "GitHub Pages repository created and portfolio deployed successfully"
@@ -129,6 +542,71 @@ router.post("/api/deploy/github-pages", async (req, res) => {
   }
 });
 
+/**
+ * Rolls a GitHub Pages site, or the repository a Vercel project deploys from, back to the files
+ * of an earlier deploy commit. Vercel deploys the new commit through its Git integration.
+ */
+router.post("/api/deploy/github/rollback", async (req, res) => {
+  const { accessToken, deployAccessToken, target, commitSha } = req.body;
+
+  if (!accessToken) {
+    return res.status(400).json({ error: "GitHub access token is required" });
+  }
+  if (target !== "github-pages" && target !== "vercel") {
+    return res.status(400).json({ error: "Rollback target must be github-pages or vercel" });
+  }
+  if (typeof commitSha !== "string" || !COMMIT_SHA_REGEX.test(commitSha)) {
+    return res.status(400).json({ error: "A full commit SHA is required" });
+  }
+
+  try {
+    let restoredSha: string;
+
+    if (target === "github-pages") {
+      const account = await getDeployAccount(accessToken, deployAccessToken);
+      if (!account) {
+        return res.status(400).json(DEPLOY_TOKEN_REQUIRED);
+      }
+      restoredSha = await restorePortfolioCommit(
+        account.token,
+        account.username,
+        getPagesRepositoryName(account.host, account.username),
+        commitSha,
+        account.host,
+        PAGES_OWNED_PATHS,
+      );
+    } else {
+      // Vercel deploys are committed to <user>-foliolab on the deploy host
+      const account = await getDeployAccount(accessToken, deployAccessToken);
+      if (!account) {
+        return res.status(400).json(DEPLOY_TOKEN_REQUIRED);
+      }
+      if (account.host.enterprise) {
+        return res.status(400).json(VERCEL_REQUIRES_GITHUB_COM);
+      }
+      restoredSha = await restorePortfolioCommit(
+        account.token,
+        account.username,
+        `${account.username}-foliolab`,
+        commitSha,
+        account.host,
+      );
+    }
+
+    res.json({
+      success: true,
+      commitSha: restoredSha,
+      message: `Portfolio restored from ${commitSha.slice(0, 7)}`,
+    });
+  } catch (error) {
+    console.error("Failed to roll back deployment:", error);
+    res.status(500).json({
+      error: "Failed to roll back deployment",
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
 router.get("/api/deploy/vercel/config", (_req, res) => {
   res.json({
     integrationSlug: "foliolab",
@@ -173,21 +651,91 @@ router.post("/api/deploy/vercel/auth", async (req, res) => {
   }
 });
 
+/**
+ * Adds a custom domain to a Vercel project. Vercel asks for a TXT record when the domain is
+ * already used by another account.
+ * @returns The domain with the DNS records to create
+ */
+async function addVercelDomain(
+  accessToken: string,
+  teamId: string | undefined,
+  projectName: string,
+  domain: string,
+): Promise<{ name: string; verified: boolean; dnsRecords: DnsRecord[] }> {
+  const headers = {
+    Authorization: `Bearer ${accessToken}`,
+    "Content-Type": "application/json",
+    ...(teamId ? { "X-Vercel-Team-Id": teamId } : {}),
+  };
+
+  let response = await fetch(`https://api.vercel.com/v10/projects/${projectName}/domains`, {
+    method: "POST",
+    headers,
+    body: JSON.stringify({ name: domain }),
+  });
+
+  // Redeploys find the domain already attached to the project
+  if (!response.ok) {
+    const existing = await fetch(
+      `https://api.vercel.com/v9/projects/${projectName}/domains/${domain}`,
+      { headers },
+    );
+    if (!existing.ok) {
+      const error = await response.json();
+      throw new Error(`Vercel Domain error: ${error.error?.message || "Unknown error"}`);
+    }
+    response = existing;
+  }
+
+  const data: {
+    name: string;
+    verified: boolean;
+    verification?: { type: DnsRecord["type"]; domain: string; value: string }[];
+  } = await response.json();
+
+  return {
+    name: data.name,
+    verified: data.verified,
+    dnsRecords: [
+      ...getDnsRecords(domain, "vercel", ""),
+      ...(data.verification || []).map(({ type, domain: name, value }) => ({ type, name, value })),
+    ],
+  };
+}
+
 router.post("/api/deploy/vercel", async (req, res) => {
   const {
     accessToken,
+    deployAccessToken,
     teamId,
     username,
-    repositories,
+    exportMode,
+    items,
     themeId,
     introduction,
     userInfo,
     customTitle,
+    sections,
+    customDomain,
   } = req.body;
 
   if (!accessToken || !username) {
     return res.status(400).json({ error: "Vercel access token and username are required" });
   }
+  const sectionsError = getSectionsError(sections);
+  if (sectionsError) {
+    return res.status(400).json(sectionsError);
+  }
+
+  let domain: string | undefined;
+  try {
+    domain = customDomain ? normalizeCustomDomain(customDomain) : undefined;
+  } catch (error) {
+    return res.status(400).json({
+      error: "Invalid custom domain",
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
 
   try {
     let userAvatar = null as string | null;
@@ -206,16 +754,6 @@ router.post("/api/deploy/vercel", async (req, res) => {
     }
 
     const theme = themes.find((t) => t.id === themeId) || themes[1];
-    const html = generatePortfolioHtml(
-      username,
-      repositories,
-      introduction,
-      userAvatar,
-      theme,
-      customTitle,
-    );
-
-    const repoName = `${username}-foliolab`;
     const githubToken = req.headers.authorization?.replace("Bearer ", "");
 
     if (!githubToken) {
@@ -235,18 +773,57 @@ router.post("/api/deploy/vercel", async (req, res) => {
       });
     }
 
-    const { repoUrl } = await createPortfolioRepository(githubToken, username, repoName);
+    // The repository Vercel deploys from lives on the deploy host, which must be github.com
+    const account = await getDeployAccount(githubToken, deployAccessToken);
+    if (!account) {
+      return res.status(400).json(DEPLOY_TOKEN_REQUIRED);
+    }
+    if (account.host.enterprise) {
+      return res.status(400).json(VERCEL_REQUIRES_GITHUB_COM);
+    }
+    const repoName = `${account.username}-foliolab`;
 
-    await commitPortfolioFiles(
-      githubToken,
-      username,
-      [
-        {
-          path: "index.html",
-          content: html,
-        },
-      ],
+    const files: PortfolioFile[] =
+      exportMode === "site"
+        ? await buildPortfolioSite(
+            githubToken,
+            username,
+            items,
+            introduction,
+            userAvatar,
+            theme,
+            customTitle,
+            sections,
+            "/",
+          )
+        : [
+            {
+              path: "index.html",
+              content: generatePortfolioHtml(
+                username,
+                items,
+                introduction,
+                userAvatar,
+                theme,
+                customTitle,
+                sections,
+              ),
+            },
+          ];
+
+    const { repoUrl } = await createPortfolioRepository(
+      account.token,
+      account.username,
+      repoName,
+      account.host,
+    );
+
+    const commitSha = await commitPortfolioFiles(
+      account.token,
+      account.username,
+      files,
       repoName,
+      account.host,
     );
 
     const getProjectResponse = await fetch(`https://api.vercel.com/v9/projects/${repoName}`, {
@@ -268,7 +845,7 @@ router.post("/api/deploy/vercel", async (req, res) => {
         body: JSON.stringify({
           name: repoName,
           gitRepository: {
-            repo: `${username}/${repoName}`,
+            repo: `${account.username}/${repoName}`,
             type: "github",
           },
           framework: null,
@@ -301,7 +878,7 @@ router.post("/api/deploy/vercel", async (req, res) => {
       if (reposResponse.ok) {
         const reposData = await reposResponse.json();
         const connectedRepo = reposData.repositories?.find(
-          (repo: any) => repo.url === `https://github.com/${username}/${repoName}`,
+          (repo: any) => repo.url === `${account.host.webUrl}/${account.username}/${repoName}`,
         );
 
         if (connectedRepo?.id) {
@@ -314,22 +891,25 @@ router.post("/api/deploy/vercel", async (req, res) => {
 
     if (!connectedRepoId) {
       try {
-        const githubResponse = await fetch(`https://api.github.com/repos/${username}/${repoName}`, {
-          headers: {
-            Authorization: `token ${githubToken}`,
-            Accept: "application/vnd.github.v3+json",
+        const githubResponse = await fetch(
+          `${account.host.apiUrl}/repos/${account.username}/${repoName}`,
+          {
+            headers: {
+              Authorization: `token ${account.token}`,
+              Accept: "application/vnd.github.v3+json",
+            },
           },
-        });
+        );
 
         if (githubResponse.ok) {
           const repoData = await githubResponse.json();
           connectedRepoId = repoData.id.toString();
         } else {
-          connectedRepoId = `github-${username}-${repoName}`;
+          connectedRepoId = `github-${account.username}-${repoName}`;
         }
       } catch (githubError) {
         console.error("Failed to get repository from GitHub:", githubError);
-        connectedRepoId = `github-${username}-${repoName}`;
+        connectedRepoId = `github-${account.username}-${repoName}`;
       }
     }
 
@@ -345,7 +925,7 @@ router.post("/api/deploy/vercel", async (req, res) => {
         project: repoName,
         gitSource: {
           type: "github",
-          repo: `${username}/${repoName}`,
+          repo: `${account.username}/${repoName}`,
           ref: "main",
           repoId: connectedRepoId,
         },
@@ -359,11 +939,32 @@ router.post("/api/deploy/vercel", async (req, res) => {
 
     const deploymentData = await deploymentResponse.json();
 
+    // The deploy has succeeded at this point, so a domain that cannot be attached is reported
+    // alongside it rather than failing the request
+    let vercelDomain: Awaited<ReturnType<typeof addVercelDomain>> | null = null;
+    let domainError: string | null = null;
+    if (domain) {
+      try {
+        vercelDomain = await addVercelDomain(accessToken, teamId, repoName, domain);
+      } catch (error) {
+        console.error("Failed to add Vercel domain:", error);
+        domainError = error instanceof Error ? error.message : String(error);
+      }
+    }
+
     res.json({
       projectId: repoName,
       deploymentId: deploymentData.id,
-      url: `https://${repoName}.vercel.app`,
+      // A domain Vercel has not verified does not serve the site yet
+      url: vercelDomain?.verified
+        ? `https://${vercelDomain.name}`
+        : `https://${repoName}.vercel.app`,
       repoUrl,
+      commitSha,
+      customDomain: vercelDomain?.name || null,
+      domainVerified: vercelDomain?.verified ?? false,
+      dnsRecords: vercelDomain?.dnsRecords || [],
+      domainError,
     });
   } catch (error) {
     console.error("Failed to deploy to Vercel:", error);
@@ -409,6 +1010,295 @@ router.get("/api/deploy/vercel/status/:deploymentId", async (req, res) => {
   }
 });
 
+router.post("/api/deploy/netlify", async (req, res) => {
+  const { accessToken, netlifyToken, items, userInfo } = req.body;
+
+  if (!netlifyToken) {
+    return res.status(400).json({ error: "Netlify access token is required" });
+  }
+  if (!Array.isArray(items) || items.length === 0) {
+    return res.status(400).json({ error: "No portfolio items provided for deployment" });
+  }
+  const sectionsError = getSectionsError(req.body.sections);
+  if (sectionsError) {
+    return res.status(400).json(sectionsError);
+  }
+
+  try {
+    const user = await getStaticHostOwner(accessToken, userInfo);
+    if (!user) {
+      return res.status(400).json(OWNER_REQUIRED);
+    }
+    const site = await buildStaticHostFiles(accessToken, user, req.body);
+    if ("error" in site) {
+      return res.status(500).json(site);
+    }
+
+    const deployment = await deployToNetlify(
+      netlifyToken,
+      getNetlifySiteName(site.username),
+      site.files,
+    );
+    res.json(deployment);
+  } catch (error) {
+    console.error("Failed to deploy to Netlify:", error);
+    res.status(500).json({
+      error: "Failed to deploy to Netlify",
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+router.get("/api/deploy/netlify/status/:deployId", async (req, res) => {
+  const { deployId } = req.params;
+  const { accessToken } = req.query as { accessToken?: string };
+
+  if (!accessToken) {
+    return res.status(400).json({ error: "Netlify access token is required" });
+  }
+
+  try {
+    res.json(await getNetlifyDeploymentStatus(accessToken, deployId));
+  } catch (error) {
+    console.error("Failed to check Netlify deployment status:", error);
+    res.status(500).json({
+      error: "Failed to check deployment status",
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+router.post("/api/deploy/cloudflare", async (req, res) => {
+  const { accessToken, cloudflareAccountId, cloudflareToken, items, userInfo } = req.body;
+
+  if (!cloudflareAccountId || !cloudflareToken) {
+    return res.status(400).json({ error: "Cloudflare account ID and API token are required" });
+  }
+  if (!Array.isArray(items) || items.length === 0) {
+    return res.status(400).json({ error: "No portfolio items provided for deployment" });
+  }
+  const sectionsError = getSectionsError(req.body.sections);
+  if (sectionsError) {
+    return res.status(400).json(sectionsError);
+  }
+
+  try {
+    const user = await getStaticHostOwner(accessToken, userInfo);
+    if (!user) {
+      return res.status(400).json(OWNER_REQUIRED);
+    }
+    const site = await buildStaticHostFiles(accessToken, user, req.body);
+    if ("error" in site) {
+      return res.status(500).json(site);
+    }
+
+    const deployment = await deployToCloudflarePages(
+      { accountId: cloudflareAccountId, apiToken: cloudflareToken },
+      getCloudflareProjectName(site.username),
+      site.files,
+    );
+    res.json(deployment);
+  } catch (error) {
+    console.error("Failed to deploy to Cloudflare Pages:", error);
+    res.status(500).json({
+      error: "Failed to deploy to Cloudflare Pages",
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+router.get("/api/deploy/cloudflare/status/:deploymentId", async (req, res) => {
+  const { deploymentId } = req.params;
+  const { accessToken, accountId, projectName } = req.query as Record<string, string | undefined>;
+
+  if (!accessToken || !accountId) {
+    return res.status(400).json({ error: "Cloudflare account ID and API token are required" });
+  }
+  if (!projectName || !/^[a-z0-9-]+$/.test(projectName)) {
+    return res.status(400).json({ error: "Invalid Cloudflare Pages project name" });
+  }
+
+  try {
+    res.json(
+      await getCloudflareDeploymentStatus(
+        { accountId, apiToken: accessToken },
+        projectName,
+        deploymentId,
+      ),
+    );
+  } catch (error) {
+    console.error("Failed to check Cloudflare Pages deployment status:", error);
+    res.status(500).json({
+      error: "Failed to check deployment status",
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+router.post("/api/deploy/s3", async (req, res) => {
+  const { accessToken, s3, deleteStale, items, userInfo } = req.body;
+
+  if (!Array.isArray(items) || items.length === 0) {
+    return res.status(400).json({ error: "No portfolio items provided for deployment" });
+  }
+  const sectionsError = getSectionsError(req.body.sections);
+  if (sectionsError) {
+    return res.status(400).json(sectionsError);
+  }
+
+  let target: S3Target;
+  try {
+    target = normalizeS3Target(s3 || {});
+  } catch (error) {
+    return res.status(400).json({
+      error: "Invalid S3 target",
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+  if (deleteStale && !target.prefix) {
+    return res.status(400).json({ error: "Invalid S3 target", details: STALE_PREFIX_REQUIRED });
+  }
+
+  try {
+    const user = await getStaticHostOwner(accessToken, userInfo);
+    if (!user) {
+      return res.status(400).json(OWNER_REQUIRED);
+    }
+    const site = await buildStaticHostFiles(accessToken, user, req.body, `/${target.prefix}`);
+    if ("error" in site) {
+      return res.status(500).json(site);
+    }
+
+    res.json(await deployToS3(target, site.files, Boolean(deleteStale)));
+  } catch (error) {
+    console.error("Failed to deploy to S3:", error);
+    res.status(500).json({
+      error: "Failed to deploy to S3",
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+router.post("/api/deploy/gitlab-pages", async (req, res) => {
+  const { accessToken, gitlabToken, baseUrl, pagesDomain, exportMode, items } = req.body;
+
+  if (!gitlabToken) {
+    return res.status(400).json({ error: "GitLab access token is required" });
+  }
+  if (!Array.isArray(items) || items.length === 0) {
+    return res.status(400).json({ error: "No portfolio items provided for deployment" });
+  }
+  const sectionsError = getSectionsError(req.body.sections);
+  if (sectionsError) {
+    return res.status(400).json(sectionsError);
+  }
+
+  try {
+    getGitLabPagesDomain(baseUrl, pagesDomain);
+  } catch (error) {
+    return res.status(400).json({
+      error: "Invalid GitLab Pages target",
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  try {
+    const gitlabUser = await getGitLabUser(gitlabToken, baseUrl);
+    const isSite = exportMode === "site";
+    const site = await buildStaticHostFiles(
+      accessToken,
+      { username: gitlabUser.username, avatarUrl: gitlabUser.avatar_url },
+      req.body,
+      isSite ? `/${PAGES_SITE_DIR}/` : "/",
+    );
+    if ("error" in site) {
+      return res.status(500).json(site);
+    }
+
+    // Same layout as on GitHub Pages: the site goes to its own directory
+    const files = isSite
+      ? site.files.map((file) => ({ ...file, path: `${PAGES_SITE_DIR}/${file.path}` }))
+      : site.files.map((file) => ({ ...file, path: "portfolio.html" }));
+
+    const deployment = await deployToGitLabPages(gitlabToken, files, {
+      baseUrl,
+      pagesDomain,
+      entryPath: isSite ? `${PAGES_SITE_DIR}/` : "portfolio.html",
+      siteDir: isSite ? `${PAGES_SITE_DIR}/` : undefined,
+      notFoundPath: isSite ? `${PAGES_SITE_DIR}/404.html` : undefined,
+    });
+
+    res.json({
+      ...deployment,
+      message:
+        deployment.ciWarning ??
+        (deployment.wasCreated
+          ? "GitLab Pages project created and portfolio committed"
+          : "Portfolio committed to GitLab Pages"),
+    });
+  } catch (error) {
+    console.error("Failed to deploy to GitLab Pages:", error);
+    res.status(500).json({
+      error: "Failed to deploy to GitLab Pages",
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+router.get("/api/deploy/gitlab-pages/status/:projectId", async (req, res) => {
+  const { projectId } = req.params;
+  const { accessToken, sha, baseUrl } = req.query as Record<string, string | undefined>;
+
+  if (!accessToken) {
+    return res.status(400).json({ error: "GitLab access token is required" });
+  }
+  if (!/^\d+$/.test(projectId) || !sha || !/^[0-9a-f]{40}$/.test(sha)) {
+    return res.status(400).json({ error: "Invalid GitLab project or commit" });
+  }
+
+  try {
+    res.json(await getGitLabPipelineStatus(accessToken, Number(projectId), sha, baseUrl));
+  } catch (error) {
+    console.error("Failed to check GitLab pipeline status:", error);
+    res.status(500).json({
+      error: "Failed to check deployment status",
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+router.get("/api/deploy/domain/status", async (req, res) => {
+  const { domain, target, username } = req.query as Record<string, string | undefined>;
+
+  if (target !== "github-pages" && target !== "vercel") {
+    return res.status(400).json({ error: "Deploy target must be github-pages or vercel" });
+  }
+  if (target === "github-pages" && !username) {
+    return res.status(400).json({ error: "GitHub username is required" });
+  }
+
+  let customDomain: string;
+  try {
+    customDomain = normalizeCustomDomain(domain || "");
+  } catch (error) {
+    return res.status(400).json({
+      error: "Invalid custom domain",
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  try {
+    const records = getDnsRecords(customDomain, target as CustomDomainTarget, username || "");
+    res.json(await checkDomainPropagation(customDomain, records));
+  } catch (error) {
+    console.error("Failed to check custom domain:", error);
+    res.status(500).json({
+      error: "Failed to check custom domain",
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
 router.get("/api/deploy/vercel/callback", async (req, res) => {
   const { code, configurationId, teamId } = req.query as Record<string, string>;
 
@@ -1,16 +1,34 @@
 import { Router } from "express";
+import { summaryStyleSchema } from "../../shared/schema.js";
 import { createErrorResponse, ErrorCodes } from "../lib/error-responses.js";
+import { getGists } from "../lib/gists.js";
 import {
   extractTitleFromReadme,
   getGithubUser,
   getReadmeContent,
   getRepositories,
 } from "../lib/github.js";
+import { getGitHubContributions } from "../lib/github-contributions.js";
+import { getDeployHost, getImportHost, hasSeparateDeployHost } from "../lib/github-host.js";
+import { getLLMConfigurationError, getLLMProvider } from "../lib/llm/index.js";
 import { generateRepoSummary } from "../lib/openai.js";
+import { collectPackageStats, MAX_PACKAGE_STATS_REPOSITORIES } from "../lib/package-registry.js";
 import { cleanReadmeContent } from "../lib/readme-cleaner.js";
 
 const router = Router();
 
+router.get("/api/github/config", (_req, res) => {
+  const importHost = getImportHost();
+  const deployHost = getDeployHost();
+
+  res.json({
+    importUrl: importHost.webUrl,
+    deployUrl: deployHost.webUrl,
+    enterprise: importHost.enterprise || deployHost.enterprise,
+    separateDeployHost: hasSeparateDeployHost(),
+  });
+});
+
 router.get("/api/repositories", async (req, res) => {
   const accessToken = req.headers.authorization?.replace("Bearer ", "");
   if (!accessToken) {
@@ -42,6 +60,76 @@ router.get("/api/repositories", async (req, res) => {
   }
 });
 
+/**
+ * List merged pull requests to external repositories, grouped per repository
+ * GET /api/github/contributions with the GitHub token as a Bearer token
+ */
+router.get("/api/github/contributions", async (req, res) => {
+  const accessToken = req.headers.authorization?.replace("Bearer ", "");
+  if (!accessToken) {
+    return res
+      .status(401)
+      .json(
+        createErrorResponse(
+          "No access token provided",
+          "Authorization header is missing or invalid",
+          ErrorCodes.MISSING_TOKEN,
+        ),
+      );
+  }
+
+  try {
+    const contributions = await getGitHubContributions(accessToken);
+    res.json({ contributions });
+  } catch (error) {
+    console.error("Failed to fetch contributions:", error);
+    res
+      .status(500)
+      .json(
+        createErrorResponse(
+          "Failed to fetch contributions",
+          error instanceof Error ? error.message : String(error),
+          ErrorCodes.GITHUB_API_ERROR,
+        ),
+      );
+  }
+});
+
+/**
+ * List the user's public gists with their files
+ * GET /api/github/gists with the GitHub token as a Bearer token
+ */
+router.get("/api/github/gists", async (req, res) => {
+  const accessToken = req.headers.authorization?.replace("Bearer ", "");
+  if (!accessToken) {
+    return res
+      .status(401)
+      .json(
+        createErrorResponse(
+          "No access token provided",
+          "Authorization header is missing or invalid",
+          ErrorCodes.MISSING_TOKEN,
+        ),
+      );
+  }
+
+  try {
+    const gists = await getGists(accessToken);
+    res.json({ gists });
+  } catch (error) {
+    console.error("Failed to fetch gists:", error);
+    res
+      .status(500)
+      .json(
+        createErrorResponse(
+          "Failed to fetch gists",
+          error instanceof Error ? error.message : String(error),
+          ErrorCodes.GITHUB_API_ERROR,
+        ),
+      );
+  }
+});
+
 router.post("/api/fetch-repos", async (req, res) => {
   const { code } = req.body;
 
@@ -79,7 +167,7 @@ router.post("/api/fetch-repos", async (req, res) => {
     params.append("client_secret", process.env.GITHUB_CLIENT_SECRET);
     params.append("code", code);
 
-    const tokenResponse = await fetch("https://github.com/login/oauth/access_token", {
+    const tokenResponse = await fetch(`${getImportHost().webUrl}/login/oauth/access_token`, {
       method: "POST",
       headers: {
         Accept: "application/json",
@@ -176,6 +264,55 @@ router.post("/api/fetch-repos", async (req, res) => {
   }
 });
 
+/**
+ * Look up registry stats for repositories published to npm, PyPI or crates.io
+ * POST /api/repositories/package-stats with { repositories, accessToken? }
+ * The access token lets GitHub manifests be read for the published package names.
+ */
+router.post("/api/repositories/package-stats", async (req, res) => {
+  const { repositories, accessToken } = req.body;
+
+  if (!Array.isArray(repositories) || repositories.length === 0) {
+    return res
+      .status(400)
+      .json(
+        createErrorResponse(
+          "Repositories are required",
+          "Request body must contain a non-empty repositories array",
+          ErrorCodes.MISSING_REQUIRED_FIELD,
+        ),
+      );
+  }
+
+  if (repositories.length > MAX_PACKAGE_STATS_REPOSITORIES) {
+    return res
+      .status(400)
+      .json(
+        createErrorResponse(
+          "Too many repositories",
+          `Package stats can be looked up for at most ${MAX_PACKAGE_STATS_REPOSITORIES} repositories at once`,
+          ErrorCodes.INVALID_INPUT,
+        ),
+      );
+  }
+
+  try {
+    const packages = await collectPackageStats(accessToken, repositories);
+    res.json({ packages });
+  } catch (error) {
+    console.error("Failed to collect package stats:", error);
+    res
+      .status(500)
+      .json(
+        createErrorResponse(
+          "Failed to collect package stats",
+          error instanceof Error ? error.message : String(error),
+          ErrorCodes.INTERNAL_ERROR,
+        ),
+      );
+  }
+});
+
 router.post("/api/repositories/:id/analyze", async (req, res) => {
   const { id } = req.params;
   const { accessToken, username } = req.body;
@@ -206,6 +343,19 @@ router.post("/api/repositories/:id/analyze", async (req, res) => {
       );
   }
 
+  const style = summaryStyleSchema.optional().safeParse(req.body.style);
+  if (!style.success) {
+    return res
+      .status(400)
+      .json(
+        createErrorResponse(
+          "Invalid summary style",
+          style.error.issues.map((issue) => issue.message).join("; "),
+          ErrorCodes.INVALID_INPUT,
+        ),
+      );
+  }
+
   try {
     const repos = await getRepositories(accessToken);
     const repo = repos.find((r) => r.id === repoId);
@@ -233,16 +383,16 @@ router.post("/api/repositories/:id/analyze", async (req, res) => {
       console.warn(`Couldn't fetch README for ${repo.name}:`, error);
     }
 
-    const serverApiKey = process.env.OPENAI_API_KEY;
+    const llmConfigError = getLLMConfigurationError();
 
-    if (!serverApiKey) {
+    if (llmConfigError) {
       return res
         .status(500)
         .json(
           createErrorResponse(
-            "OpenAI API key not configured",
-            "OPENAI_API_KEY environment variable is required",
-            ErrorCodes.OPENAI_API_KEY_MISSING,
+            "AI provider not configured",
+            llmConfigError,
+            ErrorCodes.LLM_NOT_CONFIGURED,
           ),
         );
     }
@@ -251,8 +401,8 @@ router.post("/api/repositories/:id/analyze", async (req, res) => {
       repo.name,
       repo.description || "",
       readme,
-      serverApiKey,
-      undefined,
+      getLLMProvider(),
+      style.data,
       {
         language: repo.metadata.language,
         topics: repo.metadata.topics,
@@ -269,6 +419,7 @@ router.post("/api/repositories/:id/analyze", async (req, res) => {
         summary: summary.summary,
         displayName: displayName || repo.displayName,
       },
+      cached: !!summary.cached,
     });
   } catch (error) {
     console.error("Failed to analyze repository:", error);
@@ -1,4 +1,5 @@
 import { Router } from "express";
+import { getLLMConfig, getLLMConfigurationError, getLLMProvider } from "../lib/llm/index.js";
 
 const router = Router();
 
@@ -21,6 +22,8 @@ router.get("/health", (_req, res) => {
  */
 router.get("/health/ready", (_req, res) => {
   try {
+    const llmConfig = getLLMConfig();
+    const llmConfigured = !getLLMConfigurationError(llmConfig);
     const checks = {
       github: {
         configured: !!(process.env.GITHUB_CLIENT_ID && process.env.GITHUB_CLIENT_SECRET),
@@ -29,9 +32,12 @@ router.get("/health/ready", (_req, res) => {
             ? "ready"
             : "not configured",
       },
-      openai: {
-        configured: !!process.env.OPENAI_API_KEY,
-        status: process.env.OPENAI_API_KEY ? "ready" : "not configured",
+      llm: {
+        provider: llmConfig.provider,
+        model: llmConfig.model,
+        configured: llmConfigured,
+        capabilities: llmConfigured ? getLLMProvider().capabilities : null,
+        status: llmConfigured ? "ready" : "not configured",
       },
       vercel: {
         configured: !!(process.env.VERCEL_CLIENT_ID && process.env.VERCEL_CLIENT_SECRET),
@@ -44,7 +50,7 @@ router.get("/health/ready", (_req, res) => {
     };
 
     // Check if all required services are ready
-    const allReady = checks.github.configured && checks.openai.configured;
+    const allReady = checks.github.configured && checks.llm.configured;
 
     // In production, only return aggregate status (don't leak which services are configured)
     if (process.env.NODE_ENV === "production") {
@@ -2,19 +2,43 @@ import crypto from "node:crypto";
 import express from "express";
 import rateLimit from "express-rate-limit";
 import type { FreeformContent } from "../../shared/schema";
+import { summaryStyleSchema } from "../../shared/schema.js";
 import {
   getBitbucketRepositoriesWithTitles,
   validateBitbucketCredentials,
 } from "../lib/bitbucket.js";
+import {
+  getBitbucketServerRepositoriesWithTitles,
+  validateBitbucketServerCredentials,
+} from "../lib/bitbucket-server.js";
+import { getGiteaRepositoriesWithTitles } from "../lib/gitea.js";
 import { getGitLabProjectsWithTitles, getGitLabUser } from "../lib/gitlab.js";
+import { importJsonResume } from "../lib/json-resume.js";
+import { parseLinkedInExport } from "../lib/linkedin.js";
+import { getLLMConfigurationError, getLLMProvider } from "../lib/llm/index.js";
 import { getMediumPosts, validateMediumUsername } from "../lib/medium.js";
+import { normalizeInstanceUrl } from "../lib/network-guard.js";
+import {
+  getArxivFeedUrl,
+  getArxivPublications,
+  getPublicationsFromBibTeX,
+  getPublicationsFromOrcid,
+} from "../lib/publications.js";
 import { getBlogPostsFromRSS } from "../lib/rss.js";
+import {
+  createSummaryJob,
+  getSummaryJob,
+  MAX_CONCURRENCY,
+  type SummaryJobEvent,
+  type SummaryJobOptions,
+} from "../lib/summary-jobs.js";
+import { createTalk, getYouTubeFeedUrl, getYouTubeTalks } from "../lib/talks.js";
 
 const router = express.Router();
 
 /**
  * Rate limiter for source endpoints to prevent abuse
- * Limits each IP to 30 requests per minute
+ * Limits each IP to 30 requests per minute; polling a summary job does not count
  */
 const sourcesRateLimiter = rateLimit({
   windowMs: 60 * 1000, // 1 minute
@@ -22,6 +46,7 @@ const sourcesRateLimiter = rateLimit({
   message: { error: "Too many requests, please try again later" },
   standardHeaders: true,
   legacyHeaders: false,
+  skip: (req) => req.method === "GET" && req.path.startsWith("/summary-jobs/"),
 });
 
 // Apply rate limiting to all source routes
@@ -96,7 +121,31 @@ router.post("/medium/validate", async (req, res) => {
 });
 
 /**
- * Fetch GitLab projects
+ * Validates the optional baseUrl of a self-hosted instance, answering 400 when it is rejected
+ * @returns The normalized URL, undefined for the hosted service, or null after an error response
+ */
+function getInstanceUrl(req: express.Request, res: express.Response): string | undefined | null {
+  const { baseUrl } = req.body;
+  if (baseUrl === undefined || baseUrl === null || baseUrl === "") {
+    return undefined;
+  }
+
+  try {
+    if (typeof baseUrl !== "string") {
+      throw new Error("Instance URL must be a string");
+    }
+    return normalizeInstanceUrl(baseUrl);
+  } catch (error) {
+    res.status(400).json({
+      error: "Invalid instance URL",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+    return null;
+  }
+}
+
+/**
+ * Fetch GitLab projects from gitlab.com or a self-hosted instance (baseUrl)
  * POST /api/sources/gitlab
  * Privacy: Token is not stored, only used for API calls
  */
@@ -108,14 +157,17 @@ router.post("/gitlab", async (req, res) => {
       return res.status(400).json({ error: "Access token is required" });
     }
 
+    const baseUrl = getInstanceUrl(req, res);
+    if (baseUrl === null) return;
+
     // Fetch user if username not provided
     let gitlabUsername = username;
     if (!gitlabUsername) {
-      const user = await getGitLabUser(accessToken);
+      const user = await getGitLabUser(accessToken, baseUrl);
       gitlabUsername = user.username;
     }
 
-    const projects = await getGitLabProjectsWithTitles(accessToken, gitlabUsername);
+    const projects = await getGitLabProjectsWithTitles(accessToken, gitlabUsername, baseUrl);
     res.json({ projects });
   } catch (error) {
     res.status(500).json({
@@ -126,7 +178,8 @@ router.post("/gitlab", async (req, res) => {
 });
 
 /**
- * Fetch Bitbucket repositories
+ * Fetch Bitbucket repositories from Bitbucket Cloud, or from Bitbucket Server / Data Center
+ * when baseUrl is set (appPassword is then the password or HTTP access token)
  * POST /api/sources/bitbucket
  * Privacy: Credentials are not stored, only used for API calls
  */
@@ -138,7 +191,12 @@ router.post("/bitbucket", async (req, res) => {
       return res.status(400).json({ error: "Username and app password are required" });
     }
 
-    const repositories = await getBitbucketRepositoriesWithTitles(username, appPassword);
+    const baseUrl = getInstanceUrl(req, res);
+    if (baseUrl === null) return;
+
+    const repositories = baseUrl
+      ? await getBitbucketServerRepositoriesWithTitles(baseUrl, username, appPassword)
+      : await getBitbucketRepositoriesWithTitles(username, appPassword);
     res.json({ repositories });
   } catch (error) {
     res.status(500).json({
@@ -160,7 +218,12 @@ router.post("/bitbucket/validate", async (req, res) => {
       return res.status(400).json({ error: "Username and app password are required" });
     }
 
-    const isValid = await validateBitbucketCredentials(username, appPassword);
+    const baseUrl = getInstanceUrl(req, res);
+    if (baseUrl === null) return;
+
+    const isValid = baseUrl
+      ? await validateBitbucketServerCredentials(baseUrl, username, appPassword)
+      : await validateBitbucketCredentials(username, appPassword);
     res.json({ valid: isValid });
   } catch (error) {
     res.status(500).json({
@@ -170,6 +233,214 @@ router.post("/bitbucket/validate", async (req, res) => {
   }
 });
 
+/**
+ * Fetch repositories from Codeberg or a Gitea / Forgejo instance (baseUrl)
+ * POST /api/sources/gitea
+ * Privacy: Token is not stored, only used for API calls
+ */
+router.post("/gitea", async (req, res) => {
+  try {
+    const { accessToken } = req.body;
+
+    if (!accessToken) {
+      return res.status(400).json({ error: "Access token is required" });
+    }
+
+    const baseUrl = getInstanceUrl(req, res);
+    if (baseUrl === null) return;
+
+    const repositories = await getGiteaRepositoriesWithTitles(accessToken, baseUrl);
+    res.json({ repositories });
+  } catch (error) {
+    res.status(500).json({
+      error: "Failed to fetch Gitea repositories",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+/**
+ * Import a LinkedIn data export
+ * POST /api/sources/linkedin with the export ZIP as the request body
+ * Privacy: The upload is parsed in memory and discarded, nothing is stored
+ */
+router.post(
+  "/linkedin",
+  express.raw({
+    type: ["application/zip", "application/x-zip-compressed", "application/octet-stream"],
+    limit: "25mb",
+  }),
+  async (req, res) => {
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ error: "LinkedIn export ZIP is required" });
+    }
+
+    try {
+      const { items, hints, files } = await parseLinkedInExport(req.body);
+      res.json({ items, hints, files });
+    } catch (error) {
+      res.status(400).json({
+        error: "Invalid LinkedIn export",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  },
+);
+
+/**
+ * Import a JSON Resume (jsonresume.org) document
+ * POST /api/sources/json-resume with { resume }
+ * Privacy: Parsed in memory and returned, nothing is stored
+ */
+router.post("/json-resume", (req, res) => {
+  const { resume } = req.body;
+
+  if (!resume || typeof resume !== "object" || Array.isArray(resume)) {
+    return res.status(400).json({ error: "JSON Resume document is required" });
+  }
+
+  try {
+    const { items, hints } = importJsonResume(resume);
+    res.json({ items, hints });
+  } catch (error) {
+    res.status(400).json({
+      error: "Invalid JSON Resume",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+/**
+ * Import publications from BibTeX
+ * POST /api/sources/publications/bibtex with the BibTeX as a text/plain or application/x-bibtex body
+ * Privacy: Parsed in memory and returned, nothing is stored
+ */
+router.post(
+  "/publications/bibtex",
+  express.text({ type: ["text/plain", "application/x-bibtex"], limit: "1mb" }),
+  (req, res) => {
+    if (typeof req.body !== "string" || !req.body.trim()) {
+      return res.status(400).json({ error: "BibTeX is required" });
+    }
+
+    try {
+      const publications = getPublicationsFromBibTeX(req.body);
+      res.json({ publications });
+    } catch (error) {
+      res.status(400).json({
+        error: "Invalid BibTeX",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  },
+);
+
+/**
+ * Import publications from an ORCID works export
+ * POST /api/sources/publications/orcid with the ORCID JSON as an application/vnd.orcid+json body,
+ * which bypasses the global JSON size limit
+ * Privacy: Parsed in memory and returned, nothing is stored
+ */
+router.post(
+  "/publications/orcid",
+  express.json({ type: "application/vnd.orcid+json", limit: "5mb" }),
+  (req, res) => {
+    if (!req.body || typeof req.body !== "object" || Object.keys(req.body).length === 0) {
+      return res.status(400).json({ error: "ORCID works JSON is required" });
+    }
+
+    try {
+      const publications = getPublicationsFromOrcid(req.body);
+      res.json({ publications });
+    } catch (error) {
+      res.status(400).json({
+        error: "Invalid ORCID export",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  },
+);
+
+/**
+ * Fetch an author's papers from arXiv
+ * POST /api/sources/publications/arxiv with { author }: arXiv author identifier or ORCID iD
+ * Privacy: Uses the public arXiv author feed, no authentication needed
+ */
+router.post("/publications/arxiv", async (req, res) => {
+  const { author } = req.body;
+
+  if (!author || typeof author !== "string") {
+    return res.status(400).json({ error: "arXiv author identifier is required" });
+  }
+
+  try {
+    getArxivFeedUrl(author);
+  } catch (error) {
+    return res.status(400).json({
+      error: "Invalid arXiv author identifier",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+
+  try {
+    const publications = await getArxivPublications(author);
+    res.json({ publications });
+  } catch (error) {
+    res.status(500).json({
+      error: "Failed to fetch arXiv publications",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+/**
+ * Fetch talks from a YouTube channel or playlist
+ * POST /api/sources/talks/youtube with { feed }: channel or playlist URL or ID
+ * Privacy: Uses the public YouTube feed, no authentication needed
+ */
+router.post("/talks/youtube", async (req, res) => {
+  const { feed } = req.body;
+
+  if (!feed || typeof feed !== "string") {
+    return res.status(400).json({ error: "YouTube channel or playlist is required" });
+  }
+
+  try {
+    getYouTubeFeedUrl(feed);
+  } catch (error) {
+    return res.status(400).json({
+      error: "Invalid YouTube channel or playlist",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+
+  try {
+    const talks = await getYouTubeTalks(feed);
+    res.json({ talks });
+  } catch (error) {
+    res.status(500).json({
+      error: "Failed to fetch YouTube videos",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+/**
+ * Create a talk from the manual entry form
+ * POST /api/sources/talks with { title, event, date, description, videoUrl, slidesUrl, tags }
+ * Note: Like free-form content, the talk is only validated here and stored in the browser
+ */
+router.post("/talks", (req, res) => {
+  try {
+    res.json({ talk: createTalk(req.body || {}) });
+  } catch (error) {
+    res.status(400).json({
+      error: "Invalid talk",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
 /**
  * Create free-form content
  * POST /api/sources/freeform
@@ -208,123 +479,194 @@ router.post("/freeform", async (req, res) => {
   }
 });
 
+/**
+ * Validates a summary request and returns the job options, or sends the error response
+ */
+function getSummaryJobOptions(
+  req: express.Request,
+  res: express.Response,
+): SummaryJobOptions | null {
+  const { items, concurrency } = req.body;
+
+  if (!items || !Array.isArray(items)) {
+    res.status(400).json({ error: "Items array is required" });
+    return null;
+  }
+
+  if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1)) {
+    res.status(400).json({
+      error: "Invalid concurrency",
+      details: `concurrency must be a whole number between 1 and ${MAX_CONCURRENCY}`,
+    });
+    return null;
+  }
+
+  // The job-wide style and each item's own style must be valid summary styles
+  const style = summaryStyleSchema.optional().safeParse(req.body.style);
+  const invalidStyle = [
+    style,
+    ...items.map((item) => summaryStyleSchema.optional().safeParse(item?.summaryStyle)),
+  ].find((result) => !result.success);
+  if (invalidStyle?.error) {
+    res.status(400).json({
+      error: "Invalid summary style",
+      details: invalidStyle.error.issues.map((issue) => issue.message).join("; "),
+    });
+    return null;
+  }
+
+  // READMEs of Gitea repositories are fetched from the instance they were imported from
+  let gitea: SummaryJobOptions["gitea"];
+  if (req.body.gitea?.accessToken) {
+    const { accessToken, baseUrl } = req.body.gitea;
+    try {
+      if (typeof accessToken !== "string" || (baseUrl && typeof baseUrl !== "string")) {
+        throw new Error("Gitea token and instance URL must be strings");
+      }
+      gitea = { accessToken, baseUrl: baseUrl ? normalizeInstanceUrl(baseUrl) : undefined };
+    } catch (error) {
+      res.status(400).json({
+        error: "Invalid instance URL",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+      return null;
+    }
+  }
+
+  const llmConfigError = getLLMConfigurationError();
+  if (llmConfigError) {
+    res.status(500).json({
+      error: "AI provider not configured",
+      details: llmConfigError,
+    });
+    return null;
+  }
+
+  return {
+    accessToken: req.headers.authorization?.replace("Bearer ", ""),
+    gitea,
+    concurrency,
+    style: style.data,
+  };
+}
+
 /**
  * Generate AI summaries for portfolio items
  * POST /api/sources/generate-summaries
- * Privacy: Content is sent to OpenAI but not logged on our backend
+ * Waits for all items; use /summary-jobs for progress and cancellation
+ * Privacy: Content is sent to the configured AI provider but not logged on our backend
  */
 router.post("/generate-summaries", async (req, res) => {
   try {
-    const { items } = req.body;
+    const options = getSummaryJobOptions(req, res);
+    if (!options) return;
 
-    if (!items || !Array.isArray(items)) {
-      return res.status(400).json({ error: "Items array is required" });
-    }
+    const job = createSummaryJob(req.body.items, getLLMProvider(), options);
+    const { id, summaries, failed, cached } = await job.done;
 
-    const serverApiKey = process.env.OPENAI_API_KEY;
-    if (!serverApiKey) {
-      return res.status(500).json({
-        error: "OpenAI API key not configured",
-        details: "OPENAI_API_KEY environment variable is required",
-      });
-    }
+    res.json({ jobId: id, summaries, failed, cached });
+  } catch (error) {
+    console.error("Error generating summaries:", error);
+    res.status(500).json({
+      error: "Failed to generate summaries",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+/**
+ * Writes one server-sent event
+ */
+function sendEvent(res: express.Response, event: SummaryJobEvent["type"], data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
 
-    // Import the generateContentSummary function
-    const { generateContentSummary, generateRepoSummary } = await import("../lib/openai.js");
-    const { getReadmeContent } = await import("../lib/github.js");
-
-    const summaries: Record<string, string> = {};
-
-    // Generate summaries for each item
-    for (const item of items) {
-      try {
-        let summary = "";
-
-        if (item.source === "github" || item.source === "gitlab" || item.source === "bitbucket") {
-          // For repos, use the existing repo summary logic
-          // Try to fetch README if we have access token
-          let readme = "";
-          if (item.source === "github" && req.headers.authorization) {
-            const token = req.headers.authorization.replace("Bearer ", "");
-            try {
-              readme = (await getReadmeContent(token, item.owner.login, item.name)) || "";
-            } catch (e) {
-              console.warn(`Could not fetch README for ${item.name}:`, e);
-            }
-          }
-
-          const result = await generateRepoSummary(
-            item.name,
-            item.description || "",
-            readme,
-            serverApiKey,
-            undefined,
-            item.metadata,
-            req.headers.authorization?.replace("Bearer ", ""),
-            item.owner?.login,
-          );
-          summary = result.summary;
-        } else if (item.source === "blog_rss") {
-          // For blog posts
-          const result = await generateContentSummary(
-            item.title,
-            item.description || "",
-            "blog_post",
-            serverApiKey,
-            {
-              author: item.author || undefined,
-              publishedAt: item.publishedAt,
-              tags: item.tags,
-              url: item.url,
-            },
-          );
-          summary = result.summary;
-        } else if (item.source === "medium") {
-          // For Medium posts
-          const result = await generateContentSummary(
-            item.title,
-            item.description || "",
-            "medium_post",
-            serverApiKey,
-            {
-              author: item.author || undefined,
-              publishedAt: item.publishedAt,
-              tags: item.tags,
-              url: item.url,
-            },
-          );
-          summary = result.summary;
-        } else if (item.source === "freeform") {
-          // For freeform content
-          const result = await generateContentSummary(
-            item.title,
-            item.content,
-            "freeform",
-            serverApiKey,
-            {
-              tags: item.tags,
-              url: item.url,
-            },
-          );
-          summary = result.summary;
-        }
-
-        // Store summary with item ID
-        summaries[item.id] = summary;
-      } catch (itemError) {
-        console.error(`Failed to generate summary for item ${item.id}:`, itemError);
-        // Continue with other items even if one fails
+/**
+ * Generate AI summaries with live progress
+ * POST /api/sources/generate-summaries/stream
+ * Responds with server-sent events: started, token and done or failed for each item,
+ * then complete with the final job state. Closing the connection cancels the job.
+ * Privacy: Content is sent to the configured AI provider but not logged on our backend
+ */
+router.post("/generate-summaries/stream", (req, res) => {
+  const options = getSummaryJobOptions(req, res);
+  if (!options) return;
+
+  const job = createSummaryJob(req.body.items, getLLMProvider(), {
+    ...options,
+    onEvent: (event) => {
+      if (res.writableEnded) return;
+
+      const { type, ...data } = event;
+      if (event.type === "complete") {
+        sendEvent(res, type, event.job);
+        res.end();
+      } else {
+        sendEvent(res, type, data);
       }
+    },
+  });
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+    "X-Summary-Job-ID": job.id,
+  });
+  res.flushHeaders();
+
+  // Stop generating when the client goes away, e.g. the user left the page
+  res.on("close", () => {
+    if (!res.writableEnded) {
+      job.cancel();
     }
+  });
+});
+
+/**
+ * Start a background summary job
+ * POST /api/sources/summary-jobs
+ * Returns the job ID to poll with GET or cancel with DELETE
+ */
+router.post("/summary-jobs", (req, res) => {
+  try {
+    const options = getSummaryJobOptions(req, res);
+    if (!options) return;
 
-    res.json({ summaries });
+    const job = createSummaryJob(req.body.items, getLLMProvider(), options);
+    res.status(202).json(job.snapshot());
   } catch (error) {
-    console.error("Error generating summaries:", error);
+    console.error("Error starting summary job:", error);
     res.status(500).json({
-      error: "Failed to generate summaries",
+      error: "Failed to start summary job",
       message: error instanceof Error ? error.message : "Unknown error",
     });
   }
 });
 
+/**
+ * Get the progress and results of a summary job
+ * GET /api/sources/summary-jobs/:id
+ */
+router.get("/summary-jobs/:id", (req, res) => {
+  const job = getSummaryJob(req.params.id, req.headers.authorization?.replace("Bearer ", ""));
+  if (!job) {
+    return res.status(404).json({ error: "Summary job not found" });
+  }
+  res.json(job.snapshot());
+});
+
+/**
+ * Cancel a summary job, keeping the summaries generated so far
+ * DELETE /api/sources/summary-jobs/:id
+ */
+router.delete("/summary-jobs/:id", (req, res) => {
+  const job = getSummaryJob(req.params.id, req.headers.authorization?.replace("Bearer ", ""));
+  if (!job) {
+    return res.status(404).json({ error: "Summary job not found" });
+  }
+  res.json(job.cancel());
+});
+
 export default router;
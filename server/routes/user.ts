@@ -1,5 +1,8 @@
 import { Router } from "express";
+import { introductionHintsSchema, summaryStyleSchema } from "../../shared/schema.js";
 import { getGithubUser } from "../lib/github.js";
+import { exportJsonResume } from "../lib/json-resume.js";
+import { getLLMConfigurationError, getLLMProvider } from "../lib/llm/index.js";
 import { generateUserIntroduction } from "../lib/openai.js";
 
 const router = Router();
@@ -12,16 +15,37 @@ router.post("/api/user/introduction", async (req, res) => {
     return res.status(401).json({ error: "No access token provided" });
   }
 
+  const style = summaryStyleSchema.optional().safeParse(req.body.style);
+  if (!style.success) {
+    return res.status(400).json({
+      error: "Invalid summary style",
+      details: style.error.issues.map((issue) => issue.message).join("; "),
+    });
+  }
+
+  const hints = introductionHintsSchema.optional().safeParse(req.body.hints);
+  if (!hints.success) {
+    return res.status(400).json({
+      error: "Invalid introduction hints",
+      details: hints.error.issues.map((issue) => issue.message).join("; "),
+    });
+  }
+
   try {
     const user = await getGithubUser(accessToken);
-    const serverApiKey = process.env.OPENAI_API_KEY;
-    if (!serverApiKey) {
+    const llmConfigError = getLLMConfigurationError();
+    if (llmConfigError) {
       return res.status(500).json({
-        error: "OpenAI API key not configured",
-        details: "OPENAI_API_KEY environment variable is required",
+        error: "AI provider not configured",
+        details: llmConfigError,
       });
     }
-    const introduction = await generateUserIntroduction(repositories, serverApiKey);
+    const introduction = await generateUserIntroduction(
+      repositories,
+      getLLMProvider(),
+      style.data,
+      hints.data,
+    );
 
     res.json({
       introduction,
@@ -39,4 +63,35 @@ router.post("/api/user/introduction", async (req, res) => {
   }
 });
 
+/**
+ * Export the portfolio as a JSON Resume (jsonresume.org) document
+ * POST /api/user/json-resume with { items, introduction, userInfo }
+ * Privacy: Built from the request body, nothing is stored
+ */
+router.post("/api/user/json-resume", (req, res) => {
+  const { items, introduction, userInfo } = req.body;
+
+  if (!Array.isArray(items)) {
+    return res.status(400).json({ error: "Items array is required" });
+  }
+
+  try {
+    const resume = exportJsonResume({
+      items,
+      introduction,
+      name: userInfo?.username,
+      avatarUrl: userInfo?.avatarUrl,
+    });
+
+    res.setHeader("Content-Disposition", 'attachment; filename="resume.json"');
+    res.json(resume);
+  } catch (error) {
+    console.error("Failed to export JSON Resume:", error);
+    res.status(500).json({
+      error: "Failed to export JSON Resume",
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
 export default router;
@@ -0,0 +1,58 @@
+/**
+ * Compiles the stylesheet used by generated portfolios.
+ *
+ * Tailwind scans the theme definitions and the HTML templates, so the output
+ * covers exactly the utility classes a generated portfolio can use.
+ * Run `npm run build:portfolio-css` after changing themes or templates.
+ */
+import { readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import postcss from "postcss";
+import tailwindcss from "tailwindcss";
+
+const rootDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../..");
+
+// Files whose class names end up in generated portfolios
+export const PORTFOLIO_CSS_CONTENT = ["shared/themes.ts", "server/lib/portfolio-generator.ts"];
+
+const SOURCE_PATH = path.join(rootDir, "server/lib/portfolio.css");
+const OUTPUT_PATH = path.join(rootDir, "server/lib/portfolio-css.ts");
+
+export async function compilePortfolioCss(): Promise<string> {
+  const source = await readFile(SOURCE_PATH, "utf-8");
+  const result = await postcss([
+    tailwindcss({
+      content: PORTFOLIO_CSS_CONTENT.map((file) => path.join(rootDir, file)),
+      theme: { extend: {} },
+      plugins: [],
+    }),
+  ]).process(source, { from: SOURCE_PATH });
+
+  // Drop comments and blank lines to keep inlined pages small
+  return result.css
+    .replace(/\/\*[\s\S]*?\*\//g, "")
+    .split("\n")
+    .map((line) => line.trimEnd())
+    .filter((line) => line.trim() !== "")
+    .join("\n");
+}
+
+export function renderPortfolioCssModule(css: string): string {
+  return `// Generated by \`npm run build:portfolio-css\` from server/lib/portfolio.css. Do not edit.
+export const PORTFOLIO_CSS = ${JSON.stringify(css)};
+`;
+}
+
+async function main() {
+  const css = await compilePortfolioCss();
+  await writeFile(OUTPUT_PATH, renderPortfolioCssModule(css));
+  console.log(`Wrote ${path.relative(rootDir, OUTPUT_PATH)} (${css.length} bytes of CSS)`);
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch((error) => {
+    console.error("Failed to build portfolio CSS:", error);
+    process.exit(1);
+  });
+}
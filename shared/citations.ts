@@ -0,0 +1,125 @@
+import type { Publication, PublicationType } from "./schema";
+
+export const PUBLICATION_TYPE_LABELS: Record<PublicationType, string> = {
+  article: "Journal Article",
+  conference: "Conference Paper",
+  preprint: "Preprint",
+  book: "Book",
+  thesis: "Thesis",
+  report: "Report",
+  other: "Publication",
+};
+
+// Lowercase name particles that belong to the family name ("Ludwig van Beethoven")
+const NAME_PARTICLES = [
+  "van",
+  "von",
+  "der",
+  "den",
+  "de",
+  "del",
+  "della",
+  "di",
+  "da",
+  "du",
+  "la",
+  "le",
+];
+
+// APA lists up to 20 authors, otherwise the first 19, an ellipsis and the last one
+const MAX_CITED_AUTHORS = 20;
+
+function toInitials(givenNames: string): string {
+  return givenNames
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((name) =>
+      name
+        .split("-")
+        .map((part) => (part ? `${part.charAt(0).toUpperCase()}.` : ""))
+        .join("-"),
+    )
+    .join(" ");
+}
+
+/**
+ * Formats an author as "Family, G. N.", from either "Given Names Family" or "Family, Given Names"
+ */
+export function formatAuthorName(name: string): string {
+  const trimmed = name.trim().replace(/\s+/g, " ");
+  if (!trimmed) return "";
+  if (trimmed.toLowerCase() === "others") return "et al.";
+
+  let family: string;
+  let given: string;
+
+  if (trimmed.includes(",")) {
+    const comma = trimmed.indexOf(",");
+    family = trimmed.slice(0, comma).trim();
+    given = trimmed.slice(comma + 1).trim();
+  } else {
+    const parts = trimmed.split(" ");
+    const particle = parts.findIndex(
+      (part, i) => i > 0 && NAME_PARTICLES.includes(part.toLowerCase()),
+    );
+    const familyStart = particle === -1 ? parts.length - 1 : particle;
+    family = parts.slice(familyStart).join(" ");
+    given = parts.slice(0, familyStart).join(" ");
+  }
+
+  const initials = toInitials(given || "");
+  return initials ? `${family}, ${initials}` : family;
+}
+
+/**
+ * Joins formatted authors the APA way: "A., B., & C."
+ */
+export function formatAuthorList(authors: string[]): string {
+  const names = authors.map(formatAuthorName).filter(Boolean);
+  if (names.length === 0) return "";
+
+  const etAl = names[names.length - 1] === "et al.";
+  const cited = etAl ? names.slice(0, -1) : names;
+
+  if (etAl) return [...cited, "et al."].join(", ");
+  if (cited.length === 1) return cited[0];
+  if (cited.length > MAX_CITED_AUTHORS) {
+    return `${cited.slice(0, MAX_CITED_AUTHORS - 1).join(", ")}, . . . ${cited[cited.length - 1]}`;
+  }
+  return `${cited.slice(0, -1).join(", ")}, & ${cited[cited.length - 1]}`;
+}
+
+/**
+ * Link that identifies the publication: its DOI, else its arXiv page, else its URL
+ */
+export function getPublicationLink(publication: Publication): string | null {
+  if (publication.doi) return `https://doi.org/${publication.doi}`;
+  if (publication.arxivId) return `https://arxiv.org/abs/${publication.arxivId}`;
+  return publication.url || null;
+}
+
+function withPeriod(text: string): string {
+  return /[.?!]$/.test(text) ? text : `${text}.`;
+}
+
+/**
+ * Formats a publication as an APA-style reference, e.g.
+ * "Lovelace, A., & Babbage, C. (1843). Notes on the analytical engine. Scientific Memoirs.
+ * https://doi.org/10.1000/xyz"
+ */
+export function formatCitation(publication: Publication): string {
+  const venue =
+    publication.venue ||
+    (publication.arxivId ? `arXiv preprint arXiv:${publication.arxivId}` : null);
+  const authors = formatAuthorList(publication.authors);
+
+  return [
+    authors ? withPeriod(authors) : null,
+    `(${publication.year ?? "n.d."}).`,
+    withPeriod(publication.title.trim()),
+    venue ? withPeriod(venue) : null,
+    getPublicationLink(publication),
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
@@ -0,0 +1,26 @@
+import type { Gist, GistFile } from "./schema";
+
+export const GIST_EXCERPT_LINES = 12;
+
+export interface GistExcerpt {
+  file: GistFile;
+  code: string;
+  truncated: boolean; // The file continues after the excerpt
+}
+
+/**
+ * The first lines of the gist's main file, shown on cards
+ */
+export function getGistExcerpt(gist: Gist): GistExcerpt | null {
+  const file = gist.files.find((candidate) => candidate.filename === gist.mainFile);
+  if (!file) return null;
+
+  const lines = file.content.split("\n");
+  return {
+    file,
+    code: lines.slice(0, GIST_EXCERPT_LINES).join("\n").trimEnd(),
+    truncated:
+      lines.length > GIST_EXCERPT_LINES ||
+      new TextEncoder().encode(file.content).length < file.size, // Content was cut on import
+  };
+}
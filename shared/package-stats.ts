@@ -0,0 +1,31 @@
+import type { PackageRegistry, PackageStats } from "./schema";
+
+export const PACKAGE_REGISTRY_LABELS: Record<PackageRegistry, string> = {
+  npm: "npm",
+  pypi: "PyPI",
+  crates: "crates.io",
+};
+
+/**
+ * Formats a count compactly: 950, 12.3k, 4.1M
+ */
+export function formatCompactNumber(value: number): string {
+  if (value < 1000) return String(value);
+  if (value < 1_000_000) return `${Number((value / 1000).toFixed(1))}k`;
+  return `${Number((value / 1_000_000).toFixed(1))}M`;
+}
+
+/**
+ * Badge texts for a published package: registry and version, weekly downloads, dependents
+ */
+export function getPackageBadges(stats: PackageStats): string[] {
+  const label = PACKAGE_REGISTRY_LABELS[stats.registry] || stats.registry;
+
+  return [
+    stats.version ? `${label} v${stats.version}` : label,
+    stats.weeklyDownloads ? `↓ ${formatCompactNumber(stats.weeklyDownloads)}/week` : null,
+    stats.dependents
+      ? `${formatCompactNumber(stats.dependents)} dependent${stats.dependents === 1 ? "" : "s"}`
+      : null,
+  ].filter((badge): badge is string => badge !== null);
+}
@@ -5,14 +5,32 @@ export const sourceTypeSchema = z.enum([
   "github",
   "gitlab",
   "bitbucket",
+  "gitea",
   "blog_rss",
   "medium",
   "linkedin",
+  "publication",
+  "contribution",
+  "gist",
+  "talk",
   "freeform",
 ]);
 
 export type SourceType = z.infer<typeof sourceTypeSchema>;
 
+// Package registries a repository can be published to
+export const packageRegistrySchema = z.enum(["npm", "pypi", "crates"]);
+
+// Registry stats for a repository that is published as a package
+export const packageStatsSchema = z.object({
+  registry: packageRegistrySchema,
+  name: z.string(),
+  version: z.string().nullable(),
+  weeklyDownloads: z.number().nullable(),
+  dependents: z.number().nullable(), // Packages depending on it, from deps.dev
+  url: z.string(), // Package page on the registry
+});
+
 // GitHub Repository Schema
 export const repositorySchema = z.object({
   id: z.number(),
@@ -35,6 +53,7 @@ export const repositorySchema = z.object({
     topics: z.array(z.string()),
     updatedAt: z.string(),
     url: z.string().nullable().optional(),
+    packages: z.array(packageStatsSchema).optional(), // Unset until registries were checked
   }),
 });
 
@@ -60,6 +79,7 @@ export const gitlabRepositorySchema = z.object({
     topics: z.array(z.string()),
     updatedAt: z.string(),
     url: z.string().nullable().optional(),
+    packages: z.array(packageStatsSchema).optional(), // Unset until registries were checked
   }),
 });
 
@@ -85,6 +105,33 @@ export const bitbucketRepositorySchema = z.object({
     topics: z.array(z.string()).default([]),
     updatedAt: z.string(),
     url: z.string().nullable().optional(),
+    packages: z.array(packageStatsSchema).optional(), // Unset until registries were checked
+  }),
+});
+
+// Gitea Repository Schema (Gitea, Forgejo and Codeberg)
+export const giteaRepositorySchema = z.object({
+  id: z.string(), // <host>:<id>, numeric IDs are only unique per instance
+  name: z.string(),
+  displayName: z.string().nullable().optional(),
+  description: z.string().nullable(),
+  url: z.string(),
+  summary: z.string().nullable(),
+  selected: z.boolean(),
+  source: z.literal("gitea"),
+  owner: z.object({
+    login: z.string(),
+    type: z.enum(["User", "Organization"]),
+    avatarUrl: z.string().nullable(),
+  }),
+  metadata: z.object({
+    id: z.string(),
+    stars: z.number().default(0),
+    language: z.string().nullable(),
+    topics: z.array(z.string()).default([]),
+    updatedAt: z.string(),
+    url: z.string().nullable().optional(),
+    packages: z.array(packageStatsSchema).optional(), // Unset until registries were checked
   }),
 });
 
@@ -101,6 +148,7 @@ export const blogPostSchema = z.object({
   author: z.string().nullable(),
   tags: z.array(z.string()).default([]),
   feedUrl: z.string(), // Original RSS feed URL
+  readTime: z.number().nullable().optional(), // minutes
 });
 
 // Medium Post Schema
@@ -134,6 +182,112 @@ export const linkedinPostSchema = z.object({
   comments: z.number().nullable().optional(),
 });
 
+// Publication kinds, used for the citation and the card badge
+export const publicationTypeSchema = z.enum([
+  "article",
+  "conference",
+  "preprint",
+  "book",
+  "thesis",
+  "report",
+  "other",
+]);
+
+// Publication Schema (from BibTeX, ORCID or arXiv)
+export const publicationSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  abstract: z.string().nullable(),
+  url: z.string().nullable(),
+  summary: z.string().nullable(),
+  selected: z.boolean(),
+  source: z.literal("publication"),
+  publicationType: publicationTypeSchema.default("other"),
+  authors: z.array(z.string()).default([]),
+  venue: z.string().nullable(),
+  year: z.number().int().nullable(),
+  doi: z.string().nullable().optional(),
+  arxivId: z.string().nullable().optional(),
+  tags: z.array(z.string()).default([]),
+});
+
+// Open Source Contribution Schema: merged pull requests to one external GitHub repository
+export const contributionSchema = z.object({
+  id: z.string(), // contribution-<owner>/<repo>
+  title: z.string(), // owner/repo
+  description: z.string().nullable(), // Upstream repository description
+  url: z.string(), // The user's merged pull requests in the repository
+  repositoryUrl: z.string(),
+  summary: z.string().nullable(),
+  selected: z.boolean(),
+  source: z.literal("contribution"),
+  pullRequestCount: z.number(),
+  additions: z.number(),
+  deletions: z.number(),
+  // The largest merged pull request
+  representativePullRequest: z.object({
+    title: z.string(),
+    url: z.string(),
+  }),
+  stars: z.number(),
+  language: z.string().nullable(),
+  firstMergedAt: z.string(),
+  lastMergedAt: z.string(),
+  tags: z.array(z.string()).default([]), // Upstream topics
+});
+
+// File of a GitHub Gist
+export const gistFileSchema = z.object({
+  filename: z.string(),
+  language: z.string().nullable(),
+  size: z.number(), // Bytes
+  content: z.string(), // Truncated to the first few thousand characters
+});
+
+// GitHub Gist Schema
+export const gistSchema = z.object({
+  id: z.string(), // gist-<gist id>
+  title: z.string(), // Description or the main file name
+  description: z.string().nullable(),
+  url: z.string(),
+  summary: z.string().nullable(),
+  selected: z.boolean(),
+  source: z.literal("gist"),
+  files: z.array(gistFileSchema),
+  mainFile: z.string().nullable(), // Filename of the file shown as excerpt
+  languages: z.array(z.string()).default([]),
+  stars: z.number(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  tags: z.array(z.string()).default([]),
+});
+
+// Talk Schema: a conference talk or video, from a YouTube feed or entered by hand
+export const talkSchema = z.object({
+  id: z.string(), // talk-<YouTube video id>, or talk-<random> for manual entries
+  title: z.string(),
+  description: z.string().nullable(),
+  url: z.string().nullable(), // Video, or slides when there is no video
+  summary: z.string().nullable(),
+  selected: z.boolean(),
+  source: z.literal("talk"),
+  event: z.string().nullable(), // Conference or meetup, the playlist title for playlists
+  date: z.string().nullable(), // ISO date
+  videoUrl: z.string().nullable(),
+  slidesUrl: z.string().nullable(),
+  thumbnailUrl: z.string().nullable(),
+  tags: z.array(z.string()).default([]),
+});
+
+// Free-form content categories
+export const freeformContentTypeSchema = z.enum([
+  "project",
+  "achievement",
+  "skill",
+  "experience",
+  "other",
+]);
+
 // Free-form Content Schema
 export const freeformContentSchema = z.object({
   id: z.string(),
@@ -144,7 +298,7 @@ export const freeformContentSchema = z.object({
   selected: z.boolean(),
   source: z.literal("freeform"),
   createdAt: z.string(),
-  contentType: z.enum(["project", "achievement", "skill", "experience", "other"]).default("other"),
+  contentType: freeformContentTypeSchema.default("other"),
   tags: z.array(z.string()).default([]),
 });
 
@@ -153,12 +307,57 @@ export const portfolioItemSchema = z.discriminatedUnion("source", [
   repositorySchema,
   gitlabRepositorySchema,
   bitbucketRepositorySchema,
+  giteaRepositorySchema,
   blogPostSchema,
   mediumPostSchema,
   linkedinPostSchema,
+  publicationSchema,
+  contributionSchema,
+  gistSchema,
+  talkSchema,
   freeformContentSchema,
 ]);
 
+// Portfolio Section Schema
+// Items land in the first section that lists their id, otherwise in the first section
+// matching their source (or their contentType for free-form content).
+export const portfolioSectionSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  sources: z.array(sourceTypeSchema).default([]),
+  contentTypes: z.array(freeformContentTypeSchema).default([]),
+  itemIds: z.array(z.union([z.string(), z.number()])).default([]),
+});
+
+// Summary Style Schema
+// Controls how AI summaries are written, for the whole portfolio or a single item.
+// "balanced" keeps the original prompts; "custom" uses the template with {placeholders}.
+export const summaryToneSchema = z.enum([
+  "balanced",
+  "concise",
+  "technical",
+  "recruiter",
+  "academic",
+  "casual",
+  "custom",
+]);
+
+export const summaryStyleSchema = z.object({
+  tone: summaryToneSchema.default("balanced"),
+  targetWords: z.number().int().min(20).max(800).optional(),
+  language: z.string().trim().max(40).optional(),
+  template: z.string().max(4000).optional(),
+});
+
+// Introduction Hints Schema
+// Self-reported profile details (e.g. from a LinkedIn export or a JSON Resume) that guide
+// the AI introduction
+export const introductionHintsSchema = z.object({
+  headline: z.string().trim().max(200).optional(),
+  skills: z.array(z.string().trim().max(100)).max(100).default([]),
+  interests: z.array(z.string().trim().max(100)).max(50).optional(),
+});
+
 // User Schema
 export const userSchema = z.object({
   githubId: z.string(),
@@ -185,12 +384,34 @@ export const dataSourceConfigSchema = z.object({
 export type Repository = z.infer<typeof repositorySchema>;
 export type GitLabRepository = z.infer<typeof gitlabRepositorySchema>;
 export type BitbucketRepository = z.infer<typeof bitbucketRepositorySchema>;
+export type GiteaRepository = z.infer<typeof giteaRepositorySchema>;
 export type BlogPost = z.infer<typeof blogPostSchema>;
 export type MediumPost = z.infer<typeof mediumPostSchema>;
 export type LinkedInPost = z.infer<typeof linkedinPostSchema>;
+export type PackageRegistry = z.infer<typeof packageRegistrySchema>;
+export type PackageStats = z.infer<typeof packageStatsSchema>;
+export type Publication = z.infer<typeof publicationSchema>;
+export type PublicationType = z.infer<typeof publicationTypeSchema>;
+export type Contribution = z.infer<typeof contributionSchema>;
+export type Gist = z.infer<typeof gistSchema>;
+export type GistFile = z.infer<typeof gistFileSchema>;
+export type Talk = z.infer<typeof talkSchema>;
 export type FreeformContent = z.infer<typeof freeformContentSchema>;
 export type PortfolioItem = z.infer<typeof portfolioItemSchema>;
+export type FreeformContentType = z.infer<typeof freeformContentTypeSchema>;
+export type PortfolioSection = z.infer<typeof portfolioSectionSchema>;
+export type SummaryTone = z.infer<typeof summaryToneSchema>;
+export type SummaryStyle = z.infer<typeof summaryStyleSchema>;
+export type IntroductionHints = z.infer<typeof introductionHintsSchema>;
 export type User = z.infer<typeof userSchema>;
 export type Organization = z.infer<typeof orgSchema>;
 export type DataSourceConfig = z.infer<typeof dataSourceConfigSchema>;
 export type RepoList = Repository[];
+export type RepositoryItem = Repository | GitLabRepository | BitbucketRepository | GiteaRepository;
+
+// Sources whose items are code repositories sharing the same shape
+export const repositorySources = ["github", "gitlab", "bitbucket", "gitea"] as const;
+
+export function isRepositoryItem(item: PortfolioItem): item is RepositoryItem {
+  return (repositorySources as readonly string[]).includes(item.source);
+}
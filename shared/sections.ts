@@ -0,0 +1,97 @@
+import { z } from "zod";
+import { type PortfolioItem, type PortfolioSection, portfolioSectionSchema } from "./schema";
+
+export interface SectionGroup {
+  section: PortfolioSection;
+  items: PortfolioItem[];
+}
+
+export const OTHER_SECTION_ID = "other";
+
+// Sections sent by the client. The id of the trailing "Other" section is reserved.
+export const portfolioSectionsSchema = z
+  .array(portfolioSectionSchema)
+  .refine((sections) => sections.every((section) => section.id !== OTHER_SECTION_ID), {
+    message: `Section id "${OTHER_SECTION_ID}" is reserved`,
+  })
+  .optional();
+
+// Default sections, in display order. Custom sections are appended by the user.
+export const DEFAULT_SECTIONS: PortfolioSection[] = [
+  {
+    id: "projects",
+    title: "Projects",
+    sources: ["github", "gitlab", "bitbucket", "gitea", "contribution", "gist"],
+    contentTypes: ["project"],
+    itemIds: [],
+  },
+  {
+    id: "writing",
+    title: "Writing",
+    sources: ["blog_rss", "medium", "linkedin", "publication", "talk"],
+    contentTypes: [],
+    itemIds: [],
+  },
+  {
+    id: "achievements",
+    title: "Achievements",
+    sources: [],
+    contentTypes: ["achievement"],
+    itemIds: [],
+  },
+  {
+    id: "experience",
+    title: "Experience",
+    sources: [],
+    contentTypes: ["experience", "skill"],
+    itemIds: [],
+  },
+];
+
+export function isDefaultSection(sectionId: string): boolean {
+  return DEFAULT_SECTIONS.some((section) => section.id === sectionId);
+}
+
+function sectionMatchesItem(section: PortfolioSection, item: PortfolioItem): boolean {
+  if (item.source === "freeform") {
+    return (section.contentTypes || []).includes(item.contentType);
+  }
+  return (section.sources || []).includes(item.source);
+}
+
+/**
+ * Groups portfolio items into sections, preserving the order of both.
+ * Explicit item assignments win over source/contentType matching, and
+ * anything left unmatched is collected in a trailing "Other" section.
+ * Empty sections are omitted.
+ */
+export function groupItemsIntoSections(
+  items: PortfolioItem[],
+  sections?: PortfolioSection[] | null,
+): SectionGroup[] {
+  const groups: SectionGroup[] = (sections ?? DEFAULT_SECTIONS).map((section) => ({
+    section,
+    items: [],
+  }));
+  const other: SectionGroup = {
+    section: {
+      id: OTHER_SECTION_ID,
+      title: "Other",
+      sources: [],
+      contentTypes: [],
+      itemIds: [],
+    },
+    items: [],
+  };
+
+  for (const item of items) {
+    const itemId = String(item.id);
+    const group =
+      groups.find(({ section }) => (section.itemIds || []).some((id) => String(id) === itemId)) ||
+      groups.find(({ section }) => sectionMatchesItem(section, item)) ||
+      other;
+    group.items.push(item);
+  }
+
+  return [...groups, other].filter((group) => group.items.length > 0);
+}
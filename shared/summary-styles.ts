@@ -0,0 +1,110 @@
+import type { SummaryStyle, SummaryTone } from "./schema";
+
+export interface SummaryTonePreset {
+  id: SummaryTone;
+  label: string;
+  description: string;
+  /** Writing instructions sent to the model; empty for tones with their own prompt */
+  instructions: string;
+}
+
+export const DEFAULT_SUMMARY_STYLE: SummaryStyle = { tone: "balanced" };
+
+export const SUMMARY_TONES: SummaryTonePreset[] = [
+  {
+    id: "balanced",
+    label: "Balanced",
+    description: "Detailed, professional overview (the default)",
+    instructions: "",
+  },
+  {
+    id: "concise",
+    label: "Concise",
+    description: "Two or three sentences that get to the point",
+    instructions:
+      "Write a concise summary of two or three sentences (about 60 words) for a developer portfolio. Lead with what it is and why it matters, then name the key technologies. Avoid filler and marketing language.",
+  },
+  {
+    id: "technical",
+    label: "Technical deep-dive",
+    description: "Architecture, design decisions and trade-offs",
+    instructions:
+      "Write a technical deep-dive summary of 250-350 words for a developer portfolio. Cover the architecture, key design decisions, notable algorithms or patterns, the technologies used and the trade-offs involved. Use precise technical language for an audience of experienced engineers.",
+  },
+  {
+    id: "recruiter",
+    label: "Recruiter-friendly",
+    description: "Impact and skills in plain language",
+    instructions:
+      "Write a recruiter-friendly summary of 120-180 words for a developer portfolio. Explain what problem it solves and its outcome in plain language a non-engineer understands, then highlight the skills and technologies it demonstrates. Avoid jargon and acronyms without explanation.",
+  },
+  {
+    id: "academic",
+    label: "Academic",
+    description: "Formal abstract: problem, approach, contribution",
+    instructions:
+      "Write an academic-style abstract of 150-250 words for a developer portfolio. Use a formal, objective register and structure it as the problem addressed, the approach taken, and the contribution or results. Do not use the first person.",
+  },
+  {
+    id: "casual",
+    label: "First-person casual",
+    description: "Relaxed, in the author's own voice",
+    instructions:
+      'Write a relaxed, first-person summary of 100-180 words for a developer portfolio, as if the author were telling a fellow developer what they built, why, and what they learned. Use "I" and keep it friendly and genuine.',
+  },
+  {
+    id: "custom",
+    label: "Custom template",
+    description: "Your own prompt with {placeholders}",
+    instructions: "",
+  },
+];
+
+/** Placeholders available in custom templates */
+export const SUMMARY_TEMPLATE_PLACEHOLDERS = [
+  "name",
+  "description",
+  "language",
+  "topics",
+  "techStack",
+  "readme",
+  "url",
+] as const;
+
+export type SummaryTemplateValues = Partial<
+  Record<(typeof SUMMARY_TEMPLATE_PLACEHOLDERS)[number], string>
+>;
+
+export const DEFAULT_SUMMARY_TEMPLATE =
+  "Write a short portfolio summary of {name}. It is described as: {description}. Built with {techStack}.\n\nREADME:\n{readme}";
+
+export function getSummaryTone(tone: SummaryTone | undefined): SummaryTonePreset {
+  return SUMMARY_TONES.find((preset) => preset.id === tone) || SUMMARY_TONES[0];
+}
+
+/**
+ * Fills {placeholders} in a custom template. Known placeholders without a value become
+ * "not available"; unknown ones are left as written.
+ */
+export function renderSummaryTemplate(template: string, values: SummaryTemplateValues): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => {
+    if (!(SUMMARY_TEMPLATE_PLACEHOLDERS as readonly string[]).includes(key)) {
+      return match;
+    }
+    return values[key as keyof SummaryTemplateValues]?.trim() || "not available";
+  });
+}
+
+/**
+ * Clamps user-entered values into the ranges accepted by summaryStyleSchema
+ */
+export function normalizeSummaryStyle(style: SummaryStyle): SummaryStyle {
+  const targetWords =
+    style.targetWords && Math.min(800, Math.max(20, Math.round(style.targetWords)));
+  return {
+    tone: getSummaryTone(style.tone).id,
+    targetWords: targetWords || undefined,
+    language: style.language?.trim().slice(0, 40) || undefined,
+    template: style.template?.slice(0, 4000) || undefined,
+  };
+}
@@ -15,6 +15,7 @@ export interface Theme {
     header: string;
     content: string;
     profile: string;
+    section: string;
   };
 }
 
@@ -37,6 +38,7 @@ export const themes: Theme[] = [
       header: "lg:col-span-4 flex justify-center",
       content: "lg:col-span-8",
       profile: "sticky top-8 flex flex-col items-center",
+      section: "",
     },
   },
   {
@@ -56,6 +58,7 @@ export const themes: Theme[] = [
       header: "mb-16 flex flex-col items-center",
       content: "grid gap-8",
       profile: "flex flex-col items-center",
+      section: "grid gap-8",
     },
   },
   {
@@ -75,6 +78,7 @@ export const themes: Theme[] = [
       header: "col-span-full flex justify-center",
       content: "col-span-full grid grid-cols-1 md:grid-cols-2 gap-8",
       profile: "flex flex-col items-center",
+      section: "grid grid-cols-1 md:grid-cols-2 gap-8",
     },
   },
 ];
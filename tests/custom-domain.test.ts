@@ -0,0 +1,289 @@
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  checkDomainPropagation,
+  getDnsRecords,
+  isApexDomain,
+  normalizeCustomDomain,
+} from "../server/lib/custom-domain.js";
+import deployRoutes from "../server/routes/deploy.js";
+
+vi.mock("../server/lib/github.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../server/lib/github.js")>()),
+  getGithubUser: vi.fn(async () => ({ username: "ada", avatarUrl: null })),
+  createPortfolioRepository: vi.fn(async () => ({
+    repoUrl: "https://github.com/ada/ada-foliolab",
+  })),
+  commitPortfolioFiles: vi.fn(async () => undefined),
+}));
+
+// Resolver returning fixed answers per record type and name
+function createResolver(answers: Record<string, string[]>) {
+  const resolve = (type: string) => async (name: string) => {
+    const values = answers[`${type} ${name}`];
+    if (!values) {
+      throw Object.assign(new Error(`query${type} ENODATA ${name}`), { code: "ENODATA" });
+    }
+    return values;
+  };
+  return { resolve4: resolve("A"), resolve6: resolve("AAAA"), resolveCname: resolve("CNAME") };
+}
+
+describe("Custom Domains", () => {
+  let server: ReturnType<express.Express["listen"]>;
+  let baseUrl: string;
+
+  beforeAll(() => {
+    const app = express();
+    app.use(express.json());
+    app.use(deployRoutes);
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  it("should normalize custom domains", () => {
+    expect(normalizeCustomDomain(" https://Portfolio.Example.com/about ")).toBe(
+      "portfolio.example.com",
+    );
+    expect(normalizeCustomDomain("example.co.uk.")).toBe("example.co.uk");
+    expect(() => normalizeCustomDomain("localhost")).toThrow("must be a domain name");
+    expect(() => normalizeCustomDomain("exa mple.com")).toThrow("must be a domain name");
+    expect(() => normalizeCustomDomain("ada.github.io")).toThrow("must be a domain you own");
+    expect(() => normalizeCustomDomain("ada-foliolab.vercel.app")).toThrow(
+      "must be a domain you own",
+    );
+
+    expect(isApexDomain("example.com")).toBe(true);
+    expect(isApexDomain("example.co.uk")).toBe(true);
+    expect(isApexDomain("www.example.com")).toBe(false);
+    expect(isApexDomain("www.example.co.uk")).toBe(false);
+  });
+
+  it("should list the DNS records for each host", () => {
+    expect(getDnsRecords("www.example.com", "github-pages", "Ada")).toEqual([
+      { type: "CNAME", name: "www.example.com", value: "ada.github.io" },
+    ]);
+
+    const apex = getDnsRecords("example.com", "github-pages", "Ada");
+    expect(apex.filter((record) => record.type === "A").map((record) => record.value)).toEqual([
+      "185.199.108.153",
+      "185.199.109.153",
+      "185.199.110.153",
+      "185.199.111.153",
+    ]);
+    expect(apex.filter((record) => record.type === "AAAA")).toHaveLength(4);
+
+    expect(getDnsRecords("example.com", "vercel", "")).toEqual([
+      { type: "A", name: "example.com", value: "76.76.21.21" },
+    ]);
+    expect(getDnsRecords("www.example.com", "vercel", "")).toEqual([
+      { type: "CNAME", name: "www.example.com", value: "cname.vercel-dns.com" },
+    ]);
+  });
+
+  it("should check whether the records have propagated", async () => {
+    const cname = getDnsRecords("www.example.com", "github-pages", "ada");
+    expect(
+      await checkDomainPropagation(
+        "www.example.com",
+        cname,
+        createResolver({ "CNAME www.example.com": ["ADA.github.io."] }),
+      ),
+    ).toEqual({
+      domain: "www.example.com",
+      propagated: true,
+      records: [{ ...cname[0], found: ["ada.github.io"], ok: true }],
+    });
+
+    const missing = await checkDomainPropagation("www.example.com", cname, createResolver({}));
+    expect(missing.propagated).toBe(false);
+    expect(missing.records[0]).toMatchObject({ found: [], ok: false });
+
+    // AAAA records are optional, but a leftover A record of the previous host is not
+    const apex = getDnsRecords("example.com", "github-pages", "ada");
+    const githubIps = ["185.199.108.153", "185.199.109.153", "185.199.110.153", "185.199.111.153"];
+    expect(
+      (
+        await checkDomainPropagation(
+          "example.com",
+          apex,
+          createResolver({ "A example.com": githubIps }),
+        )
+      ).propagated,
+    ).toBe(true);
+    expect(
+      (
+        await checkDomainPropagation(
+          "example.com",
+          apex,
+          createResolver({ "A example.com": [...githubIps, "203.0.113.10"] }),
+        )
+      ).propagated,
+    ).toBe(false);
+  });
+
+  it("should attach the domain to the Vercel project", async () => {
+    const vercel = vi.fn(async (url: string, init?: RequestInit) => {
+      if (url === "https://api.vercel.com/v10/projects/ada-foliolab/domains") {
+        expect(JSON.parse(String(init?.body))).toEqual({ name: "example.com" });
+        return Response.json({
+          name: "example.com",
+          verified: false,
+          verification: [
+            { type: "TXT", domain: "_vercel.example.com", value: "vc-domain-verify=example.com" },
+          ],
+        });
+      }
+      if (url.includes("/v9/projects/ada-foliolab")) {
+        return Response.json({ id: "ada-foliolab" });
+      }
+      if (url.includes("/v13/deployments")) {
+        return Response.json({ id: "dpl_1" });
+      }
+      return Response.json({ id: "ok" });
+    });
+    const realFetch = fetch;
+    vi.stubGlobal("fetch", vercel);
+
+    const response = await realFetch(`${baseUrl}/api/deploy/vercel`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: "Bearer github-token" },
+      body: JSON.stringify({
+        accessToken: "vercel-token",
+        username: "ada",
+        customDomain: "https://Example.com",
+        items: [
+          {
+            id: 1,
+            name: "engine",
+            description: "An engine",
+            url: "https://github.com/ada/engine",
+            summary: "A fast engine",
+            source: "github",
+            owner: { login: "ada", type: "User", avatarUrl: null },
+            metadata: { id: 1, stars: 3, language: "Rust", topics: [], url: null },
+          },
+        ],
+        introduction: { introduction: "Hi", skills: [], interests: [] },
+      }),
+    });
+
+    expect(response.status).toBe(200);
+    // The domain does not serve the site until Vercel has verified it
+    expect(await response.json()).toMatchObject({
+      deploymentId: "dpl_1",
+      url: "https://ada-foliolab.vercel.app",
+      customDomain: "example.com",
+      domainVerified: false,
+      dnsRecords: [
+        { type: "A", name: "example.com", value: "76.76.21.21" },
+        { type: "TXT", name: "_vercel.example.com", value: "vc-domain-verify=example.com" },
+      ],
+    });
+  });
+
+  it("should link to a verified Vercel domain", async () => {
+    const realFetch = fetch;
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) => {
+        if (url.includes("/domains")) {
+          return Response.json({ name: "www.example.com", verified: true });
+        }
+        if (url.includes("/v13/deployments")) {
+          return Response.json({ id: "dpl_1" });
+        }
+        return Response.json({ id: "ok" });
+      }),
+    );
+
+    const response = await realFetch(`${baseUrl}/api/deploy/vercel`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: "Bearer github-token" },
+      body: JSON.stringify({
+        accessToken: "vercel-token",
+        username: "ada",
+        customDomain: "www.example.com",
+        items: [{ id: 1, name: "engine", source: "github", owner: { login: "ada" } }],
+      }),
+    });
+
+    expect(await response.json()).toMatchObject({
+      url: "https://www.example.com",
+      customDomain: "www.example.com",
+      domainVerified: true,
+      domainError: null,
+    });
+  });
+
+  it("should report a domain Vercel rejects without failing the deploy", async () => {
+    const realFetch = fetch;
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) => {
+        if (url.includes("/domains")) {
+          return Response.json(
+            { error: { message: "The domain is already in use by another project" } },
+            { status: 409 },
+          );
+        }
+        if (url.includes("/v13/deployments")) {
+          return Response.json({ id: "dpl_1" });
+        }
+        return Response.json({ id: "ok" });
+      }),
+    );
+
+    const response = await realFetch(`${baseUrl}/api/deploy/vercel`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: "Bearer github-token" },
+      body: JSON.stringify({
+        accessToken: "vercel-token",
+        username: "ada",
+        customDomain: "example.com",
+        items: [{ id: 1, name: "engine", source: "github", owner: { login: "ada" } }],
+      }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      deploymentId: "dpl_1",
+      url: "https://ada-foliolab.vercel.app",
+      customDomain: null,
+      dnsRecords: [],
+      domainError: "Vercel Domain error: The domain is already in use by another project",
+    });
+  });
+
+  it("should reject invalid custom domains", async () => {
+    const deploy = await fetch(`${baseUrl}/api/deploy/github-pages`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ accessToken: "token", customDomain: "ada.github.io", items: [{}] }),
+    });
+    expect(deploy.status).toBe(400);
+    expect(await deploy.json()).toEqual({
+      error: "Invalid custom domain",
+      details: "Custom domain must be a domain you own",
+    });
+
+    const status = await fetch(
+      `${baseUrl}/api/deploy/domain/status?domain=example.com&target=netlify`,
+    );
+    expect(status.status).toBe(400);
+
+    const noUser = await fetch(
+      `${baseUrl}/api/deploy/domain/status?domain=www.example.com&target=github-pages`,
+    );
+    expect(noUser.status).toBe(400);
+  });
+});
@@ -0,0 +1,317 @@
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import {
+  addDeploymentRecord,
+  DEPLOYMENT_HISTORY_LIMIT,
+  type DeploymentSnapshot,
+  getDeploymentHistory,
+  removeDeploymentRecord,
+} from "../client/src/lib/storage";
+import { restorePortfolioCommit } from "../server/lib/github.js";
+import { getGitHubHost } from "../server/lib/github-host.js";
+import deployRoutes from "../server/routes/deploy.js";
+
+// Mock localStorage
+const localStorageMock = (() => {
+  let store: Record<string, string> = {};
+
+  return {
+    getItem: (key: string) => store[key] || null,
+    setItem: (key: string, value: string) => {
+      store[key] = value;
+    },
+    removeItem: (key: string) => {
+      delete store[key];
+    },
+    clear: () => {
+      store = {};
+    },
+  };
+})();
+
+Object.defineProperty(global, "localStorage", {
+  value: localStorageMock,
+  writable: true,
+});
+
+const OLD_SHA = "1".repeat(40);
+
+const snapshot: DeploymentSnapshot = {
+  exportMode: "single",
+  items: [{ id: 1, name: "engine", source: "github" }] as DeploymentSnapshot["items"],
+  themeId: "minimal",
+  customTitle: "Ada's Work",
+};
+
+describe("Deployment History", () => {
+  describe("Storage", () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it("should record deploys newest first", () => {
+      const first = addDeploymentRecord({
+        target: "github-pages",
+        url: "https://ada.github.io/portfolio.html",
+        commitSha: OLD_SHA,
+        deploymentId: null,
+        snapshot,
+      });
+      addDeploymentRecord({
+        target: "netlify",
+        url: "https://ada-foliolab.netlify.app",
+        commitSha: null,
+        deploymentId: "deploy-1",
+        snapshot: { ...snapshot, themeId: undefined },
+        restoredFrom: first.id,
+      });
+
+      const history = getDeploymentHistory();
+      expect(history.map((record) => record.target)).toEqual(["netlify", "github-pages"]);
+      expect(history[1]).toEqual({
+        id: first.id,
+        target: "github-pages",
+        url: "https://ada.github.io/portfolio.html",
+        deployedAt: first.deployedAt,
+        commitSha: OLD_SHA,
+        deploymentId: null,
+        themeId: "minimal",
+        itemCount: 1,
+        snapshot,
+      });
+      expect(history[0]).toMatchObject({ themeId: null, restoredFrom: first.id });
+      expect(Number.isNaN(Date.parse(first.deployedAt))).toBe(false);
+    });
+
+    it("should keep only the latest deploys and remove single records", () => {
+      for (let i = 0; i < DEPLOYMENT_HISTORY_LIMIT + 5; i++) {
+        addDeploymentRecord({
+          target: "s3",
+          url: `https://example.com/${i}`,
+          commitSha: null,
+          deploymentId: null,
+          snapshot,
+        });
+      }
+
+      const history = getDeploymentHistory();
+      expect(history).toHaveLength(DEPLOYMENT_HISTORY_LIMIT);
+      expect(history[0].url).toBe(`https://example.com/${DEPLOYMENT_HISTORY_LIMIT + 4}`);
+
+      removeDeploymentRecord(history[0].id);
+      expect(getDeploymentHistory()).toHaveLength(DEPLOYMENT_HISTORY_LIMIT - 1);
+      expect(getDeploymentHistory()[0].url).toBe(
+        `https://example.com/${DEPLOYMENT_HISTORY_LIMIT + 3}`,
+      );
+    });
+  });
+
+  describe("Rollback", () => {
+    let server: ReturnType<express.Express["listen"]>;
+    let instanceUrl: string;
+    const requests: string[] = [];
+    const commits: { message: string; tree: string; parents: string[] }[] = [];
+    const trees: { base_tree: string; tree: { path: string; sha: string | null }[] }[] = [];
+    // Files of the recorded deploy and of main, as returned by the recursive trees API
+    const files: Record<string, { path: string; type: string; sha: string }[]> = {
+      "old-tree": [
+        { path: "portfolio", type: "tree", sha: "old-dir" },
+        { path: "portfolio/index.html", type: "blob", sha: "old-index" },
+        { path: "portfolio.html", type: "blob", sha: "old-page" },
+        { path: "index.html", type: "blob", sha: "old-home" },
+      ],
+      head: [
+        { path: "portfolio/index.html", type: "blob", sha: "new-index" },
+        { path: "portfolio/projects/added.html", type: "blob", sha: "added" },
+        { path: "index.html", type: "blob", sha: "new-home" },
+        { path: "blog/post.html", type: "blob", sha: "post" },
+        // Added by later deploys with a custom domain and the multi-page site
+        { path: "CNAME", type: "blob", sha: "cname" },
+        { path: "404.html", type: "blob", sha: "not-found" },
+      ],
+    };
+    let truncated = false;
+
+    beforeAll(() => {
+      const app = express();
+      app.use(express.json());
+      app.use(deployRoutes);
+
+      // GitHub Enterprise Server REST API
+      app.use("/api/v3", (req, res) => {
+        const route = `${req.method} ${decodeURIComponent(req.path)}`;
+        requests.push(route);
+
+        switch (route) {
+          case "GET /user":
+            return res.json({ id: 1, login: "dev", avatar_url: null });
+          case "GET /repos/dev/dev.127.0.0.1/git/ref/heads/main":
+            return res.json({ object: { sha: "head" } });
+          case `GET /repos/dev/dev.127.0.0.1/git/commits/${OLD_SHA}`:
+            return res.json({ sha: OLD_SHA, tree: { sha: "old-tree" } });
+          case "GET /repos/dev/dev.127.0.0.1/git/trees/old-tree":
+          case "GET /repos/dev/dev.127.0.0.1/git/trees/head":
+            expect(req.query.recursive).toBe("true");
+            return res.json({ tree: files[req.path.split("/").pop() as string], truncated });
+          case "POST /repos/dev/dev.127.0.0.1/git/trees":
+            trees.push(req.body);
+            return res.status(201).json({ sha: "restored-tree" });
+          case "POST /repos/dev/dev.127.0.0.1/git/commits":
+            commits.push(req.body);
+            return res.status(201).json({ sha: "restored" });
+          case "PATCH /repos/dev/dev.127.0.0.1/git/refs/heads/main":
+            return res.json({ object: { sha: req.body.sha } });
+          default:
+            return res.status(404).json({ message: "Not Found" });
+        }
+      });
+
+      server = app.listen(0);
+      instanceUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(() => {
+      requests.length = 0;
+      commits.length = 0;
+      trees.length = 0;
+      truncated = false;
+      delete process.env.GITHUB_ENTERPRISE_URL;
+    });
+
+    afterAll(() => {
+      server.close();
+    });
+
+    it("should commit the tree of the recorded commit on top of main", async () => {
+      const sha = await restorePortfolioCommit(
+        "ghe-token",
+        "dev",
+        "dev.127.0.0.1",
+        OLD_SHA,
+        getGitHubHost(instanceUrl),
+      );
+
+      expect(sha).toBe("restored");
+      expect(commits).toEqual([
+        { message: "Restore portfolio from 1111111", tree: "old-tree", parents: ["head"] },
+      ]);
+      expect(requests).toEqual([
+        "GET /repos/dev/dev.127.0.0.1/git/ref/heads/main",
+        `GET /repos/dev/dev.127.0.0.1/git/commits/${OLD_SHA}`,
+        "POST /repos/dev/dev.127.0.0.1/git/commits",
+        "PATCH /repos/dev/dev.127.0.0.1/git/refs/heads/main",
+      ]);
+
+      await expect(
+        restorePortfolioCommit(
+          "ghe-token",
+          "dev",
+          "dev.127.0.0.1",
+          "2".repeat(40),
+          getGitHubHost(instanceUrl),
+        ),
+      ).rejects.toThrow();
+    });
+
+    it("should only restore the files FolioLab owns and delete those added later", async () => {
+      await restorePortfolioCommit(
+        "ghe-token",
+        "dev",
+        "dev.127.0.0.1",
+        OLD_SHA,
+        getGitHubHost(instanceUrl),
+        ["portfolio.html", "portfolio/", "404.html", "CNAME"],
+      );
+
+      // index.html and blog/ belong to the user and keep their current content
+      expect(trees).toEqual([
+        {
+          base_tree: "head",
+          tree: [
+            { path: "portfolio/index.html", mode: "100644", type: "blob", sha: "old-index" },
+            { path: "portfolio.html", mode: "100644", type: "blob", sha: "old-page" },
+            { path: "portfolio/projects/added.html", mode: "100644", type: "blob", sha: null },
+            { path: "CNAME", mode: "100644", type: "blob", sha: null },
+            { path: "404.html", mode: "100644", type: "blob", sha: null },
+          ],
+        },
+      ]);
+      expect(commits).toEqual([
+        { message: "Restore portfolio from 1111111", tree: "restored-tree", parents: ["head"] },
+      ]);
+    });
+
+    it("should not restore part of a truncated tree", async () => {
+      truncated = true;
+
+      await expect(
+        restorePortfolioCommit(
+          "ghe-token",
+          "dev",
+          "dev.127.0.0.1",
+          OLD_SHA,
+          getGitHubHost(instanceUrl),
+          ["portfolio.html", "portfolio/"],
+        ),
+      ).rejects.toThrow("Repository tree is too large to restore");
+      expect(trees).toEqual([]);
+      expect(commits).toEqual([]);
+    });
+
+    it("should roll back the GitHub Pages repository of the deploy host", async () => {
+      process.env.GITHUB_ENTERPRISE_URL = instanceUrl;
+
+      const response = await fetch(`${instanceUrl}/api/deploy/github/rollback`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          accessToken: "ghe-token",
+          target: "github-pages",
+          commitSha: OLD_SHA,
+        }),
+      });
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({
+        success: true,
+        commitSha: "restored",
+        message: "Portfolio restored from 1111111",
+      });
+      expect(commits[0].tree).toBe("restored-tree");
+      expect(trees[0].tree.map((entry) => entry.path)).not.toContain("index.html");
+    });
+
+    it("should not roll back Vercel deploys on GitHub Enterprise Server", async () => {
+      process.env.GITHUB_ENTERPRISE_URL = instanceUrl;
+
+      const response = await fetch(`${instanceUrl}/api/deploy/github/rollback`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ accessToken: "ghe-token", target: "vercel", commitSha: OLD_SHA }),
+      });
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe("Vercel deploys require github.com");
+      expect(commits).toEqual([]);
+    });
+
+    it("should validate the rollback request", async () => {
+      const rollback = (body: Record<string, unknown>) =>
+        fetch(`${instanceUrl}/api/deploy/github/rollback`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ accessToken: "ghe-token", ...body }),
+        });
+
+      const target = await rollback({ target: "netlify", commitSha: OLD_SHA });
+      expect(target.status).toBe(400);
+      expect((await target.json()).error).toBe("Rollback target must be github-pages or vercel");
+
+      const sha = await rollback({ target: "github-pages", commitSha: "HEAD~1" });
+      expect(sha.status).toBe(400);
+      expect((await sha.json()).error).toBe("A full commit SHA is required");
+      expect(requests).toEqual([]);
+    });
+  });
+});
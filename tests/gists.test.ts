@@ -0,0 +1,110 @@
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { convertGist, type GistNode } from "../server/lib/gists.js";
+import { generatePortfolioHtml } from "../server/lib/portfolio-generator.js";
+import { highlightCode } from "../server/lib/syntax-highlight.js";
+import githubRoutes from "../server/routes/github.js";
+import { getGistExcerpt } from "../shared/gists";
+
+const SCRIPT = Array.from({ length: 20 }, (_, i) => `echo "step ${i}"`).join("\n");
+
+function createGistNode(overrides: Partial<GistNode> = {}): GistNode {
+  return {
+    name: "aa5a315d61ae9438b18d",
+    description: "Backup my dotfiles",
+    url: "https://gist.github.com/ada/aa5a315d61ae9438b18d",
+    stargazerCount: 12,
+    createdAt: "2024-02-01T10:00:00Z",
+    updatedAt: "2025-05-20T10:00:00Z",
+    files: [
+      { name: "README.md", size: 9000, language: { name: "Markdown" }, text: "# Backup" },
+      { name: "backup.sh", size: SCRIPT.length, language: { name: "Shell" }, text: SCRIPT },
+      { name: "config.py", size: 40, language: { name: "Python" }, text: "DEBUG = True" },
+      { name: "logo.png", size: 2048, language: null, text: null },
+    ],
+    ...overrides,
+  };
+}
+
+describe("GitHub Gists", () => {
+  it("should convert gists with their files and languages", () => {
+    const gist = convertGist(createGistNode());
+
+    expect(gist).toMatchObject({
+      id: "gist-aa5a315d61ae9438b18d",
+      title: "Backup my dotfiles",
+      source: "gist",
+      stars: 12,
+      languages: ["Markdown", "Shell", "Python"],
+      // The largest code file, not the larger README
+      mainFile: "backup.sh",
+    });
+    // Binary files have no text and are left out
+    expect(gist.files.map((file) => file.filename)).toEqual([
+      "README.md",
+      "backup.sh",
+      "config.py",
+    ]);
+
+    const untitled = convertGist(createGistNode({ description: " " }));
+    expect(untitled.title).toBe("backup.sh");
+    expect(untitled.description).toBeNull();
+  });
+
+  it("should highlight comments, strings, numbers and keywords", () => {
+    expect(highlightCode('const x = "<b>"; // 1 & 2', "TypeScript")).toBe(
+      '<span class="token-keyword">const</span> x = <span class="token-string">"&lt;b&gt;"</span>; <span class="token-comment">// 1 &amp; 2</span>',
+    );
+    expect(highlightCode("def f(n):\n    return n * 2  # double", "Python")).toBe(
+      '<span class="token-keyword">def</span> f(n):\n    <span class="token-keyword">return</span> n * <span class="token-number">2</span>  <span class="token-comment"># double</span>',
+    );
+    // Unknown languages only get strings and numbers
+    expect(highlightCode("if x == 'y' # 3", null)).toBe(
+      'if x == <span class="token-string">\'y\'</span> # <span class="token-number">3</span>',
+    );
+  });
+
+  it("should render a highlighted excerpt of the main file", () => {
+    const gist = convertGist(createGistNode());
+    const excerpt = getGistExcerpt(gist);
+
+    expect(excerpt?.file.filename).toBe("backup.sh");
+    expect(excerpt?.code.split("\n")).toHaveLength(12);
+    expect(excerpt?.truncated).toBe(true);
+
+    const html = generatePortfolioHtml("ada", [{ ...gist, summary: "Backs up dotfiles." }]);
+    expect(html).toContain("Backup my dotfiles");
+    expect(html).toContain("Backs up dotfiles.");
+    expect(html).toContain("★ 12");
+    expect(html).toContain("3 files · May 20, 2025");
+    expect(html).toContain(
+      '<span class="token-keyword">echo</span> <span class="token-string">"step 0"</span>',
+    );
+    expect(html).not.toContain("step 12");
+    expect(html).toContain(".code-excerpt .token-keyword");
+  });
+
+  describe("Route", () => {
+    let server: ReturnType<express.Express["listen"]>;
+    let baseUrl: string;
+
+    beforeAll(() => {
+      const app = express();
+      app.use(githubRoutes);
+      server = app.listen(0);
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(() => {
+      server.close();
+    });
+
+    it("should require a GitHub token", async () => {
+      const response = await fetch(`${baseUrl}/api/github/gists`);
+
+      expect(response.status).toBe(401);
+      expect((await response.json()).code).toBe("MISSING_TOKEN");
+    });
+  });
+});
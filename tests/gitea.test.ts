@@ -0,0 +1,188 @@
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { getGiteaRepositoriesWithTitles } from "../server/lib/gitea.js";
+import { summarizeItem } from "../server/lib/item-summaries.js";
+import type { LLMCompletionRequest, LLMProvider } from "../server/lib/llm/index.js";
+import { setSummaryCacheStore } from "../server/lib/summary-cache.js";
+import sourcesRoutes from "../server/routes/sources.js";
+
+function createRepo(id: number, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    name: `repo-${id}`,
+    full_name: `dev/repo-${id}`,
+    description: "",
+    html_url: `https://git.example.com/dev/repo-${id}`,
+    website: "",
+    stars_count: 0,
+    language: "",
+    topics: [],
+    updated_at: "2026-01-01T00:00:00Z",
+    archived: false,
+    private: false,
+    owner: { id: 1, login: "dev", avatar_url: null },
+    ...overrides,
+  };
+}
+
+describe("Gitea Source", () => {
+  let server: ReturnType<express.Express["listen"]>;
+  let instanceUrl: string;
+  const requests: string[] = [];
+
+  beforeAll(() => {
+    const instance = express();
+    instance.use((req, _res, next) => {
+      requests.push(`${req.method} ${req.url} ${req.headers.authorization || ""}`);
+      next();
+    });
+
+    instance.get("/forgejo/api/v1/user", (_req, res) => {
+      res.json({ id: 1, login: "dev", full_name: "Dev", avatar_url: null });
+    });
+    instance.get("/forgejo/api/v1/user/repos", (req, res) => {
+      // A full first page, then the remaining repositories
+      if (req.query.page === "1") {
+        return res.json(Array.from({ length: 50 }, (_, i) => createRepo(i + 1)));
+      }
+      res.json([
+        createRepo(51, {
+          name: "forge",
+          description: "A small forge",
+          html_url: `${instanceUrl}/infra/forge`,
+          website: "https://forge.example.com",
+          stars_count: 12,
+          language: "Go",
+          topics: undefined, // Older instances don't list topics
+          owner: { id: 2, login: "infra", avatar_url: "https://git.example.com/infra.png" },
+        }),
+        createRepo(52, { private: true }),
+        createRepo(53, { archived: true }),
+      ]);
+    });
+    instance.get("/forgejo/api/v1/repos/infra/forge/topics", (_req, res) => {
+      res.json({ topics: ["git", "self-hosted"] });
+    });
+    instance.get("/forgejo/api/v1/repos/infra/forge/raw/README.md", (_req, res) => {
+      res.type("text/plain").send("# Forge\n\nSelf-hosted forge.");
+    });
+
+    const app = express();
+    app.use(express.json());
+    app.use("/api/sources", sourcesRoutes);
+    app.use(instance);
+
+    server = app.listen(0);
+    instanceUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    process.env.SELF_HOSTED_ALLOWED_HOSTS = "127.0.0.1";
+  });
+
+  afterEach(() => {
+    requests.length = 0;
+    vi.unstubAllGlobals();
+  });
+
+  afterAll(() => {
+    delete process.env.SELF_HOSTED_ALLOWED_HOSTS;
+    server.close();
+  });
+
+  it("should import public repositories with topics and README titles", async () => {
+    const repositories = await getGiteaRepositoriesWithTitles(
+      "gitea-token",
+      `${instanceUrl}/forgejo`,
+    );
+
+    expect(repositories).toHaveLength(51);
+    const forge = repositories.find((repo) => repo.name === "forge");
+    expect(forge).toEqual({
+      id: `127.0.0.1:${new URL(instanceUrl).port}:51`,
+      name: "forge",
+      displayName: "Forge",
+      description: "A small forge",
+      url: `${instanceUrl}/infra/forge`,
+      summary: null,
+      selected: false,
+      source: "gitea",
+      owner: {
+        login: "infra",
+        type: "Organization",
+        avatarUrl: "https://git.example.com/infra.png",
+      },
+      metadata: {
+        id: `127.0.0.1:${new URL(instanceUrl).port}:51`,
+        stars: 12,
+        language: "Go",
+        topics: ["git", "self-hosted"],
+        updatedAt: "2026-01-01T00:00:00Z",
+        url: "https://forge.example.com",
+      },
+    });
+    expect(repositories[0].owner.type).toBe("User");
+    expect(requests.every((request) => request.endsWith("token gitea-token"))).toBe(true);
+    expect(requests.filter((request) => request.includes("/topics"))).toHaveLength(1);
+  });
+
+  it("should require an access token", async () => {
+    const response = await fetch(`${instanceUrl}/api/sources/gitea`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ baseUrl: `${instanceUrl}/forgejo` }),
+    });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe("Access token is required");
+  });
+
+  it("should import through the sources route", async () => {
+    const response = await fetch(`${instanceUrl}/api/sources/gitea`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ accessToken: "gitea-token", baseUrl: `${instanceUrl}/forgejo/` }),
+    });
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).repositories).toHaveLength(51);
+  });
+
+  it("should summarize from the README on the instance without calling GitHub", async () => {
+    setSummaryCacheStore(null);
+    const prompts: LLMCompletionRequest[] = [];
+    const provider: LLMProvider = {
+      id: "openai",
+      model: "test",
+      capabilities: {
+        jsonMode: true,
+        generative: true,
+        requiresApiKey: false,
+        local: true,
+        streaming: false,
+      },
+      complete: async (request) => {
+        prompts.push(request);
+        return '{"summary":"A self-hosted forge."}';
+      },
+    };
+    // Octokit calls GitHub through fetch; the Gitea client does not
+    const github = vi.fn(async () => Response.json({}));
+    vi.stubGlobal("fetch", github);
+
+    const result = await summarizeItem(
+      { id: 51, source: "gitea", name: "forge", owner: { login: "infra" } },
+      provider,
+      "github-token",
+      undefined,
+      undefined,
+      undefined,
+      { accessToken: "gitea-token", baseUrl: `${instanceUrl}/forgejo` },
+    );
+
+    expect(result.summary).toBe("A self-hosted forge.");
+    expect(prompts[0].user).toContain("Self-hosted forge.");
+    expect(requests).toEqual([
+      "GET /forgejo/api/v1/repos/infra/forge/raw/README.md token gitea-token",
+    ]);
+    expect(github).not.toHaveBeenCalled();
+  });
+});
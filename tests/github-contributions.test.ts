@@ -0,0 +1,143 @@
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { groupContributions, type MergedPullRequest } from "../server/lib/github-contributions.js";
+import { exportJsonResume } from "../server/lib/json-resume.js";
+import { generatePortfolioHtml } from "../server/lib/portfolio-generator.js";
+import githubRoutes from "../server/routes/github.js";
+
+function createPullRequest(
+  nameWithOwner: string,
+  title: string,
+  additions: number,
+  mergedAt: string,
+  overrides: Partial<MergedPullRequest["repository"]> = {},
+): MergedPullRequest {
+  const [owner] = nameWithOwner.split("/");
+  return {
+    title,
+    url: `https://github.com/${nameWithOwner}/pull/${additions}`,
+    additions,
+    deletions: 10,
+    mergedAt,
+    repository: {
+      nameWithOwner,
+      url: `https://github.com/${nameWithOwner}`,
+      description: "A popular upstream project",
+      stargazerCount: 100,
+      isPrivate: false,
+      owner: { login: owner },
+      primaryLanguage: { name: "TypeScript" },
+      repositoryTopics: { nodes: [{ topic: { name: "bundler" } }] },
+      ...overrides,
+    },
+  };
+}
+
+const PULL_REQUESTS = [
+  createPullRequest("vitejs/vite", "Fix typo", 1, "2025-03-02T10:00:00Z", {
+    stargazerCount: 70000,
+  }),
+  createPullRequest("vitejs/vite", "Add CSS source maps", 400, "2024-01-15T10:00:00Z", {
+    stargazerCount: 70000,
+  }),
+  createPullRequest("nodejs/node", "Document fs.cp", 20, "2024-06-01T10:00:00Z", {
+    stargazerCount: 110000,
+  }),
+  createPullRequest("Ada/engine", "Own repository", 50, "2024-06-01T10:00:00Z"),
+  createPullRequest("ada-labs/tools", "Organization repository", 50, "2024-06-01T10:00:00Z"),
+  createPullRequest("acme/secret", "Private repository", 50, "2024-06-01T10:00:00Z", {
+    isPrivate: true,
+  }),
+];
+
+describe("GitHub Contributions", () => {
+  it("should group merged pull requests to external repositories", () => {
+    const contributions = groupContributions(PULL_REQUESTS, "ada", ["ada-labs"]);
+
+    expect(contributions.map((contribution) => contribution.title)).toEqual([
+      "vitejs/vite",
+      "nodejs/node",
+    ]);
+    expect(contributions[0]).toMatchObject({
+      id: "contribution-vitejs/vite",
+      source: "contribution",
+      pullRequestCount: 2,
+      additions: 401,
+      deletions: 20,
+      representativePullRequest: {
+        title: "Add CSS source maps",
+        url: "https://github.com/vitejs/vite/pull/400",
+      },
+      stars: 70000,
+      language: "TypeScript",
+      firstMergedAt: "2024-01-15T10:00:00Z",
+      lastMergedAt: "2025-03-02T10:00:00Z",
+      tags: ["bundler"],
+    });
+    expect(contributions[0].url).toBe(
+      "https://github.com/vitejs/vite/pulls?q=is%3Apr%20is%3Amerged%20author%3Aada",
+    );
+  });
+
+  it("should order repositories with equal pull requests by stars", () => {
+    const contributions = groupContributions(
+      [
+        createPullRequest("small/lib", "Fix", 5, "2024-01-01T00:00:00Z", { stargazerCount: 3 }),
+        createPullRequest("big/lib", "Fix", 5, "2024-01-01T00:00:00Z", { stargazerCount: 900 }),
+      ],
+      "ada",
+    );
+
+    expect(contributions.map((contribution) => contribution.title)).toEqual([
+      "big/lib",
+      "small/lib",
+    ]);
+  });
+
+  it("should render and export contributions", () => {
+    const [contribution] = groupContributions(PULL_REQUESTS, "ada");
+
+    const html = generatePortfolioHtml("ada", [contribution]);
+    expect(html).toContain("vitejs/vite");
+    expect(html).toContain("2 merged PRs");
+    expect(html).toContain("★ 70000");
+    expect(html).toContain("+401 / −20 lines · Jan 2024 – Mar 2025");
+    // Without a summary the largest pull request describes the contribution
+    expect(html).toContain("Add CSS source maps");
+    expect(html).not.toContain("A popular upstream project");
+
+    const resume = exportJsonResume({ items: [contribution] });
+    expect(resume.projects).toEqual([
+      expect.objectContaining({
+        name: "vitejs/vite",
+        roles: ["Contributor"],
+        startDate: "2024-01-15",
+        endDate: "2025-03-02",
+      }),
+    ]);
+  });
+
+  describe("Route", () => {
+    let server: ReturnType<express.Express["listen"]>;
+    let baseUrl: string;
+
+    beforeAll(() => {
+      const app = express();
+      app.use(githubRoutes);
+      server = app.listen(0);
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(() => {
+      server.close();
+    });
+
+    it("should require a GitHub token", async () => {
+      const response = await fetch(`${baseUrl}/api/github/contributions`);
+
+      expect(response.status).toBe(401);
+      expect((await response.json()).code).toBe("MISSING_TOKEN");
+    });
+  });
+});
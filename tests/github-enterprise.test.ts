@@ -0,0 +1,256 @@
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { deployToGitHubPages, getRepositories } from "../server/lib/github.js";
+import {
+  GITHUB_DOTCOM,
+  getDeployHost,
+  getGitHubHost,
+  getImportHost,
+  getPagesRepositoryName,
+  getPagesSiteUrl,
+  hasSeparateDeployHost,
+} from "../server/lib/github-host.js";
+import deployRoutes from "../server/routes/deploy.js";
+
+describe("GitHub Enterprise Server", () => {
+  describe("Hosts", () => {
+    it("should default to github.com", () => {
+      expect(getImportHost({})).toEqual(GITHUB_DOTCOM);
+      expect(getDeployHost({})).toEqual(GITHUB_DOTCOM);
+      expect(getGitHubHost("https://github.com/")).toEqual(GITHUB_DOTCOM);
+    });
+
+    it("should resolve the API of an instance from its web or API URL", () => {
+      const expected = {
+        webUrl: "https://github.example.com",
+        apiUrl: "https://github.example.com/api/v3",
+        enterprise: true,
+      };
+
+      expect(getGitHubHost("https://github.example.com/")).toEqual(expected);
+      expect(getGitHubHost("https://github.example.com/api/v3")).toEqual(expected);
+      expect(() => getGitHubHost("github.example.com")).toThrow("Invalid GitHub Enterprise URL");
+    });
+
+    it("should deploy to the import host unless another host is configured", () => {
+      const enterprise = { GITHUB_ENTERPRISE_URL: "https://github.example.com" };
+
+      expect(getDeployHost(enterprise).webUrl).toBe("https://github.example.com");
+      expect(hasSeparateDeployHost(enterprise)).toBe(false);
+
+      const publishOnDotcom = { ...enterprise, GITHUB_DEPLOY_URL: "https://github.com" };
+      expect(getDeployHost(publishOnDotcom)).toEqual(GITHUB_DOTCOM);
+      expect(hasSeparateDeployHost(publishOnDotcom)).toBe(true);
+    });
+
+    it("should name and locate the Pages site of each host", () => {
+      const host = getGitHubHost("https://github.example.com");
+
+      expect(getPagesRepositoryName(GITHUB_DOTCOM, "dev")).toBe("dev.github.io");
+      expect(getPagesSiteUrl(GITHUB_DOTCOM, "dev")).toBe("https://dev.github.io");
+      expect(getPagesRepositoryName(host, "dev")).toBe("dev.github.example.com");
+      expect(getPagesSiteUrl(host, "dev", {})).toBe("https://pages.github.example.com/dev");
+      expect(
+        getPagesSiteUrl(host, "dev", {
+          GITHUB_PAGES_URL: "https://{owner}.pages.github.example.com/",
+        }),
+      ).toBe("https://dev.pages.github.example.com");
+    });
+  });
+
+  describe("Instance", () => {
+    let server: ReturnType<express.Express["listen"]>;
+    let instanceUrl: string;
+    const requests: string[] = [];
+    let pagesRepositoryExists = false;
+    // Files of the Pages repository and the trees committed to it
+    let contents: Record<string, string> = {};
+    const trees: { path: string; content: string }[][] = [];
+
+    beforeAll(() => {
+      const app = express();
+      app.use(express.json());
+      app.use(deployRoutes);
+
+      // GitHub Enterprise Server REST API
+      app.use("/api/v3", (req, res) => {
+        const route = `${req.method} ${decodeURIComponent(req.path)}`;
+        requests.push(`${route} ${req.headers.authorization || ""}`);
+
+        const contentsPrefix = "GET /repos/dev/dev.127.0.0.1/contents/";
+        if (route.startsWith(contentsPrefix)) {
+          const content = contents[route.slice(contentsPrefix.length)];
+          return content === undefined
+            ? res.status(404).json({ message: "Not Found" })
+            : res.json({ type: "file", content: Buffer.from(content).toString("base64") });
+        }
+
+        switch (route) {
+          case "GET /user":
+            return res.json({ id: 1, login: "dev", avatar_url: null });
+          case "GET /user/repos":
+            return res.json([
+              {
+                id: 42,
+                name: "tool",
+                description: "Internal tool",
+                html_url: `${instanceUrl}/dev/tool`,
+                archived: false,
+                stargazers_count: 3,
+                language: "Go",
+                topics: [],
+                updated_at: "2026-01-01T00:00:00Z",
+                homepage: null,
+              },
+            ]);
+          case "GET /user/orgs":
+            return res.json([]);
+          case "GET /repos/dev/tool/readme":
+            return res.type("text/plain").send("# Internal Tool\n");
+          case "GET /repos/dev/dev.127.0.0.1":
+            return pagesRepositoryExists
+              ? res.json({ name: "dev.127.0.0.1" })
+              : res.status(404).json({ message: "Not Found" });
+          case "POST /user/repos":
+            pagesRepositoryExists = true;
+            return res.status(201).json({ name: req.body.name });
+          case "GET /repos/dev/dev.127.0.0.1/git/ref/heads/main":
+            return res.json({ object: { sha: "base" } });
+          case "POST /repos/dev/dev.127.0.0.1/git/trees":
+            trees.push(req.body.tree);
+            return res.status(201).json({ sha: "tree" });
+          case "POST /repos/dev/dev.127.0.0.1/git/commits":
+            return res.status(201).json({ sha: "commit" });
+          case "PATCH /repos/dev/dev.127.0.0.1/git/refs/heads/main":
+            return res.json({ object: { sha: "commit" } });
+          default:
+            return res.status(404).json({ message: "Not Found" });
+        }
+      });
+
+      server = app.listen(0);
+      instanceUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(() => {
+      requests.length = 0;
+      trees.length = 0;
+      contents = {};
+      delete process.env.GITHUB_ENTERPRISE_URL;
+      delete process.env.GITHUB_DEPLOY_URL;
+    });
+
+    afterAll(() => {
+      server.close();
+    });
+
+    it("should import repositories and README titles from the instance", async () => {
+      const repositories = await getRepositories("ghe-token", getGitHubHost(instanceUrl));
+
+      expect(repositories).toHaveLength(1);
+      expect(repositories[0]).toMatchObject({
+        name: "tool",
+        displayName: "Internal Tool",
+        url: `${instanceUrl}/dev/tool`,
+        owner: { login: "dev", type: "User" },
+      });
+      expect(requests.every((request) => request.endsWith("token ghe-token"))).toBe(true);
+    });
+
+    it("should create the Pages repository of the instance and commit to it", async () => {
+      const deployment = await deployToGitHubPages(
+        "ghe-token",
+        "dev",
+        [{ path: "portfolio.html", content: "<html></html>" }],
+        "portfolio.html",
+        getGitHubHost(instanceUrl),
+      );
+
+      expect(deployment).toEqual({
+        url: "http://pages.127.0.0.1/dev/portfolio.html",
+        repoUrl: `${instanceUrl}/dev/dev.127.0.0.1`,
+        wasCreated: true,
+        customDomain: null,
+        commitSha: "commit",
+      });
+      expect(requests.map((request) => request.split(" ").slice(0, 2).join(" "))).toEqual([
+        "GET /repos/dev/dev.127.0.0.1",
+        "POST /user/repos",
+        "GET /repos/dev/dev.127.0.0.1/git/ref/heads/main",
+        "POST /repos/dev/dev.127.0.0.1/git/trees",
+        "POST /repos/dev/dev.127.0.0.1/git/commits",
+        "PATCH /repos/dev/dev.127.0.0.1/git/refs/heads/main",
+      ]);
+    });
+
+    it("should keep a 404 page of the user's own at the repository root", async () => {
+      pagesRepositoryExists = true;
+      const deploy = () =>
+        deployToGitHubPages(
+          "ghe-token",
+          "dev",
+          [{ path: "portfolio/404.html", content: "New" }],
+          "portfolio/",
+          getGitHubHost(instanceUrl),
+          undefined,
+          "portfolio/404.html",
+        );
+      const rootPaths = () =>
+        trees
+          .at(-1)
+          ?.filter((entry) => entry.path === "404.html")
+          .map((entry) => entry.content);
+
+      await deploy();
+      expect(rootPaths()).toEqual(["New"]);
+
+      contents = { "404.html": "Old", "portfolio/404.html": "Old" };
+      await deploy();
+      expect(rootPaths()).toEqual(["New"]);
+
+      contents = { "404.html": "The user's own page", "portfolio/404.html": "Old" };
+      await deploy();
+      expect(rootPaths()).toEqual([]);
+      expect(trees.at(-1)?.map((entry) => entry.path)).toEqual(["portfolio/404.html"]);
+    });
+
+    it("should only deploy to Vercel from github.com", async () => {
+      process.env.GITHUB_ENTERPRISE_URL = instanceUrl;
+
+      const response = await fetch(`${instanceUrl}/api/deploy/vercel`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: "Bearer ghe-token" },
+        body: JSON.stringify({
+          accessToken: "vercel-token",
+          username: "dev",
+          items: [{ id: 1, name: "tool" }],
+          introduction: { introduction: "Hi", skills: [], interests: [] },
+        }),
+      });
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe("Vercel deploys require github.com");
+      expect(requests.every((request) => request.startsWith("GET /user "))).toBe(true);
+    });
+
+    it("should require a deploy token when deploying to a different host", async () => {
+      process.env.GITHUB_ENTERPRISE_URL = instanceUrl;
+      process.env.GITHUB_DEPLOY_URL = "https://github.com";
+
+      const response = await fetch(`${instanceUrl}/api/deploy/github-pages`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          accessToken: "ghe-token",
+          items: [{ id: 1, name: "tool" }],
+          introduction: { introduction: "Hi", skills: [], interests: [] },
+        }),
+      });
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe("Deployment access token is required");
+      expect(requests).toEqual(["GET /user token ghe-token"]);
+    });
+  });
+});
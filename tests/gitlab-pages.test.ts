@@ -0,0 +1,279 @@
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import {
+  deployToGitLabPages,
+  getGitLabPagesDomain,
+  getGitLabPipelineStatus,
+  PAGES_CI_CONFIG,
+  PAGES_JOB_MISSING,
+} from "../server/lib/gitlab-pages.js";
+import deployRoutes from "../server/routes/deploy.js";
+
+const SHA = "a".repeat(40);
+
+describe("GitLab Pages Deployment", () => {
+  let server: ReturnType<express.Express["listen"]>;
+  let instanceUrl: string;
+  // State of the stand-in instance, reset after each test
+  let project: { id: number; web_url: string; default_branch: string | null } | null = null;
+  let tree: string[] = [];
+  let contents: Record<string, string> = {};
+  let pipelines: { id: number; status: string; web_url: string }[] = [];
+  const commits: { branch: string; commit_message: string; actions: unknown[] }[] = [];
+
+  beforeAll(() => {
+    const gitlab = express.Router();
+    gitlab.use(express.json());
+    gitlab.use((req, res, next) => {
+      if (req.headers.authorization !== "Bearer gl-token") {
+        return res.status(401).json({ message: "401 Unauthorized" });
+      }
+      next();
+    });
+
+    gitlab.get("/user", (_req, res) => {
+      res.json({ id: 7, username: "Ada", name: "Ada", avatar_url: null, web_url: "" });
+    });
+    gitlab.get("/projects/:path", (req, res) => {
+      if (req.params.path !== "Ada/Ada.pages.example.com" || !project) {
+        return res.status(404).json({ message: "404 Project Not Found" });
+      }
+      res.json(project);
+    });
+    gitlab.post("/projects", (req, res) => {
+      project = { id: 42, web_url: `${instanceUrl}/Ada/${req.body.path}`, default_branch: null };
+      res.status(201).json(project);
+    });
+    gitlab.get("/projects/42/repository/tree", (req, res) => {
+      if (tree.length === 0) return res.status(404).json({ message: "404 Tree Not Found" });
+      // Two entries per page
+      const page = Number(req.query.page);
+      if (page * 2 < tree.length) res.setHeader("x-next-page", String(page + 1));
+      res.json(
+        tree.slice((page - 1) * 2, page * 2).map((path) => ({ path, type: "blob", name: path })),
+      );
+    });
+    gitlab.get("/projects/42/repository/files/:path/raw", (req, res) => {
+      const content = contents[req.params.path];
+      if (content === undefined) return res.status(404).json({ message: "404 File Not Found" });
+      res.type("text/plain").send(content);
+    });
+    gitlab.post("/projects/42/repository/commits", (req, res) => {
+      commits.push(req.body);
+      res.status(201).json({ id: SHA });
+    });
+    gitlab.get("/projects/42/pipelines", (req, res) => {
+      res.json(req.query.sha === SHA ? pipelines : []);
+    });
+
+    const app = express();
+    app.use(express.json());
+    app.use(deployRoutes);
+    app.use("/gitlab/api/v4", gitlab);
+
+    server = app.listen(0);
+    instanceUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    process.env.SELF_HOSTED_ALLOWED_HOSTS = "127.0.0.1";
+  });
+
+  afterEach(() => {
+    project = null;
+    tree = [];
+    contents = {};
+    pipelines = [];
+    commits.length = 0;
+  });
+
+  afterAll(() => {
+    delete process.env.SELF_HOSTED_ALLOWED_HOSTS;
+    server.close();
+  });
+
+  it("should resolve the Pages domain", () => {
+    expect(getGitLabPagesDomain()).toBe("gitlab.io");
+    expect(getGitLabPagesDomain("https://gitlab.example.com", " Pages.Example.com ")).toBe(
+      "pages.example.com",
+    );
+    expect(() => getGitLabPagesDomain("https://gitlab.example.com")).toThrow(
+      "Pages domain is required for self-hosted GitLab",
+    );
+    expect(() => getGitLabPagesDomain(undefined, "pages/example")).toThrow(
+      "Pages domain must be a domain name",
+    );
+  });
+
+  it("should create the project and commit the site with a pages job", async () => {
+    const deployment = await deployToGitLabPages(
+      "gl-token",
+      [{ path: "portfolio.html", content: "<h1>Ada</h1>" }],
+      { baseUrl: `${instanceUrl}/gitlab`, pagesDomain: "pages.example.com" },
+    );
+
+    expect(deployment).toEqual({
+      projectId: 42,
+      projectUrl: `${instanceUrl}/Ada/Ada.pages.example.com`,
+      url: "https://ada.pages.example.com/portfolio.html",
+      commitSha: SHA,
+      wasCreated: true,
+      ciWarning: null,
+    });
+    expect(commits).toEqual([
+      {
+        branch: "main",
+        commit_message: "Initial portfolio commit",
+        actions: [
+          { action: "create", file_path: "public/portfolio.html", content: "<h1>Ada</h1>" },
+          { action: "create", file_path: ".gitlab-ci.yml", content: PAGES_CI_CONFIG },
+        ],
+      },
+    ]);
+    expect(PAGES_CI_CONFIG).toContain("pages:\n");
+    expect(PAGES_CI_CONFIG).toContain("      - public\n");
+  });
+
+  it("should update the site, delete stale pages and keep the user's CI config", async () => {
+    project = { id: 42, web_url: "", default_branch: "master" };
+    tree = [
+      ".gitlab-ci.yml",
+      "public/index.html",
+      "public/portfolio/index.html",
+      "public/portfolio/projects/removed.html",
+    ];
+    contents = { ".gitlab-ci.yml": "pages:\n  script: make\n" };
+
+    const deployment = await deployToGitLabPages(
+      "gl-token",
+      [
+        { path: "portfolio/index.html", content: "<h1>Ada</h1>" },
+        { path: "portfolio/404.html", content: "Not found" },
+      ],
+      {
+        baseUrl: `${instanceUrl}/gitlab`,
+        pagesDomain: "pages.example.com",
+        entryPath: "portfolio/",
+        siteDir: "portfolio/",
+        notFoundPath: "portfolio/404.html",
+      },
+    );
+
+    expect(deployment.wasCreated).toBe(false);
+    expect(deployment.ciWarning).toBeNull();
+    expect(deployment.url).toBe("https://ada.pages.example.com/portfolio/");
+    expect(commits[0].branch).toBe("master");
+    expect(commits[0].actions).toEqual([
+      { action: "update", file_path: "public/portfolio/index.html", content: "<h1>Ada</h1>" },
+      { action: "create", file_path: "public/portfolio/404.html", content: "Not found" },
+      { action: "create", file_path: "public/404.html", content: "Not found" },
+      { action: "delete", file_path: "public/portfolio/projects/removed.html" },
+    ]);
+  });
+
+  it("should warn when the user's CI config has no pages job", async () => {
+    const deploy = () =>
+      deployToGitLabPages("gl-token", [{ path: "portfolio.html", content: "<h1>Ada</h1>" }], {
+        baseUrl: `${instanceUrl}/gitlab`,
+        pagesDomain: "pages.example.com",
+      });
+
+    project = { id: 42, web_url: "", default_branch: "main" };
+    tree = [".gitlab-ci.yml"];
+    contents = { ".gitlab-ci.yml": "test:\n  script: npm test\n" };
+    expect((await deploy()).ciWarning).toBe(PAGES_JOB_MISSING);
+    expect(commits[0].actions).toEqual([
+      { action: "create", file_path: "public/portfolio.html", content: "<h1>Ada</h1>" },
+    ]);
+
+    contents = { ".gitlab-ci.yml": "build:\n  pages: true\n  script: make\n" };
+    expect((await deploy()).ciWarning).toBeNull();
+
+    contents = { ".gitlab-ci.yml": "include:\n  - local: ci/pages.yml\n" };
+    expect((await deploy()).ciWarning).toBeNull();
+  });
+
+  it("should only replace a root 404 page written by an earlier deploy", async () => {
+    const deploy = () =>
+      deployToGitLabPages("gl-token", [{ path: "portfolio/404.html", content: "New" }], {
+        baseUrl: `${instanceUrl}/gitlab`,
+        pagesDomain: "pages.example.com",
+        siteDir: "portfolio/",
+        notFoundPath: "portfolio/404.html",
+      });
+    const rootActions = () =>
+      (commits[commits.length - 1].actions as { file_path: string }[]).filter(
+        (action) => action.file_path === "public/404.html",
+      );
+
+    project = { id: 42, web_url: "", default_branch: "main" };
+    tree = [".gitlab-ci.yml", "public/404.html", "public/portfolio/404.html"];
+    contents = {
+      ".gitlab-ci.yml": PAGES_CI_CONFIG,
+      "public/404.html": "Old",
+      "public/portfolio/404.html": "Old",
+    };
+    await deploy();
+    expect(rootActions()).toEqual([
+      { action: "update", file_path: "public/404.html", content: "New" },
+    ]);
+
+    contents["public/404.html"] = "The user's own page";
+    await deploy();
+    expect(rootActions()).toEqual([]);
+  });
+
+  it("should report the pipeline of the deploy commit", async () => {
+    const baseUrl = `${instanceUrl}/gitlab`;
+
+    expect(await getGitLabPipelineStatus("gl-token", 42, SHA, baseUrl)).toEqual({
+      ready: false,
+      state: "waiting for pipeline",
+      url: null,
+      error: null,
+    });
+
+    pipelines = [{ id: 9, status: "running", web_url: `${instanceUrl}/pipelines/9` }];
+    expect(await getGitLabPipelineStatus("gl-token", 42, SHA, baseUrl)).toMatchObject({
+      ready: false,
+      state: "running",
+    });
+
+    pipelines = [{ id: 9, status: "failed", web_url: `${instanceUrl}/pipelines/9` }];
+    expect(await getGitLabPipelineStatus("gl-token", 42, SHA, baseUrl)).toMatchObject({
+      ready: false,
+      error: "Pipeline failed",
+    });
+
+    pipelines = [{ id: 9, status: "success", web_url: `${instanceUrl}/pipelines/9` }];
+    expect(await getGitLabPipelineStatus("gl-token", 42, SHA, baseUrl)).toMatchObject({
+      ready: true,
+      url: `${instanceUrl}/pipelines/9`,
+    });
+
+    await expect(getGitLabPipelineStatus("other", 42, SHA, baseUrl)).rejects.toThrow(
+      "Failed to fetch GitLab pipeline: 401 Unauthorized",
+    );
+  });
+
+  it("should require a Pages domain for self-hosted instances", async () => {
+    const response = await fetch(`${instanceUrl}/api/deploy/gitlab-pages`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        gitlabToken: "gl-token",
+        baseUrl: `${instanceUrl}/gitlab`,
+        items: [{}],
+      }),
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: "Invalid GitLab Pages target",
+      details: "Pages domain is required for self-hosted GitLab",
+    });
+
+    const status = await fetch(
+      `${instanceUrl}/api/deploy/gitlab-pages/status/42?accessToken=gl-token&sha=HEAD`,
+    );
+    expect(status.status).toBe(400);
+  });
+});
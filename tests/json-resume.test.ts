@@ -0,0 +1,290 @@
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { exportJsonResume, importJsonResume } from "../server/lib/json-resume.js";
+import { createTemplateProvider } from "../server/lib/llm/template-provider.js";
+import { generateUserIntroduction } from "../server/lib/openai.js";
+import sourcesRoutes from "../server/routes/sources.js";
+import userRoutes from "../server/routes/user.js";
+import type { PortfolioItem } from "../shared/schema";
+
+const RESUME = {
+  basics: { name: "Ada Lovelace", label: "Staff Engineer", location: { city: "London" } },
+  work: [
+    {
+      name: "Engines Ltd",
+      position: "Staff Engineer",
+      location: "London",
+      url: "https://engines.example.com",
+      startDate: "2021-03-01",
+      summary: "Leads the compiler team.",
+      highlights: ["Cut build times in half"],
+    },
+  ],
+  projects: [
+    {
+      name: "Difference Engine",
+      description: "A mechanical calculator",
+      startDate: "2019",
+      endDate: "2020-06",
+      keywords: ["hardware"],
+    },
+  ],
+  publications: [
+    {
+      name: "Notes on the Analytical Engine",
+      publisher: "Scientific Memoirs",
+      releaseDate: "1843-09",
+      url: "https://example.com/notes",
+    },
+  ],
+  awards: [{ title: "Engineer of the Year", date: "2024", awarder: "Engineering Society" }],
+  skills: [{ name: "Compilers", level: "Expert", keywords: ["LLVM", "Rust"] }],
+  interests: [{ name: "Mathematics" }, { name: "Poetry" }],
+  unknownSection: [{ anything: true }],
+};
+
+describe("JSON Resume", () => {
+  it("should import work, projects, publications, awards and skills", () => {
+    const { items, hints } = importJsonResume(RESUME);
+
+    expect(hints).toEqual({
+      headline: "Staff Engineer",
+      skills: ["Compilers", "LLVM", "Rust"],
+      interests: ["Mathematics", "Poetry"],
+    });
+    expect(
+      items.map((item) => [item.contentType, item.title, item.description, item.tags]),
+    ).toEqual([
+      ["experience", "Staff Engineer at Engines Ltd", "Mar 2021 – Present · London", ["work"]],
+      ["project", "Difference Engine", "2019 – Jun 2020", ["hardware"]],
+      [
+        "achievement",
+        "Notes on the Analytical Engine",
+        "Scientific Memoirs · Sep 1843",
+        ["publication"],
+      ],
+      ["achievement", "Engineer of the Year", "Engineering Society · 2024", ["award"]],
+      ["skill", "Compilers", "Expert", ["LLVM", "Rust"]],
+    ]);
+    expect(items[0].content).toBe("Leads the compiler team.\n\n- Cut build times in half");
+    expect(items[0].url).toBe("https://engines.example.com");
+
+    // Importing the same resume again yields the same IDs
+    expect(importJsonResume(RESUME).items.map((item) => item.id)).toEqual(
+      items.map((item) => item.id),
+    );
+  });
+
+  it("should report invalid fields", () => {
+    expect(() => importJsonResume({ work: [{ position: 42 }] })).toThrow(
+      "work.0.position: Expected string, received number",
+    );
+  });
+
+  it("should export imported items back to the same resume fields", () => {
+    const { items } = importJsonResume(RESUME);
+    const repository = {
+      id: 1,
+      name: "engine",
+      displayName: "Engine",
+      description: "An engine",
+      url: "https://github.com/ada/engine",
+      summary: "A fast engine",
+      selected: true,
+      source: "github",
+      owner: { login: "ada", type: "User", avatarUrl: null },
+      metadata: {
+        id: 1,
+        stars: 3,
+        language: "Rust",
+        topics: ["engines"],
+        createdAt: "2026-01-01T00:00:00Z",
+        updatedAt: "2026-01-01T00:00:00Z",
+        url: null,
+      },
+    } as PortfolioItem;
+
+    const resume = exportJsonResume({
+      items: [...items, repository],
+      introduction: {
+        introduction: "I build engines.",
+        skills: ["Rust", "Compilers"],
+        interests: ["Mathematics"],
+      },
+      name: "ada",
+      avatarUrl: "https://avatars.example.com/ada.png",
+    });
+
+    expect(resume).toMatchObject({
+      basics: {
+        name: "ada",
+        image: "https://avatars.example.com/ada.png",
+        summary: "I build engines.",
+      },
+      work: [
+        {
+          name: "Engines Ltd",
+          position: "Staff Engineer",
+          location: "London",
+          url: "https://engines.example.com",
+          startDate: "2021-03",
+        },
+      ],
+      projects: [
+        {
+          name: "Difference Engine",
+          startDate: "2019",
+          endDate: "2020-06",
+          keywords: ["hardware"],
+        },
+        {
+          name: "Engine",
+          description: "A fast engine",
+          url: "https://github.com/ada/engine",
+          keywords: ["Rust", "engines"],
+        },
+      ],
+      publications: [
+        {
+          name: "Notes on the Analytical Engine",
+          publisher: "Scientific Memoirs",
+          releaseDate: "1843-09",
+          url: "https://example.com/notes",
+        },
+      ],
+      awards: [{ title: "Engineer of the Year", awarder: "Engineering Society", date: "2024" }],
+      skills: [
+        { name: "Compilers", level: "Expert", keywords: ["LLVM", "Rust"] },
+        { name: "Rust" },
+      ],
+      interests: [{ name: "Mathematics" }],
+    });
+    expect(resume.work).toEqual([expect.not.objectContaining({ endDate: expect.anything() })]);
+  });
+
+  it("should export talks and LinkedIn posts as publications", () => {
+    const talk = {
+      id: "talk-abc",
+      title: "Engines at Scale",
+      description: "How we scaled engines",
+      url: null,
+      summary: null,
+      selected: true,
+      source: "talk",
+      event: "EngineConf 2025",
+      date: "2025-05-14T00:00:00Z",
+      videoUrl: "https://www.youtube.com/watch?v=abc",
+      slidesUrl: null,
+      thumbnailUrl: null,
+      tags: [],
+    } as PortfolioItem;
+    const post = {
+      id: "linkedin-1",
+      title: null,
+      content: "We shipped the new engine!\nThanks to the team.",
+      url: "https://www.linkedin.com/feed/update/urn:li:activity:1",
+      summary: null,
+      selected: true,
+      source: "linkedin",
+      publishedAt: "2025-06-01T09:00:00Z",
+      author: "Ada",
+    } as PortfolioItem;
+
+    const resume = exportJsonResume({ items: [talk, post], name: "ada", avatarUrl: null });
+
+    expect(resume.publications).toEqual([
+      {
+        name: "Engines at Scale",
+        publisher: "EngineConf 2025",
+        releaseDate: "2025-05-14",
+        url: "https://www.youtube.com/watch?v=abc",
+        summary: "How we scaled engines",
+      },
+      {
+        name: "We shipped the new engine!",
+        publisher: "LinkedIn",
+        releaseDate: "2025-06-01",
+        url: "https://www.linkedin.com/feed/update/urn:li:activity:1",
+        summary: "We shipped the new engine!\nThanks to the team.",
+      },
+    ]);
+  });
+
+  it("should seed the template introduction with imported interests", async () => {
+    const introduction = await generateUserIntroduction(
+      [{ name: "engine", source: "github", summary: "An engine", metadata: { topics: ["cli"] } }],
+      createTemplateProvider(),
+      undefined,
+      { skills: ["Compilers"], interests: ["Mathematics"] },
+    );
+
+    expect(introduction.skills[0]).toBe("Compilers");
+    expect(introduction.interests).toEqual(["Mathematics", "cli"]);
+  });
+
+  describe("Routes", () => {
+    let server: ReturnType<express.Express["listen"]>;
+    let baseUrl: string;
+
+    beforeAll(() => {
+      const app = express();
+      app.use(express.json());
+      app.use("/api/sources", sourcesRoutes);
+      app.use(userRoutes);
+      server = app.listen(0);
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(() => {
+      server.close();
+    });
+
+    it("should import a resume and reject invalid ones", async () => {
+      const imported = await fetch(`${baseUrl}/api/sources/json-resume`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ resume: RESUME }),
+      });
+      expect(imported.status).toBe(200);
+      expect((await imported.json()).items).toHaveLength(5);
+
+      const missing = await fetch(`${baseUrl}/api/sources/json-resume`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ resume: [] }),
+      });
+      expect(missing.status).toBe(400);
+      expect((await missing.json()).error).toBe("JSON Resume document is required");
+
+      const invalid = await fetch(`${baseUrl}/api/sources/json-resume`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ resume: { skills: "TypeScript" } }),
+      });
+      expect(invalid.status).toBe(400);
+      expect((await invalid.json()).error).toBe("Invalid JSON Resume");
+    });
+
+    it("should export the portfolio as a resume.json download", async () => {
+      const response = await fetch(`${baseUrl}/api/user/json-resume`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          items: importJsonResume(RESUME).items,
+          introduction: { introduction: "Hi", skills: [], interests: [] },
+          userInfo: { username: "ada", avatarUrl: null },
+        }),
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("content-disposition")).toBe(
+        'attachment; filename="resume.json"',
+      );
+      const resume = await response.json();
+      expect(resume.$schema).toContain("jsonresume/resume-schema");
+      expect(resume.basics).toEqual({ name: "ada", summary: "Hi" });
+      expect(resume.skills).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import type { AddressInfo } from "node:net";
+import express from "express";
+import JSZip from "jszip";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { parseCsv, parseLinkedInExport } from "../server/lib/linkedin.js";
+import { createTemplateProvider } from "../server/lib/llm/template-provider.js";
+import { generateUserIntroduction } from "../server/lib/openai.js";
+import sourcesRoutes from "../server/routes/sources.js";
+import type { FreeformContent } from "../shared/schema";
+
+async function createExport(files: Record<string, string>): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const [name, content] of Object.entries(files)) {
+    zip.file(name, content);
+  }
+  return zip.generateAsync({ type: "nodebuffer" });
+}
+
+const EXPORT_FILES = {
+  "Basic_LinkedInDataExport_01-01-2026/Profile.csv":
+    "First Name,Last Name,Headline\nAda,Lovelace,\n",
+  "Basic_LinkedInDataExport_01-01-2026/Shares.csv":
+    '\uFEFFDate,ShareLink,ShareCommentary,SharedUrl\n2026-03-05 14:22:10,https://www.linkedin.com/feed/update/1,"Shipped the analytical engine docs.\nThanks, ""team""!",\n2026-02-01 09:00:00,https://www.linkedin.com/feed/update/2,,https://example.com\n',
+  "Basic_LinkedInDataExport_01-01-2026/Positions.csv":
+    "Company Name,Title,Description,Location,Started On,Finished On\nEngines Ltd,Staff Engineer,Built engines.,London,Mar 2021,\nLooms Inc,Engineer,,,Jan 2018,Feb 2021\n",
+  "Basic_LinkedInDataExport_01-01-2026/Education.csv":
+    "School Name,Start Date,End Date,Notes,Degree Name,Activities\nUniversity of London,2014,2018,,BSc Mathematics,Chess club\n",
+  "Basic_LinkedInDataExport_01-01-2026/Skills.csv": "Name\nTypeScript\nPostgreSQL\nTypeScript\n",
+  "Basic_LinkedInDataExport_01-01-2026/Certifications.csv":
+    "Name,Url,Authority,Started On,Finished On,License Number\nCloud Architect,https://example.com/cert,Cloud Corp,Jan 2024,,\n",
+};
+
+describe("LinkedIn Export Import", () => {
+  it("should parse quoted fields with line breaks and escaped quotes", () => {
+    expect(parseCsv('\uFEFFa,b\n"1\n2","say ""hi"""\r\n\n')).toEqual([
+      ["a", "b"],
+      ["1\n2", 'say "hi"'],
+    ]);
+  });
+
+  it("should convert shares, positions, education and certifications", async () => {
+    const result = await parseLinkedInExport(await createExport(EXPORT_FILES));
+
+    expect(result.files).toEqual([
+      "Shares.csv",
+      "Positions.csv",
+      "Education.csv",
+      "Skills.csv",
+      "Certifications.csv",
+    ]);
+    expect(result.hints).toEqual({
+      headline: "Staff Engineer at Engines Ltd",
+      skills: ["TypeScript", "PostgreSQL"],
+    });
+
+    // The share without commentary is skipped
+    expect(result.items).toHaveLength(5);
+    expect(result.items[0]).toMatchObject({
+      source: "linkedin",
+      content: 'Shipped the analytical engine docs.\nThanks, "team"!',
+      url: "https://www.linkedin.com/feed/update/1",
+      publishedAt: "2026-03-05T14:22:10.000Z",
+      author: "Ada Lovelace",
+    });
+    const experience = result.items.slice(1) as FreeformContent[];
+    expect(experience.map((item) => [item.title, item.description])).toEqual([
+      ["Staff Engineer at Engines Ltd", "Mar 2021 – Present · London"],
+      ["Engineer at Looms Inc", "Jan 2018 – Feb 2021"],
+      ["BSc Mathematics, University of London", "2014 – 2018"],
+      ["Cloud Architect", "Cloud Corp · Jan 2024"],
+    ]);
+    expect(experience[3]).toMatchObject({
+      source: "freeform",
+      contentType: "achievement",
+      url: "https://example.com/cert",
+      tags: ["certification"],
+    });
+
+    // Importing the same export again yields the same IDs
+    const again = await parseLinkedInExport(await createExport(EXPORT_FILES));
+    expect(again.items.map((item) => item.id)).toEqual(result.items.map((item) => item.id));
+  });
+
+  it("should reject archives without export files", async () => {
+    await expect(parseLinkedInExport(await createExport({ "notes.txt": "hello" }))).rejects.toThrow(
+      "No Shares, Positions, Education, Skills or Certifications file found",
+    );
+    await expect(parseLinkedInExport(Buffer.from("not a zip"))).rejects.toThrow(
+      "LinkedIn export is not a valid ZIP file",
+    );
+  });
+
+  it("should lead the template introduction with the imported headline and skills", async () => {
+    const introduction = await generateUserIntroduction(
+      [
+        {
+          name: "engine",
+          source: "github",
+          summary: "An engine",
+          metadata: { language: "Rust", topics: [] },
+        },
+      ],
+      createTemplateProvider(),
+      undefined,
+      { headline: "Staff Engineer at Engines Ltd", skills: ["TypeScript"] },
+    );
+
+    expect(introduction.introduction).toContain("I work as Staff Engineer at Engines Ltd.");
+    expect(introduction.skills.slice(0, 2)).toEqual(["TypeScript", "Rust"]);
+  });
+
+  describe("Route", () => {
+    let server: ReturnType<express.Express["listen"]>;
+    let baseUrl: string;
+
+    beforeAll(() => {
+      const app = express();
+      app.use(express.json());
+      app.use("/api/sources", sourcesRoutes);
+      server = app.listen(0);
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(() => {
+      server.close();
+    });
+
+    it("should import an uploaded export", async () => {
+      const response = await fetch(`${baseUrl}/api/sources/linkedin`, {
+        method: "POST",
+        headers: { "Content-Type": "application/zip" },
+        body: await createExport(EXPORT_FILES),
+      });
+
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      expect(data.items).toHaveLength(5);
+      expect(data.hints.skills).toEqual(["TypeScript", "PostgreSQL"]);
+    });
+
+    it("should reject empty and invalid uploads", async () => {
+      const empty = await fetch(`${baseUrl}/api/sources/linkedin`, {
+        method: "POST",
+        headers: { "Content-Type": "application/zip" },
+      });
+      expect(empty.status).toBe(400);
+      expect((await empty.json()).error).toBe("LinkedIn export ZIP is required");
+
+      const invalid = await fetch(`${baseUrl}/api/sources/linkedin`, {
+        method: "POST",
+        headers: { "Content-Type": "application/zip" },
+        body: "not a zip",
+      });
+      expect(invalid.status).toBe(400);
+      expect(await invalid.json()).toEqual({
+        error: "Invalid LinkedIn export",
+        details: "LinkedIn export is not a valid ZIP file",
+      });
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createLLMProvider,
+  getLLMConfig,
+  getLLMConfigurationError,
+  type LLMCompletionRequest,
+} from "../server/lib/llm/index.js";
+import { createTemplateProvider } from "../server/lib/llm/template-provider.js";
+import { generateContentSummary, generateRepoSummary } from "../server/lib/openai.js";
+import { setSummaryCacheStore } from "../server/lib/summary-cache.js";
+
+const baseRequest: LLMCompletionRequest = {
+  task: "repo_summary",
+  system: "Summarize the project.",
+  user: "Repository Name: cli-tool",
+  maxTokens: 100,
+  temperature: 0.7,
+  json: true,
+};
+
+function jsonResponse(body: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(body), {
+    headers: { "Content-Type": "application/json" },
+    ...init,
+  });
+}
+
+describe("LLM Providers", () => {
+  beforeEach(() => {
+    // Each test calls the provider instead of reusing cached summaries
+    setSummaryCacheStore(null);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe("Configuration", () => {
+    it("should default to OpenAI with the existing environment variables", () => {
+      const config = getLLMConfig({ OPENAI_API_KEY: "sk-test", OPENAI_API_MODEL: "gpt-4o-mini" });
+
+      expect(config.provider).toBe("openai");
+      expect(config.model).toBe("gpt-4o-mini");
+      expect(getLLMConfigurationError(config)).toBeNull();
+    });
+
+    it("should select providers and models from the environment", () => {
+      expect(getLLMConfig({ LLM_PROVIDER: "anthropic" }).model).toBe("claude-sonnet-4-5");
+      expect(getLLMConfig({ LLM_PROVIDER: "ollama", LLM_MODEL: "qwen2.5" }).model).toBe("qwen2.5");
+      expect(getLLMConfig({ LLM_PROVIDER: "Template" }).provider).toBe("template");
+    });
+
+    it("should report missing API keys only for providers that need them", () => {
+      expect(getLLMConfigurationError(getLLMConfig({}))).toContain("OPENAI_API_KEY");
+      expect(getLLMConfigurationError(getLLMConfig({ LLM_PROVIDER: "anthropic" }))).toContain(
+        "ANTHROPIC_API_KEY",
+      );
+      expect(getLLMConfigurationError(getLLMConfig({ LLM_PROVIDER: "ollama" }))).toBeNull();
+      expect(() => createLLMProvider(getLLMConfig({}))).toThrow("LLM provider not configured");
+    });
+
+    it("should report provider capabilities", () => {
+      const anthropic = createLLMProvider(
+        getLLMConfig({ LLM_PROVIDER: "anthropic", ANTHROPIC_API_KEY: "key" }),
+      );
+      const ollama = createLLMProvider(getLLMConfig({ LLM_PROVIDER: "ollama" }));
+
+      expect(anthropic.capabilities.jsonMode).toBe(false);
+      expect(ollama.capabilities).toMatchObject({ jsonMode: true, local: true });
+      expect(createTemplateProvider().capabilities.generative).toBe(false);
+    });
+  });
+
+  describe("Anthropic", () => {
+    it("should call the Messages API and prefill JSON responses", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(jsonResponse({ content: [{ type: "text", text: '"summary":"Hi"}' }] }));
+      vi.stubGlobal("fetch", fetchMock);
+
+      const provider = createLLMProvider(
+        getLLMConfig({ LLM_PROVIDER: "anthropic", ANTHROPIC_API_KEY: "key" }),
+      );
+      const content = await provider.complete(baseRequest);
+
+      expect(JSON.parse(content)).toEqual({ summary: "Hi" });
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe("https://api.anthropic.com/v1/messages");
+      expect(init.headers["x-api-key"]).toBe("key");
+      const body = JSON.parse(init.body);
+      expect(body.system).toBe("Summarize the project.");
+      expect(body.messages.at(-1)).toEqual({ role: "assistant", content: "{" });
+    });
+
+    it("should expose status and Retry-After on API errors", async () => {
+      vi.stubGlobal(
+        "fetch",
+        vi
+          .fn()
+          .mockResolvedValue(
+            jsonResponse(
+              { error: { message: "rate limited" } },
+              { status: 429, headers: { "retry-after": "7" } },
+            ),
+          ),
+      );
+
+      const provider = createLLMProvider(
+        getLLMConfig({ LLM_PROVIDER: "anthropic", ANTHROPIC_API_KEY: "key" }),
+      );
+
+      await expect(provider.complete(baseRequest)).rejects.toMatchObject({
+        status: 429,
+        retryAfterMs: 7000,
+      });
+    });
+  });
+
+  describe("Ollama", () => {
+    it("should request JSON output from the local chat endpoint", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(jsonResponse({ message: { content: '{"summary":"Local"}' } }));
+      vi.stubGlobal("fetch", fetchMock);
+
+      const provider = createLLMProvider(
+        getLLMConfig({ LLM_PROVIDER: "ollama", OLLAMA_BASE_URL: "http://gpu-box:11434/" }),
+      );
+      const content = await provider.complete(baseRequest);
+
+      expect(content).toBe('{"summary":"Local"}');
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe("http://gpu-box:11434/api/chat");
+      expect(JSON.parse(init.body)).toMatchObject({ model: "llama3.1", format: "json" });
+    });
+
+    it("should abort the request with the request's signal", async () => {
+      const fetchMock = vi.fn(
+        (_url: string, init: RequestInit) =>
+          new Promise<Response>((_resolve, reject) => {
+            init.signal?.addEventListener("abort", () => reject(init.signal?.reason));
+          }),
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const controller = new AbortController();
+      const provider = createLLMProvider(getLLMConfig({ LLM_PROVIDER: "ollama" }));
+      const content = provider.complete({ ...baseRequest, signal: controller.signal });
+      controller.abort(new Error("Summary job cancelled"));
+
+      await expect(content).rejects.toThrow("Summary job cancelled");
+    });
+  });
+
+  describe("Template", () => {
+    it("should write repository summaries from metadata without network access", async () => {
+      const fetchMock = vi.fn();
+      vi.stubGlobal("fetch", fetchMock);
+
+      const result = await generateRepoSummary(
+        "cli-tool",
+        "A fast command line tool",
+        "# CLI Tool\n\nBuilt for developers who live in the terminal. It starts in milliseconds.",
+        createTemplateProvider(),
+        undefined,
+        { language: "Go", topics: ["cli", "productivity"], stars: 10 },
+      );
+
+      expect(result.summary).toContain("cli-tool: A fast command line tool.");
+      expect(result.summary).toContain("written primarily in Go");
+      expect(result.summary).toContain("Built for developers who live in the terminal.");
+      expect(result.summary).toContain("cli and productivity");
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("should be deterministic", async () => {
+      const provider = createTemplateProvider();
+      const first = await generateContentSummary(
+        "Scaling Postgres",
+        "Partitioning saved us. Here is how.",
+        "blog_post",
+        provider,
+        { tags: ["postgres"] },
+      );
+      const second = await generateContentSummary(
+        "Scaling Postgres",
+        "Partitioning saved us. Here is how.",
+        "blog_post",
+        provider,
+        { tags: ["postgres"] },
+      );
+
+      expect(first).toEqual(second);
+      expect(first.summary).toContain('"Scaling Postgres" is a blog post.');
+    });
+
+    it("should require structured facts", async () => {
+      await expect(createTemplateProvider().complete(baseRequest)).rejects.toThrow(
+        "needs structured facts",
+      );
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  collectPackageStats,
+  getPackageCandidates,
+  normalizeRepositoryUrl,
+} from "../server/lib/package-registry.js";
+import { generatePortfolioHtml } from "../server/lib/portfolio-generator.js";
+import githubRoutes from "../server/routes/github.js";
+import { formatCompactNumber, getPackageBadges } from "../shared/package-stats";
+import type { GiteaRepository, PackageStats, RepositoryItem } from "../shared/schema";
+
+function createRepository(
+  name: string,
+  language: string | null,
+  url = `https://codeberg.org/ada/${name}`,
+): GiteaRepository {
+  return {
+    id: `codeberg.org:${name}`,
+    name,
+    description: null,
+    url,
+    summary: null,
+    selected: true,
+    source: "gitea",
+    owner: { login: "ada", type: "User", avatarUrl: null },
+    metadata: {
+      id: `codeberg.org:${name}`,
+      stars: 0,
+      language,
+      topics: [],
+      updatedAt: "2026-01-01T00:00:00Z",
+      url: null,
+    },
+  };
+}
+
+const today = new Date().toISOString().slice(0, 10);
+
+// Registry responses keyed by URL; anything else is a 404
+const REGISTRY_RESPONSES: Record<string, unknown> = {
+  "https://registry.npmjs.org/engine-js/latest": {
+    version: "2.1.0",
+    repository: { type: "git", url: "git+https://codeberg.org/ada/Engine-JS.git" },
+  },
+  "https://api.npmjs.org/downloads/point/last-week/engine-js": { downloads: 12345 },
+  "https://api.deps.dev/v3alpha/systems/npm/packages/engine-js/versions/2.1.0:dependents": {
+    dependentCount: 42,
+  },
+  // Same name as the repository, published from somewhere else
+  "https://pypi.org/pypi/notebook/json": {
+    info: { version: "7.0.0", project_urls: { Source: "https://github.com/jupyter/notebook" } },
+  },
+  "https://crates.io/api/v1/crates/looms": {
+    crate: { max_stable_version: "0.3.1", repository: "https://codeberg.org/ada/looms" },
+  },
+  "https://crates.io/api/v1/crates/looms/downloads": {
+    version_downloads: [
+      { date: today, downloads: 100, version: 1 },
+      { date: "2020-01-01", downloads: 5000, version: 1 },
+    ],
+    meta: { extra_downloads: [{ date: today, downloads: 20 }] },
+  },
+};
+
+function stubRegistries() {
+  const fetchMock = vi.fn(async (input: string | URL, _init?: RequestInit) => {
+    const body = REGISTRY_RESPONSES[String(input)];
+    return body
+      ? new Response(JSON.stringify(body), { headers: { "Content-Type": "application/json" } })
+      : new Response("Not Found", { status: 404 });
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+describe("Package Registry Stats", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should compare repository URLs in their common notations", () => {
+    expect(normalizeRepositoryUrl("git+ssh://git@github.com/Ada/Engine.git")).toBe(
+      "github.com/ada/engine",
+    );
+    expect(normalizeRepositoryUrl("git@gitlab.com:ada/engine.git")).toBe("gitlab.com/ada/engine");
+    expect(normalizeRepositoryUrl("github:ada/engine")).toBe("github.com/ada/engine");
+    expect(normalizeRepositoryUrl("https://www.github.com/ada/engine/")).toBe(
+      "github.com/ada/engine",
+    );
+  });
+
+  it("should take package names from publishable manifests", () => {
+    const repo = createRepository("engine", "TypeScript");
+
+    expect(
+      getPackageCandidates(repo, [
+        { name: "package.json", type: "package.json", packageName: "@ada/engine" },
+        { name: "Cargo.toml", type: "Cargo.toml", packageName: "engine-core", private: true },
+        { name: "pyproject.toml", type: "pyproject.toml", packageName: "engine-py" },
+      ]),
+    ).toEqual([
+      { registry: "npm", name: "@ada/engine" },
+      { registry: "pypi", name: "engine-py" },
+    ]);
+    // A private app is not published, and the repository name is not guessed instead
+    expect(
+      getPackageCandidates(repo, [
+        { name: "package.json", type: "package.json", packageName: "engine", private: true },
+      ]),
+    ).toEqual([]);
+    // Without manifests the repository name is tried on the registry of its language
+    expect(getPackageCandidates(repo, [])).toEqual([{ registry: "npm", name: "engine" }]);
+    expect(getPackageCandidates(createRepository("engine", "Go"), [])).toEqual([]);
+  });
+
+  it("should collect stats only for packages published from the repository", async () => {
+    const fetchMock = stubRegistries();
+    const repositories: RepositoryItem[] = [
+      createRepository("engine-js", "JavaScript", "https://codeberg.org/ada/engine-js"),
+      createRepository("notebook", "Python"),
+      createRepository("looms", "Rust"),
+      createRepository("unpublished", "TypeScript"),
+    ];
+
+    const stats = await collectPackageStats(null, repositories);
+
+    expect(stats["codeberg.org:engine-js"]).toEqual([
+      {
+        registry: "npm",
+        name: "engine-js",
+        version: "2.1.0",
+        weeklyDownloads: 12345,
+        dependents: 42,
+        url: "https://www.npmjs.com/package/engine-js",
+      },
+    ]);
+    expect(stats["codeberg.org:notebook"]).toEqual([]);
+    expect(stats["codeberg.org:looms"]).toEqual([
+      {
+        registry: "crates",
+        name: "looms",
+        version: "0.3.1",
+        weeklyDownloads: 120,
+        dependents: null,
+        url: "https://crates.io/crates/looms",
+      },
+    ]);
+    expect(stats["codeberg.org:unpublished"]).toEqual([]);
+    // crates.io requires a User-Agent
+    const cratesCall = fetchMock.mock.calls.find(([url]) => String(url).includes("crates.io"));
+    expect(cratesCall?.[1]?.headers).toMatchObject({
+      "User-Agent": expect.stringContaining("FolioLab"),
+    });
+  });
+
+  it("should render package badges on repository cards", () => {
+    const stats: PackageStats = {
+      registry: "npm",
+      name: "engine-js",
+      version: "2.1.0",
+      weeklyDownloads: 12345,
+      dependents: 1,
+      url: "https://www.npmjs.com/package/engine-js",
+    };
+    const repo = createRepository("engine-js", "JavaScript");
+    repo.metadata.packages = [stats];
+
+    expect(formatCompactNumber(950)).toBe("950");
+    expect(formatCompactNumber(4_100_000)).toBe("4.1M");
+    expect(getPackageBadges(stats)).toEqual(["npm v2.1.0", "↓ 12.3k/week", "1 dependent"]);
+
+    const html = generatePortfolioHtml("ada", [repo]);
+    expect(html).toContain(">npm v2.1.0</a>");
+    expect(html).toContain(">↓ 12.3k/week</a>");
+    expect(html).toContain('href="https://www.npmjs.com/package/engine-js"');
+  });
+
+  describe("Route", () => {
+    let server: ReturnType<express.Express["listen"]>;
+    let baseUrl: string;
+
+    beforeAll(() => {
+      const app = express();
+      app.use(express.json());
+      app.use(githubRoutes);
+      server = app.listen(0);
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(() => {
+      server.close();
+    });
+
+    it("should validate the repositories", async () => {
+      const missing = await fetch(`${baseUrl}/api/repositories/package-stats`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+      expect(missing.status).toBe(400);
+      expect((await missing.json()).error).toBe("Repositories are required");
+
+      const tooMany = await fetch(`${baseUrl}/api/repositories/package-stats`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          repositories: Array.from({ length: 51 }, (_, i) => createRepository(`r${i}`, null)),
+        }),
+      });
+      expect(tooMany.status).toBe(400);
+      expect((await tooMany.json()).error).toBe("Too many repositories");
+    });
+
+    it("should return stats keyed by repository id", async () => {
+      const response = await fetch(`${baseUrl}/api/repositories/package-stats`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ repositories: [createRepository("go-tool", "Go")] }),
+      });
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ packages: { "codeberg.org:go-tool": [] } });
+    });
+  });
+});
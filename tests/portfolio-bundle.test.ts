@@ -0,0 +1,140 @@
+import JSZip from "jszip";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  BUNDLE_ASSETS,
+  createPortfolioBundle,
+  fetchAvatar,
+  generateFavicon,
+} from "../server/lib/portfolio-bundle.js";
+import { PORTFOLIO_CSS } from "../server/lib/portfolio-css.js";
+import { generatePortfolioHtml, generatePortfolioSite } from "../server/lib/portfolio-generator.js";
+import { compilePortfolioCss } from "../server/scripts/build-portfolio-css.js";
+import type { PortfolioItem } from "../shared/schema.js";
+
+const repo: PortfolioItem = {
+  id: 1,
+  name: "cli-tool",
+  displayName: null,
+  description: "A command line tool",
+  url: "https://github.com/testuser/cli-tool",
+  summary: "A fast CLI.",
+  selected: true,
+  source: "github",
+  owner: { login: "testuser", type: "User", avatarUrl: null },
+  metadata: {
+    id: 1,
+    stars: 5,
+    language: "Go",
+    topics: [],
+    updatedAt: "2024-01-01T00:00:00Z",
+  },
+};
+
+describe("Portfolio ZIP Bundle", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should link pages to the bundled stylesheet instead of the Tailwind CDN", () => {
+    const files = generatePortfolioSite(
+      "testuser",
+      [repo],
+      undefined,
+      "avatar.png",
+      undefined,
+      undefined,
+      undefined,
+      {},
+      "/",
+      BUNDLE_ASSETS,
+    );
+    const index = files.find((f) => f.path === "index.html")!.content;
+    const detail = files.find((f) => f.path === "projects/cli-tool.html")!.content;
+
+    expect(index).toContain('<link rel="stylesheet" href="assets/portfolio.css">');
+    expect(index).toContain('<link rel="icon" href="assets/favicon.svg">');
+    expect(index).toContain('src="avatar.png"');
+    expect(detail).toContain('href="../assets/portfolio.css"');
+    expect(index).not.toContain("cdn.tailwindcss.com");
+    expect(index).not.toContain("font-awesome");
+  });
+
+  it("should package pages, stylesheet, favicon, avatar and README", async () => {
+    const html = generatePortfolioHtml(
+      "testuser",
+      [repo],
+      undefined,
+      "avatar.png",
+      undefined,
+      undefined,
+      undefined,
+      BUNDLE_ASSETS,
+    );
+    const bundle = await createPortfolioBundle([{ path: "index.html", content: html }], {
+      title: "Testuser's Portfolio",
+      ownerName: "testuser",
+      avatar: { path: "avatar.png", data: Buffer.from([0x89, 0x50, 0x4e, 0x47]) },
+    });
+
+    const zip = await JSZip.loadAsync(bundle);
+    const paths = Object.keys(zip.files).filter((path) => !zip.files[path].dir);
+
+    expect(paths.sort()).toEqual([
+      "README.md",
+      "assets/favicon.svg",
+      "assets/portfolio.css",
+      "avatar.png",
+      "index.html",
+    ]);
+    expect(await zip.file("assets/portfolio.css")!.async("string")).toBe(PORTFOLIO_CSS);
+    expect(await zip.file("README.md")!.async("string")).toContain("GitHub Pages");
+  });
+
+  it("should render the owner's initial in the favicon", () => {
+    expect(generateFavicon("testuser")).toContain(">T</text>");
+    expect(generateFavicon("<script>")).toContain(">P</text>");
+  });
+
+  describe("fetchAvatar", () => {
+    it("should skip hosts outside the allowlist without fetching", async () => {
+      const fetchMock = vi.fn();
+      vi.stubGlobal("fetch", fetchMock);
+
+      expect(await fetchAvatar("https://evil.example.com/avatar.png")).toBeNull();
+      expect(await fetchAvatar("http://avatars.githubusercontent.com/u/1")).toBeNull();
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("should download images from allowed hosts", async () => {
+      vi.stubGlobal(
+        "fetch",
+        vi
+          .fn()
+          .mockResolvedValue(
+            new Response(new Uint8Array([1, 2, 3]), { headers: { "Content-Type": "image/jpeg" } }),
+          ),
+      );
+
+      const avatar = await fetchAvatar("https://avatars.githubusercontent.com/u/1?v=4");
+      expect(avatar?.path).toBe("avatar.jpg");
+      expect(avatar?.data.length).toBe(3);
+    });
+
+    it("should reject responses that are not images", async () => {
+      vi.stubGlobal(
+        "fetch",
+        vi
+          .fn()
+          .mockResolvedValue(
+            new Response("<html></html>", { headers: { "Content-Type": "text/html" } }),
+          ),
+      );
+
+      expect(await fetchAvatar("https://avatars.githubusercontent.com/u/1")).toBeNull();
+    });
+  });
+
+  it("should keep the precompiled stylesheet in sync with themes and templates", async () => {
+    expect(await compilePortfolioCss()).toBe(PORTFOLIO_CSS);
+  }, 30_000);
+});
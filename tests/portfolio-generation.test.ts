@@ -1,4 +1,6 @@
+import { createHash } from "node:crypto";
 import { describe, expect, it } from "vitest";
+import { PORTFOLIO_CSS } from "../server/lib/portfolio-css.js";
 import {
   capitalizeFirstLetter,
   escapeHtml,
@@ -93,10 +95,10 @@ describe("Portfolio Generation", () => {
       expect(html).toContain('alt="Testuser"');
     });
 
-    it("should throw error when no repositories provided", () => {
+    it("should throw error when no portfolio items provided", () => {
       expect(() => {
         generatePortfolioHtml("testuser", []);
-      }).toThrow("No repositories provided for portfolio generation");
+      }).toThrow("No portfolio items provided for portfolio generation");
     });
 
     it("should handle repositories without metadata gracefully", () => {
@@ -144,6 +146,95 @@ describe("Portfolio Generation", () => {
     });
   });
 
+  describe("Source-Specific Cards", () => {
+    it("should show language badges for repositories", () => {
+      const html = generatePortfolioHtml("testuser", mockRepositories);
+
+      expect(html).toContain(">TypeScript</span>");
+      expect(html).toContain(">JavaScript</span>");
+    });
+
+    it("should link GitLab and Bitbucket repositories to their hosts", () => {
+      const html = generatePortfolioHtml("testuser", [
+        {
+          ...mockRepositories[0],
+          source: "gitlab" as const,
+          url: "https://gitlab.com/testuser/awesome-project",
+        },
+        {
+          ...mockRepositories[1],
+          id: "{repo-uuid}",
+          source: "bitbucket" as const,
+          url: "https://bitbucket.org/testuser/api-server",
+          metadata: { ...mockRepositories[1].metadata, id: "{repo-uuid}", stars: 0 },
+        },
+      ]);
+
+      expect(html).toContain("View on GitLab");
+      expect(html).toContain("View on Bitbucket");
+      expect(html).not.toContain("View on GitHub");
+    });
+
+    it("should render posts with publish date and read time", () => {
+      const html = generatePortfolioHtml("testuser", [
+        {
+          id: "post-1",
+          title: "Scaling Postgres",
+          description: "Lessons learned from scaling Postgres",
+          url: "https://medium.com/@testuser/scaling-postgres",
+          summary: "A practical guide to scaling Postgres.",
+          selected: true,
+          source: "medium" as const,
+          publishedAt: "2024-03-05T12:00:00Z",
+          author: "testuser",
+          tags: ["postgres"],
+          readTime: 7,
+        },
+        {
+          id: "post-2",
+          title: "Weekly Notes",
+          description: "Notes from the week",
+          url: "https://blog.example.com/weekly-notes",
+          summary: null,
+          selected: true,
+          source: "blog_rss" as const,
+          publishedAt: "2024-04-10T08:00:00Z",
+          author: null,
+          tags: [],
+          feedUrl: "https://blog.example.com/feed.xml",
+        },
+      ]);
+
+      expect(html).toContain("Scaling Postgres");
+      expect(html).toContain("Mar 5, 2024 · 7 min read");
+      expect(html).toContain("Apr 10, 2024");
+      expect(html).toContain("Read on Medium");
+      expect(html).toContain("Notes from the week"); // Falls back to description
+    });
+
+    it("should render freeform content with its content type", () => {
+      const html = generatePortfolioHtml("testuser", [
+        {
+          id: "freeform-1",
+          title: "Speaker at NodeConf",
+          content: "Gave a talk about streams",
+          description: "Talk about Node.js streams",
+          url: null,
+          selected: true,
+          source: "freeform" as const,
+          createdAt: "2024-01-01T00:00:00Z",
+          contentType: "achievement" as const,
+          tags: ["speaking"],
+        },
+      ]);
+
+      expect(html).toContain("Speaker at NodeConf");
+      expect(html).toContain("Achievement");
+      expect(html).toContain("Talk about Node.js streams");
+      expect(html).toContain("speaking");
+    });
+  });
+
   describe("Theme Integration", () => {
     it("should apply minimal theme correctly", () => {
       const minimalTheme = themes.find((t) => t.id === "minimal")!;
@@ -198,6 +289,42 @@ describe("Portfolio Generation", () => {
     });
   });
 
+  describe("Stylesheet and Content Security Policy", () => {
+    it("should inline the compiled stylesheet instead of loading third-party assets", () => {
+      const html = generatePortfolioHtml("testuser", mockRepositories);
+
+      expect(html).toContain(`<style>${PORTFOLIO_CSS}</style>`);
+      expect(html).not.toContain("<script");
+      expect(html).not.toContain("cdn.tailwindcss.com");
+      expect(html).not.toContain("cdnjs.cloudflare.com");
+    });
+
+    it("should include class rules for every theme", () => {
+      for (const theme of themes) {
+        for (const className of theme.preview.background.split(" ")) {
+          expect(PORTFOLIO_CSS).toContain(`.${className.replace(/:/g, "\\:")}`);
+        }
+      }
+    });
+
+    it("should allow only the inlined stylesheet in its Content Security Policy", () => {
+      const html = generatePortfolioHtml("testuser", mockRepositories);
+      const hash = createHash("sha256").update(PORTFOLIO_CSS).digest("base64");
+      const policy = html.match(/http-equiv="Content-Security-Policy" content="([^"]+)"/)?.[1];
+
+      expect(policy).toContain("default-src 'none'");
+      expect(policy).toContain(`style-src 'sha256-${hash}'`);
+      expect(policy).not.toContain("script-src");
+    });
+
+    it("should render icons as inline SVG", () => {
+      const html = generatePortfolioHtml("testuser", mockRepositories);
+
+      expect(html).toContain("<svg");
+      expect(html).not.toContain('class="fab');
+    });
+  });
+
   describe("Content Validation", () => {
     it("should escape HTML in user content", () => {
       const repoWithHtml = [
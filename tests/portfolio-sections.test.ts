@@ -0,0 +1,175 @@
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { describe, expect, it } from "vitest";
+import { generatePortfolioHtml } from "../server/lib/portfolio-generator.js";
+import deployRoutes from "../server/routes/deploy.js";
+import type { PortfolioItem, PortfolioSection } from "../shared/schema.js";
+import {
+  DEFAULT_SECTIONS,
+  groupItemsIntoSections,
+  portfolioSectionsSchema,
+} from "../shared/sections.js";
+
+const repo: PortfolioItem = {
+  id: 1,
+  name: "awesome-project",
+  displayName: "Awesome Project",
+  description: "A really awesome project",
+  url: "https://github.com/testuser/awesome-project",
+  summary: "An awesome project.",
+  selected: true,
+  source: "github",
+  owner: { login: "testuser", type: "User", avatarUrl: null },
+  metadata: {
+    id: 1,
+    stars: 3,
+    language: "TypeScript",
+    topics: [],
+    updatedAt: "2024-01-01T00:00:00Z",
+  },
+};
+
+const post: PortfolioItem = {
+  id: "post-1",
+  title: "Scaling Postgres",
+  description: "Lessons learned",
+  url: "https://blog.example.com/scaling-postgres",
+  summary: null,
+  selected: true,
+  source: "blog_rss",
+  publishedAt: "2024-03-05T12:00:00Z",
+  author: null,
+  tags: [],
+  feedUrl: "https://blog.example.com/feed.xml",
+};
+
+function freeform(id: string, contentType: "project" | "achievement" | "skill" | "other") {
+  return {
+    id,
+    title: `Freeform ${id}`,
+    content: "Some content",
+    description: null,
+    selected: true,
+    source: "freeform" as const,
+    createdAt: "2024-01-01T00:00:00Z",
+    contentType,
+    tags: [],
+  };
+}
+
+describe("Portfolio Sections", () => {
+  describe("groupItemsIntoSections", () => {
+    it("should group items by source and freeform content type", () => {
+      const groups = groupItemsIntoSections([
+        post,
+        repo,
+        freeform("a", "achievement"),
+        freeform("p", "project"),
+      ]);
+
+      expect(groups.map((g) => g.section.id)).toEqual(["projects", "writing", "achievements"]);
+      expect(groups[0].items.map((i) => i.id)).toEqual([1, "p"]);
+      expect(groups[1].items).toEqual([post]);
+    });
+
+    it("should collect unmatched items in a trailing Other section", () => {
+      const groups = groupItemsIntoSections([freeform("o", "other"), repo]);
+
+      expect(groups.map((g) => g.section.title)).toEqual(["Projects", "Other"]);
+    });
+
+    it("should respect section order and explicit item assignments", () => {
+      const sections: PortfolioSection[] = [
+        { id: "custom-1", title: "Highlights", sources: [], contentTypes: [], itemIds: ["post-1"] },
+        ...DEFAULT_SECTIONS,
+      ];
+
+      const groups = groupItemsIntoSections([repo, post], sections);
+
+      expect(groups.map((g) => g.section.title)).toEqual(["Highlights", "Projects"]);
+      expect(groups[0].items).toEqual([post]);
+    });
+
+    it("should match numeric item ids stored as strings", () => {
+      const sections: PortfolioSection[] = [
+        { id: "custom-1", title: "Featured", sources: [], contentTypes: [], itemIds: ["1"] },
+      ];
+
+      const groups = groupItemsIntoSections([repo], sections);
+      expect(groups[0].section.title).toBe("Featured");
+    });
+
+    it("should fall back to the default sections when none are given", () => {
+      const groups = groupItemsIntoSections([repo], null);
+      expect(groups.map((g) => g.section.id)).toEqual(["projects"]);
+    });
+  });
+
+  describe("Validation", () => {
+    it("should reject malformed sections and the reserved Other id", () => {
+      expect(portfolioSectionsSchema.safeParse(undefined).success).toBe(true);
+      expect(portfolioSectionsSchema.safeParse(DEFAULT_SECTIONS).success).toBe(true);
+      expect(portfolioSectionsSchema.safeParse(null).success).toBe(false);
+      expect(portfolioSectionsSchema.safeParse([{ id: "custom-1" }]).success).toBe(false);
+
+      const reserved = portfolioSectionsSchema.safeParse([
+        { id: "other", title: "Misc", sources: [], contentTypes: [], itemIds: [] },
+      ]);
+      expect(reserved.success).toBe(false);
+      expect(reserved.error?.issues[0].message).toBe('Section id "other" is reserved');
+    });
+
+    it("should answer deploys with invalid sections with a 400", async () => {
+      const app = express();
+      app.use(express.json());
+      app.use(deployRoutes);
+      const server = app.listen(0);
+      const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+      try {
+        const response = await fetch(`${baseUrl}/api/deploy/zip`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ accessToken: "token", items: [repo], sections: null }),
+        });
+
+        expect(response.status).toBe(400);
+        expect((await response.json()).error).toBe("Invalid portfolio sections");
+      } finally {
+        server.close();
+      }
+    });
+  });
+
+  describe("generatePortfolioHtml", () => {
+    it("should render default section headings", () => {
+      const html = generatePortfolioHtml("testuser", [repo, post]);
+
+      expect(html).toContain('id="section-projects"');
+      expect(html).toContain(">Projects</h2>");
+      expect(html).toContain(">Writing</h2>");
+      expect(html).not.toContain(">Achievements</h2>");
+    });
+
+    it("should use custom section titles and order", () => {
+      const sections = [
+        { ...DEFAULT_SECTIONS[1], title: "Articles" },
+        { ...DEFAULT_SECTIONS[0], title: "Open Source <Work>" },
+      ];
+
+      const html = generatePortfolioHtml(
+        "testuser",
+        [repo, post],
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        sections,
+      );
+
+      expect(html.indexOf(">Articles</h2>")).toBeLessThan(
+        html.indexOf(">Open Source &lt;Work&gt;</h2>"),
+      );
+    });
+  });
+});
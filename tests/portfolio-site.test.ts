@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import { generatePortfolioSite } from "../server/lib/portfolio-generator.js";
+import { extractReadmeExcerpt } from "../server/lib/project-details.js";
+import type { PortfolioItem } from "../shared/schema.js";
+
+function makeRepo(id: number, name: string): PortfolioItem {
+  return {
+    id,
+    name,
+    displayName: null,
+    description: `${name} description`,
+    url: `https://github.com/testuser/${name}`,
+    summary: `The full AI summary of ${name}.`,
+    selected: true,
+    source: "github",
+    owner: { login: "testuser", type: "User", avatarUrl: null },
+    metadata: {
+      id,
+      stars: 0,
+      language: "Go",
+      topics: ["cli"],
+      updatedAt: "2024-01-01T00:00:00Z",
+      url: "https://example.com/demo",
+    },
+  };
+}
+
+const post: PortfolioItem = {
+  id: "post-1",
+  title: "Scaling Postgres",
+  description: "Lessons learned",
+  url: "https://blog.example.com/scaling-postgres",
+  summary: null,
+  selected: true,
+  source: "blog_rss",
+  publishedAt: "2024-03-05T12:00:00Z",
+  author: null,
+  tags: [],
+  feedUrl: "https://blog.example.com/feed.xml",
+};
+
+describe("Multi-page Portfolio Site", () => {
+  it("should produce an index, one detail page per project and a 404 page", () => {
+    const files = generatePortfolioSite("testuser", [makeRepo(1, "cli-tool"), post]);
+
+    expect(files.map((f) => f.path)).toEqual(["index.html", "projects/cli-tool.html", "404.html"]);
+  });
+
+  it("should link project cards to their detail pages", () => {
+    const files = generatePortfolioSite("testuser", [makeRepo(1, "cli-tool"), post]);
+    const index = files.find((f) => f.path === "index.html")!.content;
+
+    expect(index).toContain('href="projects/cli-tool.html"');
+    expect(index).toContain("View details");
+  });
+
+  it("should render summary, tech stack, README excerpt and links on detail pages", () => {
+    const files = generatePortfolioSite(
+      "testuser",
+      [makeRepo(1, "cli-tool")],
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      { "1": { techStack: ["Go", "Cobra"], readmeExcerpt: "Fast CLI for <everything>." } },
+    );
+    const detail = files.find((f) => f.path === "projects/cli-tool.html")!.content;
+
+    expect(detail).toContain("The full AI summary of cli-tool.");
+    expect(detail).toContain("Tech Stack");
+    expect(detail).toContain("Cobra");
+    expect(detail).toContain("Fast CLI for &lt;everything&gt;.");
+    expect(detail).toContain("https://github.com/testuser/cli-tool");
+    expect(detail).toContain("https://example.com/demo");
+    expect(detail).toContain('href="../index.html"');
+  });
+
+  it("should give projects with the same name unique paths", () => {
+    const files = generatePortfolioSite("testuser", [makeRepo(1, "api"), makeRepo(2, "API")]);
+
+    expect(files.map((f) => f.path)).toContain("projects/api.html");
+    expect(files.map((f) => f.path)).toContain("projects/api-2.html");
+  });
+
+  it("should link the 404 page to the configured home path", () => {
+    const files = generatePortfolioSite(
+      "testuser",
+      [post],
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      {},
+      "/portfolio/",
+    );
+    const notFound = files.find((f) => f.path === "404.html")!.content;
+
+    expect(notFound).toContain('href="/portfolio/"');
+    expect(notFound).toContain("404");
+  });
+
+  describe("extractReadmeExcerpt", () => {
+    it("should strip the title, images and markdown syntax", () => {
+      const excerpt = extractReadmeExcerpt(`# CLI Tool
+
+![screenshot](docs/screenshot.png)
+
+A **fast** command line tool written in [Go](https://go.dev).
+
+## Features
+
+- Quick startup
+- Small binary`);
+
+      expect(excerpt).not.toContain("CLI Tool");
+      expect(excerpt).not.toContain("screenshot");
+      expect(excerpt).toContain("A fast command line tool written in Go.");
+      expect(excerpt).toContain("• Quick startup");
+    });
+
+    it("should return null for missing READMEs", () => {
+      expect(extractReadmeExcerpt(null)).toBeNull();
+    });
+
+    it("should respect the maximum length", () => {
+      const excerpt = extractReadmeExcerpt(
+        `# Title\n\n${"word ".repeat(200)}\n\n${"more ".repeat(200)}`,
+        300,
+      );
+      expect(excerpt!.length).toBeLessThanOrEqual(301);
+    });
+  });
+});
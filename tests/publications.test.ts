@@ -0,0 +1,323 @@
+import type { AddressInfo } from "node:net";
+import express from "express";
+import Parser from "rss-parser";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { generatePortfolioHtml } from "../server/lib/portfolio-generator.js";
+import {
+  getArxivFeedUrl,
+  getArxivPublications,
+  getPublicationsFromBibTeX,
+  getPublicationsFromOrcid,
+} from "../server/lib/publications.js";
+import sourcesRoutes from "../server/routes/sources.js";
+import { formatAuthorList, formatCitation } from "../shared/citations";
+import type { Publication } from "../shared/schema";
+
+const BIBTEX = String.raw`
+@comment{Exported from a reference manager}
+@string{sm = "Scientific Memoirs"}
+
+@article{lovelace1843,
+  author = {Lovelace, Ada and Charles Babbage},
+  title = {Notes on the {Analytical Engine}},
+  journal = sm # " 3",
+  year = 1843,
+  pages = {666--731},
+  doi = {https://doi.org/10.1000/notes.1843},
+  keywords = {computing, engines},
+}
+
+@inproceedings{goedel1931,
+  author = {G{\"o}del, Kurt and Erd\H{o}s, P\'al and others},
+  title = {On Formally Undecidable Propositions},
+  booktitle = {Proceedings of the \emph{Vienna} Circle},
+  year = {1931},
+}
+
+@misc{turing2024,
+  author = "Alan M. Turing",
+  title = "Computable Numbers, Revisited",
+  eprint = {2401.01234},
+  archivePrefix = {arXiv},
+  year = {2024},
+}
+`;
+
+const ATOM = `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xmlns:arxiv="http://arxiv.org/schemas/atom">
+  <title>arXiv author feed</title>
+  <id>http://arxiv.org/a/lovelace_a_1</id>
+  <entry>
+    <id>http://arxiv.org/abs/2401.01234v2</id>
+    <published>2024-01-03T18:00:00Z</published>
+    <title>Computable Numbers,
+      Revisited</title>
+    <summary>We revisit the
+      Entscheidungsproblem.</summary>
+    <author><name>Alan M. Turing</name></author>
+    <author><name>Ada Lovelace</name></author>
+    <arxiv:doi>10.1000/cn.2024</arxiv:doi>
+    <arxiv:journal_ref>J. Symb. Logic 89 (2024)</arxiv:journal_ref>
+    <link href="http://arxiv.org/abs/2401.01234v2" rel="alternate" type="text/html"/>
+  </entry>
+  <entry>
+    <id>http://arxiv.org/abs/2312.09876v1</id>
+    <published>2023-12-15T12:00:00Z</published>
+    <title>Difference Engines at Scale</title>
+    <summary>A preprint.</summary>
+    <author><name>Ada Lovelace</name></author>
+    <link href="http://arxiv.org/abs/2312.09876v1" rel="alternate" type="text/html"/>
+  </entry>
+</feed>`;
+
+function createPublication(overrides: Partial<Publication> = {}): Publication {
+  return {
+    id: "publication-1",
+    title: "Notes on the Analytical Engine",
+    abstract: "Translator's notes.",
+    url: null,
+    summary: null,
+    selected: true,
+    source: "publication",
+    publicationType: "article",
+    authors: ["Ada Lovelace", "Charles Babbage"],
+    venue: "Scientific Memoirs",
+    year: 1843,
+    doi: "10.1000/notes.1843",
+    arxivId: null,
+    tags: [],
+    ...overrides,
+  };
+}
+
+describe("Publications", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should parse BibTeX with macros, LaTeX markup and arXiv preprints", () => {
+    const publications = getPublicationsFromBibTeX(BIBTEX);
+
+    expect(
+      publications.map((publication) => [
+        publication.publicationType,
+        publication.title,
+        publication.authors,
+        publication.venue,
+        publication.year,
+      ]),
+    ).toEqual([
+      [
+        "article",
+        "Notes on the Analytical Engine",
+        ["Lovelace, Ada", "Charles Babbage"],
+        "Scientific Memoirs 3",
+        1843,
+      ],
+      [
+        "conference",
+        "On Formally Undecidable Propositions",
+        ["Gödel, Kurt", "Erdős, Pál", "others"],
+        "Proceedings of the Vienna Circle",
+        1931,
+      ],
+      ["preprint", "Computable Numbers, Revisited", ["Alan M. Turing"], null, 2024],
+    ]);
+    expect(publications[0]).toMatchObject({
+      doi: "10.1000/notes.1843",
+      tags: ["computing", "engines"],
+      source: "publication",
+    });
+    expect(publications[2].arxivId).toBe("2401.01234");
+
+    // The same paper gets the same ID on every import
+    expect(getPublicationsFromBibTeX(BIBTEX).map((publication) => publication.id)).toEqual(
+      publications.map((publication) => publication.id),
+    );
+  });
+
+  it("should reject BibTeX without entries", () => {
+    expect(() => getPublicationsFromBibTeX("just some notes")).toThrow(
+      "No BibTeX entries with a title found",
+    );
+    expect(() => getPublicationsFromBibTeX("@article{key, title = {Unterminated")).toThrow(
+      "Unterminated value in BibTeX",
+    );
+  });
+
+  it("should convert ORCID works summaries", () => {
+    const publications = getPublicationsFromOrcid({
+      group: [
+        {
+          "work-summary": [
+            {
+              title: { title: { value: "Notes on the Analytical Engine" } },
+              type: "journal-article",
+              "journal-title": { value: "Scientific Memoirs" },
+              "publication-date": { year: { value: "1843" } },
+              "external-ids": {
+                "external-id": [
+                  { "external-id-type": "doi", "external-id-value": "10.1000/NOTES.1843" },
+                ],
+              },
+            },
+          ],
+        },
+        {
+          "work-summary": [
+            {
+              title: { title: { value: "Computable Numbers, Revisited" } },
+              type: "preprint",
+              "external-ids": {
+                "external-id": [
+                  { "external-id-type": "arxiv", "external-id-value": "arXiv:2401.01234v2" },
+                ],
+              },
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(publications).toHaveLength(2);
+    expect(publications[0]).toMatchObject({
+      publicationType: "article",
+      venue: "Scientific Memoirs",
+      year: 1843,
+      doi: "10.1000/NOTES.1843",
+    });
+    // A DOI identifies the paper regardless of its source or case
+    expect(publications[0].id).toBe(getPublicationsFromBibTeX(BIBTEX)[0].id);
+    expect(publications[1]).toMatchObject({ publicationType: "preprint", arxivId: "2401.01234" });
+
+    expect(() => getPublicationsFromOrcid({ group: [] })).toThrow(
+      "No works found in the ORCID export",
+    );
+  });
+
+  it("should read papers from an arXiv author feed", async () => {
+    const parseURL = vi.spyOn(Parser.prototype, "parseURL");
+    parseURL.mockImplementation(function (this: Parser) {
+      return this.parseString(ATOM);
+    });
+
+    const publications = await getArxivPublications("https://arxiv.org/a/lovelace_a_1.html");
+
+    expect(parseURL).toHaveBeenCalledWith("https://arxiv.org/a/lovelace_a_1.atom");
+    expect(publications).toHaveLength(2);
+    expect(publications[0]).toMatchObject({
+      title: "Computable Numbers, Revisited",
+      abstract: "We revisit the Entscheidungsproblem.",
+      authors: ["Alan M. Turing", "Ada Lovelace"],
+      publicationType: "article",
+      venue: "J. Symb. Logic 89 (2024)",
+      year: 2024,
+      doi: "10.1000/cn.2024",
+      arxivId: "2401.01234",
+      url: "https://arxiv.org/abs/2401.01234",
+    });
+    expect(publications[1]).toMatchObject({ publicationType: "preprint", venue: null });
+
+    expect(getArxivFeedUrl("0000-0002-1825-0097")).toBe(
+      "https://arxiv.org/a/0000-0002-1825-0097.atom",
+    );
+    expect(() => getArxivFeedUrl("../etc/passwd")).toThrow("Invalid arXiv author identifier");
+  });
+
+  it("should format APA-style citations", () => {
+    expect(formatCitation(createPublication())).toBe(
+      "Lovelace, A., & Babbage, C. (1843). Notes on the Analytical Engine. Scientific Memoirs. https://doi.org/10.1000/notes.1843",
+    );
+    expect(
+      formatCitation(
+        createPublication({
+          authors: ["Turing, Alan Mathison"],
+          venue: null,
+          year: null,
+          doi: null,
+          arxivId: "2401.01234",
+        }),
+      ),
+    ).toBe(
+      "Turing, A. M. (n.d.). Notes on the Analytical Engine. arXiv preprint arXiv:2401.01234. https://arxiv.org/abs/2401.01234",
+    );
+    expect(formatAuthorList(["Kurt Gödel", "Ludwig van Beethoven", "others"])).toBe(
+      "Gödel, K., van Beethoven, L., et al.",
+    );
+  });
+
+  it("should render publications with their citation", () => {
+    const html = generatePortfolioHtml("ada", [
+      createPublication({ title: "Notes <on> Engines", summary: "A summary." }),
+    ]);
+
+    expect(html).toContain("Journal Article");
+    expect(html).toContain("Notes &lt;on&gt; Engines");
+    expect(html).toContain("(1843). Notes &lt;on&gt; Engines. Scientific Memoirs.");
+    expect(html).toContain('href="https://doi.org/10.1000/notes.1843"');
+    expect(html).toContain("A summary.");
+  });
+
+  describe("Routes", () => {
+    let server: ReturnType<express.Express["listen"]>;
+    let baseUrl: string;
+
+    beforeAll(() => {
+      const app = express();
+      app.use(express.json());
+      app.use("/api/sources", sourcesRoutes);
+      server = app.listen(0);
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(() => {
+      server.close();
+    });
+
+    it("should import BibTeX and ORCID uploads", async () => {
+      const bibtex = await fetch(`${baseUrl}/api/sources/publications/bibtex`, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-bibtex" },
+        body: BIBTEX,
+      });
+      expect(bibtex.status).toBe(200);
+      expect((await bibtex.json()).publications).toHaveLength(3);
+
+      const orcid = await fetch(`${baseUrl}/api/sources/publications/orcid`, {
+        method: "POST",
+        headers: { "Content-Type": "application/vnd.orcid+json" },
+        body: JSON.stringify([{ title: { title: { value: "A paper" } }, type: "report" }]),
+      });
+      expect(orcid.status).toBe(200);
+      expect((await orcid.json()).publications[0].publicationType).toBe("report");
+    });
+
+    it("should reject missing and invalid input", async () => {
+      const empty = await fetch(`${baseUrl}/api/sources/publications/bibtex`, {
+        method: "POST",
+        headers: { "Content-Type": "text/plain" },
+        body: " ",
+      });
+      expect(empty.status).toBe(400);
+      expect((await empty.json()).error).toBe("BibTeX is required");
+
+      const invalid = await fetch(`${baseUrl}/api/sources/publications/bibtex`, {
+        method: "POST",
+        headers: { "Content-Type": "text/plain" },
+        body: "not bibtex",
+      });
+      expect(await invalid.json()).toEqual({
+        error: "Invalid BibTeX",
+        details: "No BibTeX entries with a title found",
+      });
+
+      const arxiv = await fetch(`${baseUrl}/api/sources/publications/arxiv`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ author: "https://example.com/feed" }),
+      });
+      expect(arxiv.status).toBe(400);
+      expect((await arxiv.json()).error).toBe("Invalid arXiv author identifier");
+    });
+  });
+});
@@ -0,0 +1,285 @@
+import crypto from "node:crypto";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  deployToCloudflarePages,
+  getAssetHash,
+  getCloudflareDeploymentStatus,
+} from "../server/lib/cloudflare-pages.js";
+import {
+  deployToNetlify,
+  getNetlifyDeploymentStatus,
+  getNetlifySiteName,
+} from "../server/lib/netlify.js";
+import type { PortfolioFile } from "../server/lib/portfolio-generator.js";
+import deployRoutes from "../server/routes/deploy.js";
+
+const files: PortfolioFile[] = [
+  { path: "index.html", content: "<h1>Ada</h1>" },
+  { path: "assets/portfolio.css", content: "body{}" },
+];
+
+function sha1(content: string): string {
+  return crypto.createHash("sha1").update(content).digest("hex");
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function cloudflare(result: unknown): Response {
+  return json({ success: true, errors: [], result });
+}
+
+describe("Static Host Deployment", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe("Netlify", () => {
+    it("should create the site and upload only the files Netlify asks for", async () => {
+      const requests: { method: string; url: string; body?: BodyInit | null }[] = [];
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(async (input: string | URL | Request, init?: RequestInit) => {
+          const url = input.toString();
+          const method = init?.method || "GET";
+          requests.push({ method, url, body: init?.body });
+
+          if (method === "GET") return json({ message: "Not Found" }, 404);
+          if (url.endsWith("/sites")) return json({ id: "site-1" });
+          if (url.endsWith("/sites/site-1/deploys")) {
+            return json({ id: "deploy-1", required: [sha1("body{}")] });
+          }
+          return json({});
+        }),
+      );
+
+      const deployment = await deployToNetlify("nf-token", getNetlifySiteName("Ada_L"), files);
+
+      expect(deployment).toEqual({
+        siteId: "site-1",
+        deployId: "deploy-1",
+        url: "https://ada-l-foliolab.netlify.app",
+      });
+      expect(requests.map(({ method, url }) => `${method} ${url}`)).toEqual([
+        "GET https://api.netlify.com/api/v1/sites/ada-l-foliolab.netlify.app",
+        "POST https://api.netlify.com/api/v1/sites",
+        "POST https://api.netlify.com/api/v1/sites/site-1/deploys",
+        // index.html is already stored, so only the stylesheet is uploaded
+        "PUT https://api.netlify.com/api/v1/deploys/deploy-1/files/assets/portfolio.css",
+      ]);
+      expect(JSON.parse(requests[2].body as string)).toEqual({
+        files: { "/index.html": sha1("<h1>Ada</h1>"), "/assets/portfolio.css": sha1("body{}") },
+      });
+    });
+
+    it("should report deploy status and errors", async () => {
+      vi.stubGlobal(
+        "fetch",
+        vi
+          .fn()
+          .mockResolvedValueOnce(json({ state: "ready", ssl_url: "https://ada.netlify.app" }))
+          .mockResolvedValueOnce(json({ state: "error", error_message: "Upload incomplete" }))
+          .mockResolvedValueOnce(json({ message: "Access Denied" }, 401)),
+      );
+
+      expect(await getNetlifyDeploymentStatus("nf-token", "deploy-1")).toEqual({
+        ready: true,
+        state: "ready",
+        url: "https://ada.netlify.app",
+        error: null,
+      });
+      expect(await getNetlifyDeploymentStatus("nf-token", "deploy-1")).toMatchObject({
+        ready: false,
+        error: "Upload incomplete",
+      });
+      await expect(getNetlifyDeploymentStatus("bad", "deploy-1")).rejects.toThrow(
+        "Netlify API error: Access Denied",
+      );
+    });
+  });
+
+  describe("Cloudflare Pages", () => {
+    const credentials = { accountId: "acc-1", apiToken: "cf-token" };
+    const projectUrl =
+      "https://api.cloudflare.com/client/v4/accounts/acc-1/pages/projects/ada-foliolab";
+
+    it("should upload missing assets and deploy a manifest", async () => {
+      const [indexHash, cssHash] = files.map(getAssetHash);
+      const requests: { method: string; url: string; init?: RequestInit }[] = [];
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(async (input: string | URL | Request, init?: RequestInit) => {
+          const url = input.toString();
+          const method = init?.method || "GET";
+          requests.push({ method, url, init });
+
+          if (url === projectUrl && method === "GET") return json({ success: false }, 404);
+          if (url.endsWith("/pages/projects")) {
+            return cloudflare({ subdomain: "ada-foliolab-x1.pages.dev" });
+          }
+          if (url.endsWith("/upload-token")) return cloudflare({ jwt: "upload-jwt" });
+          if (url.endsWith("/check-missing")) return cloudflare([indexHash]);
+          if (url.endsWith("/deployments")) return cloudflare({ id: "dep-1" });
+          return cloudflare(null);
+        }),
+      );
+
+      const deployment = await deployToCloudflarePages(credentials, "ada-foliolab", files);
+
+      expect(deployment).toEqual({
+        projectName: "ada-foliolab",
+        deploymentId: "dep-1",
+        url: "https://ada-foliolab-x1.pages.dev",
+      });
+      expect(requests.map(({ method, url }) => `${method} ${url.replace(projectUrl, "")}`)).toEqual(
+        [
+          "GET ",
+          "POST https://api.cloudflare.com/client/v4/accounts/acc-1/pages/projects",
+          "GET /upload-token",
+          "POST https://api.cloudflare.com/client/v4/pages/assets/check-missing",
+          "POST https://api.cloudflare.com/client/v4/pages/assets/upload",
+          "POST https://api.cloudflare.com/client/v4/pages/assets/upsert-hashes",
+          "POST /deployments",
+        ],
+      );
+
+      // Assets are uploaded with the upload token, not the API token
+      const upload = requests[4].init!;
+      expect((upload.headers as Record<string, string>).Authorization).toBe("Bearer upload-jwt");
+      expect(JSON.parse(upload.body as string)).toEqual([
+        {
+          key: indexHash,
+          value: Buffer.from("<h1>Ada</h1>").toString("base64"),
+          metadata: { contentType: "text/html" },
+          base64: true,
+        },
+      ]);
+
+      const form = requests[6].init!.body as FormData;
+      expect(JSON.parse(form.get("manifest") as string)).toEqual({
+        "/index.html": indexHash,
+        "/assets/portfolio.css": cssHash,
+      });
+    });
+
+    it("should report the latest deployment stage", async () => {
+      vi.stubGlobal(
+        "fetch",
+        vi
+          .fn()
+          .mockResolvedValueOnce(cloudflare({ latest_stage: { name: "deploy", status: "active" } }))
+          .mockResolvedValueOnce(
+            cloudflare({
+              url: "https://abc.ada-foliolab.pages.dev",
+              latest_stage: { name: "deploy", status: "success" },
+            }),
+          )
+          .mockResolvedValueOnce(
+            cloudflare({ latest_stage: { name: "deploy", status: "failure" } }),
+          ),
+      );
+
+      expect(await getCloudflareDeploymentStatus(credentials, "ada-foliolab", "dep-1")).toEqual({
+        ready: false,
+        state: "deploy: active",
+        url: null,
+        error: null,
+      });
+      expect(
+        await getCloudflareDeploymentStatus(credentials, "ada-foliolab", "dep-1"),
+      ).toMatchObject({ ready: true, url: "https://abc.ada-foliolab.pages.dev" });
+      expect(
+        await getCloudflareDeploymentStatus(credentials, "ada-foliolab", "dep-1"),
+      ).toMatchObject({ ready: false, error: "Deployment failure during deploy" });
+    });
+  });
+
+  describe("Routes", () => {
+    let server: ReturnType<express.Express["listen"]>;
+    let baseUrl: string;
+
+    beforeAll(() => {
+      const app = express();
+      app.use(express.json());
+      app.use(deployRoutes);
+      server = app.listen(0);
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(() => {
+      server.close();
+    });
+
+    it("should require provider credentials", async () => {
+      const post = (path: string, body: unknown) =>
+        fetch(`${baseUrl}${path}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        });
+
+      const netlify = await post("/api/deploy/netlify", { accessToken: "gh", items: [{}] });
+      expect(netlify.status).toBe(400);
+      expect((await netlify.json()).error).toBe("Netlify access token is required");
+
+      const cloudflare = await post("/api/deploy/cloudflare", {
+        accessToken: "gh",
+        cloudflareToken: "cf-token",
+        items: [{}],
+      });
+      expect(cloudflare.status).toBe(400);
+      expect((await cloudflare.json()).error).toBe(
+        "Cloudflare account ID and API token are required",
+      );
+
+      const status = await fetch(
+        `${baseUrl}/api/deploy/cloudflare/status/dep-1?accessToken=cf&accountId=acc-1&projectName=../x`,
+      );
+      expect(status.status).toBe(400);
+      expect((await status.json()).error).toBe("Invalid Cloudflare Pages project name");
+
+      const owner = await post("/api/deploy/netlify", { netlifyToken: "nf-token", items: [{}] });
+      expect(owner.status).toBe(400);
+      expect((await owner.json()).error).toBe("GitHub access token or username is required");
+    });
+
+    it("should deploy for the previewed user without a GitHub token", async () => {
+      const realFetch = fetch;
+      const netlify = vi.fn(async (input: string | URL | Request, init?: RequestInit) => {
+        const url = input.toString();
+        if (!init?.method || init.method === "GET") return json({ message: "Not Found" }, 404);
+        if (url.endsWith("/sites")) return json({ id: "site-1" });
+        if (url.endsWith("/sites/site-1/deploys")) return json({ id: "deploy-1", required: [] });
+        return json({});
+      });
+      vi.stubGlobal("fetch", netlify);
+
+      const response = await realFetch(`${baseUrl}/api/deploy/netlify`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          netlifyToken: "nf-token",
+          userInfo: { username: "ada", avatarUrl: null },
+          items: [{ id: 1, name: "engine", source: "github", metadata: { topics: [] } }],
+          introduction: { introduction: "Hi", skills: [], interests: [] },
+        }),
+      });
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({
+        siteId: "site-1",
+        deployId: "deploy-1",
+        url: "https://ada-foliolab.netlify.app",
+      });
+      expect(netlify.mock.calls[0][0]).toBe(
+        "https://api.netlify.com/api/v1/sites/ada-foliolab.netlify.app",
+      );
+    });
+  });
+});
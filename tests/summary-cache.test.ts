@@ -0,0 +1,193 @@
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { LLMProvider } from "../server/lib/llm/index.js";
+import { generateContentSummary, generateRepoSummary } from "../server/lib/openai.js";
+import {
+  createFileCacheStore,
+  createMemoryCacheStore,
+  createSummaryCacheStore,
+  getSummaryCacheKey,
+  setSummaryCacheStore,
+} from "../server/lib/summary-cache.js";
+
+function createCountingProvider(model = "test-model"): LLMProvider {
+  return {
+    id: "openai",
+    model,
+    capabilities: {
+      jsonMode: true,
+      generative: true,
+      requiresApiKey: false,
+      local: true,
+      streaming: false,
+    },
+    complete: vi.fn(async () => '{"summary":"Generated summary"}'),
+  };
+}
+
+const README = "# CLI Tool\n\nA fast command line tool for developers.";
+const METADATA = { language: "Go", topics: ["cli"], stars: 3 };
+
+describe("Summary Cache", () => {
+  describe("Stores", () => {
+    it("should evict the least recently used entry", async () => {
+      const store = createMemoryCacheStore(2);
+      await store.set("a", "A");
+      await store.set("b", "B");
+      await store.get("a");
+      await store.set("c", "C");
+
+      expect(await store.get("a")).toBe("A");
+      expect(await store.get("b")).toBeUndefined();
+      expect(await store.get("c")).toBe("C");
+    });
+
+    it("should persist entries as files", async () => {
+      const directory = await mkdtemp(path.join(os.tmpdir(), "summary-cache-"));
+      try {
+        const store = createFileCacheStore(path.join(directory, "summaries"));
+        await store.set("abc", "Stored summary");
+
+        expect(await createFileCacheStore(path.join(directory, "summaries")).get("abc")).toBe(
+          "Stored summary",
+        );
+        expect(await store.get("missing")).toBeUndefined();
+
+        await store.clear();
+        expect(await readdir(directory)).toEqual([]);
+      } finally {
+        await rm(directory, { recursive: true, force: true });
+      }
+    });
+
+    it("should select the store from the environment", () => {
+      expect(createSummaryCacheStore({})).not.toBeNull();
+      expect(createSummaryCacheStore({ SUMMARY_CACHE: "off" })).toBeNull();
+      expect(createSummaryCacheStore({ SUMMARY_CACHE: "file" })).not.toBeNull();
+    });
+
+    it("should hash equal inputs to the same key regardless of property order", () => {
+      const key = getSummaryCacheKey({ model: "gpt-4o", metadata: { stars: 1, topics: ["a"] } });
+
+      expect(getSummaryCacheKey({ metadata: { topics: ["a"], stars: 1 }, model: "gpt-4o" })).toBe(
+        key,
+      );
+      expect(
+        getSummaryCacheKey({ model: "gpt-4o-mini", metadata: { stars: 1, topics: ["a"] } }),
+      ).not.toBe(key);
+    });
+  });
+
+  describe("Summaries", () => {
+    beforeEach(() => {
+      setSummaryCacheStore(createMemoryCacheStore());
+    });
+
+    afterEach(() => {
+      setSummaryCacheStore(null);
+      vi.unstubAllGlobals();
+    });
+
+    it("should serve unchanged repositories from the cache", async () => {
+      const provider = createCountingProvider();
+
+      const first = await generateRepoSummary(
+        "cli",
+        "A CLI",
+        README,
+        provider,
+        undefined,
+        METADATA,
+      );
+      const second = await generateRepoSummary(
+        "cli",
+        "A CLI",
+        README,
+        provider,
+        undefined,
+        METADATA,
+      );
+
+      expect(first).toEqual({ summary: "Generated summary", cached: false });
+      expect(second).toEqual({ summary: "Generated summary", cached: true });
+      expect(provider.complete).toHaveBeenCalledTimes(1);
+    });
+
+    it("should ignore README noise removed by the cleaner", async () => {
+      const provider = createCountingProvider();
+      const withBadge = `[![Build](https://img.shields.io/badge/build-passing-green.svg)](https://ci.example.com)\n${README}`;
+
+      await generateRepoSummary("cli", "A CLI", README, provider, undefined, METADATA);
+      const result = await generateRepoSummary(
+        "cli",
+        "A CLI",
+        withBadge,
+        provider,
+        undefined,
+        METADATA,
+      );
+
+      expect(result.cached).toBe(true);
+    });
+
+    it("should regenerate when the content, prompt or model changes", async () => {
+      const provider = createCountingProvider();
+
+      await generateRepoSummary("cli", "A CLI", README, provider, undefined, METADATA);
+      await generateRepoSummary("cli", "A faster CLI", README, provider, undefined, METADATA);
+      await generateRepoSummary("cli", "A CLI", README, provider, "Be brief.", METADATA);
+      await generateRepoSummary("cli", "A CLI", README, provider, undefined, {
+        ...METADATA,
+        stars: 4,
+      });
+      const otherModel = createCountingProvider("other-model");
+      await generateRepoSummary("cli", "A CLI", README, otherModel, undefined, METADATA);
+
+      expect(provider.complete).toHaveBeenCalledTimes(4);
+      expect(otherModel.complete).toHaveBeenCalledTimes(1);
+    });
+
+    it("should regenerate summaries of repositories without a README after new commits", async () => {
+      const provider = createCountingProvider();
+      let head = "a".repeat(40);
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(async (url: string) =>
+          url.includes("/repos/ada/cli/commits")
+            ? Response.json([{ sha: head }])
+            : Response.json([]),
+        ),
+      );
+
+      const summarize = () =>
+        generateRepoSummary("cli", "A CLI", "", provider, undefined, METADATA, "token", "ada");
+      await summarize();
+      expect((await summarize()).cached).toBe(true);
+
+      head = "b".repeat(40);
+      expect((await summarize()).cached).toBe(false);
+      expect(provider.complete).toHaveBeenCalledTimes(2);
+    });
+
+    it("should cache content summaries and send cached text to token handlers", async () => {
+      const provider = createCountingProvider();
+      const tokens: string[] = [];
+
+      await generateContentSummary("Scaling", "Partitioning saved us.", "blog_post", provider);
+      const result = await generateContentSummary(
+        "Scaling",
+        "Partitioning saved us.",
+        "blog_post",
+        provider,
+        undefined,
+        (token) => tokens.push(token),
+      );
+
+      expect(result.cached).toBe(true);
+      expect(tokens).toEqual(["Generated summary"]);
+      expect(provider.complete).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { LLMCompletionRequest, LLMProvider } from "../server/lib/llm/index.js";
+import { createRequestError } from "../server/lib/llm/types.js";
+import { setSummaryCacheStore } from "../server/lib/summary-cache.js";
+import {
+  createSummaryJob,
+  getSummaryConcurrency,
+  getSummaryJob,
+} from "../server/lib/summary-jobs.js";
+
+const blogPost = (id: number) => ({
+  id: `post-${id}`,
+  source: "blog_rss",
+  title: `Post ${id}`,
+  description: "A post about databases.",
+});
+
+/**
+ * Provider that answers after 20ms, tracking how many requests run at the same time
+ */
+function createFakeProvider(
+  respond: (request: LLMCompletionRequest) => Promise<string> | string = () => '{"summary":"Done"}',
+  id: LLMProvider["id"] = "openai",
+) {
+  let active = 0;
+  let maxActive = 0;
+  const provider: LLMProvider = {
+    id,
+    model: "test",
+    capabilities: {
+      jsonMode: true,
+      generative: true,
+      requiresApiKey: false,
+      local: true,
+      streaming: false,
+    },
+    complete: vi.fn(async (request: LLMCompletionRequest) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      try {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        return await respond(request);
+      } finally {
+        active--;
+      }
+    }),
+  };
+  return { provider, getMaxActive: () => maxActive };
+}
+
+describe("Summary Jobs", () => {
+  beforeEach(() => {
+    // Every test generates its summaries instead of reusing earlier ones
+    setSummaryCacheStore(null);
+  });
+
+  it("should read the default concurrency from the environment", () => {
+    expect(getSummaryConcurrency({})).toBe(4);
+    expect(getSummaryConcurrency({ SUMMARY_CONCURRENCY: "8" })).toBe(8);
+    expect(getSummaryConcurrency({ SUMMARY_CONCURRENCY: "500" })).toBe(16);
+    expect(getSummaryConcurrency({ SUMMARY_CONCURRENCY: "0" })).toBe(1);
+  });
+
+  it("should summarize items with bounded concurrency", async () => {
+    const { provider, getMaxActive } = createFakeProvider();
+    const items = Array.from({ length: 12 }, (_, i) => blogPost(i));
+
+    const job = createSummaryJob(items, provider, { concurrency: 3 });
+    expect(job.snapshot()).toMatchObject({ status: "running", total: 12, completed: 0 });
+
+    const result = await job.done;
+
+    expect(result.status).toBe("completed");
+    expect(result.completed).toBe(12);
+    expect(Object.keys(result.summaries)).toHaveLength(12);
+    expect(result.summaries["post-0"]).toBe("Done");
+    expect(getMaxActive()).toBe(3);
+  });
+
+  it("should record failures without stopping the job", async () => {
+    const { provider } = createFakeProvider((request) => {
+      if (request.user.includes("Post 1")) throw new Error("context length exceeded");
+      return '{"summary":"Done"}';
+    });
+
+    const result = await createSummaryJob([blogPost(0), blogPost(1), blogPost(2)], provider).done;
+
+    expect(Object.keys(result.summaries).sort()).toEqual(["post-0", "post-2"]);
+    expect(result.failed["post-1"]).toContain("context length exceeded");
+  });
+
+  it("should wait for Retry-After and retry rate limited items", async () => {
+    let calls = 0;
+    const { provider } = createFakeProvider(() => {
+      calls++;
+      if (calls === 1) throw createRequestError("Too many requests", 429, "0.2");
+      return '{"summary":"Done"}';
+    }, "anthropic");
+
+    const startedAt = Date.now();
+    const result = await createSummaryJob([blogPost(0)], provider, { concurrency: 1 }).done;
+
+    expect(result.summaries["post-0"]).toBe("Done");
+    expect(calls).toBe(2);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(200);
+  });
+
+  it("should give up after the maximum number of rate limited attempts", async () => {
+    const { provider } = createFakeProvider(() => {
+      throw createRequestError("Too many requests", 429, "0");
+    }, "ollama");
+
+    const result = await createSummaryJob([blogPost(0)], provider, { maxAttempts: 2 }).done;
+
+    expect(provider.complete).toHaveBeenCalledTimes(2);
+    expect(result.failed["post-0"]).toContain("Too many requests");
+  });
+
+  it("should keep partial results when cancelled", async () => {
+    let release = () => {};
+    const gate = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    // Only the first two items finish before the job is cancelled
+    const { provider } = createFakeProvider(async (request) => {
+      if (!/Post [01]/.test(request.user)) await gate;
+      return '{"summary":"Done"}';
+    });
+    const items = Array.from({ length: 6 }, (_, i) => blogPost(i));
+    const job = createSummaryJob(items, provider, { concurrency: 2 });
+
+    await vi.waitFor(() => expect(job.snapshot().completed).toBe(2));
+    const cancelled = job.cancel();
+
+    expect(cancelled.status).toBe("cancelled");
+    expect(cancelled.finishedAt).not.toBeNull();
+    expect(Object.keys(cancelled.summaries)).toHaveLength(2);
+    expect(cancelled.pending).toHaveLength(4);
+
+    // In-flight results are dropped so the final state matches what cancel returned
+    release();
+    await expect(job.done).resolves.toEqual(cancelled);
+  });
+
+  it("should abort in-flight provider requests when cancelled", async () => {
+    const signals: AbortSignal[] = [];
+    const { provider } = createFakeProvider(
+      (request) =>
+        new Promise((_resolve, reject) => {
+          signals.push(request.signal!);
+          request.signal!.addEventListener("abort", () => reject(request.signal!.reason));
+        }),
+    );
+    const job = createSummaryJob([blogPost(0), blogPost(1)], provider, { concurrency: 2 });
+
+    await vi.waitFor(() => expect(signals).toHaveLength(2));
+    expect(signals.some((signal) => signal.aborted)).toBe(false);
+
+    job.cancel();
+
+    expect(signals.every((signal) => signal.aborted)).toBe(true);
+    await expect(job.done).resolves.toMatchObject({ status: "cancelled", failed: {} });
+  });
+
+  it("should emit progress events", async () => {
+    const { provider } = createFakeProvider();
+    const events: string[] = [];
+
+    await createSummaryJob([blogPost(0)], provider, {
+      onEvent: (event) => events.push(event.type),
+    }).done;
+
+    expect(events).toEqual(["started", "token", "done", "complete"]);
+  });
+
+  it("should only return jobs to the token that started them", () => {
+    const { provider } = createFakeProvider();
+    const job = createSummaryJob([], provider, { accessToken: "token-a" });
+
+    expect(getSummaryJob(job.id, "token-a")).toBe(job);
+    expect(getSummaryJob(job.id, "token-b")).toBeUndefined();
+    expect(getSummaryJob(job.id)).toBeUndefined();
+    expect(getSummaryJob("missing", "token-a")).toBeUndefined();
+  });
+});
@@ -0,0 +1,294 @@
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { summarizeItem } from "../server/lib/item-summaries.js";
+import { createLLMProvider, getLLMConfig, type LLMProvider } from "../server/lib/llm/index.js";
+import { createTemplateProvider } from "../server/lib/llm/template-provider.js";
+import { setSummaryCacheStore } from "../server/lib/summary-cache.js";
+
+const providerState = vi.hoisted(() => ({ provider: null as LLMProvider | null }));
+
+vi.mock("../server/lib/llm/index.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../server/lib/llm/index.js")>();
+  return {
+    ...actual,
+    getLLMConfigurationError: () => null,
+    getLLMProvider: () => providerState.provider,
+  };
+});
+
+function streamResponse(chunks: string[], init?: ResponseInit) {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+  return new Response(body, init);
+}
+
+/**
+ * Provider that streams its reply word by word and fails for titles containing "fail"
+ */
+function createStreamingProvider(): LLMProvider {
+  return {
+    id: "openai",
+    model: "test",
+    capabilities: {
+      jsonMode: true,
+      generative: true,
+      requiresApiKey: false,
+      local: true,
+      streaming: true,
+    },
+    complete: vi.fn(async (request) => {
+      if (request.user.includes("fail")) {
+        throw new Error("rate limited");
+      }
+      return '{"summary":"Complete"}';
+    }),
+    stream: vi.fn(async (request, onToken) => {
+      if (request.user.includes("fail")) {
+        throw new Error("rate limited");
+      }
+      for (const token of ["A ", "streamed ", "summary"]) onToken(token);
+      return "A streamed summary";
+    }),
+  };
+}
+
+const blogPost = (id: string, title: string) => ({
+  id,
+  source: "blog_rss",
+  title,
+  description: "A post about databases.",
+  tags: ["postgres"],
+});
+
+describe("Streaming Summaries", () => {
+  beforeEach(() => {
+    // Every test generates its summaries instead of reusing earlier ones
+    setSummaryCacheStore(null);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe("Providers", () => {
+    it("should stream Ollama chat chunks", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(
+          streamResponse([
+            '{"message":{"content":"Hel"},"done":false}\n{"message":{"con',
+            'tent":"lo"},"done":false}\n',
+            '{"message":{"content":""},"done":true}\n',
+          ]),
+        );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const provider = createLLMProvider(getLLMConfig({ LLM_PROVIDER: "ollama" }));
+      const tokens: string[] = [];
+      const content = await provider.stream?.(
+        {
+          task: "content_summary",
+          system: "s",
+          user: "u",
+          maxTokens: 10,
+          temperature: 0,
+          json: false,
+        },
+        (token) => tokens.push(token),
+      );
+
+      expect(content).toBe("Hello");
+      expect(tokens).toEqual(["Hel", "lo"]);
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body).stream).toBe(true);
+    });
+
+    it("should stream Anthropic text deltas and surface stream errors", async () => {
+      const event = (type: string, data: unknown) =>
+        `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+      vi.stubGlobal(
+        "fetch",
+        vi.fn().mockResolvedValue(
+          streamResponse([
+            event("message_start", { type: "message_start" }),
+            event("content_block_delta", {
+              type: "content_block_delta",
+              delta: { type: "text_delta", text: "Fast " },
+            }),
+            event("content_block_delta", {
+              type: "content_block_delta",
+              delta: { type: "text_delta", text: "CLI" },
+            }),
+            event("message_stop", { type: "message_stop" }),
+          ]),
+        ),
+      );
+
+      const provider = createLLMProvider(
+        getLLMConfig({ LLM_PROVIDER: "anthropic", ANTHROPIC_API_KEY: "key" }),
+      );
+      const tokens: string[] = [];
+      const request = {
+        task: "repo_summary" as const,
+        system: "s",
+        user: "u",
+        maxTokens: 10,
+        temperature: 0,
+        json: false,
+      };
+
+      await expect(provider.stream?.(request, (token) => tokens.push(token))).resolves.toBe(
+        "Fast CLI",
+      );
+      expect(tokens).toEqual(["Fast ", "CLI"]);
+
+      vi.stubGlobal(
+        "fetch",
+        vi
+          .fn()
+          .mockResolvedValue(
+            streamResponse([event("error", { type: "error", error: { message: "Overloaded" } })]),
+          ),
+      );
+      await expect(provider.stream?.(request, () => {})).rejects.toThrow("Overloaded");
+    });
+  });
+
+  describe("summarizeItem", () => {
+    it("should request plain text from streaming providers", async () => {
+      const provider = createStreamingProvider();
+      const tokens: string[] = [];
+
+      const { summary } = await summarizeItem(
+        blogPost("1", "Scaling"),
+        provider,
+        undefined,
+        (token) => tokens.push(token),
+      );
+
+      expect(summary).toBe("A streamed summary");
+      expect(tokens.join("")).toBe("A streamed summary");
+      const [request] = vi.mocked(provider.stream!).mock.calls[0];
+      expect(request.json).toBe(false);
+      expect(request.system).toContain("summary text only");
+      expect(provider.complete).not.toHaveBeenCalled();
+    });
+
+    it("should send the whole summary as one token for non-streaming providers", async () => {
+      const tokens: string[] = [];
+
+      const { summary } = await summarizeItem(
+        blogPost("1", "Scaling Postgres"),
+        createTemplateProvider(),
+        undefined,
+        (token) => tokens.push(token),
+      );
+
+      expect(tokens).toEqual([summary]);
+      expect(summary).toContain('"Scaling Postgres" is a blog post.');
+    });
+
+    it("should use JSON completions when no token handler is given", async () => {
+      const provider = createStreamingProvider();
+
+      await expect(summarizeItem(blogPost("1", "Scaling"), provider)).resolves.toEqual({
+        summary: "Complete",
+        cached: false,
+      });
+      expect(provider.stream).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("POST /api/sources/generate-summaries/stream", () => {
+    let server: ReturnType<express.Express["listen"]>;
+    let baseUrl: string;
+
+    beforeAll(async () => {
+      const { default: sourcesRoutes } = await import("../server/routes/sources.js");
+      const app = express();
+      app.use(express.json());
+      app.use("/api/sources", sourcesRoutes);
+      server = app.listen(0);
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(() => {
+      server.close();
+    });
+
+    async function readEvents(response: Response) {
+      const text = await response.text();
+      return text
+        .trim()
+        .split("\n\n")
+        .map((block) => {
+          const [eventLine, dataLine] = block.split("\n");
+          return { event: eventLine.slice(7), data: JSON.parse(dataLine.slice(6)) };
+        });
+    }
+
+    it("should send per-item progress and report failures", async () => {
+      providerState.provider = createStreamingProvider();
+
+      const response = await fetch(`${baseUrl}/api/sources/generate-summaries/stream`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          items: [blogPost("a", "Scaling"), blogPost("b", "Will fail")],
+          concurrency: 1,
+        }),
+      });
+
+      expect(response.headers.get("content-type")).toBe("text/event-stream");
+      const events = await readEvents(response);
+
+      expect(events.map((e) => e.event)).toEqual([
+        "started",
+        "token",
+        "token",
+        "token",
+        "done",
+        "started",
+        "failed",
+        "complete",
+      ]);
+      expect(events[4].data).toEqual({ id: "a", summary: "A streamed summary", cached: false });
+      expect(events[6].data.id).toBe("b");
+      expect(events[6].data.error).toContain("rate limited");
+      expect(events[7].data).toMatchObject({
+        status: "completed",
+        summaries: { a: "A streamed summary" },
+        failed: { b: expect.stringContaining("rate limited") },
+      });
+    });
+
+    it("should reject requests without items", async () => {
+      const response = await fetch(`${baseUrl}/api/sources/generate-summaries/stream`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should return failure reasons from the non-streaming endpoint", async () => {
+      providerState.provider = createStreamingProvider();
+
+      const response = await fetch(`${baseUrl}/api/sources/generate-summaries`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ items: [blogPost("a", "Scaling"), blogPost("b", "Will fail")] }),
+      });
+      const body = await response.json();
+
+      expect(body.summaries).toEqual({ a: "Complete" });
+      expect(body.failed.b).toContain("rate limited");
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { LLMProvider } from "../server/lib/llm/index.js";
+import {
+  generateContentSummary,
+  generateRepoSummary,
+  generateUserIntroduction,
+} from "../server/lib/openai.js";
+import { setSummaryCacheStore } from "../server/lib/summary-cache.js";
+import { summaryStyleSchema } from "../shared/schema.js";
+import {
+  getSummaryTone,
+  normalizeSummaryStyle,
+  renderSummaryTemplate,
+} from "../shared/summary-styles.js";
+
+function createFakeProvider(): LLMProvider {
+  return {
+    id: "openai",
+    model: "test",
+    capabilities: {
+      jsonMode: true,
+      generative: true,
+      requiresApiKey: false,
+      local: true,
+      streaming: false,
+    },
+    complete: vi.fn(async () => '{"summary":"Styled summary","introduction":"Hi","skills":[]}'),
+  };
+}
+
+function getRequest(provider: LLMProvider) {
+  return vi.mocked(provider.complete).mock.calls[0][0];
+}
+
+const README = "# CLI Tool\n\nA fast command line tool for developers.";
+const METADATA = { language: "Go", topics: ["cli", "terminal"], stars: 3, url: "https://x.dev" };
+
+describe("Summary Styles", () => {
+  beforeEach(() => {
+    setSummaryCacheStore(null);
+  });
+
+  describe("Templates", () => {
+    it("should fill known placeholders and keep unknown ones", () => {
+      expect(
+        renderSummaryTemplate("{name} ({language}) uses {techStack}. {unknown}", {
+          name: "cli",
+          language: "Go",
+        }),
+      ).toBe("cli (Go) uses not available. {unknown}");
+    });
+
+    it("should clamp user-entered values into the accepted ranges", () => {
+      const style = normalizeSummaryStyle({
+        tone: "concise",
+        targetWords: 5,
+        language: "  Spanish  ",
+        template: "",
+      });
+
+      expect(style).toEqual({ tone: "concise", targetWords: 20, language: "Spanish" });
+      expect(summaryStyleSchema.safeParse(style).success).toBe(true);
+      expect(summaryStyleSchema.safeParse({ tone: "pirate" }).success).toBe(false);
+    });
+  });
+
+  describe("Prompts", () => {
+    it("should keep the original prompt for the balanced tone", async () => {
+      const defaultProvider = createFakeProvider();
+      const balancedProvider = createFakeProvider();
+
+      await generateRepoSummary("cli", "A CLI", README, defaultProvider, undefined, METADATA);
+      await generateRepoSummary(
+        "cli",
+        "A CLI",
+        README,
+        balancedProvider,
+        { tone: "balanced" },
+        METADATA,
+      );
+
+      expect(getRequest(balancedProvider).system).toBe(getRequest(defaultProvider).system);
+    });
+
+    it("should use the tone preset with target length and language", async () => {
+      const provider = createFakeProvider();
+
+      await generateRepoSummary(
+        "cli",
+        "A CLI",
+        README,
+        provider,
+        { tone: "recruiter", targetWords: 80, language: "German" },
+        METADATA,
+      );
+
+      const { system, user } = getRequest(provider);
+      expect(system).toContain(getSummaryTone("recruiter").instructions);
+      expect(system).toContain("Aim for about 80 words");
+      expect(system).toContain("Write the summary in German.");
+      expect(user).toContain("Repository Name: cli");
+    });
+
+    it("should send the rendered custom template as the user message", async () => {
+      const provider = createFakeProvider();
+
+      await generateRepoSummary(
+        "cli",
+        "A CLI",
+        README,
+        provider,
+        { tone: "custom", template: "Pitch {name} ({topics}) in one line. See {url}" },
+        METADATA,
+      );
+
+      expect(getRequest(provider).user).toBe(
+        "Pitch cli (cli, terminal) in one line. See https://x.dev",
+      );
+    });
+
+    it("should apply styles to content summaries", async () => {
+      const provider = createFakeProvider();
+
+      await generateContentSummary(
+        "Scaling",
+        "Partitioning saved us.",
+        "blog_post",
+        provider,
+        undefined,
+        undefined,
+        { tone: "academic" },
+      );
+
+      expect(getRequest(provider).system).toContain(getSummaryTone("academic").instructions);
+    });
+
+    it("should match the introduction to the summary tone and language", async () => {
+      const provider = createFakeProvider();
+
+      await generateUserIntroduction([{ name: "cli", summary: "A CLI" }], provider, {
+        tone: "casual",
+        language: "French",
+      });
+
+      const { system } = getRequest(provider);
+      expect(system).toContain("first-person casual");
+      expect(system).toContain("Write the introduction in French.");
+    });
+  });
+});
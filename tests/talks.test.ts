@@ -0,0 +1,188 @@
+import type { AddressInfo } from "node:net";
+import express from "express";
+import Parser from "rss-parser";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { generatePortfolioHtml } from "../server/lib/portfolio-generator.js";
+import {
+  createTalk,
+  getYouTubeFeedUrl,
+  getYouTubeTalks,
+  getYouTubeVideoId,
+} from "../server/lib/talks.js";
+import sourcesRoutes from "../server/routes/sources.js";
+
+const PLAYLIST_ID = "PLx0sYbCqOb8TBPRdmBHs5Iftvv9TPboYG";
+const CHANNEL_ID = "UC_x5XG1OV2P6uZZ5FSM9Ttw";
+
+const ATOM = `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns:yt="http://www.youtube.com/xml/schemas/2015" xmlns:media="http://search.yahoo.com/mrss/" xmlns="http://www.w3.org/2005/Atom">
+  <title>EngineConf 2025</title>
+  <entry>
+    <id>yt:video:dQw4w9WgXcQ</id>
+    <yt:videoId>dQw4w9WgXcQ</yt:videoId>
+    <title>Scaling Difference Engines</title>
+    <link rel="alternate" href="https://www.youtube.com/watch?v=dQw4w9WgXcQ"/>
+    <published>2025-05-20T10:00:00+00:00</published>
+    <media:group>
+      <media:title>Scaling Difference Engines</media:title>
+      <media:thumbnail url="https://i1.ytimg.com/vi/dQw4w9WgXcQ/hqdefault.jpg" width="480" height="360"/>
+      <media:description>How we computed tables at scale.</media:description>
+    </media:group>
+  </entry>
+</feed>`;
+
+describe("Talks", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should resolve YouTube channel and playlist feeds", () => {
+    const playlistFeed = `https://www.youtube.com/feeds/videos.xml?playlist_id=${PLAYLIST_ID}`;
+    const channelFeed = `https://www.youtube.com/feeds/videos.xml?channel_id=${CHANNEL_ID}`;
+
+    expect(getYouTubeFeedUrl(`https://www.youtube.com/playlist?list=${PLAYLIST_ID}`)).toBe(
+      playlistFeed,
+    );
+    expect(getYouTubeFeedUrl(PLAYLIST_ID)).toBe(playlistFeed);
+    expect(getYouTubeFeedUrl(`https://youtube.com/channel/${CHANNEL_ID}/videos`)).toBe(channelFeed);
+    expect(getYouTubeFeedUrl(channelFeed)).toBe(channelFeed);
+
+    expect(() => getYouTubeFeedUrl("https://www.youtube.com/@engineconf")).toThrow(
+      "Use the channel URL with its ID",
+    );
+    expect(() => getYouTubeFeedUrl("https://vimeo.com/channels/engineconf")).toThrow(
+      "Only YouTube channels and playlists are supported",
+    );
+  });
+
+  it("should read talks from a playlist feed", async () => {
+    const parseURL = vi.spyOn(Parser.prototype, "parseURL");
+    parseURL.mockImplementation(function (this: Parser) {
+      return this.parseString(ATOM);
+    });
+
+    const talks = await getYouTubeTalks(`https://www.youtube.com/playlist?list=${PLAYLIST_ID}`);
+
+    expect(talks).toEqual([
+      {
+        id: "talk-dQw4w9WgXcQ",
+        title: "Scaling Difference Engines",
+        description: "How we computed tables at scale.",
+        url: "https://www.youtube.com/watch?v=dQw4w9WgXcQ",
+        summary: null,
+        selected: false,
+        source: "talk",
+        // The playlist title names the conference
+        event: "EngineConf 2025",
+        date: "2025-05-20T10:00:00.000Z",
+        videoUrl: "https://www.youtube.com/watch?v=dQw4w9WgXcQ",
+        slidesUrl: null,
+        thumbnailUrl: "https://i1.ytimg.com/vi/dQw4w9WgXcQ/hqdefault.jpg",
+        tags: [],
+      },
+    ]);
+
+    // A channel is not an event
+    const channelTalks = await getYouTubeTalks(CHANNEL_ID);
+    expect(channelTalks[0].event).toBeNull();
+  });
+
+  it("should create talks from the manual entry form", () => {
+    const talk = createTalk({
+      title: " Scaling Difference Engines ",
+      event: "EngineConf 2025",
+      date: "2025-05-20",
+      videoUrl: "https://youtu.be/dQw4w9WgXcQ",
+      slidesUrl: "https://speakerdeck.com/ada/engines",
+    });
+
+    expect(talk).toMatchObject({
+      // Same ID as the video imported from the playlist
+      id: "talk-dQw4w9WgXcQ",
+      title: "Scaling Difference Engines",
+      url: "https://youtu.be/dQw4w9WgXcQ",
+      thumbnailUrl: "https://i.ytimg.com/vi/dQw4w9WgXcQ/hqdefault.jpg",
+    });
+
+    const slidesOnly = createTalk({ title: "Lightning talk", slidesUrl: "https://example.com" });
+    expect(slidesOnly.url).toBe("https://example.com");
+    expect(slidesOnly.thumbnailUrl).toBeNull();
+    expect(slidesOnly.id).toMatch(/^talk-[0-9a-f]{16}$/);
+
+    expect(getYouTubeVideoId("https://www.youtube.com/embed/dQw4w9WgXcQ")).toBe("dQw4w9WgXcQ");
+    expect(getYouTubeVideoId("https://example.com/watch?v=dQw4w9WgXcQ")).toBeNull();
+    expect(() => createTalk({ title: " " })).toThrow("Title is required");
+    expect(() => createTalk({ title: "Talk", videoUrl: "javascript:alert(1)" })).toThrow(
+      "Video URL must be an http(s) URL",
+    );
+    expect(() => createTalk({ title: "Talk", date: "someday" })).toThrow(
+      "Date must be a valid date",
+    );
+  });
+
+  it("should render talks with a lazy-loaded thumbnail and event metadata", () => {
+    const talk = createTalk({
+      title: "Scaling <Engines>",
+      event: "EngineConf 2025",
+      date: "2025-05-20",
+      videoUrl: "https://www.youtube.com/watch?v=dQw4w9WgXcQ",
+      slidesUrl: "https://speakerdeck.com/ada/engines",
+      description: "How we computed tables at scale.",
+    });
+
+    const html = generatePortfolioHtml("ada", [talk]);
+    expect(html).toContain("Scaling &lt;Engines&gt;");
+    expect(html).toContain("EngineConf 2025 · May 20, 2025");
+    expect(html).toContain(
+      'src="https://i.ytimg.com/vi/dQw4w9WgXcQ/hqdefault.jpg" alt="Video: Scaling &lt;Engines&gt;" loading="lazy"',
+    );
+    expect(html).toContain('title="View Slides"');
+    expect(html).not.toContain("<iframe");
+  });
+
+  describe("Routes", () => {
+    let server: ReturnType<express.Express["listen"]>;
+    let baseUrl: string;
+
+    beforeAll(() => {
+      const app = express();
+      app.use(express.json());
+      app.use("/api/sources", sourcesRoutes);
+      server = app.listen(0);
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(() => {
+      server.close();
+    });
+
+    it("should validate talks and feeds", async () => {
+      const talk = await fetch(`${baseUrl}/api/sources/talks`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title: "Lightning talk", event: "Meetup" }),
+      });
+      expect(talk.status).toBe(200);
+      expect((await talk.json()).talk).toMatchObject({ source: "talk", event: "Meetup" });
+
+      const untitled = await fetch(`${baseUrl}/api/sources/talks`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ event: "Meetup" }),
+      });
+      expect(untitled.status).toBe(400);
+      expect(await untitled.json()).toEqual({
+        error: "Invalid talk",
+        details: "Title is required",
+      });
+
+      const feed = await fetch(`${baseUrl}/api/sources/talks/youtube`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ feed: "https://example.com/feed.xml" }),
+      });
+      expect(feed.status).toBe(400);
+      expect((await feed.json()).error).toBe("Invalid YouTube channel or playlist");
+    });
+  });
+});